@@ -2,6 +2,8 @@ import { CharacterViewModelProvider } from "@/model/character-view-model-context
 import { CharacterBuilderPage } from "@/pages/character-builder-page";
 import { CharacterSheetPage } from "@/pages/character-sheet-page";
 import { CharactersPage } from "@/pages/characters-page";
+import { EncounterPage } from "@/pages/encounter-page";
+import { LevelUpPage } from "@/pages/level-up-page";
 import { RulesPage } from "@/pages/rules-page";
 import {
     Link,
@@ -23,6 +25,7 @@ function AppContent() {
     const menuItems = [
         { name: "Characters", path: "/", key: "characters" },
         { name: "Build Character", path: "/builder", key: "build" },
+        { name: "Encounter", path: "/encounter", key: "encounter" },
         { name: "Rules", path: "/rules", key: "rules" },
     ];
 
@@ -117,7 +120,9 @@ function AppContent() {
                 <Routes>
                     <Route path="/" element={<CharactersPage />} />
                     <Route path="/characters/:id" element={<CharacterSheetPage />} />
+                    <Route path="/characters/:id/level-up" element={<LevelUpPage />} />
                     <Route path="/builder" element={<CharacterBuilderPage />} />
+                    <Route path="/encounter" element={<EncounterPage />} />
                     <Route path="/rules" element={<RulesPage />} />
                 </Routes>
             </main>
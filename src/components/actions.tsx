@@ -1,51 +1,85 @@
+import { OVERCLOCK_RULES_BY_TYPE } from "@/data";
 import type { Action, Damage } from "@/model/character-view-model";
-import type { Rollable } from "@/types";
-import { Button, Card, CardBody, Chip } from "@heroui/react";
-import { showRollToast } from "./roll";
+import { rollAttack, rollablesToExpression } from "@/model/dice-utils";
+import type { AttackRollResult, RollMode } from "@/types";
+import { Button, Card, CardBody, Checkbox, Chip } from "@heroui/react";
+import { useState } from "react";
+import { D20RollButton } from "./d20-roll-button";
+import { showAttackRollToast, showRollToast } from "./roll";
+import { useRollLog } from "./roll-log-context";
 import { CardTitle, EmptyState, Stat } from "./typography";
 
-export const Actions = ({ actions }: { actions: Action[] }) => {
+const WEAPON_OVERCLOCK = OVERCLOCK_RULES_BY_TYPE.Weapon;
+
+interface ActionsProps {
+    actions: Action[];
+    /** Called after an Overclocked attack so its heat (and any Overheat Table roll) can be applied */
+    onOverclockedAttack?: (action: Action, result: AttackRollResult) => void;
+}
+
+export const Actions = ({ actions, onOverclockedAttack }: ActionsProps) => {
+    const [overclocked, setOverclocked] = useState<Set<string>>(new Set());
+    const logRoll = useRollLog();
+
     if (actions.length === 0) {
         return <EmptyState message="No actions available" />;
     }
 
-    const handleAttackRoll = (action: Action) => {
+    const toggleOverclock = (action: Action, isSelected: boolean) => {
+        const next = new Set(overclocked);
+        if (isSelected) {
+            next.add(action.name);
+        } else {
+            next.delete(action.name);
+        }
+        setOverclocked(next);
+    };
+
+    const handleAttackRoll = (action: Action, mode: RollMode) => {
         if (!action.hit || !action.damage) return;
 
-        // Roll attack (d20 + modifier)
-        const attackModifier = parseInt(action.hit.modifier);
-        const attackRollable: Rollable = {
-            count: 1,
-            die: 20,
-            bonus: attackModifier,
-        };
+        const isOverclocked = overclocked.has(action.name);
+        const result = rollAttack(
+            parseInt(action.hit.modifier),
+            [
+                action.damage,
+                ...(action.damage.additionalDamage || []),
+                ...(isOverclocked && WEAPON_OVERCLOCK.bonusDamage
+                    ? [WEAPON_OVERCLOCK.bonusDamage]
+                    : []),
+            ],
+            mode
+        );
+
+        const title = `${action.name} - ${isOverclocked ? "Overclocked " : ""}Attack`;
+        showAttackRollToast(`${title} (${action.damage.damageType})`, result);
+        logRoll("Attack", title, [result.attack]);
+        if (result.damage) {
+            logRoll(
+                "Damage",
+                `${action.name} - ${result.attack.criticalHit ? "Critical " : ""}Damage (${action.damage.damageType})`,
+                [result.damage]
+            );
+        }
 
-        showRollToast(`${action.name} - Attack Roll`, [attackRollable]);
+        if (isOverclocked) {
+            // The overclock bonus only applies to this attack
+            toggleOverclock(action, false);
+            onOverclockedAttack?.(action, result);
+        }
     };
 
     const handleDamageRoll = (action: Action) => {
         if (!action.damage) return;
 
-        const rollables: Rollable[] = [
-            {
-                count: action.damage.count,
-                die: action.damage.die,
-                bonus: action.damage.bonus,
-            },
-        ];
-
-        // Add additional damage from mods
-        if (action.damage.additionalDamage && action.damage.additionalDamage.length > 0) {
-            action.damage.additionalDamage.forEach((addDmg) => {
-                rollables.push({
-                    count: addDmg.count,
-                    die: addDmg.die,
-                    bonus: 0,
-                });
-            });
-        }
+        // Weapon damage plus any additional damage from mods, rolled as one expression
+        const expression = rollablesToExpression([
+            action.damage,
+            ...(action.damage.additionalDamage || []),
+        ]);
 
-        showRollToast(`${action.name} - Damage (${action.damage.damageType})`, rollables);
+        const title = `${action.name} - Damage (${action.damage.damageType})`;
+        logRoll("Damage", title, showRollToast(title, [expression]));
     };
 
     return (
@@ -56,9 +90,16 @@ export const Actions = ({ actions }: { actions: Action[] }) => {
                         {/* Action Name and Type */}
                         <div className="flex items-start justify-between mb-2">
                             <CardTitle>{action.name}</CardTitle>
-                            <Chip size="sm" variant="flat" color="primary">
-                                {action.type}
-                            </Chip>
+                            <div className="flex gap-1">
+                                {action.jammed && (
+                                    <Chip size="sm" variant="solid" color="danger">
+                                        Jammed
+                                    </Chip>
+                                )}
+                                <Chip size="sm" variant="flat" color="primary">
+                                    {action.type}
+                                </Chip>
+                            </div>
                         </div>
 
                         {/* Attack Info */}
@@ -69,13 +110,15 @@ export const Actions = ({ actions }: { actions: Action[] }) => {
                                     label="Hit"
                                     value={
                                         <span className="text-primary">
-                                            <Button
-                                                variant="bordered"
-                                                size="sm"
-                                                onPress={() => handleAttackRoll(action)}
+                                            <D20RollButton
+                                                title={`${action.name} - Attack`}
+                                                modifier={parseInt(action.hit.modifier)}
+                                                defaultMode={action.mode}
+                                                isDisabled={action.jammed}
+                                                onRoll={(mode) => handleAttackRoll(action, mode)}
                                             >
                                                 {action.hit.modifier}
-                                            </Button>
+                                            </D20RollButton>
                                         </span>
                                     }
                                 />
@@ -101,6 +144,24 @@ export const Actions = ({ actions }: { actions: Action[] }) => {
 
                                 {/* Range */}
                                 {action.range && <Stat label="Range" value={action.range} />}
+
+                                {/* Overclock */}
+                                {onOverclockedAttack && (
+                                    <Checkbox
+                                        size="sm"
+                                        color="warning"
+                                        isDisabled={action.jammed}
+                                        isSelected={overclocked.has(action.name)}
+                                        onValueChange={(isSelected) =>
+                                            toggleOverclock(action, isSelected)
+                                        }
+                                    >
+                                        <span className="text-xs">
+                                            Overclock (+{WEAPON_OVERCLOCK.heatGenerated} Heat,{" "}
+                                            {WEAPON_OVERCLOCK.effect.replace(/\.$/, "")})
+                                        </span>
+                                    </Checkbox>
+                                )}
                             </div>
                         )}
 
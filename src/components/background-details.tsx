@@ -0,0 +1,35 @@
+import { EQUIPMENT_BY_ID } from "@/data";
+import { formatCurrency } from "@/model/character-utils";
+import type { Background } from "@/types";
+import { CardTitle, Description, Stat, StatRow } from "./typography";
+
+interface BackgroundDetailsProps {
+    background: Background;
+}
+
+/**
+ * What a background grants: proficiencies, languages, equipment, currency and its feature
+ */
+export const BackgroundDetails = ({ background }: BackgroundDetailsProps) => (
+    <div>
+        <Description>{background.description}</Description>
+        <StatRow>
+            <Stat label="Skills" value={background.skillProficiencies.join(", ")} />
+            {background.toolProficiencies.length > 0 && (
+                <Stat label="Tools" value={background.toolProficiencies.join(", ")} />
+            )}
+            {background.languages.length > 0 && (
+                <Stat label="Languages" value={background.languages.join(", ")} />
+            )}
+        </StatRow>
+        <StatRow>
+            <Stat
+                label="Equipment"
+                value={background.equipment.map((id) => EQUIPMENT_BY_ID[id]?.name ?? id).join(", ")}
+            />
+            <Stat label="Currency" value={formatCurrency(background.currency)} />
+        </StatRow>
+        <CardTitle className="mt-2">{background.feature.name}</CardTitle>
+        <Description>{background.feature.description}</Description>
+    </div>
+);
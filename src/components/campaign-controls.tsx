@@ -0,0 +1,126 @@
+import { calculateLevelForExperience, splitExperience } from "@/model/character-utils";
+import { useCharacterViewModelContext } from "@/model/character-view-model-context";
+import { useCampaignSettings } from "@/model/use-campaign-settings";
+import type { ProgressionMode } from "@/types";
+import {
+    Button,
+    Card,
+    CardBody,
+    Checkbox,
+    CheckboxGroup,
+    Input,
+    Select,
+    SelectItem,
+    Switch,
+} from "@heroui/react";
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { CardTitle, TertiaryText } from "./typography";
+
+const PROGRESSION_DESCRIPTIONS: Record<ProgressionMode, string> = {
+    Experience: "Characters earn XP and can level up when they reach the next threshold",
+    Milestone: "Characters level up when the GM says so; XP isn't tracked",
+};
+
+/**
+ * Campaign-wide progression setting, and awarding XP to a group of characters
+ */
+export function CampaignControls() {
+    const navigate = useNavigate();
+    const { settings, updateSettings } = useCampaignSettings();
+    const { getAllCharacters, updateCharacter } = useCharacterViewModelContext();
+    const characters = getAllCharacters();
+
+    const [award, setAward] = useState("");
+    const [recipientIds, setRecipientIds] = useState<string[]>([]);
+    const [splitAward, setSplitAward] = useState(true);
+
+    const amount = parseInt(award, 10);
+    const share = splitAward ? splitExperience(amount, recipientIds.length) : amount;
+
+    const handleAward = () => {
+        for (const characterId of recipientIds) {
+            const { summary, experience } = characters.find((vm) => vm.summary.id === characterId)!;
+            updateCharacter(characterId, (vm) => vm.awardExperience(share));
+
+            const level = calculateLevelForExperience(experience.total + share);
+            if (level > Math.max(experience.level, summary.level)) {
+                toast.success(`${summary.name} has enough XP for level ${level}`, {
+                    action: {
+                        label: "Level Up",
+                        onClick: () => navigate(`/characters/${characterId}/level-up`),
+                    },
+                });
+            }
+        }
+        setAward("");
+    };
+
+    return (
+        <Card style={{ marginBottom: "1.5rem" }}>
+            <CardBody className="space-y-3">
+                <CardTitle>Campaign</CardTitle>
+                <Select
+                    label="Progression"
+                    className="max-w-xs"
+                    selectedKeys={[settings.progression]}
+                    description={PROGRESSION_DESCRIPTIONS[settings.progression]}
+                    onChange={(e) =>
+                        e.target.value &&
+                        updateSettings({
+                            ...settings,
+                            progression: e.target.value as ProgressionMode,
+                        })
+                    }
+                >
+                    <SelectItem key="Experience">Experience Points</SelectItem>
+                    <SelectItem key="Milestone">Milestones</SelectItem>
+                </Select>
+
+                {settings.progression === "Experience" && characters.length > 0 && (
+                    <div className="space-y-2">
+                        <CheckboxGroup
+                            label="Award XP to"
+                            orientation="horizontal"
+                            value={recipientIds}
+                            onValueChange={setRecipientIds}
+                        >
+                            {characters.map(({ summary, experience }) => (
+                                <Checkbox key={summary.id} value={summary.id}>
+                                    {summary.name}{" "}
+                                    <TertiaryText>({experience.total} XP)</TertiaryText>
+                                </Checkbox>
+                            ))}
+                        </CheckboxGroup>
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <Input
+                                aria-label="Experience points to award"
+                                type="number"
+                                size="sm"
+                                className="w-32"
+                                placeholder="XP"
+                                min={0}
+                                value={award}
+                                onValueChange={setAward}
+                            />
+                            <Switch size="sm" isSelected={splitAward} onValueChange={setSplitAward}>
+                                Split between them
+                            </Switch>
+                            <Button
+                                size="sm"
+                                color="primary"
+                                isDisabled={!(share > 0) || recipientIds.length === 0}
+                                onPress={handleAward}
+                            >
+                                {share > 0 && recipientIds.length > 0
+                                    ? `Award ${share} XP each`
+                                    : "Award"}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </CardBody>
+        </Card>
+    );
+}
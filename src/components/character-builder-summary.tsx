@@ -1,5 +1,5 @@
 import { AbilityScores as AbilityScoresComponent } from "@/components/ability-scores";
-import { CLASSES, SPECIES } from "@/data";
+import { BACKGROUNDS_BY_ID, CLASSES, SPECIES } from "@/data";
 import type { AbilityScores, ClassConfiguration, ClassType, SpeciesType } from "@/types";
 import { Card, CardBody, CardHeader, Chip, Divider } from "@heroui/react";
 
@@ -9,7 +9,7 @@ interface CharacterBuilderSummaryProps {
     classType: ClassType | "";
     classConfiguration: Partial<ClassConfiguration>;
     abilityScores: AbilityScores;
-    background: string;
+    background: string; // background ID, or a custom background's name
 }
 
 export function CharacterBuilderSummary({
@@ -22,6 +22,7 @@ export function CharacterBuilderSummary({
 }: CharacterBuilderSummaryProps) {
     const selectedSpecies = SPECIES.find((s) => s.type === species);
     const selectedClass = CLASSES.find((c) => c.type === classType);
+    const selectedBackground = BACKGROUNDS_BY_ID[background];
 
     // Calculate final ability scores with species bonuses
     const finalAbilityScores = { ...abilityScores };
@@ -173,7 +174,29 @@ export function CharacterBuilderSummary({
                                 >
                                     BACKGROUND
                                 </div>
-                                <div style={{ fontWeight: 600 }}>{background}</div>
+                                <div style={{ fontWeight: 600, marginBottom: "0.25rem" }}>
+                                    {selectedBackground?.name ?? background}
+                                </div>
+                                {selectedBackground && (
+                                    <div style={{ fontSize: "0.875rem", opacity: 0.8 }}>
+                                        <div>
+                                            Skills:{" "}
+                                            {selectedBackground.skillProficiencies.join(", ")}
+                                        </div>
+                                        {selectedBackground.toolProficiencies.length > 0 && (
+                                            <div>
+                                                Tools:{" "}
+                                                {selectedBackground.toolProficiencies.join(", ")}
+                                            </div>
+                                        )}
+                                        {selectedBackground.languages.length > 0 && (
+                                            <div>
+                                                Languages: {selectedBackground.languages.join(", ")}
+                                            </div>
+                                        )}
+                                        <div>Feature: {selectedBackground.feature.name}</div>
+                                    </div>
+                                )}
                             </div>
                         </>
                     )}
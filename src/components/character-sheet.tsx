@@ -1,8 +1,25 @@
 import { AbilityScores } from "@/components/ability-scores";
-import type { AbilityScore, SavingThrow } from "@/model/character-view-model";
+import { OVERCLOCK_RULES_BY_TYPE } from "@/data";
+import { calculateLevelForExperience } from "@/model/character-utils";
+import type { AbilityScore, Action, SavingThrow } from "@/model/character-view-model";
 import { useCharacterViewModelContext } from "@/model/character-view-model-context";
+import type {
+    CastSpellOptions,
+    LongRestOptions,
+    ShortRestOptions,
+} from "@/model/mutable-character-view-model";
+import { useCampaignSettings } from "@/model/use-campaign-settings";
+import type {
+    AttackRollResult,
+    Condition,
+    Language,
+    LanguageLearningMethodType,
+    Personality,
+    Spell,
+} from "@/types";
 import {
     Avatar,
+    Button,
     Card,
     CardBody,
     CardHeader,
@@ -18,16 +35,26 @@ import {
     useDisclosure,
 } from "@heroui/react";
 import { useEffect, useState } from "react";
+import { Link as RouterLink, useNavigate } from "react-router-dom";
+import { toast } from "sonner";
 import { Actions } from "./actions";
+import { Conditions, Exhaustion } from "./conditions";
+import { D20RollButton } from "./d20-roll-button";
 import { Drones } from "./drones";
+import { ExperienceBar } from "./experience-bar";
 import { Features } from "./features";
+import { HeatBar } from "./heat-bar";
 import { Inventory } from "./inventory";
+import { Languages } from "./languages";
 import { Mindcraft } from "./mindcraft";
 import { Mods } from "./mods";
+import { PersonalityPanel } from "./personality";
 import { PointBar } from "./point-bar";
-import { RollButton } from "./roll-button";
+import { RestControls } from "./rest-controls";
+import { RollHistory } from "./roll-history";
 import { Skills } from "./skills";
 import { Spells } from "./spells";
+import { Timeline } from "./timeline";
 
 interface CharacterSheetProps {
     id: string;
@@ -41,20 +68,57 @@ type SectionKey =
     | "features"
     | "mindcraft"
     | "mods"
-    | "drones";
+    | "drones"
+    | "personality"
+    | "languages"
+    | "rolls"
+    | "history";
 
 export function CharacterSheet({ id }: CharacterSheetProps) {
     const [isMobile, setIsMobile] = useState(false);
     const [activeSection, setActiveSection] = useState<SectionKey>("skills");
     const { isOpen, onOpen, onClose } = useDisclosure();
+    const navigate = useNavigate();
+    const { settings } = useCampaignSettings();
 
     const { getCharacter, updateCharacter } = useCharacterViewModelContext();
-    const { summary, abilityScores, savingThrows, skills } = getCharacter(id);
+    const {
+        summary,
+        hitDice,
+        experience,
+        heat,
+        heatStress,
+        exhaustion,
+        abilityScores,
+        savingThrows,
+        skills,
+        conditions,
+        concentrationDisadvantage,
+    } = getCharacter(id);
+    const { cannotOverclock } = getCharacter(id).conditionEffects;
+    const powersSuppressedBy = conditions
+        .filter((c) => c.effects.cannotManifestPowers)
+        .map((c) => c.condition);
+    const powerSaveDC = getCharacter(id).spellcasting.find(
+        (stats) => stats.classType === "Mindweaver"
+    )?.saveDC;
 
     const showSpellsTab = getCharacter(id).spellType !== "None";
     const spellType = getCharacter(id).spellType;
+    // Reactor Tuning or Safe Overchannel uses left for risk-free Overclocks and Overchannels
+    const safeUseFeature =
+        OVERCLOCK_RULES_BY_TYPE[spellType === "Miracles" ? "Overchannel" : "Formula"].safeUses;
+    const safeUses =
+        getCharacter(id).features.find(
+            (display) =>
+                display.source === safeUseFeature?.source &&
+                display.feature.name === safeUseFeature?.feature
+        )?.uses?.current ?? 0;
     const isArtifex = summary.class === "Artifex" || summary.fullClass.includes("Artifex");
     const showDronesTab = isArtifex && getCharacter(id).drones.length > 0;
+    const hasSteamVentHarness = getCharacter(id).inventory.items.some(
+        (item) => item.name === "Steam Vent Harness"
+    );
 
     // Detect mobile screen size
     useEffect(() => {
@@ -84,14 +148,104 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
 
     const handleHeatPointsChange = (delta: number) => {
         updateCharacter(id, (vm) => {
-            const newValue = Math.max(
-                0,
-                Math.min(vm.summary.heatPoints.maximum, vm.summary.heatPoints.current + delta)
-            );
-            return vm.updateHeatPoints(newValue);
+            if (delta > 0) {
+                return vm.gainHeat(delta, "Manual adjustment");
+            }
+            return vm.updateHeatPoints(Math.max(0, vm.heat.current + delta));
+        });
+    };
+
+    const handleClearOverheatEffect = (effectId: string) => {
+        updateCharacter(id, (vm) => vm.clearOverheatEffect(effectId));
+    };
+
+    const handleHeatStressChange = (delta: number) => {
+        updateCharacter(id, (vm) => vm.updateHeatStressLevel(vm.heatStress.level + delta));
+    };
+
+    const handleVentHarness = () => {
+        updateCharacter(id, (vm) => vm.useSteamVentHarness());
+    };
+
+    const handleOverclockedAttack = (action: Action, result: AttackRollResult) => {
+        updateCharacter(id, (vm) => {
+            vm.gainHeat(OVERCLOCK_RULES_BY_TYPE.Weapon.heatGenerated, `Overclocked ${action.name}`);
+            // A natural 1 during an Overclocked action triggers an immediate Overheat Table roll
+            return result.attack.criticalMiss ? vm.rollOverheatTable() : vm.toCharacter();
         });
     };
 
+    const handleAddCondition = (condition: Condition, durationRounds?: number) => {
+        updateCharacter(id, (vm) => vm.addCondition(condition, durationRounds));
+    };
+
+    const handleRemoveCondition = (condition: Condition) => {
+        updateCharacter(id, (vm) => vm.removeCondition(condition));
+    };
+
+    const handleExhaustionChange = (delta: number) => {
+        updateCharacter(id, (vm) =>
+            delta > 0 ? vm.gainExhaustion(delta) : vm.removeExhaustion(-delta)
+        );
+    };
+
+    const handleSpendFeatureUse = (source: string, featureName: string) => {
+        updateCharacter(id, (vm) => vm.spendFeatureUse(source, featureName));
+    };
+
+    const handleSpendModUse = (inventoryModId: string) => {
+        updateCharacter(id, (vm) => vm.spendModUse(inventoryModId));
+    };
+
+    const handleShortRest = (options: ShortRestOptions) => {
+        updateCharacter(id, (vm) => vm.takeShortRest(options));
+    };
+
+    const handleLongRest = (options: LongRestOptions): boolean =>
+        updateCharacter(id, (vm) => vm.takeLongRest(options));
+
+    const handleAwardExperience = (experiencePoints: number) => {
+        if (!updateCharacter(id, (vm) => vm.awardExperience(experiencePoints))) return;
+
+        // Prompt once, when this award crosses the next level's threshold
+        const level = calculateLevelForExperience(experience.total + experiencePoints);
+        if (level > Math.max(experience.level, summary.level)) {
+            toast.success(`${summary.name} has enough XP for level ${level}`, {
+                action: {
+                    label: "Level Up",
+                    onClick: () => navigate(`/characters/${id}/level-up`),
+                },
+            });
+        }
+    };
+
+    const handlePersonalityChange = (personality: Personality) => {
+        updateCharacter(id, (vm) => vm.updatePersonality(personality));
+    };
+
+    const handleLearnLanguage = (
+        language: Language,
+        method: LanguageLearningMethodType,
+        days: number
+    ) => {
+        updateCharacter(id, (vm) => vm.learnLanguage(language, method, days));
+    };
+
+    const handleCastSpell = (spell: Spell, options: CastSpellOptions): boolean =>
+        updateCharacter(id, (vm) => vm.castSpell(spell.name, options));
+
+    const handleOverclockBacklash = () => {
+        updateCharacter(id, (vm) => vm.rollOverheatTable());
+    };
+
+    const handleFaithFeedbackFailed = () => {
+        updateCharacter(id, (vm) => vm.sufferFaithFeedback());
+    };
+
+    const handleClearRollHistory = () => {
+        updateCharacter(id, (vm) => vm.clearRollHistory());
+    };
+
     const handleAetherFluxChange = (delta: number) => {
         updateCharacter(id, (vm) => {
             if (!vm.summary.aetherFluxPoints) return vm.toCharacter();
@@ -182,6 +336,31 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                     {summary.background}
                                 </Chip>
                             )}
+                            <RestControls
+                                hitDice={hitDice}
+                                constitutionModifier={abilityScores.constitution.modifier}
+                                preparableSpells={getCharacter(id).preparableSpells}
+                                preparedSpells={getCharacter(id).preparedSpells}
+                                maxPrepared={getCharacter(id).spellLimits.spellsPrepared}
+                                onShortRest={handleShortRest}
+                                onLongRest={handleLongRest}
+                            />
+                            <Button
+                                as={RouterLink}
+                                to={`/characters/${id}/level-up`}
+                                size="sm"
+                                color="primary"
+                                variant={
+                                    settings.progression === "Experience" &&
+                                    experience.level > summary.level
+                                        ? "solid"
+                                        : "flat"
+                                }
+                                isDisabled={summary.level >= 20}
+                                style={{ marginTop: "0.5rem" }}
+                            >
+                                Level Up
+                            </Button>
                         </div>
 
                         {/* Combat Stats */}
@@ -252,12 +431,14 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                             onIncrement={() => handleHitPointsChange(1)}
                             onDecrement={() => handleHitPointsChange(-1)}
                         />
-                        <PointBar
-                            label="Heat Points"
-                            points={summary.heatPoints}
-                            invert={true}
+                        <HeatBar
+                            heat={heat}
+                            heatStress={heatStress}
                             onIncrement={() => handleHeatPointsChange(1)}
                             onDecrement={() => handleHeatPointsChange(-1)}
+                            onClearEffect={handleClearOverheatEffect}
+                            onHeatStressChange={handleHeatStressChange}
+                            onVentHarness={hasSteamVentHarness ? handleVentHarness : undefined}
                         />
                         {summary.aetherFluxPoints?.maximum && (
                             <PointBar
@@ -275,7 +456,25 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                 onDecrement={() => handleResonanceChargesChange(-1)}
                             />
                         )}
+                        {settings.progression === "Experience" && (
+                            <ExperienceBar
+                                experience={experience}
+                                level={summary.level}
+                                onAward={handleAwardExperience}
+                            />
+                        )}
                     </div>
+
+                    <Conditions
+                        conditions={conditions}
+                        onAdd={handleAddCondition}
+                        onRemove={handleRemoveCondition}
+                    />
+                    <Exhaustion
+                        exhaustion={exhaustion}
+                        heatStressLevels={heatStress.exhaustionLevels}
+                        onChange={handleExhaustionChange}
+                    />
                 </CardBody>
             </Card>
 
@@ -309,6 +508,10 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                             {showDronesTab ? <SelectItem key="drones">Drones</SelectItem> : <></>}
                             <SelectItem key="features">Features</SelectItem>
                             <SelectItem key="mindcraft">Mindcraft</SelectItem>
+                            <SelectItem key="personality">Personality</SelectItem>
+                            <SelectItem key="languages">Languages</SelectItem>
+                            <SelectItem key="rolls">Roll History</SelectItem>
+                            <SelectItem key="history">History</SelectItem>
                         </Select>
                     </>
                 )}
@@ -350,7 +553,9 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                         keyof typeof abilityScores,
                                         SavingThrow,
                                     ][]
-                                ).map(([ability, { proficient, modifier }]) => {
+                                ).map(([ability, savingThrow]) => {
+                                    const { proficient, modifier, rollable, mode, autoFail } =
+                                        savingThrow;
                                     return (
                                         <div
                                             key={ability}
@@ -373,14 +578,21 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                             >
                                                 {proficient && "● "}
                                                 {ability}
+                                                {autoFail && (
+                                                    <span className="ml-2 text-xs text-danger normal-case">
+                                                        Auto-fail
+                                                    </span>
+                                                )}
                                             </span>
                                             <span style={{ fontSize: "0.875rem", fontWeight: 600 }}>
-                                                <RollButton
+                                                <D20RollButton
                                                     title={`${ability.substring(0, 3).toUpperCase()} Save`}
-                                                    rollables={[savingThrows[ability].rollable]}
+                                                    modifier={rollable.bonus || 0}
+                                                    rollType="Saving Throw"
+                                                    defaultMode={mode}
                                                 >
                                                     {modifier}
-                                                </RollButton>
+                                                </D20RollButton>
                                             </span>
                                         </div>
                                     );
@@ -405,7 +617,14 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                 <Tab key="actions" title="Actions">
                                     <div style={{ padding: "1rem" }}>
                                         <p style={{ opacity: 0.7 }}>
-                                            <Actions actions={getCharacter(id).actions} />
+                                            <Actions
+                                                actions={getCharacter(id).actions}
+                                                onOverclockedAttack={
+                                                    cannotOverclock
+                                                        ? undefined
+                                                        : handleOverclockedAttack
+                                                }
+                                            />
                                         </p>
                                     </div>
                                 </Tab>
@@ -421,7 +640,10 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                 </Tab>
                                 <Tab key="mods" title="Mods">
                                     <div style={{ padding: "1rem" }}>
-                                        <Mods inventory={getCharacter(id).inventory} />
+                                        <Mods
+                                            inventory={getCharacter(id).inventory}
+                                            onSpendUse={handleSpendModUse}
+                                        />
                                     </div>
                                 </Tab>
                                 {showSpellsTab && (
@@ -434,6 +656,27 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                                         : "Resonance Charges"
                                                 }
                                                 spells={getCharacter(id).spells}
+                                                maxSpellLevel={getCharacter(id).maxSpellLevel}
+                                                characterLevel={summary.level}
+                                                spellcasting={getCharacter(id).spellcasting}
+                                                attackMode={getCharacter(id).spellAttackMode}
+                                                unpreparedSpells={getCharacter(id).unpreparedSpells}
+                                                feedbackModifier={abilityScores.wisdom.modifier}
+                                                safeUses={safeUses}
+                                                concentrationDisadvantage={
+                                                    concentrationDisadvantage
+                                                }
+                                                onCast={handleCastSpell}
+                                                onOverclockBacklash={
+                                                    spellType === "Formulae" && !cannotOverclock
+                                                        ? handleOverclockBacklash
+                                                        : undefined
+                                                }
+                                                onFaithFeedbackFailed={
+                                                    spellType === "Miracles"
+                                                        ? handleFaithFeedbackFailed
+                                                        : undefined
+                                                }
                                             />
                                         </div>
                                     </Tab>
@@ -456,12 +699,50 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                 )}
                                 <Tab key="features" title="Features + Traits">
                                     <div style={{ padding: "1rem" }}>
-                                        <Features features={getCharacter(id).features} />
+                                        <Features
+                                            features={getCharacter(id).features}
+                                            onSpendUse={handleSpendFeatureUse}
+                                        />
                                     </div>
                                 </Tab>
                                 <Tab key="mindcraft" title="Mindcraft">
                                     <div style={{ padding: "1rem" }}>
-                                        <Mindcraft powers={getCharacter(id)!.mindcraftPowers} />
+                                        <Mindcraft
+                                            powers={getCharacter(id)!.mindcraftPowers}
+                                            saveDC={powerSaveDC}
+                                            suppressedBy={powersSuppressedBy}
+                                        />
+                                    </div>
+                                </Tab>
+                                <Tab key="personality" title="Personality">
+                                    <div style={{ padding: "1rem" }}>
+                                        <PersonalityPanel
+                                            personality={getCharacter(id).personality}
+                                            table={getCharacter(id).personalityTable}
+                                            onChange={handlePersonalityChange}
+                                        />
+                                    </div>
+                                </Tab>
+                                <Tab key="languages" title="Languages">
+                                    <div style={{ padding: "1rem" }}>
+                                        <Languages
+                                            languages={getCharacter(id).languages}
+                                            training={getCharacter(id).languageTraining}
+                                            onLearn={handleLearnLanguage}
+                                        />
+                                    </div>
+                                </Tab>
+                                <Tab key="rolls" title="Roll History">
+                                    <div style={{ padding: "1rem" }}>
+                                        <RollHistory
+                                            entries={getCharacter(id).rollHistory}
+                                            onClear={handleClearRollHistory}
+                                        />
+                                    </div>
+                                </Tab>
+                                <Tab key="history" title="History">
+                                    <div style={{ padding: "1rem" }}>
+                                        <Timeline events={getCharacter(id).timeline} />
                                     </div>
                                 </Tab>
                             </Tabs>
@@ -493,7 +774,9 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                 ? "Features + Traits"
                                 : activeSection === "drones"
                                   ? "Drones"
-                                  : activeSection}
+                                  : activeSection === "rolls"
+                                    ? "Roll History"
+                                    : activeSection}
                         </h3>
                     </ModalHeader>
                     <ModalBody>
@@ -503,7 +786,12 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                             </p>
                         )}
                         {activeSection === "actions" && (
-                            <Actions actions={getCharacter(id).actions} />
+                            <Actions
+                                actions={getCharacter(id).actions}
+                                onOverclockedAttack={
+                                    cannotOverclock ? undefined : handleOverclockedAttack
+                                }
+                            />
                         )}
                         {activeSection === "inventory" && (
                             <Inventory inventory={getCharacter(id).inventory} characterId={id} />
@@ -514,13 +802,36 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                                     spellType === "Formulae" ? "Aether Flux" : "Resonance Charges"
                                 }
                                 spells={getCharacter(id).spells}
+                                maxSpellLevel={getCharacter(id).maxSpellLevel}
+                                characterLevel={summary.level}
+                                spellcasting={getCharacter(id).spellcasting}
+                                attackMode={getCharacter(id).spellAttackMode}
+                                unpreparedSpells={getCharacter(id).unpreparedSpells}
+                                feedbackModifier={abilityScores.wisdom.modifier}
+                                safeUses={safeUses}
+                                concentrationDisadvantage={concentrationDisadvantage}
+                                onCast={handleCastSpell}
+                                onOverclockBacklash={
+                                    spellType === "Formulae" && !cannotOverclock
+                                        ? handleOverclockBacklash
+                                        : undefined
+                                }
+                                onFaithFeedbackFailed={
+                                    spellType === "Miracles" ? handleFaithFeedbackFailed : undefined
+                                }
                             />
                         )}
                         {activeSection === "features" && (
-                            <Features features={getCharacter(id).features} />
+                            <Features
+                                features={getCharacter(id).features}
+                                onSpendUse={handleSpendFeatureUse}
+                            />
                         )}
                         {activeSection === "mods" && (
-                            <Mods inventory={getCharacter(id).inventory} />
+                            <Mods
+                                inventory={getCharacter(id).inventory}
+                                onSpendUse={handleSpendModUse}
+                            />
                         )}
                         {showDronesTab && activeSection === "drones" && (
                             <Drones
@@ -531,7 +842,34 @@ export function CharacterSheet({ id }: CharacterSheetProps) {
                             />
                         )}
                         {activeSection === "mindcraft" && (
-                            <Mindcraft powers={getCharacter(id)!.mindcraftPowers} />
+                            <Mindcraft
+                                powers={getCharacter(id)!.mindcraftPowers}
+                                saveDC={powerSaveDC}
+                                suppressedBy={powersSuppressedBy}
+                            />
+                        )}
+                        {activeSection === "personality" && (
+                            <PersonalityPanel
+                                personality={getCharacter(id).personality}
+                                table={getCharacter(id).personalityTable}
+                                onChange={handlePersonalityChange}
+                            />
+                        )}
+                        {activeSection === "languages" && (
+                            <Languages
+                                languages={getCharacter(id).languages}
+                                training={getCharacter(id).languageTraining}
+                                onLearn={handleLearnLanguage}
+                            />
+                        )}
+                        {activeSection === "rolls" && (
+                            <RollHistory
+                                entries={getCharacter(id).rollHistory}
+                                onClear={handleClearRollHistory}
+                            />
+                        )}
+                        {activeSection === "history" && (
+                            <Timeline events={getCharacter(id).timeline} />
                         )}
                     </ModalBody>
                 </ModalContent>
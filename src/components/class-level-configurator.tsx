@@ -1,6 +1,6 @@
 import { useEffect, useState } from "react";
 import { Card, CardBody, Divider } from "@heroui/react";
-import type { ClassConfiguration, ClassType, SubclassType } from "@/types";
+import type { Character, ClassConfiguration, ClassType, SubclassType } from "@/types";
 import {
     classConfigurationService,
     type LevelConfiguration,
@@ -16,6 +16,8 @@ interface ClassLevelConfiguratorProps {
     classType: ClassType;
     level: number;
     existingConfig?: ClassConfiguration;
+    /** The character leveling up; spell selection then covers only the spells gained */
+    character?: Character;
     onConfigurationChange: (config: Partial<ClassConfiguration>) => void;
     onValidationChange: (valid: boolean) => void;
 }
@@ -28,6 +30,7 @@ export function ClassLevelConfigurator({
     classType,
     level,
     existingConfig,
+    character,
     onConfigurationChange,
     onValidationChange,
 }: ClassLevelConfiguratorProps) {
@@ -52,20 +55,26 @@ export function ClassLevelConfigurator({
             const options = classConfigurationService.getAvailableOptions(
                 classType,
                 level,
-                existingConfig
+                existingConfig,
+                character
             );
             setLevelConfig(options);
         } catch (error) {
             console.error("Error fetching class configuration options:", error);
         }
-    }, [classType, level, existingConfig]);
+    }, [classType, level, existingConfig, character]);
 
     // Validate configuration whenever it changes
     useEffect(() => {
-        const result = classConfigurationService.validateConfiguration(classType, level, config);
+        const result = classConfigurationService.validateConfiguration(
+            classType,
+            level,
+            config,
+            character
+        );
         setValidation(result);
         onValidationChange(result.valid);
-    }, [config, classType, level, onValidationChange]);
+    }, [config, classType, level, character, onValidationChange]);
 
     // Emit configuration changes
     useEffect(() => {
@@ -128,9 +137,7 @@ export function ClassLevelConfigurator({
                     <CardTitle>
                         Configure {classType} - Level {level}
                     </CardTitle>
-                    <Description>
-                        Complete all required selections to proceed with character creation.
-                    </Description>
+                    <Description>Complete all required selections to continue.</Description>
 
                     {/* Validation Errors */}
                     {validation.errors.length > 0 && (
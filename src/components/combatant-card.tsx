@@ -0,0 +1,189 @@
+import { CONDITIONS } from "@/data";
+import type { Combatant, Condition, Creature, Points } from "@/types";
+import { Button, Card, CardBody, Chip, Input, Select, SelectItem } from "@heroui/react";
+import { useState } from "react";
+import { PointBar } from "./point-bar";
+import { StatBlock } from "./stat-block";
+import { CardTitle, Stat, StatRow } from "./typography";
+
+const TYPE_COLORS: Record<Combatant["type"], "primary" | "secondary" | "danger"> = {
+    Character: "primary",
+    Drone: "secondary",
+    Creature: "danger",
+};
+
+interface CombatantCardProps {
+    combatant: Combatant;
+    isActive: boolean;
+    hitPoints?: Points; // from the character sheet for characters and drones
+    heatPoints?: Points; // creatures don't track heat
+    creature?: Creature; // stat block of a bestiary creature
+    onInitiativeChange: (initiative: number) => void;
+    onHitPointChange: (delta: number) => void; // healing if positive, damage if negative
+    onHeatChange?: (delta: number) => void;
+    onConditionsChange: (conditions: Condition[]) => void;
+    onConcentrationChange: (concentration: string | undefined) => void;
+    onRemove: () => void;
+}
+
+/**
+ * A combatant in the encounter tracker: initiative, Armor Class, hit points, heat,
+ * conditions and concentration
+ */
+export const CombatantCard = ({
+    combatant,
+    isActive,
+    hitPoints,
+    heatPoints,
+    creature,
+    onInitiativeChange,
+    onHitPointChange,
+    onHeatChange,
+    onConditionsChange,
+    onConcentrationChange,
+    onRemove,
+}: CombatantCardProps) => {
+    const [amount, setAmount] = useState("");
+    const [showStatBlock, setShowStatBlock] = useState(false);
+    const value = parseInt(amount);
+    const isValidAmount = !isNaN(value) && value > 0;
+
+    const handleHitPointChange = (delta: number) => {
+        onHitPointChange(delta);
+        setAmount("");
+    };
+
+    return (
+        <Card className={isActive ? "border-2 border-primary" : "border border-default-200"}>
+            <CardBody className="p-3 space-y-2">
+                {/* Header */}
+                <div className="flex items-center gap-2 flex-wrap">
+                    <Input
+                        aria-label={`${combatant.name} initiative`}
+                        type="number"
+                        size="sm"
+                        className="w-20"
+                        placeholder="Init"
+                        value={combatant.initiative?.toString() ?? ""}
+                        onValueChange={(initiative) => {
+                            const parsed = parseInt(initiative);
+                            if (!isNaN(parsed)) onInitiativeChange(parsed);
+                        }}
+                    />
+                    <CardTitle>{combatant.name}</CardTitle>
+                    <Chip size="sm" variant="flat" color={TYPE_COLORS[combatant.type]}>
+                        {combatant.type}
+                    </Chip>
+                    {isActive && (
+                        <Chip size="sm" color="primary">
+                            Current Turn
+                        </Chip>
+                    )}
+                    <div className="ml-auto flex gap-1">
+                        {creature && (
+                            <Button
+                                size="sm"
+                                variant="flat"
+                                onPress={() => setShowStatBlock(!showStatBlock)}
+                            >
+                                {showStatBlock ? "Hide Stat Block" : "Stat Block"}
+                            </Button>
+                        )}
+                        <Button size="sm" variant="light" color="danger" onPress={onRemove}>
+                            Remove
+                        </Button>
+                    </div>
+                </div>
+
+                <StatRow>
+                    <Stat label="AC" value={combatant.armorClass} />
+                    <Stat
+                        label="Initiative Modifier"
+                        value={
+                            combatant.initiativeModifier >= 0
+                                ? `+${combatant.initiativeModifier}`
+                                : combatant.initiativeModifier
+                        }
+                    />
+                </StatRow>
+                {creature && showStatBlock && <StatBlock creature={creature} />}
+
+                {/* Hit Points and Heat */}
+                {hitPoints && (
+                    <PointBar
+                        label="Hit Points"
+                        points={hitPoints}
+                        onIncrement={() => onHitPointChange(1)}
+                        onDecrement={() => onHitPointChange(-1)}
+                    />
+                )}
+                {heatPoints && onHeatChange && (
+                    <PointBar
+                        label="Heat Points"
+                        points={heatPoints}
+                        invert
+                        allowOverflow={combatant.type === "Character"}
+                        onIncrement={() => onHeatChange(1)}
+                        onDecrement={() => onHeatChange(-1)}
+                    />
+                )}
+                <div className="flex items-center gap-2">
+                    <Input
+                        aria-label={`${combatant.name} damage or healing`}
+                        type="number"
+                        size="sm"
+                        className="w-24"
+                        placeholder="Amount"
+                        value={amount}
+                        onValueChange={setAmount}
+                    />
+                    <Button
+                        size="sm"
+                        color="danger"
+                        variant="flat"
+                        isDisabled={!isValidAmount}
+                        onPress={() => handleHitPointChange(-value)}
+                    >
+                        Damage
+                    </Button>
+                    <Button
+                        size="sm"
+                        color="success"
+                        variant="flat"
+                        isDisabled={!isValidAmount}
+                        onPress={() => handleHitPointChange(value)}
+                    >
+                        Heal
+                    </Button>
+                </div>
+
+                {/* Conditions and Concentration */}
+                <Select
+                    aria-label={`${combatant.name} conditions`}
+                    size="sm"
+                    placeholder="Conditions"
+                    selectionMode="multiple"
+                    selectedKeys={new Set(combatant.conditions)}
+                    onSelectionChange={(keys) =>
+                        onConditionsChange(Array.from(keys as Set<Condition>))
+                    }
+                >
+                    {CONDITIONS.map(({ condition, description }) => (
+                        <SelectItem key={condition} description={description}>
+                            {condition}
+                        </SelectItem>
+                    ))}
+                </Select>
+                <Input
+                    aria-label={`${combatant.name} concentration`}
+                    size="sm"
+                    placeholder="Concentrating on..."
+                    value={combatant.concentration ?? ""}
+                    onValueChange={(concentration) =>
+                        onConcentrationChange(concentration || undefined)
+                    }
+                />
+            </CardBody>
+        </Card>
+    );
+};
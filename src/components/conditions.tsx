@@ -0,0 +1,144 @@
+import { CONDITIONS, MAX_EXHAUSTION_LEVEL } from "@/data";
+import type { ActiveCondition } from "@/model/character-view-model";
+import type { Condition, ExhaustionPenalties } from "@/types";
+import { Button, Chip, Input, Select, SelectItem, Tooltip } from "@heroui/react";
+import { useState } from "react";
+import { Label, TertiaryText } from "./typography";
+
+interface ExhaustionProps {
+    exhaustion: ExhaustionPenalties;
+    heatStressLevels?: number; // levels imposed by Heat Stress rather than gained directly
+    onChange?: (delta: number) => void;
+}
+
+interface ConditionsProps {
+    conditions: ActiveCondition[];
+    onAdd?: (condition: Condition, durationRounds?: number) => void;
+    onRemove?: (condition: Condition) => void;
+}
+
+/**
+ * Active conditions with their effects and remaining rounds, and a picker to add more
+ */
+export const Conditions = ({ conditions, onAdd, onRemove }: ConditionsProps) => {
+    const [selected, setSelected] = useState("");
+    const [rounds, setRounds] = useState("");
+
+    const handleAdd = () => {
+        const durationRounds = parseInt(rounds);
+        onAdd?.(selected as Condition, durationRounds > 0 ? durationRounds : undefined);
+        setSelected("");
+        setRounds("");
+    };
+
+    return (
+        <div className="mt-4">
+            <div className="flex flex-wrap items-center gap-1">
+                <Label>Conditions</Label>
+                {conditions.length === 0 && <span className="text-xs text-default-400">None</span>}
+                {conditions.map(({ condition, description, remainingRounds }) => (
+                    <Tooltip key={condition} content={description} className="max-w-xs">
+                        <Chip
+                            size="sm"
+                            variant="flat"
+                            color="warning"
+                            onClose={onRemove ? () => onRemove(condition) : undefined}
+                        >
+                            {condition}
+                            {remainingRounds !== undefined && ` (${remainingRounds} rd)`}
+                        </Chip>
+                    </Tooltip>
+                ))}
+            </div>
+            {onAdd && (
+                <div className="flex items-center gap-2 mt-2">
+                    <Select
+                        aria-label="Condition"
+                        size="sm"
+                        placeholder="Add condition"
+                        className="max-w-48"
+                        selectedKeys={selected ? [selected] : []}
+                        onChange={(e) => setSelected(e.target.value)}
+                    >
+                        {CONDITIONS.filter(
+                            ({ condition }) => !conditions.some((c) => c.condition === condition)
+                        ).map(({ condition }) => (
+                            <SelectItem key={condition}>{condition}</SelectItem>
+                        ))}
+                    </Select>
+                    <Input
+                        aria-label="Duration in rounds"
+                        type="number"
+                        size="sm"
+                        className="w-24"
+                        placeholder="Rounds"
+                        value={rounds}
+                        onValueChange={setRounds}
+                    />
+                    <Button size="sm" variant="flat" isDisabled={!selected} onPress={handleAdd}>
+                        Add
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Exhaustion level with its cumulative penalties
+ */
+export const Exhaustion = ({ exhaustion, heatStressLevels = 0, onChange }: ExhaustionProps) => {
+    const color = exhaustion.level >= 3 ? "danger" : exhaustion.level > 0 ? "warning" : "default";
+
+    return (
+        <div className="mt-2">
+            <div className="flex items-center gap-2 flex-wrap">
+                <Label>Exhaustion</Label>
+                <Chip size="sm" variant="flat" color={color}>
+                    {exhaustion.level} / {MAX_EXHAUSTION_LEVEL}
+                </Chip>
+                {exhaustion.dead && (
+                    <Chip size="sm" variant="solid" color="danger">
+                        Dead
+                    </Chip>
+                )}
+                {onChange && (
+                    <>
+                        <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            onPress={() => onChange(-1)}
+                            isDisabled={exhaustion.level <= heatStressLevels}
+                            aria-label="Remove exhaustion level"
+                        >
+                            −
+                        </Button>
+                        <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            onPress={() => onChange(1)}
+                            isDisabled={exhaustion.level === MAX_EXHAUSTION_LEVEL}
+                            aria-label="Add exhaustion level"
+                        >
+                            +
+                        </Button>
+                    </>
+                )}
+                {heatStressLevels > 0 && (
+                    <TertiaryText>(includes {heatStressLevels} from Heat Stress)</TertiaryText>
+                )}
+            </div>
+            {exhaustion.effects.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                    {exhaustion.effects.map((effect) => (
+                        <li key={effect}>
+                            <TertiaryText className="text-warning">{effect}</TertiaryText>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,77 @@
+import { rollD20 } from "@/model/dice-utils";
+import type { RollMode, RollType } from "@/types";
+import {
+    Button,
+    ButtonGroup,
+    Dropdown,
+    DropdownItem,
+    DropdownMenu,
+    DropdownTrigger,
+} from "@heroui/react";
+import { showD20RollToast } from "./roll";
+import { useRollLog } from "./roll-log-context";
+
+const ROLL_MODES: RollMode[] = ["Normal", "Advantage", "Disadvantage"];
+
+const ROLL_MODE_COLORS: Record<RollMode, "default" | "success" | "warning"> = {
+    Normal: "default",
+    Advantage: "success",
+    Disadvantage: "warning",
+};
+
+/**
+ * Roll button for d20 tests with a menu to roll with advantage or disadvantage.
+ * Without `onRoll` it rolls d20 + `modifier` in a toast and records it in the roll log.
+ */
+export const D20RollButton = ({
+    title,
+    modifier,
+    rollType = "Other",
+    defaultMode = "Normal",
+    isDisabled,
+    onRoll,
+    children,
+}: {
+    title: string;
+    modifier: number;
+    rollType?: RollType;
+    defaultMode?: RollMode;
+    isDisabled?: boolean;
+    onRoll?: (mode: RollMode) => void;
+    children: React.ReactNode;
+}) => {
+    const logRoll = useRollLog();
+
+    const handleRoll = (mode: RollMode) => {
+        if (onRoll) {
+            onRoll(mode);
+        } else {
+            const result = rollD20(modifier, mode);
+            showD20RollToast(title, result);
+            logRoll(rollType, title, [result]);
+        }
+    };
+
+    return (
+        <ButtonGroup variant="bordered" size="sm" isDisabled={isDisabled}>
+            <Button color={ROLL_MODE_COLORS[defaultMode]} onPress={() => handleRoll(defaultMode)}>
+                {children}
+            </Button>
+            <Dropdown placement="bottom-end">
+                <DropdownTrigger>
+                    <Button isIconOnly className="min-w-6 w-6" aria-label={`${title} roll mode`}>
+                        ▾
+                    </Button>
+                </DropdownTrigger>
+                <DropdownMenu
+                    aria-label={`${title} roll mode`}
+                    onAction={(key) => handleRoll(key as RollMode)}
+                >
+                    {ROLL_MODES.map((mode) => (
+                        <DropdownItem key={mode}>{mode}</DropdownItem>
+                    ))}
+                </DropdownMenu>
+            </Dropdown>
+        </ButtonGroup>
+    );
+};
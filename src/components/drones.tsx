@@ -1,7 +1,10 @@
-import { DRONE_TEMPLATES_BY_ID } from "@/data";
+import { DRONE_REPAIR, DRONE_TEMPLATES_BY_ID } from "@/data";
 import type { Drone } from "@/types";
-import { Card, CardBody, CardHeader, Chip, Divider } from "@heroui/react";
+import { Button, Card, CardBody, CardHeader, Chip, Divider } from "@heroui/react";
 import { PointBar } from "./point-bar";
+import { showRollToast } from "./roll";
+import { RollButton } from "./roll-button";
+import { useRollLog } from "./roll-log-context";
 
 interface DronesProps {
     drones: Drone[];
@@ -16,6 +19,8 @@ export function Drones({
     onDroneHitPointsChange,
     onDroneHeatPointsChange,
 }: DronesProps) {
+    const logRoll = useRollLog();
+
     if (!drones || drones.length === 0) {
         return (
             <div style={{ padding: "1rem", textAlign: "center", opacity: 0.6 }}>
@@ -28,6 +33,19 @@ export function Drones({
         );
     }
 
+    const handleRepair = (drone: Drone, overclocked: boolean) => {
+        const overclock = overclocked ? DRONE_REPAIR.overclock : undefined;
+        const title = `${drone.name} - ${overclock ? "Overclocked " : ""}Repair`;
+        const results = showRollToast(title, [
+            overclock ? overclock.healing : DRONE_REPAIR.healing,
+        ]);
+        logRoll("Healing", title, results);
+        onDroneHitPointsChange?.(drone.id, results[0]!.total);
+        if (overclock) {
+            onDroneHeatPointsChange?.(drone.id, overclock.heatGain);
+        }
+    };
+
     return (
         <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
             {drones.map((drone) => {
@@ -181,6 +199,50 @@ export function Drones({
                                     />
                                 </div>
 
+                                {/* Hit Point Dice and Repair */}
+                                {template && (
+                                    <div
+                                        style={{
+                                            display: "flex",
+                                            gap: "0.5rem",
+                                            flexWrap: "wrap",
+                                            alignItems: "center",
+                                        }}
+                                    >
+                                        <RollButton
+                                            title={`${drone.name} - Hit Points`}
+                                            rollables={[template.stats.hitPoints.roll]}
+                                            rollType="Hit Points"
+                                        >
+                                            HP {template.stats.hitPoints.roll}
+                                        </RollButton>
+                                        {onDroneHitPointsChange && !isDestroyed && (
+                                            <Button
+                                                variant="bordered"
+                                                size="sm"
+                                                onPress={() => handleRepair(drone, false)}
+                                            >
+                                                Repair {DRONE_REPAIR.healing} ({DRONE_REPAIR.cost}{" "}
+                                                Cog)
+                                            </Button>
+                                        )}
+                                        {onDroneHitPointsChange &&
+                                            !isDestroyed &&
+                                            DRONE_REPAIR.overclock && (
+                                                <Button
+                                                    variant="bordered"
+                                                    size="sm"
+                                                    color="warning"
+                                                    onPress={() => handleRepair(drone, true)}
+                                                >
+                                                    Overclocked Repair{" "}
+                                                    {DRONE_REPAIR.overclock.healing} (
+                                                    {DRONE_REPAIR.overclock.cost} Cogs)
+                                                </Button>
+                                            )}
+                                    </div>
+                                )}
+
                                 {/* Additional Speed Types */}
                                 {(template?.stats.speed.fly ||
                                     template?.stats.speed.climb ||
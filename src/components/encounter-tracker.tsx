@@ -0,0 +1,438 @@
+import { CREATURES, CREATURES_BY_ID } from "@/data";
+import { ValidationError } from "@/model/character-utils";
+import { useCharacterViewModelContext } from "@/model/character-view-model-context";
+import { rollDiceExpression } from "@/model/dice-utils";
+import {
+    addCombatant,
+    applyHitPointChange,
+    calculateConcentrationDC,
+    createBestiaryCombatant,
+    createCharacterCombatant,
+    createCreatureCombatant,
+    createDroneCombatant,
+    createEncounter,
+    endEncounter,
+    nextTurn,
+    previousTurn,
+    removeCombatant,
+    rollInitiative,
+    setInitiative,
+    updateCombatant,
+} from "@/model/encounter-utils";
+import { EncounterStorageService } from "@/service/encounter-storage-service";
+import type { Combatant, Condition, Encounter, Points } from "@/types";
+import { Button, Card, CardBody, Input, Select, SelectItem } from "@heroui/react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { CombatantCard } from "./combatant-card";
+import { CardTitle, EmptyState } from "./typography";
+
+const storageService = new EncounterStorageService();
+
+const EMPTY_CREATURE = { name: "", armorClass: "", hitPoints: "", initiativeModifier: "" };
+
+/**
+ * Initiative tracker for an encounter with saved characters, their drones and creatures.
+ * Hit points and heat of characters and drones are written back to their character sheets.
+ */
+export function EncounterTracker() {
+    const { getAllCharacters, getCharacter, updateCharacter } = useCharacterViewModelContext();
+    const [encounter, setEncounter] = useState<Encounter>(
+        () => storageService.loadEncounter() ?? createEncounter()
+    );
+    const [selectedCombatant, setSelectedCombatant] = useState("");
+    const [creature, setCreature] = useState(EMPTY_CREATURE);
+    const [selectedCreatureId, setSelectedCreatureId] = useState("");
+
+    useEffect(() => {
+        storageService.saveEncounter(encounter);
+    }, [encounter]);
+
+    const characters = new Map(getAllCharacters().map((vm) => [vm.summary.id, vm]));
+
+    /**
+     * Apply an encounter change, reporting rule violations instead of throwing
+     */
+    const applyChange = (change: (encounter: Encounter) => Encounter) => {
+        try {
+            setEncounter(change(encounter));
+        } catch (error) {
+            if (error instanceof ValidationError) {
+                toast.error(error.constraint, { position: "bottom-right" });
+                return;
+            }
+            throw error;
+        }
+    };
+
+    // Keys are "character:<characterId>" or "drone:<characterId>:<droneId>"
+    const combatantOptions = Array.from(characters.values()).flatMap((vm) => [
+        { key: `character:${vm.summary.id}`, label: vm.summary.name },
+        ...vm.drones
+            .filter((drone) => !drone.destroyed)
+            .map((drone) => ({
+                key: `drone:${vm.summary.id}:${drone.id}`,
+                label: `${drone.name} (${vm.summary.name}'s drone)`,
+            })),
+    ]);
+
+    /**
+     * Advance the turn, counting down characters' condition durations when a new round starts
+     */
+    const handleNextTurn = () => {
+        applyChange((e) => {
+            const next = nextTurn(e);
+            if (next.round > e.round) {
+                const characterIds = new Set(
+                    e.combatants.filter((c) => c.type === "Character").map((c) => c.characterId!)
+                );
+                characterIds.forEach((characterId) =>
+                    updateCharacter(characterId, (vm) => vm.advanceConditionDurations())
+                );
+            }
+            return next;
+        });
+    };
+
+    /**
+     * Roll initiative, warning about characters whose Heat Stress malfunctions each combat
+     */
+    const handleRollInitiative = () => {
+        applyChange((e) => {
+            const started = rollInitiative(e);
+            started.combatants
+                .filter((c) => c.type === "Character")
+                .forEach((c) => {
+                    const vm = characters.get(c.characterId!);
+                    if (vm?.heatStress.malfunctionEachCombat) {
+                        toast.warning(
+                            `${vm.summary.name}: random malfunction this combat (Heat Stress ${vm.heatStress.level})`,
+                            { position: "bottom-right" }
+                        );
+                    }
+                });
+            return started;
+        });
+    };
+
+    const handleAddCombatant = () => {
+        const [type, characterId, droneId] = selectedCombatant.split(":");
+        const vm = characterId ? characters.get(characterId) : undefined;
+        if (!vm) return;
+
+        const drone = vm.drones.find((d) => d.id === droneId);
+        const combatant =
+            type === "drone" && drone
+                ? createDroneCombatant(vm, drone)
+                : createCharacterCombatant(vm);
+        applyChange((e) => addCombatant(e, combatant));
+        setSelectedCombatant("");
+    };
+
+    const handleAddCreature = () => {
+        applyChange((e) =>
+            addCombatant(
+                e,
+                createCreatureCombatant({
+                    name: creature.name || "Creature",
+                    armorClass: parseInt(creature.armorClass) || 10,
+                    hitPoints: parseInt(creature.hitPoints) || 0,
+                    initiativeModifier: parseInt(creature.initiativeModifier) || 0,
+                })
+            )
+        );
+        setCreature(EMPTY_CREATURE);
+    };
+
+    const handleAddBestiaryCreature = (rollHitPoints: boolean) => {
+        const stats = CREATURES_BY_ID[selectedCreatureId];
+        if (!stats) return;
+
+        const hitPoints = rollHitPoints
+            ? Math.max(1, rollDiceExpression(stats.hitPoints.roll).total)
+            : stats.hitPoints.average;
+        applyChange((e) => addCombatant(e, createBestiaryCombatant(stats, hitPoints)));
+    };
+
+    const getHitPoints = (combatant: Combatant): Points | undefined => {
+        const vm = combatant.characterId ? characters.get(combatant.characterId) : undefined;
+        switch (combatant.type) {
+            case "Character":
+                return vm?.summary.hitPoints;
+            case "Drone":
+                return vm?.drones.find((d) => d.id === combatant.droneId)?.hitPoints;
+            case "Creature":
+                return combatant.hitPoints;
+        }
+    };
+
+    const getHeatPoints = (combatant: Combatant): Points | undefined => {
+        const vm = combatant.characterId ? characters.get(combatant.characterId) : undefined;
+        switch (combatant.type) {
+            case "Character":
+                return vm?.summary.heatPoints;
+            case "Drone":
+                return vm?.drones.find((d) => d.id === combatant.droneId)?.heatPoints;
+            case "Creature":
+                return undefined;
+        }
+    };
+
+    // Characters' conditions live on their sheets; other combatants track them here
+    const getConditions = (combatant: Combatant): Condition[] => {
+        const vm = combatant.characterId ? characters.get(combatant.characterId) : undefined;
+        return combatant.type === "Character" && vm
+            ? vm.conditions.map((c) => c.condition)
+            : combatant.conditions;
+    };
+
+    const handleConditionsChange = (combatant: Combatant, conditions: Condition[]) => {
+        const { characterId } = combatant;
+        if (combatant.type !== "Character" || !characterId) {
+            applyChange((e) => updateCombatant(e, combatant.id, { conditions }));
+            return;
+        }
+
+        updateCharacter(characterId, (vm) => {
+            const current = vm.conditions.map((c) => c.condition);
+            current
+                .filter((condition) => !conditions.includes(condition))
+                .forEach((condition) => vm.removeCondition(condition));
+            conditions
+                .filter((condition) => !current.includes(condition))
+                .forEach((condition) => vm.addCondition(condition));
+            return vm.toCharacter();
+        });
+    };
+
+    const handleHitPointChange = (combatant: Combatant, delta: number) => {
+        const { characterId, droneId } = combatant;
+
+        if (combatant.type === "Creature" && combatant.hitPoints) {
+            const hitPoints = applyHitPointChange(combatant.hitPoints, delta);
+            applyChange((e) => updateCombatant(e, combatant.id, { hitPoints }));
+        } else if (combatant.type === "Character" && characterId) {
+            updateCharacter(characterId, (vm) =>
+                delta < 0 ? vm.takeDamage(-delta) : vm.heal(delta)
+            );
+        } else if (combatant.type === "Drone" && characterId && droneId) {
+            updateCharacter(characterId, (vm) => {
+                const drone = vm.drones.find((d) => d.id === droneId);
+                if (!drone) return vm.toCharacter();
+                const newValue = Math.max(
+                    0,
+                    Math.min(drone.hitPoints.maximum, drone.hitPoints.current + delta)
+                );
+                return vm.updateDroneHitPoints(droneId, newValue);
+            });
+        }
+
+        if (delta < 0 && combatant.concentration) {
+            const disadvantage =
+                combatant.type === "Character" && characterId
+                    ? getCharacter(characterId).concentrationDisadvantage
+                    : undefined;
+            toast.warning(
+                `${combatant.name}: DC ${calculateConcentrationDC(-delta)} Constitution save to keep concentrating on ${combatant.concentration}${disadvantage ? ` (disadvantage from ${disadvantage})` : ""}`,
+                { position: "bottom-right" }
+            );
+        }
+    };
+
+    const handleHeatChange = (combatant: Combatant, delta: number) => {
+        const { characterId, droneId } = combatant;
+        if (!characterId) return;
+
+        updateCharacter(characterId, (vm) => {
+            if (combatant.type === "Character") {
+                if (delta > 0) {
+                    return vm.gainHeat(delta, "Encounter");
+                }
+                return vm.updateHeatPoints(Math.max(0, vm.heat.current + delta));
+            }
+
+            const drone = vm.drones.find((d) => d.id === droneId);
+            if (!drone || !droneId) return vm.toCharacter();
+            const newValue = Math.max(
+                0,
+                Math.min(drone.heatPoints.maximum, drone.heatPoints.current + delta)
+            );
+            return vm.updateDroneHeatPoints(droneId, newValue);
+        });
+    };
+
+    const hasStarted = encounter.round > 0;
+
+    return (
+        <div className="space-y-4">
+            {/* Round Controls */}
+            <Card>
+                <CardBody className="flex flex-row items-center gap-2 flex-wrap">
+                    <CardTitle className="mr-auto">
+                        {encounter.name}
+                        {hasStarted && ` · Round ${encounter.round}`}
+                    </CardTitle>
+                    {hasStarted ? (
+                        <>
+                            <Button
+                                size="sm"
+                                variant="flat"
+                                onPress={() => applyChange(previousTurn)}
+                            >
+                                Previous Turn
+                            </Button>
+                            <Button size="sm" color="primary" onPress={handleNextTurn}>
+                                Next Turn
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="flat"
+                                color="danger"
+                                onPress={() => applyChange(endEncounter)}
+                            >
+                                End Combat
+                            </Button>
+                        </>
+                    ) : (
+                        <Button size="sm" color="primary" onPress={handleRollInitiative}>
+                            Roll Initiative
+                        </Button>
+                    )}
+                    <Button
+                        size="sm"
+                        variant="light"
+                        color="danger"
+                        onPress={() => setEncounter(createEncounter())}
+                    >
+                        New Encounter
+                    </Button>
+                </CardBody>
+            </Card>
+
+            {/* Add Combatants */}
+            <Card>
+                <CardBody className="space-y-2">
+                    <div className="flex items-center gap-2">
+                        <Select
+                            aria-label="Character or drone"
+                            size="sm"
+                            placeholder="Add a character or drone"
+                            selectedKeys={selectedCombatant ? [selectedCombatant] : []}
+                            onChange={(e) => setSelectedCombatant(e.target.value)}
+                        >
+                            {combatantOptions.map((option) => (
+                                <SelectItem key={option.key}>{option.label}</SelectItem>
+                            ))}
+                        </Select>
+                        <Button
+                            size="sm"
+                            isDisabled={!selectedCombatant}
+                            onPress={handleAddCombatant}
+                        >
+                            Add
+                        </Button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Select
+                            aria-label="Bestiary creature"
+                            size="sm"
+                            placeholder="Add a creature from the bestiary"
+                            selectedKeys={selectedCreatureId ? [selectedCreatureId] : []}
+                            onChange={(e) => setSelectedCreatureId(e.target.value)}
+                        >
+                            {CREATURES.map((stats) => (
+                                <SelectItem key={stats.id}>{stats.name}</SelectItem>
+                            ))}
+                        </Select>
+                        <Button
+                            size="sm"
+                            isDisabled={!selectedCreatureId}
+                            onPress={() => handleAddBestiaryCreature(false)}
+                        >
+                            Add
+                        </Button>
+                        <Button
+                            size="sm"
+                            isDisabled={!selectedCreatureId}
+                            onPress={() => handleAddBestiaryCreature(true)}
+                        >
+                            Roll HP
+                        </Button>
+                    </div>
+                    <div className="flex items-center gap-2 flex-wrap">
+                        <Input
+                            aria-label="Creature name"
+                            size="sm"
+                            className="flex-1 min-w-32"
+                            placeholder="Creature name"
+                            value={creature.name}
+                            onValueChange={(name) => setCreature({ ...creature, name })}
+                        />
+                        <Input
+                            aria-label="Creature Armor Class"
+                            type="number"
+                            size="sm"
+                            className="w-20"
+                            placeholder="AC"
+                            value={creature.armorClass}
+                            onValueChange={(armorClass) => setCreature({ ...creature, armorClass })}
+                        />
+                        <Input
+                            aria-label="Creature hit points"
+                            type="number"
+                            size="sm"
+                            className="w-20"
+                            placeholder="HP"
+                            value={creature.hitPoints}
+                            onValueChange={(hitPoints) => setCreature({ ...creature, hitPoints })}
+                        />
+                        <Input
+                            aria-label="Creature initiative modifier"
+                            type="number"
+                            size="sm"
+                            className="w-20"
+                            placeholder="Init"
+                            value={creature.initiativeModifier}
+                            onValueChange={(initiativeModifier) =>
+                                setCreature({ ...creature, initiativeModifier })
+                            }
+                        />
+                        <Button size="sm" onPress={handleAddCreature}>
+                            Add Creature
+                        </Button>
+                    </div>
+                </CardBody>
+            </Card>
+
+            {/* Combatants */}
+            {encounter.combatants.length === 0 ? (
+                <EmptyState message="No combatants yet" />
+            ) : (
+                encounter.combatants.map((combatant, index) => (
+                    <CombatantCard
+                        key={combatant.id}
+                        combatant={{ ...combatant, conditions: getConditions(combatant) }}
+                        isActive={hasStarted && index === encounter.turnIndex}
+                        hitPoints={getHitPoints(combatant)}
+                        heatPoints={getHeatPoints(combatant)}
+                        creature={
+                            combatant.creatureId ? CREATURES_BY_ID[combatant.creatureId] : undefined
+                        }
+                        onInitiativeChange={(initiative) =>
+                            applyChange((e) => setInitiative(e, combatant.id, initiative))
+                        }
+                        onHitPointChange={(delta) => handleHitPointChange(combatant, delta)}
+                        onHeatChange={(delta) => handleHeatChange(combatant, delta)}
+                        onConditionsChange={(conditions) =>
+                            handleConditionsChange(combatant, conditions)
+                        }
+                        onConcentrationChange={(concentration) =>
+                            applyChange((e) => updateCombatant(e, combatant.id, { concentration }))
+                        }
+                        onRemove={() => applyChange((e) => removeCombatant(e, combatant.id))}
+                    />
+                ))
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,76 @@
+import type { ExperienceProgress } from "@/model/character-view-model";
+import { Button, Chip, Input } from "@heroui/react";
+import { useState } from "react";
+import { PointBar } from "./point-bar";
+import { TertiaryText } from "./typography";
+
+interface ExperienceBarProps {
+    experience: ExperienceProgress;
+    level: number;
+    onAward?: (experiencePoints: number) => void;
+}
+
+/**
+ * Experience points toward the next level, with a field for awarding more
+ */
+export const ExperienceBar = ({ experience, level, onAward }: ExperienceBarProps) => {
+    const [award, setAward] = useState("");
+    const amount = parseInt(award, 10);
+
+    const handleAward = () => {
+        onAward?.(amount);
+        setAward("");
+    };
+
+    return (
+        <div>
+            <PointBar
+                label="Experience"
+                points={{
+                    current: experience.total,
+                    maximum: experience.nextLevelAt ?? experience.total,
+                }}
+                color="primary"
+                badge={
+                    experience.level > level && (
+                        <Chip size="sm" variant="flat" color="success">
+                            Level {experience.level} reached
+                        </Chip>
+                    )
+                }
+            />
+            <div className="flex items-center gap-2 mt-2 flex-wrap">
+                {experience.nextLevelAt !== undefined ? (
+                    <TertiaryText>
+                        {Math.max(experience.nextLevelAt - experience.total, 0)} XP to level{" "}
+                        {level + 1}
+                    </TertiaryText>
+                ) : (
+                    <TertiaryText>Maximum level</TertiaryText>
+                )}
+                {onAward && (
+                    <>
+                        <Input
+                            aria-label="Experience points to award"
+                            type="number"
+                            size="sm"
+                            className="w-24"
+                            placeholder="XP"
+                            min={0}
+                            value={award}
+                            onValueChange={setAward}
+                        />
+                        <Button
+                            size="sm"
+                            variant="flat"
+                            isDisabled={!(amount > 0)}
+                            onPress={handleAward}
+                        >
+                            Award
+                        </Button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
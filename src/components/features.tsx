@@ -1,8 +1,13 @@
 import type { FeatureDisplay } from "@/model/character-view-model";
-import { Card, CardBody, Chip } from "@heroui/react";
+import { Button, Card, CardBody, Chip } from "@heroui/react";
 import { CardTitle, Description, EmptyState, Stat, StatRow } from "./typography";
 
-export const Features = ({ features }: { features: FeatureDisplay[] }) => {
+interface FeaturesProps {
+    features: FeatureDisplay[];
+    onSpendUse?: (source: string, featureName: string) => void;
+}
+
+export const Features = ({ features, onSpendUse }: FeaturesProps) => {
     if (features.length === 0) {
         return <EmptyState message="No features available" />;
     }
@@ -10,7 +15,7 @@ export const Features = ({ features }: { features: FeatureDisplay[] }) => {
     return (
         <div className="space-y-2">
             {features.map((featureDisplay, index) => {
-                const { type, feature, source } = featureDisplay;
+                const { type, feature, source, uses } = featureDisplay;
 
                 return (
                     <Card key={index} className="border border-default-200">
@@ -21,20 +26,38 @@ export const Features = ({ features }: { features: FeatureDisplay[] }) => {
                                 <Chip
                                     size="sm"
                                     variant="flat"
-                                    color={type === "Class" ? "primary" : "secondary"}
+                                    color={
+                                        type === "Class"
+                                            ? "primary"
+                                            : type === "Feat"
+                                              ? "success"
+                                              : "secondary"
+                                    }
                                 >
                                     {source}
                                 </Chip>
                             </div>
 
                             {/* Uses Per Rest */}
-                            {feature.usesPerRest && (
-                                <StatRow>
-                                    <Stat
-                                        label="Uses"
-                                        value={`${feature.usesPerRest.amount} / ${feature.usesPerRest.restType} rest`}
-                                    />
-                                </StatRow>
+                            {uses && (
+                                <div className="flex items-center gap-2">
+                                    <StatRow>
+                                        <Stat
+                                            label="Uses"
+                                            value={`${uses.current} / ${uses.maximum} per ${uses.restType} rest`}
+                                        />
+                                    </StatRow>
+                                    {onSpendUse && (
+                                        <Button
+                                            size="sm"
+                                            variant="flat"
+                                            isDisabled={uses.current === 0}
+                                            onPress={() => onSpendUse(source, feature.name)}
+                                        >
+                                            Use
+                                        </Button>
+                                    )}
+                                </div>
                             )}
 
                             {/* Description */}
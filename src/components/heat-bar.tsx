@@ -0,0 +1,121 @@
+import { MAX_HEAT_STRESS_LEVEL } from "@/data";
+import type { HeatStatus } from "@/model/character-view-model";
+import type { HeatStressPenalties, HeatZone } from "@/types";
+import { Button, Chip, Tooltip } from "@heroui/react";
+import { PointBar } from "./point-bar";
+import { Label, TertiaryText } from "./typography";
+
+interface HeatBarProps {
+    heat: HeatStatus;
+    heatStress: HeatStressPenalties;
+    onIncrement?: () => void;
+    onDecrement?: () => void;
+    onClearEffect?: (effectId: string) => void;
+    onHeatStressChange?: (delta: number) => void;
+    onVentHarness?: () => void;
+}
+
+const ZONE_COLORS: Record<HeatZone, "success" | "warning" | "danger"> = {
+    Safe: "success",
+    Danger: "warning",
+    Overheat: "danger",
+};
+
+/**
+ * Heat Points bar with the current heat zone, the latest Overheat Check, any
+ * active Overheat Table effects and the long-term Heat Stress Track
+ */
+export const HeatBar = ({
+    heat,
+    heatStress,
+    onIncrement,
+    onDecrement,
+    onClearEffect,
+    onHeatStressChange,
+    onVentHarness,
+}: HeatBarProps) => {
+    const check = heat.lastOverheatCheck;
+
+    return (
+        <div>
+            <PointBar
+                label="Heat Points"
+                points={heat}
+                color={ZONE_COLORS[heat.zone]}
+                allowOverflow
+                badge={
+                    <Chip size="sm" variant="flat" color={ZONE_COLORS[heat.zone]}>
+                        {heat.zone}
+                    </Chip>
+                }
+                onIncrement={onIncrement}
+                onDecrement={onDecrement}
+            />
+            {check && (
+                <TertiaryText className="block mt-1">
+                    Last Overheat Check: {check.roll} + {check.modifier} = {check.total} vs DC{" "}
+                    {check.dc} — {check.success ? "stabilized" : `failed (${check.result?.name})`}
+                </TertiaryText>
+            )}
+            {heat.effects.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                    {heat.effects.map((effect) => (
+                        <Tooltip key={effect.id} content={effect.description}>
+                            <Chip
+                                size="sm"
+                                variant="flat"
+                                color="danger"
+                                onClose={onClearEffect ? () => onClearEffect(effect.id) : undefined}
+                            >
+                                {effect.name}
+                            </Chip>
+                        </Tooltip>
+                    ))}
+                </div>
+            )}
+            <div className="flex items-center gap-2 mt-2 flex-wrap">
+                <Label>
+                    Heat Stress {heatStress.level} / {MAX_HEAT_STRESS_LEVEL}
+                </Label>
+                {onHeatStressChange && (
+                    <>
+                        <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            onPress={() => onHeatStressChange(-1)}
+                            isDisabled={heatStress.level === 0}
+                            aria-label="Decrease Heat Stress"
+                        >
+                            −
+                        </Button>
+                        <Button
+                            isIconOnly
+                            size="sm"
+                            variant="light"
+                            onPress={() => onHeatStressChange(1)}
+                            isDisabled={heatStress.level === MAX_HEAT_STRESS_LEVEL}
+                            aria-label="Increase Heat Stress"
+                        >
+                            +
+                        </Button>
+                    </>
+                )}
+                {onVentHarness && (
+                    <Button size="sm" variant="flat" onPress={onVentHarness}>
+                        Steam Vent Harness
+                    </Button>
+                )}
+            </div>
+            {heatStress.effects.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                    {heatStress.effects.map((effect) => (
+                        <li key={effect}>
+                            <TertiaryText className="text-warning">{effect}</TertiaryText>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
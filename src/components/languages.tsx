@@ -0,0 +1,154 @@
+import { LANGUAGE_LEARNING_METHODS, LANGUAGE_LEARNING_METHODS_BY_TYPE } from "@/data";
+import { formatCurrency } from "@/model/character-utils";
+import type { KnownLanguage, LanguageTrainingProgress } from "@/model/character-view-model";
+import { getLanguageOptions } from "@/model/language-utils";
+import type { Language, LanguageLearningMethod, LanguageLearningMethodType } from "@/types";
+import { Button, Card, CardBody, Chip, Input, Select, SelectItem } from "@heroui/react";
+import { useState } from "react";
+import { PointBar } from "./point-bar";
+import { CardTitle, Description, EmptyState, TertiaryText } from "./typography";
+
+interface LanguagesProps {
+    languages: KnownLanguage[];
+    training: LanguageTrainingProgress[];
+    onLearn?: (language: Language, method: LanguageLearningMethodType, days: number) => void;
+}
+
+/**
+ * Time and cost of a learning method, e.g. "10 days, 25 cogs"
+ */
+const describeMethod = ({ days, cost }: LanguageLearningMethod): string =>
+    [
+        days ? `${days} ${days === 1 ? "day" : "days"}` : "Under a day",
+        ...(Object.keys(cost).length > 0 ? [formatCurrency(cost)] : []),
+    ].join(", ");
+
+/**
+ * Known languages with their scripts and dialects, and downtime training toward new ones
+ */
+export const Languages = ({ languages, training, onLearn }: LanguagesProps) => {
+    const [language, setLanguage] = useState<Language | "">("");
+    const [method, setMethod] = useState<LanguageLearningMethodType>("Tutored");
+    const [days, setDays] = useState("");
+
+    const known = languages.map((l) => l.language);
+    const inTraining = training.find((t) => t.language === language);
+    const selectedMethod = inTraining?.method ?? LANGUAGE_LEARNING_METHODS_BY_TYPE[method];
+    const daysSpent = parseInt(days, 10) || 0;
+
+    const handleTrain = () => {
+        if (language) {
+            onLearn?.(language, selectedMethod.type, daysSpent);
+            setDays("");
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-2">
+                {languages.map(({ language, definition, expiresAt }) => (
+                    <Card key={language} className="border border-default-200">
+                        <CardBody className="p-3">
+                            <div className="flex items-center gap-2 mb-1 flex-wrap">
+                                <CardTitle>{language}</CardTitle>
+                                {definition?.script && (
+                                    <Chip size="sm" variant="flat">
+                                        {definition.script}
+                                    </Chip>
+                                )}
+                                {definition?.dialectOf && (
+                                    <Chip size="sm" variant="flat" color="secondary">
+                                        Dialect of {definition.dialectOf}
+                                    </Chip>
+                                )}
+                                {definition?.category === "Secret" && (
+                                    <Chip size="sm" variant="flat" color="danger">
+                                        Secret
+                                    </Chip>
+                                )}
+                                {expiresAt && (
+                                    <TertiaryText>
+                                        Imprinted until {expiresAt.toLocaleDateString()}
+                                    </TertiaryText>
+                                )}
+                            </div>
+                            {definition && <Description>{definition.description}</Description>}
+                        </CardBody>
+                    </Card>
+                ))}
+            </div>
+
+            {training.length > 0 && (
+                <div className="space-y-2">
+                    <CardTitle>Training</CardTitle>
+                    {training.map((t) => (
+                        <PointBar
+                            key={t.language}
+                            label={`${t.language} (${t.method.name})`}
+                            points={{ current: t.daysSpent, maximum: t.method.days }}
+                            color="primary"
+                        />
+                    ))}
+                </div>
+            )}
+
+            {onLearn && (
+                <div className="space-y-2">
+                    <CardTitle>Learn a Language</CardTitle>
+                    <div className="flex items-end gap-2 flex-wrap">
+                        <Select
+                            size="sm"
+                            label="Language"
+                            className="w-48"
+                            selectedKeys={language ? [language] : []}
+                            onChange={(e) => setLanguage(e.target.value as Language)}
+                        >
+                            {getLanguageOptions(known, true).map((option) => (
+                                <SelectItem key={option.name} description={option.category}>
+                                    {option.name}
+                                </SelectItem>
+                            ))}
+                        </Select>
+                        <Select
+                            size="sm"
+                            label="Method"
+                            className="w-56"
+                            selectedKeys={[selectedMethod.type]}
+                            isDisabled={!!inTraining}
+                            onChange={(e) =>
+                                e.target.value &&
+                                setMethod(e.target.value as LanguageLearningMethodType)
+                            }
+                        >
+                            {LANGUAGE_LEARNING_METHODS.map((m) => (
+                                <SelectItem key={m.type} description={describeMethod(m)}>
+                                    {m.name}
+                                </SelectItem>
+                            ))}
+                        </Select>
+                        <Input
+                            size="sm"
+                            type="number"
+                            label="Days"
+                            className="w-24"
+                            min={0}
+                            value={days}
+                            onValueChange={setDays}
+                        />
+                        <Button
+                            size="sm"
+                            color="primary"
+                            isDisabled={!language}
+                            onPress={handleTrain}
+                        >
+                            {inTraining ? "Train" : "Start"}
+                        </Button>
+                    </div>
+                    {language && <TertiaryText>{selectedMethod.requirement}</TertiaryText>}
+                </div>
+            )}
+
+            {languages.length === 0 && !onLearn && <EmptyState message="No languages" />}
+        </div>
+    );
+};
@@ -2,7 +2,15 @@ import type { MindcraftPower } from "@/types";
 import { Card, CardBody, Chip } from "@heroui/react";
 import { CardTitle, Description, EmptyState, PrimaryStat, Stat, StatRow } from "./typography";
 
-export const Mindcraft = ({ powers }: { powers: MindcraftPower[] }) => {
+export const Mindcraft = ({
+    powers,
+    saveDC,
+    suppressedBy = [],
+}: {
+    powers: MindcraftPower[];
+    saveDC?: number; // the Mindweaver's save DC
+    suppressedBy?: string[]; // conditions that prevent manifesting powers
+}) => {
     if (powers.length === 0) {
         return <EmptyState message="No mindcraft powers available" />;
     }
@@ -47,13 +55,19 @@ export const Mindcraft = ({ powers }: { powers: MindcraftPower[] }) => {
 
     const getSaveDC = (power: MindcraftPower): string => {
         if (power.savingThrow) {
-            return `DC ${power.savingThrow.dc} ${power.savingThrow.ability.substring(0, 3).toUpperCase()}`;
+            const ability = power.savingThrow.ability.substring(0, 3).toUpperCase();
+            return saveDC !== undefined ? `DC ${saveDC} ${ability}` : ability;
         }
         return "—";
     };
 
     return (
         <div className="space-y-2">
+            {suppressedBy.length > 0 && (
+                <Chip color="danger" variant="flat">
+                    Can't manifest powers ({suppressedBy.join(", ")})
+                </Chip>
+            )}
             {powers.map((power) => (
                 <Card key={power.id} className="border border-default-200">
                     <CardBody className="p-3">
@@ -1,12 +1,15 @@
 import type { InventoryViewModel } from "@/model/character-view-model";
-import { Card, CardBody, Chip } from "@heroui/react";
+import { rollableToExpression } from "@/model/dice-utils";
+import { Button, Card, CardBody, Chip } from "@heroui/react";
+import { RollButton } from "./roll-button";
 import { CardTitle, Description, EmptyState, Stat, StatRow } from "./typography";
 
 interface ModsProps {
     inventory: InventoryViewModel;
+    onSpendUse?: (inventoryModId: string) => void;
 }
 
-export const Mods = ({ inventory }: ModsProps) => {
+export const Mods = ({ inventory, onSpendUse }: ModsProps) => {
     const mods = inventory.mods;
     if (mods.length === 0) {
         return <EmptyState message="No mods in inventory" />;
@@ -61,6 +64,11 @@ export const Mods = ({ inventory }: ModsProps) => {
                                     Equipped
                                 </Chip>
                             )}
+                            {mod.disabled && (
+                                <Chip size="sm" variant="solid" color="danger">
+                                    Burned Out
+                                </Chip>
+                            )}
                         </div>
 
                         {/* Stats Row */}
@@ -78,6 +86,22 @@ export const Mods = ({ inventory }: ModsProps) => {
                                     }
                                 />
                             )}
+                            {mod.uses && (
+                                <Stat
+                                    label="Uses"
+                                    value={`${mod.uses.current} / ${mod.uses.maximum} per ${mod.uses.restType} rest`}
+                                />
+                            )}
+                            {mod.uses && onSpendUse && (
+                                <Button
+                                    size="sm"
+                                    variant="flat"
+                                    isDisabled={mod.uses.current === 0 || mod.disabled}
+                                    onPress={() => onSpendUse(mod.id)}
+                                >
+                                    Use
+                                </Button>
+                            )}
                         </StatRow>
 
                         {/* Effect */}
@@ -85,12 +109,18 @@ export const Mods = ({ inventory }: ModsProps) => {
 
                         {/* Additional Damage */}
                         {mod.mod.additionalDamage && (
-                            <div className="text-sm mb-1">
+                            <div className="flex items-center gap-2 text-sm mb-1">
                                 <span className="text-xs text-default-500">Damage: </span>
-                                <span className="font-semibold text-danger">
-                                    {mod.mod.additionalDamage.count}d{mod.mod.additionalDamage.die}{" "}
-                                    {mod.mod.additionalDamage.damageType}
-                                </span>
+                                <RollButton
+                                    title={`${mod.mod.name} - Damage (${mod.mod.additionalDamage.damageType})`}
+                                    rollables={[mod.mod.additionalDamage]}
+                                    rollType="Damage"
+                                >
+                                    <span className="font-semibold text-danger">
+                                        {rollableToExpression(mod.mod.additionalDamage)}{" "}
+                                        {mod.mod.additionalDamage.damageType}
+                                    </span>
+                                </RollButton>
                             </div>
                         )}
 
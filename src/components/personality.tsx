@@ -0,0 +1,147 @@
+import { PERSONALITY_ASPECTS } from "@/data";
+import { rollPersonality, rollPersonalityEntry } from "@/model/personality-utils";
+import type { Personality, PersonalityAspect } from "@/types";
+import { Button, Input, Select, SelectItem } from "@heroui/react";
+import { useState } from "react";
+import { CardTitle, TertiaryText } from "./typography";
+
+interface PersonalityPanelProps {
+    personality: Personality;
+    table: Personality; // options to roll or pick from
+    onChange: (personality: Personality) => void;
+}
+
+const ASPECT_LABELS: Record<PersonalityAspect, string> = {
+    traits: "Personality Traits",
+    ideals: "Ideals",
+    bonds: "Bonds",
+    flaws: "Flaws",
+};
+
+/**
+ * Editable traits, ideals, bonds and flaws, with rolls and picks from the character's tables.
+ * Text edits are committed on blur so a half-typed entry isn't saved on every keystroke.
+ */
+export const PersonalityPanel = ({ personality, table, onChange }: PersonalityPanelProps) => {
+    const [adding, setAdding] = useState<PersonalityAspect>();
+
+    const updateAspect = (aspect: PersonalityAspect, entries: string[]) => {
+        onChange({ ...personality, [aspect]: entries });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-end">
+                <Button size="sm" variant="flat" onPress={() => onChange(rollPersonality(table))}>
+                    Roll All
+                </Button>
+            </div>
+
+            {PERSONALITY_ASPECTS.map((aspect) => {
+                const entries = personality[aspect];
+                const options = table[aspect].filter((option) => !entries.includes(option));
+
+                return (
+                    <div key={aspect} className="space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                            <CardTitle>{ASPECT_LABELS[aspect]}</CardTitle>
+                            <div className="flex gap-1">
+                                <Button
+                                    size="sm"
+                                    variant="flat"
+                                    isDisabled={options.length === 0}
+                                    onPress={() => {
+                                        const entry = rollPersonalityEntry(table, aspect, entries);
+                                        if (entry) {
+                                            updateAspect(aspect, [...entries, entry]);
+                                        }
+                                    }}
+                                >
+                                    Roll
+                                </Button>
+                                <Button size="sm" variant="light" onPress={() => setAdding(aspect)}>
+                                    Add
+                                </Button>
+                            </div>
+                        </div>
+
+                        {entries.length === 0 && adding !== aspect && (
+                            <TertiaryText>None yet</TertiaryText>
+                        )}
+
+                        {entries.map((entry, index) => (
+                            <div key={`${index}-${entry}`} className="flex items-center gap-2">
+                                <Input
+                                    size="sm"
+                                    aria-label={ASPECT_LABELS[aspect]}
+                                    defaultValue={entry}
+                                    onBlur={(e) => {
+                                        const value = (e.target as HTMLInputElement).value;
+                                        if (value !== entry) {
+                                            updateAspect(
+                                                aspect,
+                                                entries.map((existing, i) =>
+                                                    i === index ? value : existing
+                                                )
+                                            );
+                                        }
+                                    }}
+                                />
+                                <Button
+                                    size="sm"
+                                    variant="light"
+                                    color="danger"
+                                    isIconOnly
+                                    aria-label="Remove"
+                                    onPress={() =>
+                                        updateAspect(
+                                            aspect,
+                                            entries.filter((_, i) => i !== index)
+                                        )
+                                    }
+                                >
+                                    ✕
+                                </Button>
+                            </div>
+                        ))}
+
+                        {adding === aspect && (
+                            <Input
+                                size="sm"
+                                autoFocus
+                                aria-label={`New ${ASPECT_LABELS[aspect]}`}
+                                placeholder="Write your own"
+                                onBlur={(e) => {
+                                    const value = (e.target as HTMLInputElement).value.trim();
+                                    if (value) {
+                                        updateAspect(aspect, [...entries, value]);
+                                    }
+                                    setAdding(undefined);
+                                }}
+                            />
+                        )}
+
+                        {options.length > 0 && (
+                            <Select
+                                size="sm"
+                                aria-label={`Pick ${ASPECT_LABELS[aspect]}`}
+                                placeholder="Pick from the table"
+                                selectedKeys={[]}
+                                onSelectionChange={(keys) => {
+                                    const picked = Array.from(keys)[0] as string | undefined;
+                                    if (picked) {
+                                        updateAspect(aspect, [...entries, picked]);
+                                    }
+                                }}
+                            >
+                                {options.map((option) => (
+                                    <SelectItem key={option}>{option}</SelectItem>
+                                ))}
+                            </Select>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
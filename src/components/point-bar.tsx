@@ -1,21 +1,30 @@
 import type { Points } from "@/types";
 import { Button, Progress } from "@heroui/react";
+import type { ReactNode } from "react";
+
+type PointBarColor = "primary" | "success" | "warning" | "danger";
 
 export const PointBar = ({
     label,
     points,
     invert = false,
+    allowOverflow = false,
+    color: colorOverride,
+    badge,
     onIncrement,
     onDecrement,
 }: {
     label: string;
     points: Points;
     invert?: boolean;
+    allowOverflow?: boolean; // allow incrementing past the maximum (e.g., overheating)
+    color?: PointBarColor;
+    badge?: ReactNode;
     onIncrement?: () => void;
     onDecrement?: () => void;
 }) => {
     const percentage = points.current / points.maximum;
-    const color = invert
+    const defaultColor = invert
         ? percentage > 0.5
             ? "danger"
             : percentage > 0.2
@@ -26,8 +35,9 @@ export const PointBar = ({
           : percentage > 0.2
             ? "warning"
             : "danger";
+    const color: PointBarColor = colorOverride ?? defaultColor;
 
-    const canIncrement = points.current < points.maximum;
+    const canIncrement = allowOverflow || points.current < points.maximum;
     const canDecrement = points.current > 0;
 
     return (
@@ -41,7 +51,10 @@ export const PointBar = ({
                     gap: "0.5rem",
                 }}
             >
-                <span style={{ fontSize: "0.875rem", fontWeight: 600 }}>{label}</span>
+                <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+                    <span style={{ fontSize: "0.875rem", fontWeight: 600 }}>{label}</span>
+                    {badge}
+                </div>
                 <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
                     <span style={{ fontSize: "0.875rem" }}>
                         {points.current} / {points.maximum}
@@ -74,7 +87,7 @@ export const PointBar = ({
             </div>
             <Progress
                 aria-label={label}
-                value={(points.current / points.maximum) * 100}
+                value={Math.min(points.current / points.maximum, 1) * 100}
                 size="md"
                 color={color}
             />
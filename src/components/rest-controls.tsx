@@ -0,0 +1,254 @@
+import { formatModifier } from "@/model/character-utils";
+import { rollDie } from "@/model/dice-utils";
+import type { LongRestOptions, ShortRestOptions } from "@/model/mutable-character-view-model";
+import type { ClassType, Die, HitDice, Spell } from "@/types";
+import {
+    Button,
+    Checkbox,
+    CheckboxGroup,
+    Modal,
+    ModalBody,
+    ModalContent,
+    ModalFooter,
+    ModalHeader,
+    Switch,
+    useDisclosure,
+} from "@heroui/react";
+import { useState } from "react";
+import { Label, TertiaryText, Value } from "./typography";
+
+interface RestControlsProps {
+    hitDice: HitDice[];
+    constitutionModifier: number;
+    /** Known spells prepared on a long rest; choosing them is offered when there are any */
+    preparableSpells?: Spell[];
+    preparedSpells?: string[];
+    maxPrepared?: number;
+    onShortRest: (options: ShortRestOptions) => void;
+    /** Takes the rest; returns false if it couldn't be taken */
+    onLongRest: (options: LongRestOptions) => boolean;
+}
+
+interface HitDieResult {
+    die: Die;
+    roll: number;
+    healing: number;
+}
+
+/**
+ * Short and long rest buttons, with a dialog for spending hit dice on a short rest and one for
+ * preparing spells on a long rest
+ */
+export const RestControls = ({
+    hitDice,
+    constitutionModifier,
+    preparableSpells = [],
+    preparedSpells = [],
+    maxPrepared = 0,
+    onShortRest,
+    onLongRest,
+}: RestControlsProps) => {
+    const { isOpen, onOpen, onClose } = useDisclosure();
+    const preparation = useDisclosure();
+    const [spend, setSpend] = useState<Partial<Record<ClassType, number>>>({});
+    const [rollHitDice, setRollHitDice] = useState(true);
+    const [results, setResults] = useState<HitDieResult[]>();
+    const [prepared, setPrepared] = useState<string[]>([]);
+    const [safeEnvironment, setSafeEnvironment] = useState(false);
+
+    const handleSpendChange = (pool: HitDice, delta: number) => {
+        const count = Math.max(0, Math.min(pool.current, (spend[pool.class] || 0) + delta));
+        setSpend({ ...spend, [pool.class]: count });
+    };
+
+    // Roll in the same order the rest spends them: by class, then die by die
+    const handleRest = () => {
+        const rolled = hitDice.flatMap((pool) =>
+            Array.from({ length: spend[pool.class] || 0 }, () => {
+                const roll = rollHitDice ? rollDie(pool.die) : Math.floor(pool.die / 2) + 1;
+                return {
+                    die: pool.die,
+                    roll,
+                    healing: Math.max(roll + constitutionModifier, 0),
+                };
+            })
+        );
+
+        onShortRest({ hitDice: spend, hitDiceRolls: rolled.map((result) => result.roll) });
+        setResults(rolled);
+    };
+
+    const handleClose = () => {
+        setSpend({});
+        setResults(undefined);
+        onClose();
+    };
+
+    // Spells can only be prepared as part of a long rest
+    const handleLongRestPress = () => {
+        if (preparableSpells.length === 0) {
+            onLongRest({ safeEnvironment });
+            return;
+        }
+        setPrepared(preparedSpells.filter((name) => preparableSpells.some((s) => s.name === name)));
+        preparation.onOpen();
+    };
+
+    const handlePrepareAndRest = () => {
+        if (onLongRest({ safeEnvironment, preparedSpells: prepared })) {
+            preparation.onClose();
+        }
+    };
+
+    const spentCount = Object.values(spend).reduce((total, count) => total + (count || 0), 0);
+
+    return (
+        <div className="flex items-center gap-2 mt-2 flex-wrap">
+            <Button size="sm" variant="flat" onPress={onOpen}>
+                Short Rest
+            </Button>
+            <Button size="sm" variant="flat" onPress={handleLongRestPress}>
+                Long Rest
+            </Button>
+            <Switch size="sm" isSelected={safeEnvironment} onValueChange={setSafeEnvironment}>
+                Safe, cool environment
+            </Switch>
+            <TertiaryText>
+                Hit Dice:{" "}
+                {hitDice.map((pool) => `${pool.current}/${pool.maximum} d${pool.die}`).join(", ")}
+            </TertiaryText>
+
+            <Modal isOpen={isOpen} onClose={handleClose}>
+                <ModalContent>
+                    <ModalHeader>Short Rest</ModalHeader>
+                    <ModalBody>
+                        {results ? (
+                            <div className="space-y-1">
+                                {results.length === 0 && (
+                                    <TertiaryText>Rested without spending hit dice.</TertiaryText>
+                                )}
+                                {results.map((result, index) => (
+                                    <div key={index} className="flex justify-between">
+                                        <Label>
+                                            d{result.die}: {result.roll}{" "}
+                                            {formatModifier(constitutionModifier)} CON
+                                        </Label>
+                                        <Value>{result.healing} HP</Value>
+                                    </div>
+                                ))}
+                                <div className="flex justify-between border-t border-default-200 pt-1">
+                                    <Label>Regained</Label>
+                                    <Value>
+                                        {results.reduce((total, r) => total + r.healing, 0)} HP
+                                    </Value>
+                                </div>
+                            </div>
+                        ) : (
+                            <div className="space-y-2">
+                                {hitDice.map((pool) => (
+                                    <div
+                                        key={pool.class}
+                                        className="flex items-center justify-between"
+                                    >
+                                        <div>
+                                            <Label>
+                                                {pool.class} (d{pool.die})
+                                            </Label>
+                                            <TertiaryText>
+                                                {" "}
+                                                {pool.current} / {pool.maximum} remaining
+                                            </TertiaryText>
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            <Button
+                                                isIconOnly
+                                                size="sm"
+                                                variant="light"
+                                                onPress={() => handleSpendChange(pool, -1)}
+                                                isDisabled={!spend[pool.class]}
+                                                aria-label={`Spend fewer ${pool.class} hit dice`}
+                                            >
+                                                −
+                                            </Button>
+                                            <Value>{spend[pool.class] || 0}</Value>
+                                            <Button
+                                                isIconOnly
+                                                size="sm"
+                                                variant="light"
+                                                onPress={() => handleSpendChange(pool, 1)}
+                                                isDisabled={
+                                                    (spend[pool.class] || 0) >= pool.current
+                                                }
+                                                aria-label={`Spend more ${pool.class} hit dice`}
+                                            >
+                                                +
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ))}
+                                <Switch
+                                    size="sm"
+                                    isSelected={rollHitDice}
+                                    onValueChange={setRollHitDice}
+                                >
+                                    Roll each die (otherwise take the average)
+                                </Switch>
+                            </div>
+                        )}
+                    </ModalBody>
+                    <ModalFooter>
+                        {results ? (
+                            <Button color="primary" onPress={handleClose}>
+                                Done
+                            </Button>
+                        ) : (
+                            <>
+                                <Button variant="light" onPress={handleClose}>
+                                    Cancel
+                                </Button>
+                                <Button color="primary" onPress={handleRest}>
+                                    {spentCount > 0 ? `Spend ${spentCount} & Rest` : "Rest"}
+                                </Button>
+                            </>
+                        )}
+                    </ModalFooter>
+                </ModalContent>
+            </Modal>
+
+            <Modal isOpen={preparation.isOpen} onClose={preparation.onClose}>
+                <ModalContent>
+                    <ModalHeader>Long Rest</ModalHeader>
+                    <ModalBody>
+                        <CheckboxGroup
+                            label={`Prepare spells (${prepared.length}/${maxPrepared})`}
+                            value={prepared}
+                            onValueChange={setPrepared}
+                        >
+                            {preparableSpells.map((spell) => (
+                                <Checkbox
+                                    key={spell.name}
+                                    value={spell.name}
+                                    isDisabled={
+                                        !prepared.includes(spell.name) &&
+                                        prepared.length >= maxPrepared
+                                    }
+                                >
+                                    {spell.hollowgearName || spell.name}{" "}
+                                    <TertiaryText>(Level {spell.level})</TertiaryText>
+                                </Checkbox>
+                            ))}
+                        </CheckboxGroup>
+                    </ModalBody>
+                    <ModalFooter>
+                        <Button variant="light" onPress={preparation.onClose}>
+                            Cancel
+                        </Button>
+                        <Button color="primary" onPress={handlePrepareAndRest}>
+                            Prepare & Rest
+                        </Button>
+                    </ModalFooter>
+                </ModalContent>
+            </Modal>
+        </div>
+    );
+};
@@ -1,18 +1,24 @@
-import type { Rollable } from "@/types";
+import type { RollType } from "@/types";
 import { Button } from "@heroui/react";
+import type { RollSource } from "./roll";
 import { showRollToast } from "./roll";
+import { useRollLog } from "./roll-log-context";
 
 export const RollButton = ({
     title,
     rollables,
+    rollType = "Other",
     children,
 }: {
     title: string;
-    rollables: Rollable[];
+    rollables: RollSource[];
+    rollType?: RollType;
     children: React.ReactNode;
 }) => {
-    const handleDamageRoll = (rollables: Rollable[]) => {
-        showRollToast(title, rollables);
+    const logRoll = useRollLog();
+
+    const handleDamageRoll = (rollables: RollSource[]) => {
+        logRoll(rollType, title, showRollToast(title, rollables));
     };
 
     return (
@@ -0,0 +1,147 @@
+import { formatDiceRollResult } from "@/model/dice-utils";
+import type { D20RollResult, DiceRollResult, RollLogEntry, RollType } from "@/types";
+import { Button, Card, CardBody, Chip } from "@heroui/react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { RolledDice, showRollToast } from "./roll";
+import { useRollLog } from "./roll-log-context";
+import { CardTitle, EmptyState, TertiaryText } from "./typography";
+
+const ROLL_TYPE_COLORS: Record<
+    RollType,
+    "primary" | "danger" | "success" | "secondary" | "default"
+> = {
+    Attack: "primary",
+    Damage: "danger",
+    "Skill Check": "secondary",
+    "Saving Throw": "secondary",
+    Healing: "success",
+    "Hit Points": "success",
+    Other: "default",
+};
+
+const isD20Roll = (result: DiceRollResult): result is D20RollResult => "natural" in result;
+
+/**
+ * Format a roll log entry as plain text for sharing
+ */
+const formatEntry = (entry: RollLogEntry): string => {
+    const lines = entry.results.map(formatDiceRollResult);
+    const total = entry.results.length > 1 ? `\nTotal: ${entry.total}` : "";
+    return `${entry.roller} rolled ${entry.title}\n${lines.join("\n")}${total}`;
+};
+
+interface RollHistoryProps {
+    entries: RollLogEntry[]; // newest first
+    onClear?: () => void;
+}
+
+/**
+ * Roll log with filtering by roll type, re-rolling and copying entries
+ */
+export const RollHistory = ({ entries, onClear }: RollHistoryProps) => {
+    const [filter, setFilter] = useState<RollType | "All">("All");
+    const logRoll = useRollLog();
+
+    if (entries.length === 0) {
+        return <EmptyState message="No rolls yet" />;
+    }
+
+    const rollTypes = Array.from(new Set(entries.map((entry) => entry.rollType)));
+    const filteredEntries =
+        filter === "All" ? entries : entries.filter((entry) => entry.rollType === filter);
+
+    const handleReroll = (entry: RollLogEntry) => {
+        const results = showRollToast(
+            entry.title,
+            entry.results.map((result) => result.expression)
+        );
+        logRoll(entry.rollType, entry.title, results);
+    };
+
+    const handleCopy = async (entry: RollLogEntry) => {
+        try {
+            await navigator.clipboard.writeText(formatEntry(entry));
+            toast("Roll copied to clipboard", { position: "bottom-right" });
+        } catch {
+            toast.error("Could not copy roll to clipboard", { position: "bottom-right" });
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-1">
+                {(["All", ...rollTypes] as const).map((rollType) => (
+                    <Button
+                        key={rollType}
+                        size="sm"
+                        variant={filter === rollType ? "solid" : "flat"}
+                        color={filter === rollType ? "primary" : "default"}
+                        onPress={() => setFilter(rollType)}
+                    >
+                        {rollType}
+                    </Button>
+                ))}
+                {onClear && (
+                    <Button size="sm" variant="light" color="danger" onPress={onClear}>
+                        Clear
+                    </Button>
+                )}
+            </div>
+
+            {filteredEntries.map((entry) => (
+                <Card key={entry.id} className="border border-default-200">
+                    <CardBody className="p-3">
+                        {/* Title, Type and Time */}
+                        <div className="flex items-center gap-2 mb-1 flex-wrap">
+                            <CardTitle>{entry.title}</CardTitle>
+                            <Chip size="sm" variant="flat" color={ROLL_TYPE_COLORS[entry.rollType]}>
+                                {entry.rollType}
+                            </Chip>
+                            <TertiaryText>
+                                {entry.roller} · {new Date(entry.timestamp).toLocaleString()}
+                            </TertiaryText>
+                        </div>
+
+                        {/* Dice */}
+                        <div className="space-y-1">
+                            {entry.results.map((result, index) => (
+                                <div key={index} className="font-mono text-xs">
+                                    <RolledDice result={result} />
+                                    {isD20Roll(result) && result.criticalHit && (
+                                        <span className="ml-2 font-bold text-success">
+                                            Natural 20!
+                                        </span>
+                                    )}
+                                    {isD20Roll(result) && result.criticalMiss && (
+                                        <span className="ml-2 font-bold text-danger">
+                                            Natural 1!
+                                        </span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Total and Actions */}
+                        <div className="flex items-center justify-between mt-2">
+                            <span className="font-bold">Total: {entry.total}</span>
+                            <div className="flex gap-1">
+                                <Button
+                                    size="sm"
+                                    variant="flat"
+                                    onPress={() => handleReroll(entry)}
+                                >
+                                    Re-roll
+                                </Button>
+                                <Button size="sm" variant="flat" onPress={() => handleCopy(entry)}>
+                                    Copy
+                                </Button>
+                            </div>
+                        </div>
+                    </CardBody>
+                </Card>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,37 @@
+import type { DiceRollResult, RollLogEntry, RollType } from "@/types";
+import type { ReactNode } from "react";
+import { createContext, useContext } from "react";
+
+type LogRoll = (rollType: RollType, title: string, results: DiceRollResult[]) => void;
+
+const RollLogContext = createContext<LogRoll | undefined>(undefined);
+
+interface RollLogProviderProps {
+    roller: string;
+    onRoll: (roll: Omit<RollLogEntry, "id" | "timestamp">) => void;
+    children: ReactNode;
+}
+
+/**
+ * Collects rolls made by the components below it into a roll log for `roller`
+ */
+export function RollLogProvider({ roller, onRoll, children }: RollLogProviderProps) {
+    const logRoll: LogRoll = (rollType, title, results) => {
+        onRoll({
+            roller,
+            rollType,
+            title,
+            results,
+            total: results.reduce((sum, result) => sum + result.total, 0),
+        });
+    };
+
+    return <RollLogContext.Provider value={logRoll}>{children}</RollLogContext.Provider>;
+}
+
+/**
+ * Get the function that records a roll; rolls made outside a `RollLogProvider` are not logged
+ */
+export function useRollLog(): LogRoll {
+    return useContext(RollLogContext) ?? (() => {});
+}
@@ -1,56 +1,82 @@
-import type { Rollable } from "@/types";
+import { rollableToExpression, rollDiceExpression } from "@/model/dice-utils";
+import type {
+    AttackRollResult,
+    D20RollResult,
+    DiceExpression,
+    DiceRollResult,
+    Rollable,
+    RollType,
+} from "@/types";
 import { toast } from "sonner";
-
-export interface RollResult {
-    rolls: number[];
-    total: number;
-    rollable: Rollable;
-}
+import { useRollLog } from "./roll-log-context";
 
 /**
- * Performs a dice roll for a single Rollable object
+ * A roll given either as the fixed `Rollable` shape or as dice notation
  */
-function performRoll(rollable: Rollable): RollResult {
-    const rolls: number[] = [];
-    for (let i = 0; i < rollable.count; i++) {
-        rolls.push(Math.floor(Math.random() * rollable.die) + 1);
-    }
-    const diceTotal = rolls.reduce((sum, roll) => sum + roll, 0);
-    const total = diceTotal + (rollable.bonus || 0);
-
-    return {
-        rolls,
-        total,
-        rollable,
-    };
-}
+export type RollSource = Rollable | DiceExpression;
 
 /**
- * Performs rolls for multiple Rollable objects
+ * Performs rolls for multiple Rollables or dice expressions
  */
-function performRolls(rollables: Rollable[]): RollResult[] {
-    return rollables.map(performRoll);
+function performRolls(sources: RollSource[]): DiceRollResult[] {
+    return sources.map((source) =>
+        rollDiceExpression(typeof source === "string" ? source : rollableToExpression(source))
+    );
 }
 
 /**
- * Formats a roll result as a string
+ * Renders the individual dice of a roll result, striking through dropped dice
  */
-function formatRollResult(result: RollResult): string {
-    const diceNotation = `${result.rollable.count}d${result.rollable.die}`;
-    const rollsDisplay = result.rolls.join(" + ");
-    const bonus = result.rollable.bonus || 0;
-    const bonusDisplay = bonus > 0 ? ` + ${bonus}` : bonus < 0 ? ` - ${Math.abs(bonus)}` : "";
+export function RolledDice({ result }: { result: DiceRollResult }) {
+    const parts = result.terms.map((term, termIndex) => {
+        const negative = term.term.sign === -1;
+        const prefix = termIndex === 0 ? (negative ? "-" : "") : negative ? " - " : " + ";
+
+        if (term.term.kind === "modifier") {
+            return (
+                <span key={termIndex}>
+                    {prefix}
+                    {term.term.value}
+                </span>
+            );
+        }
+
+        return (
+            <span key={termIndex}>
+                {prefix}[
+                {term.dice.map((die, dieIndex) => (
+                    <span key={dieIndex}>
+                        {dieIndex > 0 && ", "}
+                        <span
+                            className={die.dropped ? "line-through opacity-50" : undefined}
+                            title={
+                                die.rerolls.length > 0
+                                    ? `Rerolled from ${die.rerolls.join(", ")}`
+                                    : undefined
+                            }
+                        >
+                            {die.value}
+                            {die.exploded && "!"}
+                            {die.rerolls.length > 0 && "*"}
+                        </span>
+                    </span>
+                ))}
+                ]
+            </span>
+        );
+    });
 
-    return `${diceNotation}${bonusDisplay}: [${rollsDisplay}]${bonusDisplay} = ${result.total}`;
+    return (
+        <>
+            {result.expression}: {parts} = {result.total}
+        </>
+    );
 }
 
 /**
- * Shows a toast with roll results
+ * Shows a toast with the dice icon, a title and the given roll lines
  */
-export function showRollToast(title: string, rollables: Rollable[]) {
-    const results = performRolls(rollables);
-    const grandTotal = results.reduce((sum, result) => sum + result.total, 0);
-
+function toastRoll(title: string, content: React.ReactNode) {
     toast(
         <div className="flex items-start gap-3">
             <div className="flex-shrink-0 text-primary mt-1">
@@ -58,18 +84,7 @@ export function showRollToast(title: string, rollables: Rollable[]) {
             </div>
             <div className="flex-1">
                 <div className="font-bold text-base mb-2">{title}</div>
-                <div className="space-y-1 text-sm">
-                    {results.map((result, index) => (
-                        <div key={index} className="font-mono text-xs">
-                            {formatRollResult(result)}
-                        </div>
-                    ))}
-                    {results.length > 1 && (
-                        <div className="font-bold text-base mt-2 pt-2 border-t border-default-200">
-                            Total: {grandTotal}
-                        </div>
-                    )}
-                </div>
+                <div className="space-y-1 text-sm">{content}</div>
             </div>
         </div>,
         {
@@ -82,21 +97,104 @@ export function showRollToast(title: string, rollables: Rollable[]) {
     );
 }
 
+/**
+ * Describes the roll mode and any natural 20 or 1 of a d20 roll
+ */
+function D20Outcome({ result }: { result: D20RollResult }) {
+    return (
+        <div className="flex gap-2 text-xs">
+            {result.mode !== "Normal" && <span className="text-default-500">{result.mode}</span>}
+            {result.criticalHit && <span className="font-bold text-success">Natural 20!</span>}
+            {result.criticalMiss && <span className="font-bold text-danger">Natural 1!</span>}
+        </div>
+    );
+}
+
+/**
+ * Shows a toast with roll results
+ */
+export function showRollToast(title: string, rollables: RollSource[]): DiceRollResult[] {
+    const results = performRolls(rollables);
+    const grandTotal = results.reduce((sum, result) => sum + result.total, 0);
+
+    toastRoll(
+        title,
+        <>
+            {results.map((result, index) => (
+                <div key={index} className="font-mono text-xs">
+                    <RolledDice result={result} />
+                </div>
+            ))}
+            {results.length > 1 && (
+                <div className="font-bold text-base mt-2 pt-2 border-t border-default-200">
+                    Total: {grandTotal}
+                </div>
+            )}
+        </>
+    );
+
+    return results;
+}
+
+/**
+ * Shows a toast with a d20 test (ability check, saving throw or attack roll)
+ */
+export function showD20RollToast(title: string, result: D20RollResult) {
+    toastRoll(
+        title,
+        <>
+            <div className="font-mono text-xs">
+                <RolledDice result={result} />
+            </div>
+            <D20Outcome result={result} />
+        </>
+    );
+}
+
+/**
+ * Shows a toast with an attack roll and the damage it deals
+ */
+export function showAttackRollToast(title: string, result: AttackRollResult) {
+    const { attack, damage } = result;
+
+    toastRoll(
+        title,
+        <>
+            <div className="font-mono text-xs">
+                Attack: <RolledDice result={attack} />
+            </div>
+            <D20Outcome result={attack} />
+            {damage && (
+                <div className="font-mono text-xs">
+                    {attack.criticalHit ? "Critical damage" : "Damage"}:{" "}
+                    <RolledDice result={damage} />
+                </div>
+            )}
+            {attack.criticalMiss && (
+                <div className="text-xs text-danger">The attack misses automatically.</div>
+            )}
+        </>
+    );
+}
+
 /**
  * Roll component - wrapper for triggering rolls
  */
 interface RollProps {
     title: string;
-    rollables: Rollable[];
+    rollables: RollSource[];
+    rollType?: RollType;
     children: (roll: () => void) => React.ReactNode;
 }
 
 const audio = new Audio("/dice.mp3");
 
-export function Roll({ title, rollables, children }: RollProps) {
+export function Roll({ title, rollables, rollType = "Other", children }: RollProps) {
+    const logRoll = useRollLog();
+
     const handleRoll = () => {
         audio.play();
-        showRollToast(title, rollables);
+        logRoll(rollType, title, showRollToast(title, rollables));
     };
 
     return <>{children(handleRoll)}</>;
@@ -1,5 +1,5 @@
 import type { Skills as CharacterSkills } from "@/model/character-view-model";
-import { RollButton } from "./roll-button";
+import { D20RollButton } from "./d20-roll-button";
 
 export const Skills = ({ skills }: { skills: CharacterSkills }) => {
     const skillEntries = Object.entries(skills);
@@ -25,7 +25,16 @@ export const Skills = ({ skills }: { skills: CharacterSkills }) => {
                     </div>
 
                     {/* Skill Name */}
-                    <div className="flex-1 text-sm font-medium">{skillName}</div>
+                    <div className="flex-1 text-sm font-medium">
+                        {skillName}
+                        {skillData.mode !== "Normal" && (
+                            <span
+                                className={`ml-2 text-xs ${skillData.mode === "Advantage" ? "text-success" : "text-warning"}`}
+                            >
+                                {skillData.mode}
+                            </span>
+                        )}
+                    </div>
 
                     {/* Ability */}
                     <div className="text-xs text-default-500 uppercase w-8 text-center">
@@ -34,9 +43,14 @@ export const Skills = ({ skills }: { skills: CharacterSkills }) => {
 
                     {/* Modifier */}
                     {/* <div className="text-sm font-semibold w-10 text-right"> */}
-                    <RollButton title={`${skillName} DC`} rollables={[skillData.rollable]}>
+                    <D20RollButton
+                        title={`${skillName} Check`}
+                        rollType="Skill Check"
+                        modifier={skillData.rollable.bonus || 0}
+                        defaultMode={skillData.mode}
+                    >
                         {skillData.modifier}
-                    </RollButton>
+                    </D20RollButton>
                     {/* </div> */}
                 </div>
             ))}
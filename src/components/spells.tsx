@@ -1,6 +1,21 @@
-import type { Rollable, Spell } from "@/types";
-import { Card, CardBody, Chip } from "@heroui/react";
-import { showRollToast } from "./roll";
+import { OVERCLOCK_RULES_BY_TYPE } from "@/data";
+import { formatModifier } from "@/model/character-utils";
+import type { SpellcastingStats } from "@/model/character-view-model";
+import { rollAttack, rollD20 } from "@/model/dice-utils";
+import type { CastSpellOptions } from "@/model/mutable-character-view-model";
+import {
+    getAetherCost,
+    getCastableLevels,
+    getFaithFeedbackDC,
+    getOverchannelHitPoints,
+    getSpellDamage,
+} from "@/model/spell-utils";
+import type { CastingMode, Rollable, RollMode, Spell } from "@/types";
+import { Button, Card, CardBody, Chip, Select, SelectItem } from "@heroui/react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { showAttackRollToast, showD20RollToast, showRollToast } from "./roll";
+import { useRollLog } from "./roll-log-context";
 import {
     CardTitle,
     DangerStat,
@@ -11,13 +26,55 @@ import {
     StatRow,
 } from "./typography";
 
+const FORMULA_OVERCLOCK = OVERCLOCK_RULES_BY_TYPE.Formula;
+
+const CASTING_LABELS: Record<CastingMode, string> = {
+    Normal: "",
+    Overclock: "Overclocked ",
+    Overchannel: "Overchannelled ",
+};
+
+interface SpellsProps {
+    resourceType: "Aether Flux" | "Resonance Charges";
+    spells: Spell[];
+    maxSpellLevel: number;
+    characterLevel: number; // cantrip damage scales with it
+    spellcasting: SpellcastingStats[];
+    attackMode: RollMode; // spell attack roll mode from conditions
+    /** Known spells that can't be cast until they're prepared on a long rest */
+    unpreparedSpells?: string[];
+    /** Wisdom modifier for the Faith Feedback check after Overchannelling */
+    feedbackModifier?: number;
+    /** Uses left of the feature that makes an Overclock or Overchannel free of risk */
+    safeUses?: number;
+    /** What imposes disadvantage on concentration checks until the next rest */
+    concentrationDisadvantage?: string;
+    /** Spends the spell's cost; returns false if it couldn't be cast */
+    onCast?: (spell: Spell, options: CastSpellOptions) => boolean;
+    /** Called on a natural 1 with an Overclocked spell attack; Overclocking is offered when set */
+    onOverclockBacklash?: (spell: Spell) => void;
+    /** Called when a Faith Feedback check fails; Overchannelling is offered when set */
+    onFaithFeedbackFailed?: (spell: Spell) => void;
+}
+
 export const Spells = ({
     resourceType,
     spells,
-}: {
-    resourceType: "Aether Flux" | "Resonance Charges";
-    spells: Spell[];
-}) => {
+    maxSpellLevel,
+    characterLevel,
+    spellcasting,
+    attackMode,
+    unpreparedSpells = [],
+    feedbackModifier = 0,
+    safeUses = 0,
+    concentrationDisadvantage,
+    onCast,
+    onOverclockBacklash,
+    onFaithFeedbackFailed,
+}: SpellsProps) => {
+    const [slotLevels, setSlotLevels] = useState<Record<string, number>>({});
+    const logRoll = useRollLog();
+
     if (spells.length === 0) {
         return <EmptyState message="No spells available" />;
     }
@@ -30,102 +87,321 @@ export const Spells = ({
         return castingTime;
     };
 
+    const canOverclock = (spell: Spell): boolean =>
+        !!onOverclockBacklash && spell.overclockable && spell.level > 0;
+
+    const canOverchannel = (spell: Spell): boolean => !!onFaithFeedbackFailed && spell.level > 0;
+
+    // The caster's numbers for the class the spell belongs to
+    const getStats = (spell: Spell): SpellcastingStats | undefined =>
+        spellcasting.find((stats) => spell.classes.includes(stats.classType)) ?? spellcasting[0];
+
+    const getSaveDC = (spell: Spell, bonus = 0): string => {
+        const stats = getStats(spell);
+        return spell.savingThrow && stats
+            ? `DC ${stats.saveDC + bonus} ${spell.savingThrow.ability.substring(0, 3).toUpperCase()}`
+            : "";
+    };
+
+    // Normal result, then the Overclocked one for spells that can be Overclocked
     const getHitDC = (spell: Spell): string => {
+        const stats = getStats(spell);
+        const overclocked = canOverclock(spell) ? FORMULA_OVERCLOCK.spellBonus || 0 : 0;
+        if (spell.type === "Attack" && stats) {
+            return overclocked
+                ? `${formatModifier(stats.attackBonus)} (${formatModifier(stats.attackBonus + overclocked)} OC)`
+                : formatModifier(stats.attackBonus);
+        }
         if (spell.type === "Attack") return "Spell Attack";
-        if (spell.type === "Save" && spell.savingThrow) {
-            return `DC ${spell.savingThrow.dc} ${spell.savingThrow.ability.substring(0, 3).toUpperCase()}`;
+        if (spell.type === "Save" && spell.savingThrow && stats) {
+            return overclocked
+                ? `${getSaveDC(spell)} (${stats.saveDC + overclocked} OC)`
+                : getSaveDC(spell);
         }
         if (spell.type === "Automatic Hit") return "Auto Hit";
         return "—";
     };
 
-    const handleDamageRoll = (spell: Spell) => {
-        if (!spell.damage) return;
+    const handleDamageRoll = (spell: Spell, slotLevel: number) => {
+        const damage = getSpellDamage(spell, characterLevel, slotLevel);
+        if (!damage) return;
 
         const damageRollable: Rollable = {
-            count: spell.damage.count,
-            die: spell.damage.die,
-            bonus: spell.damage.bonus,
+            count: damage.count,
+            die: damage.die,
+            bonus: damage.bonus,
         };
 
-        showRollToast(`${spell.hollowgearName || spell.name} - ${spell.damage.damageType}`, [
-            damageRollable,
-        ]);
+        const title = `${spell.hollowgearName || spell.name} - ${damage.damageType}`;
+        logRoll("Damage", title, showRollToast(title, [damageRollable]));
+    };
+
+    const handleFaithFeedback = (spell: Spell, slotLevel: number) => {
+        const dc = getFaithFeedbackDC(slotLevel);
+        const check = rollD20(feedbackModifier);
+        const failed = check.total < dc;
+
+        const title = `${spell.hollowgearName || spell.name} - Faith Feedback (DC ${dc}) ${failed ? "Failed" : "Stabilized"}`;
+        showD20RollToast(title, check);
+        logRoll("Other", title, [check]);
+        if (failed) {
+            onFaithFeedbackFailed?.(spell);
+        }
+    };
+
+    const handleCast = (
+        spell: Spell,
+        slotLevel: number,
+        casting: CastingMode = "Normal",
+        safe = false
+    ) => {
+        if (!onCast?.(spell, { slotLevel, casting, safe })) return;
+
+        const name = `${safe ? "Safely " : ""}${CASTING_LABELS[casting]}${spell.hollowgearName || spell.name}`;
+        const title = slotLevel > spell.level ? `${name} (Level ${slotLevel})` : name;
+        const bonus = casting === "Overclock" ? FORMULA_OVERCLOCK.spellBonus || 0 : 0;
+        const damage = getSpellDamage(spell, characterLevel, slotLevel);
+
+        if (casting === "Overchannel" && !safe) {
+            handleFaithFeedback(spell, slotLevel);
+        }
+
+        // Spell attacks roll to hit, then damage on a hit
+        if (spell.type === "Attack") {
+            const result = rollAttack(
+                (getStats(spell)?.attackBonus ?? 0) + bonus,
+                damage ? [damage] : [],
+                attackMode
+            );
+            showAttackRollToast(
+                damage ? `${title} - Attack (${damage.damageType})` : `${title} - Attack`,
+                result
+            );
+            logRoll("Attack", `${title} - Attack`, [result.attack]);
+            if (result.damage && damage) {
+                logRoll(
+                    "Damage",
+                    `${title} - ${result.attack.criticalHit ? "Critical " : ""}Damage (${damage.damageType})`,
+                    [result.damage]
+                );
+            }
+            // A natural 1 while Overclocked triggers an immediate Overheat Table roll
+            if (casting === "Overclock" && !safe && result.attack.criticalMiss) {
+                onOverclockBacklash?.(spell);
+            }
+            return;
+        }
+
+        // Saves and automatic hits roll damage straight away, with the DC targets save against
+        const saveDC = getSaveDC(spell, bonus);
+        if (damage) {
+            const damageTitle = `${title} - Damage (${damage.damageType})`;
+            logRoll(
+                "Damage",
+                damageTitle,
+                showRollToast(saveDC ? `${damageTitle}, ${saveDC} save` : damageTitle, [damage])
+            );
+        } else {
+            toast.success(saveDC ? `${title} cast, ${saveDC} save` : `${title} cast`, {
+                position: "bottom-right",
+            });
+        }
     };
 
     const resourceAbbr = resourceType === "Aether Flux" ? "AFP" : "RC";
 
+    // Normal cost, then the Overclocked cost or the HP to Overchannel with no RC left
+    const getCost = (spell: Spell, slotLevel: number): string => {
+        const cost = `${getAetherCost(spell, slotLevel)} ${resourceAbbr}`;
+        if (canOverclock(spell)) {
+            return `${cost} (${getAetherCost(spell, slotLevel, "Overclock")} OC)`;
+        }
+        if (canOverchannel(spell)) {
+            return `${cost} (or ${getOverchannelHitPoints(slotLevel)} HP)`;
+        }
+        return cost;
+    };
+
     return (
         <div className="space-y-2">
-            {spells.map((spell, index) => (
-                <Card key={index} className="border border-default-200">
-                    <CardBody className="p-3">
-                        <div className="flex items-start gap-3">
-                            {/* Left: Spell Info */}
-                            <div className="flex-1 min-w-0">
-                                {/* Name and Level */}
-                                <div className="flex items-center gap-2 mb-1">
-                                    <CardTitle>{spell.hollowgearName || spell.name}</CardTitle>
-                                    {spell.level > 0 && (
-                                        <Chip size="sm" variant="flat" color="default">
-                                            Lvl {spell.level}
-                                        </Chip>
-                                    )}
-                                    {spell.concentration && (
-                                        <Chip size="sm" variant="flat" color="warning">
-                                            C
-                                        </Chip>
-                                    )}
-                                </div>
+            {spells.map((spell, index) => {
+                const castableLevels = getCastableLevels(spell, maxSpellLevel);
+                const slotLevel = slotLevels[spell.name] ?? castableLevels[0] ?? spell.level;
+                const unprepared = unpreparedSpells.includes(spell.name);
+                const cannotCast = castableLevels.length === 0 || unprepared;
+                const damage = getSpellDamage(spell, characterLevel, slotLevel);
 
-                                {/* Stats Row */}
-                                <StatRow>
-                                    {/* Time */}
-                                    <Stat label="Time" value={getActionTime(spell.castingTime)} />
+                return (
+                    <Card key={index} className="border border-default-200">
+                        <CardBody className="p-3">
+                            <div className="flex items-start gap-3">
+                                {/* Left: Spell Info */}
+                                <div className="flex-1 min-w-0">
+                                    {/* Name and Level */}
+                                    <div className="flex items-center gap-2 mb-1">
+                                        <CardTitle>{spell.hollowgearName || spell.name}</CardTitle>
+                                        {spell.level > 0 && (
+                                            <Chip size="sm" variant="flat" color="default">
+                                                Lvl {spell.level}
+                                            </Chip>
+                                        )}
+                                        {spell.concentration && (
+                                            <Chip size="sm" variant="flat" color="warning">
+                                                C
+                                            </Chip>
+                                        )}
+                                        {spell.concentration && concentrationDisadvantage && (
+                                            <Chip size="sm" variant="flat" color="danger">
+                                                Disadv. ({concentrationDisadvantage})
+                                            </Chip>
+                                        )}
+                                        {unprepared && (
+                                            <Chip size="sm" variant="flat" color="default">
+                                                Unprepared
+                                            </Chip>
+                                        )}
+                                    </div>
 
-                                    {/* Cost */}
-                                    {spell.aetherCost !== undefined && (
-                                        <PrimaryStat
-                                            label="Cost"
-                                            value={`${spell.aetherCost} ${resourceAbbr}`}
+                                    {/* Stats Row */}
+                                    <StatRow>
+                                        {/* Time */}
+                                        <Stat
+                                            label="Time"
+                                            value={getActionTime(spell.castingTime)}
                                         />
-                                    )}
-
-                                    {/* Range */}
-                                    <Stat label="Range" value={spell.range} />
-
-                                    {/* Hit/DC */}
-                                    <Stat label="Hit/DC" value={getHitDC(spell)} />
-
-                                    {/* Heat */}
-                                    {spell.heatGenerated && spell.heatGenerated > 0 && (
-                                        <DangerStat label="Heat" value={spell.heatGenerated} />
-                                    )}
-                                </StatRow>
-
-                                {/* Description */}
-                                <Description>{spell.description}</Description>
-
-                                {/* Damage/Heal Roll Button */}
-                                {spell.damage && (
-                                    <div className="flex items-center gap-2">
-                                        <button
-                                            onClick={() => handleDamageRoll(spell)}
-                                            className="px-3 py-1 text-xs font-medium rounded-md bg-danger/10 text-danger hover:bg-danger/20 transition-colors"
-                                        >
-                                            Roll {spell.damage.count}d{spell.damage.die}
-                                            {spell.damage.bonus
-                                                ? ` + ${spell.damage.bonus}`
-                                                : ""}{" "}
-                                            {spell.damage.damageType}
-                                        </button>
+
+                                        {/* Cost */}
+                                        {spell.aetherCost !== undefined && (
+                                            <PrimaryStat
+                                                label="Cost"
+                                                value={getCost(spell, slotLevel)}
+                                            />
+                                        )}
+
+                                        {/* Range */}
+                                        <Stat label="Range" value={spell.range} />
+
+                                        {/* Hit/DC */}
+                                        <Stat label="Hit/DC" value={getHitDC(spell)} />
+
+                                        {/* Heat */}
+                                        {spell.heatGenerated && spell.heatGenerated > 0 && (
+                                            <DangerStat label="Heat" value={spell.heatGenerated} />
+                                        )}
+                                    </StatRow>
+
+                                    {/* Description */}
+                                    <Description>{spell.description}</Description>
+
+                                    <div className="flex items-center gap-2 flex-wrap">
+                                        {/* Cast, at a higher slot level to upcast */}
+                                        {onCast && castableLevels.length > 1 && (
+                                            <Select
+                                                size="sm"
+                                                aria-label="Slot level"
+                                                className="w-32"
+                                                selectedKeys={[String(slotLevel)]}
+                                                onChange={(e) =>
+                                                    e.target.value &&
+                                                    setSlotLevels({
+                                                        ...slotLevels,
+                                                        [spell.name]: Number(e.target.value),
+                                                    })
+                                                }
+                                            >
+                                                {castableLevels.map((level) => (
+                                                    <SelectItem key={String(level)}>
+                                                        {`Level ${level}`}
+                                                    </SelectItem>
+                                                ))}
+                                            </Select>
+                                        )}
+                                        {onCast && (
+                                            <Button
+                                                size="sm"
+                                                color="primary"
+                                                isDisabled={cannotCast}
+                                                onPress={() => handleCast(spell, slotLevel)}
+                                            >
+                                                Cast
+                                            </Button>
+                                        )}
+                                        {onCast && canOverclock(spell) && (
+                                            <Button
+                                                size="sm"
+                                                color="warning"
+                                                variant="flat"
+                                                isDisabled={cannotCast}
+                                                onPress={() =>
+                                                    handleCast(spell, slotLevel, "Overclock")
+                                                }
+                                            >
+                                                Overclock
+                                            </Button>
+                                        )}
+                                        {onCast && canOverclock(spell) && safeUses > 0 && (
+                                            <Button
+                                                size="sm"
+                                                color="success"
+                                                variant="flat"
+                                                isDisabled={cannotCast}
+                                                onPress={() =>
+                                                    handleCast(spell, slotLevel, "Overclock", true)
+                                                }
+                                            >
+                                                Safe Overclock ({safeUses})
+                                            </Button>
+                                        )}
+                                        {onCast && canOverchannel(spell) && (
+                                            <Button
+                                                size="sm"
+                                                color="danger"
+                                                variant="flat"
+                                                isDisabled={cannotCast}
+                                                onPress={() =>
+                                                    handleCast(spell, slotLevel, "Overchannel")
+                                                }
+                                            >
+                                                Overchannel
+                                            </Button>
+                                        )}
+                                        {onCast && canOverchannel(spell) && safeUses > 0 && (
+                                            <Button
+                                                size="sm"
+                                                color="success"
+                                                variant="flat"
+                                                isDisabled={cannotCast}
+                                                onPress={() =>
+                                                    handleCast(
+                                                        spell,
+                                                        slotLevel,
+                                                        "Overchannel",
+                                                        true
+                                                    )
+                                                }
+                                            >
+                                                Safe Overchannel ({safeUses})
+                                            </Button>
+                                        )}
+
+                                        {/* Damage/Heal Roll Button */}
+                                        {damage && (
+                                            <button
+                                                onClick={() => handleDamageRoll(spell, slotLevel)}
+                                                className="px-3 py-1 text-xs font-medium rounded-md bg-danger/10 text-danger hover:bg-danger/20 transition-colors"
+                                            >
+                                                Roll {damage.count}d{damage.die}
+                                                {damage.bonus ? ` + ${damage.bonus}` : ""}{" "}
+                                                {damage.damageType}
+                                            </button>
+                                        )}
                                     </div>
-                                )}
+                                </div>
                             </div>
-                        </div>
-                    </CardBody>
-                </Card>
-            ))}
+                        </CardBody>
+                    </Card>
+                );
+            })}
         </div>
     );
 };
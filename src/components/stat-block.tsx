@@ -0,0 +1,259 @@
+import { calculateAbilityModifier, formatModifier } from "@/model/character-utils";
+import { rollableToExpression } from "@/model/dice-utils";
+import type { AbilityScores, Creature, CreatureAction, CreatureSpeed } from "@/types";
+import { Button, Card, CardBody, Chip, Divider } from "@heroui/react";
+import { D20RollButton } from "./d20-roll-button";
+import { Roll } from "./roll";
+import { CardTitle, Description, Stat, TertiaryText } from "./typography";
+
+const ABILITIES: (keyof AbilityScores)[] = [
+    "strength",
+    "dexterity",
+    "constitution",
+    "intelligence",
+    "wisdom",
+    "charisma",
+];
+
+const ABILITY_ABBREVIATIONS: Record<keyof AbilityScores, string> = {
+    strength: "STR",
+    dexterity: "DEX",
+    constitution: "CON",
+    intelligence: "INT",
+    wisdom: "WIS",
+    charisma: "CHA",
+};
+
+const CHALLENGE_RATING_FRACTIONS: Record<number, string> = {
+    0.125: "1/8",
+    0.25: "1/4",
+    0.5: "1/2",
+};
+
+const formatChallengeRating = (rating: number): string =>
+    CHALLENGE_RATING_FRACTIONS[rating] ?? rating.toString();
+
+const formatSpeed = (speed: CreatureSpeed): string =>
+    [
+        `${speed.walk} ft`,
+        speed.fly !== undefined && `fly ${speed.fly} ft${speed.hover ? " (hover)" : ""}`,
+        speed.climb !== undefined && `climb ${speed.climb} ft`,
+        speed.swim !== undefined && `swim ${speed.swim} ft`,
+        speed.burrow !== undefined && `burrow ${speed.burrow} ft`,
+    ]
+        .filter(Boolean)
+        .join(", ");
+
+const formatSenses = (creature: Creature): string =>
+    [
+        creature.senses.darkvision && `Darkvision ${creature.senses.darkvision} ft`,
+        creature.senses.blindsight && `Blindsight ${creature.senses.blindsight} ft`,
+        creature.senses.tremorsense && `Tremorsense ${creature.senses.tremorsense} ft`,
+        `passive Perception ${creature.senses.passivePerception}`,
+    ]
+        .filter(Boolean)
+        .join(", ");
+
+/**
+ * Stat block for a bestiary creature; attacks, damage, healing, recharges and
+ * ability checks are rollable and recorded in the roll log
+ */
+export const StatBlock = ({ creature }: { creature: Creature }) => {
+    const typeLine = `${creature.size} ${creature.type}${creature.subtype ? ` (${creature.subtype})` : ""}, ${creature.alignment}`;
+
+    return (
+        <Card className="border border-default-200">
+            <CardBody className="p-4 space-y-2">
+                {/* Name and Type */}
+                <div>
+                    <CardTitle>{creature.name}</CardTitle>
+                    <TertiaryText>{typeLine}</TertiaryText>
+                </div>
+                <Description>{creature.description}</Description>
+                <Divider />
+
+                {/* Defenses */}
+                <div className="flex flex-wrap gap-3 items-center">
+                    <Stat
+                        label="Armor Class"
+                        value={`${creature.armorClass}${creature.armorDescription ? ` (${creature.armorDescription})` : ""}`}
+                    />
+                    <Stat
+                        label="Hit Points"
+                        value={
+                            <Roll
+                                title={`${creature.name} - Hit Points`}
+                                rollables={[creature.hitPoints.roll]}
+                                rollType="Hit Points"
+                            >
+                                {(roll) => (
+                                    <Button variant="bordered" size="sm" onPress={roll}>
+                                        {creature.hitPoints.average} ({creature.hitPoints.roll})
+                                    </Button>
+                                )}
+                            </Roll>
+                        }
+                    />
+                    <Stat label="Speed" value={formatSpeed(creature.speed)} />
+                </div>
+                <Divider />
+
+                {/* Ability Scores */}
+                <div className="grid grid-cols-6 gap-1 text-center">
+                    {ABILITIES.map((ability) => {
+                        const modifier = calculateAbilityModifier(creature.abilityScores[ability]);
+                        return (
+                            <div key={ability} className="flex flex-col items-center gap-1">
+                                <span className="text-xs font-bold">
+                                    {ABILITY_ABBREVIATIONS[ability]}
+                                </span>
+                                <D20RollButton
+                                    title={`${creature.name} - ${ABILITY_ABBREVIATIONS[ability]} Check`}
+                                    modifier={modifier}
+                                >
+                                    {creature.abilityScores[ability]} ({formatModifier(modifier)})
+                                </D20RollButton>
+                            </div>
+                        );
+                    })}
+                </div>
+                <Divider />
+
+                {/* Proficiencies, Defenses and Senses */}
+                <div className="space-y-1">
+                    {creature.savingThrows && (
+                        <Stat
+                            label="Saving Throws"
+                            value={Object.entries(creature.savingThrows)
+                                .map(
+                                    ([ability, bonus]) =>
+                                        `${ABILITY_ABBREVIATIONS[ability as keyof AbilityScores]} ${formatModifier(bonus)}`
+                                )
+                                .join(", ")}
+                        />
+                    )}
+                    {creature.skills && (
+                        <Stat
+                            label="Skills"
+                            value={Object.entries(creature.skills)
+                                .map(([skill, bonus]) => `${skill} ${formatModifier(bonus)}`)
+                                .join(", ")}
+                        />
+                    )}
+                    {creature.damageResistances && (
+                        <Stat
+                            label="Damage Resistances"
+                            value={creature.damageResistances.join(", ")}
+                        />
+                    )}
+                    {creature.damageVulnerabilities && (
+                        <Stat
+                            label="Damage Vulnerabilities"
+                            value={creature.damageVulnerabilities.join(", ")}
+                        />
+                    )}
+                    {creature.damageImmunities && (
+                        <Stat
+                            label="Damage Immunities"
+                            value={creature.damageImmunities.join(", ")}
+                        />
+                    )}
+                    {creature.conditionImmunities && (
+                        <Stat
+                            label="Condition Immunities"
+                            value={creature.conditionImmunities.join(", ")}
+                        />
+                    )}
+                    <Stat label="Senses" value={formatSenses(creature)} />
+                    <Stat label="Languages" value={creature.languages ?? "—"} />
+                    <Stat
+                        label="Challenge"
+                        value={`${formatChallengeRating(creature.challengeRating)} (${creature.experiencePoints} XP)`}
+                    />
+                </div>
+
+                {/* Traits and Actions */}
+                {creature.traits.length > 0 && <Divider />}
+                {creature.traits.map((trait) => (
+                    <CreatureActionEntry key={trait.name} creature={creature} action={trait} />
+                ))}
+                <Divider />
+                <CardTitle>Actions</CardTitle>
+                {creature.actions.map((action) => (
+                    <CreatureActionEntry key={action.name} creature={creature} action={action} />
+                ))}
+            </CardBody>
+        </Card>
+    );
+};
+
+const CreatureActionEntry = ({
+    creature,
+    action,
+}: {
+    creature: Creature;
+    action: CreatureAction;
+}) => {
+    const { recharge, attack, savingThrow, damage, healing } = action;
+    const title = `${creature.name} - ${action.name}`;
+
+    return (
+        <div className="space-y-1">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="font-bold text-sm">{action.name}</span>
+                {recharge && (
+                    <Roll title={`${title} - Recharge`} rollables={["1d6"]}>
+                        {(roll) => (
+                            <Button size="sm" variant="flat" onPress={roll}>
+                                Recharge {recharge < 6 ? `${recharge}–6` : "6"}
+                            </Button>
+                        )}
+                    </Roll>
+                )}
+                {attack && (
+                    <>
+                        <TertiaryText>{attack.kind}</TertiaryText>
+                        <D20RollButton
+                            title={`${title} - Attack`}
+                            modifier={attack.toHit}
+                            rollType="Attack"
+                        >
+                            {formatModifier(attack.toHit)} to hit
+                        </D20RollButton>
+                        {attack.reach && <TertiaryText>reach {attack.reach} ft</TertiaryText>}
+                        {attack.range && <TertiaryText>range {attack.range} ft</TertiaryText>}
+                    </>
+                )}
+                {savingThrow && (
+                    <Chip size="sm" variant="flat" color="secondary">
+                        DC {savingThrow.dc} {ABILITY_ABBREVIATIONS[savingThrow.ability]}
+                        {savingThrow.halfOnSuccess ? " (half)" : ""}
+                    </Chip>
+                )}
+                {damage && (
+                    <Roll
+                        title={`${title} - Damage (${damage.damageType})`}
+                        rollables={[damage]}
+                        rollType="Damage"
+                    >
+                        {(roll) => (
+                            <Button variant="bordered" size="sm" onPress={roll}>
+                                {rollableToExpression(damage)} {damage.damageType.toLowerCase()}
+                            </Button>
+                        )}
+                    </Roll>
+                )}
+                {healing && (
+                    <Roll title={`${title} - Healing`} rollables={[healing]} rollType="Healing">
+                        {(roll) => (
+                            <Button variant="bordered" size="sm" onPress={roll}>
+                                {healing} healing
+                            </Button>
+                        )}
+                    </Roll>
+                )}
+            </div>
+            <Description>{action.description}</Description>
+        </div>
+    );
+};
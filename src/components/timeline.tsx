@@ -0,0 +1,83 @@
+import type { CharacterEvent, RestEvent } from "@/types";
+import { Card, CardBody, Chip } from "@heroui/react";
+import { CardTitle, EmptyState, Stat, StatRow, TertiaryText } from "./typography";
+
+interface TimelineProps {
+    events: CharacterEvent[]; // newest first
+}
+
+/**
+ * Plain-language list of what a rest restored, e.g. "8 HP", "2 level 1 slots"
+ */
+const describeRestored = ({ resourcesRestored: restored }: RestEvent): string[] => [
+    ...(restored.hitPoints ? [`${restored.hitPoints} HP`] : []),
+    ...(restored.hitDice ? [`${restored.hitDice} hit dice`] : []),
+    ...(restored.heatPoints ? [`${restored.heatPoints} Heat vented`] : []),
+    ...Object.entries(restored.spellSlots || {}).map(
+        ([level, count]) => `${count} level ${level.replace("level", "")} slots`
+    ),
+    ...(restored.aetherFluxPoints ? [`${restored.aetherFluxPoints} AFP`] : []),
+    ...(restored.resonanceCharges ? [`${restored.resonanceCharges} RC`] : []),
+    ...(restored.exhaustionLevels ? [`${restored.exhaustionLevels} exhaustion`] : []),
+    ...(restored.heatStressLevels ? [`${restored.heatStressLevels} Heat Stress`] : []),
+    ...(restored.limitedUses || []),
+];
+
+/**
+ * Timeline of a character's rests and level-ups
+ */
+export const Timeline = ({ events }: TimelineProps) => {
+    if (events.length === 0) {
+        return <EmptyState message="No rests or level-ups yet" />;
+    }
+
+    return (
+        <div className="space-y-2">
+            {events.map((event, index) => (
+                <Card key={index} className="border border-default-200">
+                    <CardBody className="p-3">
+                        <div className="flex items-center gap-2 mb-1 flex-wrap">
+                            <CardTitle>
+                                {event.kind === "Rest"
+                                    ? `${event.type === "short" ? "Short" : "Long"} Rest`
+                                    : `Reached level ${event.newLevel}`}
+                            </CardTitle>
+                            <Chip
+                                size="sm"
+                                variant="flat"
+                                color={event.kind === "Rest" ? "success" : "primary"}
+                            >
+                                {event.kind === "Rest" ? "Rest" : event.classType}
+                            </Chip>
+                            <TertiaryText>
+                                {new Date(event.timestamp).toLocaleString()}
+                            </TertiaryText>
+                        </div>
+
+                        {event.kind === "Rest" ? (
+                            <StatRow>
+                                {event.hitDiceSpent && (
+                                    <Stat label="Hit Dice Spent" value={event.hitDiceSpent} />
+                                )}
+                                <Stat
+                                    label="Restored"
+                                    value={describeRestored(event).join(", ") || "Nothing"}
+                                />
+                            </StatRow>
+                        ) : (
+                            <StatRow>
+                                <Stat label="HP" value={`+${event.hitPointIncrease}`} />
+                                {event.featuresGained.length > 0 && (
+                                    <Stat
+                                        label="Features"
+                                        value={event.featuresGained.map((f) => f.name).join(", ")}
+                                    />
+                                )}
+                            </StatRow>
+                        )}
+                    </CardBody>
+                </Card>
+            ))}
+        </div>
+    );
+};
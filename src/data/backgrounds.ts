@@ -0,0 +1,130 @@
+import type { Background } from "@/types";
+
+// ============================================================================
+// BACKGROUNDS
+// ============================================================================
+
+export const BACKGROUNDS: Background[] = [
+    {
+        id: "guild-apprentice",
+        name: "Guild Apprentice",
+        description:
+            "You served your indenture in a Guild workshop, sweeping brass filings and learning the trade one stripped bolt at a time.",
+        skillProficiencies: ["Tinkering", "Investigation"],
+        toolProficiencies: ["Tinker's Tools"],
+        languages: ["Guild Cant"],
+        equipment: ["tinkers-tools-001", "mechanists-satchel-001"],
+        currency: { gears: 1, cogs: 5 },
+        feature: {
+            name: "Guild Standing",
+            description:
+                "Guild halls offer you a bench, tools and a cot for the night, and Guild members will vouch for your work.",
+        },
+    },
+    {
+        id: "rust-alley-scavenger",
+        name: "Rust-Alley Scavenger",
+        description:
+            "You grew up in the scrapyards and drainage tunnels beneath the city, living off whatever the upper districts threw away.",
+        skillProficiencies: ["Stealth", "Survival"],
+        toolProficiencies: ["Thieves' Tools"],
+        languages: ["Rustspeech"],
+        equipment: ["brass-dagger-001", "steam-lantern-001"],
+        currency: { cogs: 8 },
+        feature: {
+            name: "Scrap Sense",
+            description:
+                "You can always find a safe way through the undercity's tunnels and pipes, and can scavenge common parts worth up to 5 cogs a day.",
+        },
+    },
+    {
+        id: "relic-hunter",
+        name: "Relic Hunter",
+        description:
+            "You chase rumours of pre-Collapse machinery into flooded vaults and dead foundries, and sell what you drag back out.",
+        skillProficiencies: ["History", "Perception"],
+        toolProficiencies: ["Navigator's Tools"],
+        languages: ["Old Tongue"],
+        bonusLanguages: 1,
+        equipment: ["aether-compass-001", "wireweave-rope-50-ft-001"],
+        currency: { gears: 1 },
+        feature: {
+            name: "Relic Appraiser",
+            description:
+                "You can identify the age and origin of old machinery, and collectors will hear out your offers to buy or sell relics.",
+        },
+    },
+    {
+        id: "foundry-hand",
+        name: "Foundry Hand",
+        description:
+            "You worked the furnaces and drop-hammers of a great foundry, where the heat never let up and the shifts never ended.",
+        skillProficiencies: ["Athletics", "Tinkering"],
+        toolProficiencies: ["Smith's Tools"],
+        languages: [],
+        bonusLanguages: 1,
+        equipment: ["coolant-flask-001", "repair-paste-vial-001"],
+        currency: { gears: 1 },
+        feature: {
+            name: "Heat-Worn",
+            description:
+                "Foundry workers anywhere treat you as one of their own, sharing food, shelter and gossip from the shop floor.",
+        },
+    },
+    {
+        id: "sky-dock-courier",
+        name: "Sky-Dock Courier",
+        description:
+            "You ran messages and parcels between airship moorings, learning every gangway, cargo master and shortcut on the docks.",
+        skillProficiencies: ["Acrobatics", "Persuasion"],
+        toolProficiencies: [],
+        languages: ["Skycant"],
+        equipment: ["chronometer-cog-001", "wireweave-rope-50-ft-001"],
+        currency: { gears: 1, cogs: 5 },
+        feature: {
+            name: "Dockside Passage",
+            description:
+                "Airship crews will carry you and a companion as passengers for little or no cost, in exchange for help on board.",
+        },
+    },
+    {
+        id: "aether-acolyte",
+        name: "Aether Acolyte",
+        description:
+            "You tended the resonance pylons of a Templar chapel, chanting the old hymns while the aether hummed through the walls.",
+        skillProficiencies: ["Arcana", "Religion"],
+        toolProficiencies: ["Alchemist's Supplies"],
+        languages: ["Aetheric"],
+        equipment: ["aether-dust-vial-001", "aether-lamp-001"],
+        currency: { gears: 1 },
+        feature: {
+            name: "Chapel Sanctuary",
+            description:
+                "Resonant chapels give you and your companions shelter and basic healing, and their keepers share what they know of local aether.",
+        },
+    },
+    {
+        id: "undercity-informant",
+        name: "Undercity Informant",
+        description:
+            "You sold secrets to whoever paid best: Guild factors, gang bosses and the city watch, sometimes all in the same night.",
+        skillProficiencies: ["Deception", "Insight"],
+        toolProficiencies: ["Disguise Kit"],
+        languages: ["Undertrade"],
+        equipment: ["brass-dagger-001"],
+        currency: { gears: 1, cogs: 5 },
+        feature: {
+            name: "Whisper Network",
+            description:
+                "You know how to reach a contact who can pass messages across the city and dig up rumours about anyone of note.",
+        },
+    },
+];
+
+// ============================================================================
+// LOOKUP OBJECTS
+// ============================================================================
+
+export const BACKGROUNDS_BY_ID: Record<string, Background> = Object.fromEntries(
+    BACKGROUNDS.map((background) => [background.id, background])
+);
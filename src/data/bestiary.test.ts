@@ -0,0 +1,41 @@
+import { parseDiceExpression } from "@/model/dice-utils";
+import { describe, expect, it } from "vitest";
+import { CREATURES, CREATURES_BY_ID } from "./bestiary";
+
+// Average of a dice expression, rounded down as in a stat block
+function averageOf(expression: string): number {
+    const { terms } = parseDiceExpression(expression);
+    const total = terms.reduce(
+        (sum, term) =>
+            sum +
+            term.sign * (term.kind === "dice" ? (term.count * (term.sides + 1)) / 2 : term.value),
+        0
+    );
+    return Math.floor(total);
+}
+
+describe("Bestiary", () => {
+    it("should encode every creature from Appendix B", () => {
+        expect(CREATURES.map((creature) => creature.name)).toEqual([
+            "Rust Crawler",
+            "Aether Wisp",
+            "Iron Husk",
+            "Gear Rat",
+        ]);
+    });
+
+    it("should have unique IDs", () => {
+        expect(Object.keys(CREATURES_BY_ID)).toHaveLength(CREATURES.length);
+    });
+
+    it.each(CREATURES)("$name's average hit points should match its hit dice", (creature) => {
+        expect(averageOf(creature.hitPoints.roll)).toBe(creature.hitPoints.average);
+    });
+
+    it("should encode attacks with to-hit bonuses and damage", () => {
+        const rustbite = CREATURES_BY_ID["rust-crawler"]!.actions[0]!;
+
+        expect(rustbite.attack).toEqual({ kind: "Melee Weapon Attack", toHit: 4, reach: 5 });
+        expect(rustbite.damage).toEqual({ count: 1, die: 6, bonus: 2, damageType: "Piercing" });
+    });
+});
@@ -0,0 +1,307 @@
+import type { Creature } from "@/types/bestiary";
+
+// ============================================================================
+// CREATURES (Appendix B)
+// ============================================================================
+
+export const CREATURES: Creature[] = [
+    {
+        id: "rust-crawler",
+        name: "Rust Crawler",
+        size: "Small",
+        type: "Construct",
+        alignment: "Unaligned",
+        description:
+            "A scuttling insectoid machine built to clean the gears of factories, now corrupted by time. They strip metal from armor and weapons with hungry precision.",
+        armorClass: 13,
+        armorDescription: "rusted carapace",
+        hitPoints: {
+            average: 11,
+            roll: "2d6+4",
+        },
+        speed: {
+            walk: 30,
+            climb: 20,
+        },
+        abilityScores: {
+            strength: 10,
+            dexterity: 14,
+            constitution: 14,
+            intelligence: 3,
+            wisdom: 10,
+            charisma: 4,
+        },
+        skills: {
+            Stealth: 4,
+        },
+        damageResistances: ["Lightning", "Piercing"],
+        damageVulnerabilities: ["Acid"],
+        senses: {
+            darkvision: 60,
+            passivePerception: 10,
+        },
+        challengeRating: 0.25,
+        experiencePoints: 50,
+        traits: [
+            {
+                name: "Scrap Instinct",
+                description: "The Rust Crawler can sense uncorroded metal within 30 ft.",
+            },
+        ],
+        actions: [
+            {
+                name: "Rustbite",
+                description:
+                    "The target must succeed on a DC 11 Dexterity saving throw or one nonmagical metal weapon or piece of armor becomes corroded, taking a permanent −1 penalty to AC or attack rolls.",
+                attack: {
+                    kind: "Melee Weapon Attack",
+                    toHit: 4,
+                    reach: 5,
+                },
+                savingThrow: {
+                    ability: "dexterity",
+                    dc: 11,
+                },
+                damage: {
+                    count: 1,
+                    die: 6,
+                    bonus: 2,
+                    damageType: "Piercing",
+                },
+            },
+        ],
+    },
+    {
+        id: "aether-wisp",
+        name: "Aether Wisp",
+        size: "Tiny",
+        type: "Aberration",
+        alignment: "Neutral",
+        description:
+            "A drifting orb of residual psionic energy, left behind by dead Mindweavers. It flickers between dimensions, drawn to strong thoughts and emotions.",
+        armorClass: 12,
+        hitPoints: {
+            average: 9,
+            roll: "2d4+4",
+        },
+        speed: {
+            walk: 0,
+            fly: 30,
+            hover: true,
+        },
+        abilityScores: {
+            strength: 3,
+            dexterity: 14,
+            constitution: 14,
+            intelligence: 10,
+            wisdom: 12,
+            charisma: 8,
+        },
+        damageResistances: ["Psychic", "Force"],
+        damageImmunities: ["Poison"],
+        conditionImmunities: ["Prone", "Grappled", "Restrained"],
+        senses: {
+            darkvision: 60,
+            passivePerception: 11,
+        },
+        languages: "understands Common and Avenari, cannot speak",
+        challengeRating: 0.5,
+        experiencePoints: 100,
+        traits: [
+            {
+                name: "Thought Drain",
+                description:
+                    "When a creature within 10 ft uses a psionic ability, the Wisp may absorb fragments of it, regaining 1d4 hit points.",
+                healing: "1d4",
+            },
+            {
+                name: "Flicker",
+                description:
+                    "The Wisp can pass through solid objects as if they were difficult terrain.",
+            },
+        ],
+        actions: [
+            {
+                name: "Psionic Bolt",
+                description: "One target.",
+                recharge: 5,
+                attack: {
+                    kind: "Ranged Spell Attack",
+                    toHit: 4,
+                    range: 30,
+                },
+                damage: {
+                    count: 2,
+                    die: 4,
+                    bonus: 2,
+                    damageType: "Psychic",
+                },
+            },
+        ],
+    },
+    {
+        id: "iron-husk",
+        name: "Iron Husk",
+        size: "Medium",
+        type: "Construct",
+        subtype: "Former Humanoid",
+        alignment: "Chaotic Evil",
+        description:
+            "A fallen worker reanimated by psionic residue and mechanical rot. Its flesh is threaded with copper wire, and its voice is the hiss of escaping steam.",
+        armorClass: 14,
+        armorDescription: "patchwork plating",
+        hitPoints: {
+            average: 16,
+            roll: "3d8+3",
+        },
+        speed: {
+            walk: 25,
+        },
+        abilityScores: {
+            strength: 13,
+            dexterity: 8,
+            constitution: 13,
+            intelligence: 5,
+            wisdom: 10,
+            charisma: 6,
+        },
+        savingThrows: {
+            constitution: 3,
+        },
+        damageResistances: ["Fire", "Lightning"],
+        conditionImmunities: ["Charmed", "Frightened", "Exhaustion"],
+        senses: {
+            darkvision: 60,
+            passivePerception: 10,
+        },
+        languages: "understands Common but cannot speak",
+        challengeRating: 1,
+        experiencePoints: 200,
+        traits: [
+            {
+                name: "Unstable Core",
+                description:
+                    "When reduced to 0 HP, the Husk explodes. Creatures within 10 ft take 6 (2d6) fire damage (DEX save DC 12 for half).",
+                savingThrow: {
+                    ability: "dexterity",
+                    dc: 12,
+                    halfOnSuccess: true,
+                },
+                damage: {
+                    count: 2,
+                    die: 6,
+                    damageType: "Fire",
+                },
+            },
+        ],
+        actions: [
+            {
+                name: "Steam Slam",
+                description: "One target.",
+                attack: {
+                    kind: "Melee Weapon Attack",
+                    toHit: 3,
+                    reach: 5,
+                },
+                damage: {
+                    count: 2,
+                    die: 6,
+                    bonus: 1,
+                    damageType: "Bludgeoning",
+                },
+            },
+            {
+                name: "Overpressure",
+                description:
+                    "The Iron Husk releases built-up steam in a 10-ft radius. Each creature must make a DC 12 Constitution saving throw or take 5 (2d4) fire damage and be pushed 5 ft.",
+                recharge: 6,
+                savingThrow: {
+                    ability: "constitution",
+                    dc: 12,
+                },
+                damage: {
+                    count: 2,
+                    die: 4,
+                    damageType: "Fire",
+                },
+            },
+        ],
+    },
+    {
+        id: "gear-rat",
+        name: "Gear Rat",
+        size: "Small",
+        type: "Beast",
+        subtype: "Part Construct",
+        alignment: "Unaligned",
+        description:
+            "A common pest in the undercities — rodents with implanted brass teeth and clockwork tails. Their survival instinct is matched only by their appetite for insulation and wiring.",
+        armorClass: 13,
+        hitPoints: {
+            average: 7,
+            roll: "2d6",
+        },
+        speed: {
+            walk: 30,
+            climb: 20,
+        },
+        abilityScores: {
+            strength: 8,
+            dexterity: 15,
+            constitution: 10,
+            intelligence: 2,
+            wisdom: 10,
+            charisma: 4,
+        },
+        skills: {
+            Stealth: 4,
+        },
+        senses: {
+            darkvision: 30,
+            passivePerception: 10,
+        },
+        challengeRating: 0.125,
+        experiencePoints: 25,
+        traits: [
+            {
+                name: "Conductive Tail",
+                description:
+                    "When struck by lightning damage, the Gear Rat arcs the current to another creature within 5 ft (DC 10 Dex save or take 2 lightning damage).",
+                savingThrow: {
+                    ability: "dexterity",
+                    dc: 10,
+                },
+            },
+            {
+                name: "Swarm Instinct",
+                description:
+                    "If at least one other Gear Rat is within 5 ft, the Gear Rat gains advantage on attack rolls.",
+            },
+        ],
+        actions: [
+            {
+                name: "Bite",
+                description: "One target.",
+                attack: {
+                    kind: "Melee Weapon Attack",
+                    toHit: 4,
+                    reach: 5,
+                },
+                damage: {
+                    count: 1,
+                    die: 4,
+                    bonus: 2,
+                    damageType: "Piercing",
+                },
+            },
+        ],
+    },
+];
+
+// ============================================================================
+// LOOKUP OBJECTS
+// ============================================================================
+
+export const CREATURES_BY_ID: Record<string, Creature> = Object.fromEntries(
+    CREATURES.map((creature) => [creature.id, creature])
+);
@@ -276,11 +276,15 @@ export const CLASSES: Class[] = [
         primaryAbility: "intelligence",
         hitDie: "1d6",
         primaryResource: "AetherFluxPoints",
+        multiclassPrerequisite: { abilities: ["intelligence"] },
         spellcasting: {
             spellcastingAbility: "intelligence",
+            progression: "Full",
             spellLists: ["Wizard", "Warlock"],
             cantripsKnown: 3,
+            cantripsGainedAt: [4, 10],
             spellsKnown: 6,
+            spellsGainedPerLevel: 2,
         },
         features: [
             {
@@ -306,6 +310,13 @@ export const CLASSES: Class[] = [
                 description:
                     "Choose Steamstaff or Aether Lens. Enhances spells with elemental modulation.",
             },
+            {
+                name: "Reactor Tuning",
+                level: 5,
+                description:
+                    "Overclock a Formula without risk: no Overclock Heat and no Overheat Table roll on a natural 1.",
+                usesPerRest: { amount: 2, restType: "long" },
+            },
         ],
         description: {
             role: "Scholar, manipulator of Aether, experimental technomage",
@@ -371,8 +382,10 @@ export const CLASSES: Class[] = [
         primaryAbility: "charisma",
         hitDie: "1d10",
         primaryResource: "ResonanceCharges",
+        multiclassPrerequisite: { abilities: ["strength", "charisma"] },
         spellcasting: {
             spellcastingAbility: "wisdom",
+            progression: "Half",
             spellLists: ["Cleric"],
             spellsPrepared: 0, // Calculated as Templar Level + Wisdom modifier
         },
@@ -404,6 +417,13 @@ export const CLASSES: Class[] = [
                 level: 1,
                 description: "Heal a construct or machine for 1d8 HP per Charge spent.",
             },
+            {
+                name: "Safe Overchannel",
+                level: 1,
+                description:
+                    "Overchannel a Miracle without consequence: no Overchannel Heat and no Faith Feedback check.",
+                usesPerRest: { amount: 1, restType: "long" },
+            },
         ],
         startingEquipment: {
             weapons: ["steam-hammer-001", "standard-shield-001"],
@@ -442,6 +462,7 @@ export const CLASSES: Class[] = [
         primaryAbility: "constitution",
         hitDie: "1d12",
         primaryResource: "AdrenalSurges",
+        multiclassPrerequisite: { abilities: ["constitution"] },
         description: {
             role: "Brawler, chemist, reckless modder of the flesh",
             description:
@@ -510,6 +531,7 @@ export const CLASSES: Class[] = [
         primaryAbility: "dexterity",
         hitDie: "1d8",
         primaryResource: "None",
+        multiclassPrerequisite: { abilities: ["dexterity"] },
         description: {
             role: "Stealth, infiltration, sabotage, precision strikes",
             description:
@@ -572,6 +594,7 @@ export const CLASSES: Class[] = [
         primaryAbility: "strength",
         hitDie: "1d10",
         primaryResource: "None",
+        multiclassPrerequisite: { abilities: ["strength", "dexterity"], anyOf: true },
         description: {
             role: "Frontline fighter, tactical commander, and steam-powered bruiser",
             description:
@@ -637,6 +660,7 @@ export const CLASSES: Class[] = [
         primaryAbility: "intelligence",
         hitDie: "1d8",
         primaryResource: "None",
+        multiclassPrerequisite: { abilities: ["intelligence"] },
         description: {
             role: "Inventor, field engineer, and battlefield support specialist",
             description:
@@ -704,6 +728,7 @@ export const CLASSES: Class[] = [
         primaryAbility: "intelligence", // or wisdom, choose at creation
         hitDie: "1d8",
         primaryResource: "AetherFluxPoints",
+        multiclassPrerequisite: { abilities: ["intelligence", "wisdom"], anyOf: true },
         description: {
             role: "Psionic specialist; manipulator of will, energy, and space",
             description:
@@ -786,3 +811,34 @@ export const CLASSES: Class[] = [
         ],
     },
 ];
+
+// ============================================================================
+// MULTICLASSING
+// ============================================================================
+
+export const MULTICLASS_ABILITY_MINIMUM = 13;
+
+// Spell slots per spell level (1st-9th) by combined caster level (index 0 = no slots)
+export const SPELL_SLOTS_BY_CASTER_LEVEL: number[][] = [
+    [0, 0, 0, 0, 0, 0, 0, 0, 0],
+    [2, 0, 0, 0, 0, 0, 0, 0, 0],
+    [3, 0, 0, 0, 0, 0, 0, 0, 0],
+    [4, 2, 0, 0, 0, 0, 0, 0, 0],
+    [4, 3, 0, 0, 0, 0, 0, 0, 0],
+    [4, 3, 2, 0, 0, 0, 0, 0, 0],
+    [4, 3, 3, 0, 0, 0, 0, 0, 0],
+    [4, 3, 3, 1, 0, 0, 0, 0, 0],
+    [4, 3, 3, 2, 0, 0, 0, 0, 0],
+    [4, 3, 3, 3, 1, 0, 0, 0, 0],
+    [4, 3, 3, 3, 2, 0, 0, 0, 0],
+    [4, 3, 3, 3, 2, 1, 0, 0, 0],
+    [4, 3, 3, 3, 2, 1, 0, 0, 0],
+    [4, 3, 3, 3, 2, 1, 1, 0, 0],
+    [4, 3, 3, 3, 2, 1, 1, 0, 0],
+    [4, 3, 3, 3, 2, 1, 1, 1, 0],
+    [4, 3, 3, 3, 2, 1, 1, 1, 0],
+    [4, 3, 3, 3, 2, 1, 1, 1, 1],
+    [4, 3, 3, 3, 3, 1, 1, 1, 1],
+    [4, 3, 3, 3, 3, 2, 1, 1, 1],
+    [4, 3, 3, 3, 3, 2, 2, 1, 1],
+];
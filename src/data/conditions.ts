@@ -0,0 +1,205 @@
+import type { Condition, ConditionDefinition, ExhaustionLevel } from "@/types/conditions";
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+export const CONDITIONS: ConditionDefinition[] = [
+    {
+        condition: "Blinded",
+        description:
+            "Can't see and automatically fails any ability check that requires sight. Attack rolls against the creature have advantage, and its attack rolls have disadvantage.",
+        effects: {
+            attackRolls: "Disadvantage",
+            attacksAgainst: "Advantage",
+        },
+    },
+    {
+        condition: "Charmed",
+        description:
+            "Can't attack the charmer or target it with harmful abilities. The charmer has advantage on ability checks to interact socially with the creature.",
+        effects: {},
+    },
+    {
+        condition: "Deafened",
+        description: "Can't hear and automatically fails any ability check that requires hearing.",
+        effects: {},
+    },
+    {
+        condition: "Frightened",
+        description:
+            "Disadvantage on ability checks and attack rolls while the source of its fear is within line of sight. Can't willingly move closer to the source of its fear.",
+        effects: {
+            attackRolls: "Disadvantage",
+            abilityChecks: "Disadvantage",
+        },
+    },
+    {
+        condition: "Grappled",
+        description: "Speed becomes 0, and it can't benefit from any bonus to its speed.",
+        effects: {
+            speedZero: true,
+        },
+    },
+    {
+        condition: "Incapacitated",
+        description: "Can't take actions or reactions.",
+        effects: {
+            incapacitated: true,
+        },
+    },
+    {
+        condition: "Invisible",
+        description:
+            "Impossible to see without special senses. Attack rolls against the creature have disadvantage, and its attack rolls have advantage.",
+        effects: {
+            attackRolls: "Advantage",
+            attacksAgainst: "Disadvantage",
+        },
+    },
+    {
+        condition: "Paralyzed",
+        description:
+            "Incapacitated and can't move or speak. Automatically fails Strength and Dexterity saving throws. Attack rolls against the creature have advantage, and any hit from within 5 feet is a critical hit.",
+        effects: {
+            attacksAgainst: "Advantage",
+            autoFailSaves: ["strength", "dexterity"],
+            speedZero: true,
+            incapacitated: true,
+        },
+    },
+    {
+        condition: "Petrified",
+        description:
+            "Transformed into inanimate substance. Incapacitated, can't move or speak, and automatically fails Strength and Dexterity saving throws. Attack rolls against the creature have advantage, and it has resistance to all damage.",
+        effects: {
+            attacksAgainst: "Advantage",
+            autoFailSaves: ["strength", "dexterity"],
+            speedZero: true,
+            incapacitated: true,
+        },
+    },
+    {
+        condition: "Poisoned",
+        description: "Disadvantage on attack rolls and ability checks.",
+        effects: {
+            attackRolls: "Disadvantage",
+            abilityChecks: "Disadvantage",
+        },
+    },
+    {
+        condition: "Prone",
+        description:
+            "Can only crawl unless it stands up. Disadvantage on attack rolls. Attack rolls against the creature have advantage within 5 feet and disadvantage otherwise.",
+        effects: {
+            attackRolls: "Disadvantage",
+        },
+    },
+    {
+        condition: "Restrained",
+        description:
+            "Speed becomes 0. Attack rolls against the creature have advantage, its attack rolls have disadvantage, and it has disadvantage on Dexterity saving throws.",
+        effects: {
+            attackRolls: "Disadvantage",
+            attacksAgainst: "Advantage",
+            savingThrows: { dexterity: "Disadvantage" },
+            speedZero: true,
+        },
+    },
+    {
+        condition: "Stunned",
+        description:
+            "Incapacitated, can't move, and can speak only falteringly. Automatically fails Strength and Dexterity saving throws. Attack rolls against the creature have advantage.",
+        effects: {
+            attacksAgainst: "Advantage",
+            autoFailSaves: ["strength", "dexterity"],
+            speedZero: true,
+            incapacitated: true,
+        },
+    },
+    {
+        condition: "Unconscious",
+        description:
+            "Incapacitated, can't move or speak, and is unaware of its surroundings. Drops whatever it's holding and falls prone. Automatically fails Strength and Dexterity saving throws. Attack rolls against the creature have advantage, and any hit from within 5 feet is a critical hit.",
+        effects: {
+            attacksAgainst: "Advantage",
+            autoFailSaves: ["strength", "dexterity"],
+            speedZero: true,
+            incapacitated: true,
+        },
+    },
+    {
+        condition: "Overheated",
+        description:
+            "Systems are past their limit and venting. Disadvantage on attack rolls and ability checks, and can't Overclock until Heat drops back into the safe range.",
+        effects: {
+            attackRolls: "Disadvantage",
+            abilityChecks: "Disadvantage",
+            cannotOverclock: true,
+        },
+    },
+    {
+        condition: "HeatStressed",
+        description:
+            "Strained by prolonged Heat. Disadvantage on Constitution saving throws, including Overheat Checks.",
+        effects: {
+            savingThrows: { constitution: "Disadvantage" },
+        },
+    },
+    {
+        condition: "PsionicFeedback",
+        description:
+            "Reeling from psionic backlash. Can't manifest psionic powers, and has disadvantage on Intelligence and Wisdom saving throws.",
+        effects: {
+            savingThrows: { intelligence: "Disadvantage", wisdom: "Disadvantage" },
+            cannotManifestPowers: true,
+        },
+    },
+];
+
+// ============================================================================
+// EXHAUSTION
+// ============================================================================
+
+export const EXHAUSTION_LEVELS: ExhaustionLevel[] = [
+    {
+        level: 1,
+        effect: "Disadvantage on ability checks.",
+        abilityCheckDisadvantage: true,
+    },
+    {
+        level: 2,
+        effect: "Speed halved.",
+        speedHalved: true,
+    },
+    {
+        level: 3,
+        effect: "Disadvantage on attack rolls and saving throws.",
+        attackAndSaveDisadvantage: true,
+    },
+    {
+        level: 4,
+        effect: "Hit point maximum halved.",
+        hitPointMaximumHalved: true,
+    },
+    {
+        level: 5,
+        effect: "Speed reduced to 0.",
+        speedZero: true,
+    },
+    {
+        level: 6,
+        effect: "Death.",
+        dead: true,
+    },
+];
+
+export const MAX_EXHAUSTION_LEVEL = EXHAUSTION_LEVELS.length;
+
+// ============================================================================
+// LOOKUP OBJECTS
+// ============================================================================
+
+export const CONDITIONS_BY_NAME = Object.fromEntries(
+    CONDITIONS.map((definition) => [definition.condition, definition])
+) as Record<Condition, ConditionDefinition>;
@@ -249,10 +249,7 @@ export const DRONE_REPAIR: DroneRepair = {
     healing: "1d6",
     overclock: {
         cost: 3,
-        healing: {
-            count: 3,
-            die: 6,
-        },
+        healing: "3d6",
         heatGain: 1,
     },
 };
@@ -0,0 +1,99 @@
+import type { Feat } from "@/types";
+
+// ============================================================================
+// ABILITY SCORE IMPROVEMENTS
+// ============================================================================
+
+/** Class levels that grant an ability score improvement or a feat */
+export const ABILITY_SCORE_IMPROVEMENT_LEVELS = [4, 8, 12, 16, 19];
+
+/** Ability score improvements and feats cannot raise a score above this */
+export const MAX_ABILITY_SCORE = 20;
+
+// ============================================================================
+// FEATS
+// ============================================================================
+
+export const FEATS: Feat[] = [
+    {
+        id: "alert",
+        name: "Alert",
+        description:
+            "Always on the lookout for danger. +5 to initiative, and you can't be surprised while conscious.",
+        effects: { initiativeBonus: 5 },
+    },
+    {
+        id: "athlete",
+        name: "Athlete",
+        description:
+            "Increase Strength or Dexterity by 1. Standing up from prone and climbing cost you no extra movement.",
+        effects: { abilityScoreIncrease: ["strength", "dexterity"] },
+    },
+    {
+        id: "durable",
+        name: "Durable",
+        description:
+            "Increase Constitution by 1. When you spend a hit die, you regain at least twice your Constitution modifier.",
+        effects: { abilityScoreIncrease: ["constitution"] },
+    },
+    {
+        id: "keen-mind",
+        name: "Keen Mind",
+        description:
+            "Increase Intelligence by 1. You always know which way is north and can recall anything you've seen or heard in the past month.",
+        effects: { abilityScoreIncrease: ["intelligence"] },
+    },
+    {
+        id: "mobile",
+        name: "Mobile",
+        description:
+            "Your speed increases by 10 feet, and creatures you attack in melee can't make opportunity attacks against you that turn.",
+        effects: { speedBonus: 10 },
+    },
+    {
+        id: "tough",
+        name: "Tough",
+        description:
+            "Your hit point maximum increases by 2 for every level you have, and by 2 more each time you gain a level.",
+        effects: { hitPointsPerLevel: 2 },
+    },
+    {
+        id: "war-caster",
+        name: "War Caster",
+        description:
+            "Advantage on Constitution saves to maintain concentration, and you can cast a spell as an opportunity attack.",
+        prerequisite: { spellcasting: true },
+        effects: {},
+    },
+    {
+        id: "aether-attuned",
+        name: "Aether Attuned",
+        description:
+            "Increase Intelligence or Wisdom by 1. You can sense active Aether Cells and psionic manifestations within 30 feet.",
+        prerequisite: { abilityScores: { intelligence: 13, wisdom: 13 }, anyAbility: true },
+        effects: { abilityScoreIncrease: ["intelligence", "wisdom"] },
+    },
+    {
+        id: "heat-hardened",
+        name: "Heat-Hardened",
+        description:
+            "Years beside boilers and furnaces have toughened you. Your maximum Heat Points increase by 2.",
+        prerequisite: { abilityScores: { constitution: 13 } },
+        effects: { heatCapacityBonus: 2 },
+    },
+    {
+        id: "tinkers-knack",
+        name: "Tinker's Knack",
+        description:
+            "You gain proficiency in Tinkering, and can jury-rig a broken device to work for 1 minute as an action.",
+        effects: { skillProficiency: "Tinkering" },
+    },
+];
+
+// ============================================================================
+// LOOKUP OBJECTS
+// ============================================================================
+
+export const FEATS_BY_ID: Record<string, Feat> = Object.fromEntries(
+    FEATS.map((feat) => [feat.id, feat])
+);
@@ -0,0 +1,166 @@
+import type { HeatStressLevel, OverclockRule, OverclockType, OverheatTableEntry } from "@/types";
+
+// ============================================================================
+// OVERHEAT TABLE (Chapter 7)
+// ============================================================================
+
+export const OVERHEAT_TABLE: OverheatTableEntry[] = [
+    {
+        roll: 1,
+        type: "SteamLeak",
+        name: "Steam Leak",
+        effect: "Take 1d6 fire damage and lose 1 AC until repaired.",
+        damage: {
+            count: 1,
+            die: 6,
+            damageType: "Fire",
+        },
+        armorClassPenalty: 1,
+    },
+    {
+        roll: 2,
+        type: "PowerFlicker",
+        name: "Power Flicker",
+        effect: "Lose your next Bonus Action.",
+    },
+    {
+        roll: 3,
+        type: "Overpressure",
+        name: "Overpressure",
+        effect: "Weapon jams; requires an Action to clear.",
+    },
+    {
+        roll: 4,
+        type: "PsionicDistortion",
+        name: "Psionic Distortion",
+        effect: "Take 1d4 psychic damage; cannot manifest powers next turn.",
+        damage: {
+            count: 1,
+            die: 4,
+            damageType: "Psychic",
+        },
+    },
+    {
+        roll: 5,
+        type: "CoreRupture",
+        name: "Core Rupture",
+        effect: "10-ft explosion; creatures nearby take 2d6 fire damage (DEX save DC 12 for half).",
+        areaDamage: {
+            radius: 10,
+            damage: {
+                count: 2,
+                die: 6,
+                damageType: "Fire",
+            },
+            saveDC: 12,
+        },
+    },
+    {
+        roll: 6,
+        type: "SystemBurnout",
+        name: "System Burnout",
+        effect: "One mod is permanently disabled until repaired.",
+    },
+];
+
+export const OVERHEAT_TABLE_BY_ROLL: Record<number, OverheatTableEntry> = Object.fromEntries(
+    OVERHEAT_TABLE.map((entry) => [entry.roll, entry])
+);
+
+// ============================================================================
+// HEAT STRESS TRACK (Chapter 7)
+// ============================================================================
+
+export const HEAT_STRESS_TRACK: HeatStressLevel[] = [
+    {
+        level: 1,
+        effect: "Disadvantage on Stealth & Perception due to static hiss.",
+        skillDisadvantage: ["Stealth", "Perception"],
+    },
+    {
+        level: 2,
+        effect: "−1 Dex and −5 ft Speed.",
+        dexterityPenalty: 1,
+        speedPenalty: 5,
+    },
+    {
+        level: 3,
+        effect: "Exhaustion level 1 and random malfunction each combat.",
+        exhaustionLevels: 1,
+        malfunctionEachCombat: true,
+    },
+    {
+        level: 4,
+        effect: "System collapse — armor shuts down, must be repaired.",
+        armorShutdown: true,
+    },
+];
+
+export const MAX_HEAT_STRESS_LEVEL = HEAT_STRESS_TRACK.length;
+
+// ============================================================================
+// OVERCLOCKING (Chapter 7)
+// ============================================================================
+
+export const OVERCLOCK_RULES: OverclockRule[] = [
+    {
+        type: "Weapon",
+        name: "Weapon",
+        effect: "+1d8 damage on the next attack.",
+        heatGenerated: 2,
+        bonusDamage: {
+            count: 1,
+            die: 8,
+        },
+    },
+    {
+        type: "Armor",
+        name: "Armor",
+        effect: "+2 AC until your next turn.",
+        heatGenerated: 2,
+        armorClassBonus: 2,
+    },
+    {
+        type: "Mod",
+        name: "Mod",
+        effect: "Double its bonus for 1 round.",
+        heatGenerated: 3,
+    },
+    {
+        type: "PsionicChannel",
+        name: "Psionic Channel",
+        effect: "Cast one Tier higher for free.",
+        heatGenerated: 3,
+        selfDamage: {
+            count: 1,
+            die: 6,
+            damageType: "Psychic",
+        },
+    },
+    {
+        type: "Formula",
+        name: "Formula",
+        effect: "Spend +1 AFP for +2 to the spell attack roll or save DC. On a natural 1, roll on the Overheat Table. From level 5, twice per long rest without risk.",
+        heatGenerated: 2,
+        resourceCost: 1,
+        spellBonus: 2,
+        safeUses: { source: "Arcanist", feature: "Reactor Tuning" },
+    },
+    {
+        type: "Overchannel",
+        name: "Overchannel (Faith Feedback)",
+        effect: "When out of RC, burn HP equal to 2 × the spell's level to cast it, then make a Faith Feedback check (DC 10 + spell level). On a failure, gain a level of Heat Stress, 1d4 Heat and disadvantage on concentration checks until you rest. Once per day, Overchannel without consequence.",
+        heatGenerated: 2,
+        hitPointsPerLevel: 2,
+        feedbackDC: 10,
+        feedbackHeat: {
+            count: 1,
+            die: 4,
+        },
+        safeUses: { source: "Templar", feature: "Safe Overchannel" },
+    },
+];
+
+export const OVERCLOCK_RULES_BY_TYPE = Object.fromEntries(
+    OVERCLOCK_RULES.map((rule) => [rule.type, rule])
+) as Record<OverclockType, OverclockRule>;
@@ -1,9 +1,17 @@
+export * from "./backgrounds";
+export * from "./bestiary";
 export * from "./classes";
+export * from "./conditions";
 export * from "./drones";
 export * from "./equipment";
+export * from "./feats";
+export * from "./heat";
+export * from "./languages";
 export * from "./mindcraft";
 export * from "./optimized-ability-scores";
+export * from "./personality";
 export * from "./pregens";
+export * from "./progression";
 export * from "./skills";
 export * from "./species";
 export * from "./spells";
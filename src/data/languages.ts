@@ -0,0 +1,189 @@
+import type {
+    Language,
+    LanguageDefinition,
+    LanguageLearningMethod,
+    LanguageLearningMethodType,
+} from "@/types";
+
+// ============================================================================
+// LANGUAGES
+// ============================================================================
+
+export const LANGUAGES: LanguageDefinition[] = [
+    {
+        name: "Common Geartrade",
+        category: "Standard",
+        speakers: "Universal trade tongue",
+        script: "Gearscript",
+        description:
+            "A blend of industrial jargon and sign language used by merchants and engineers.",
+    },
+    {
+        name: "Old Tongue",
+        category: "Standard",
+        speakers: "Scholars, Templars",
+        script: "High Brass",
+        description: "The ancestral speech of the Architect Cities; now used in ritual and law.",
+    },
+    {
+        name: "Guild Cant",
+        category: "Standard",
+        speakers: "Artifex, Mechanics",
+        script: "Glyphline",
+        description: "Encoded shorthand combining sketches, formulae, and phrases.",
+    },
+    {
+        name: "Undertrade",
+        category: "Standard",
+        speakers: "Rogues, Skellin",
+        script: "Scratchcode",
+        description: "Rapid hand and tail signals mixed with low-speech.",
+    },
+    {
+        name: "Skycant",
+        category: "Standard",
+        speakers: "Avenar, Aeronauts",
+        script: "Featherstroke",
+        description:
+            "Melodic language of whistles and inflection; carries meaning through tone and pitch.",
+    },
+    {
+        name: "Rustspeech",
+        category: "Standard",
+        speakers: "Scavengers, Husk tribes",
+        script: "Runes & Grates",
+        description:
+            "Harsh metallic creole of clicks, growls, and hisses used to communicate through pipes.",
+    },
+    {
+        name: "Aetheric",
+        category: "Standard",
+        speakers: "Mindweavers, Psions",
+        description: "Communication through thought resonance and emotional tone.",
+    },
+    {
+        name: "Aquan",
+        category: "Standard",
+        speakers: "Aqualoth",
+        description: "The flowing speech of the Aqualoth, carried as easily through water as air.",
+    },
+    {
+        name: "Sylvan",
+        category: "Standard",
+        speakers: "Tharn",
+        description: "The old speech of the wildlands, passed down in song rather than writing.",
+    },
+    {
+        name: "Guilder's Cant",
+        category: "Dialect",
+        speakers: "Rendai",
+        script: "Glyphline",
+        dialectOf: "Guild Cant",
+        description: "The Rendai workshop form of Guild Cant, full of tinkers' nicknames.",
+    },
+    {
+        name: "Gearcant",
+        category: "Dialect",
+        speakers: "Industrial cities",
+        script: "Gearscript",
+        dialectOf: "Common Geartrade",
+        description: "Mixes Common with technical diagrams; spoken by tapping on metal.",
+    },
+    {
+        name: "Whispercode",
+        category: "Dialect",
+        speakers: "Psionic monasteries",
+        dialectOf: "Aetheric",
+        description: "Wordless gestures reinforced by mental projection.",
+    },
+    {
+        name: "Shattercant",
+        category: "Dialect",
+        speakers: "War remnants",
+        dialectOf: "Common Geartrade",
+        description: "Fragmented military code composed of binary tones.",
+    },
+    {
+        name: "Skystream",
+        category: "Dialect",
+        speakers: "Dirigible fleets",
+        dialectOf: "Skycant",
+        description: "Morse-like flashes of light transmitted between ships.",
+    },
+    {
+        name: "Architect Glyphs",
+        category: "Secret",
+        speakers: "Pre-collapse civilization",
+        script: "Runic Plate",
+        description: "Impossible to pronounce; used to activate ancient constructs.",
+    },
+    {
+        name: "Binary Hymns",
+        category: "Secret",
+        speakers: "Machine cults",
+        description:
+            "Recited prayers composed of rhythmic clicks and tones; believed to influence automatons.",
+    },
+    {
+        name: "Vox Mechanica",
+        category: "Secret",
+        speakers: "Forbidden psionic code",
+        description:
+            "Communicates directly with machine consciousnesses; hearing it causes short-term confusion (DC 12 Wis save).",
+    },
+    {
+        name: "The Silent Tongue",
+        category: "Secret",
+        speakers: "Mindweaver heresy",
+        description:
+            "Wordless communication through shared hallucination; few who learn it remain sane.",
+    },
+];
+
+// ============================================================================
+// LANGUAGE LEARNING
+// ============================================================================
+
+export const LANGUAGE_LEARNING_METHODS: LanguageLearningMethod[] = [
+    {
+        type: "Tutored",
+        name: "Tutored Learning",
+        days: 10,
+        cost: { cogs: 25 },
+        requirement: "Access to fluent speaker or lexicon.",
+    },
+    {
+        type: "Immersive",
+        name: "Immersive Study",
+        days: 30,
+        cost: {},
+        requirement: "Must live among native speakers.",
+    },
+    {
+        type: "PsionicImprint",
+        name: "Psionic Imprint",
+        days: 0,
+        cost: { aetherDust: 1 },
+        requirement: "Learn a language instantly from a willing psionic creature.",
+        temporaryDays: 7,
+    },
+    {
+        type: "AetherCrystal",
+        name: "Aether Crystal Memory",
+        days: 1,
+        cost: { cogs: 100 },
+        requirement: "Absorb linguistic data from an artifact.",
+    },
+];
+
+// ============================================================================
+// LOOKUP OBJECTS
+// ============================================================================
+
+export const LANGUAGES_BY_NAME = Object.fromEntries(
+    LANGUAGES.map((language) => [language.name, language])
+) as Record<Language, LanguageDefinition>;
+
+export const LANGUAGE_LEARNING_METHODS_BY_TYPE = Object.fromEntries(
+    LANGUAGE_LEARNING_METHODS.map((method) => [method.type, method])
+) as Record<LanguageLearningMethodType, LanguageLearningMethod>;
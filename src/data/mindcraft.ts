@@ -23,7 +23,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         range: "10 ft",
         savingThrow: {
             ability: "strength",
-            dc: 12,
         },
         effect: "10-ft force push; STR save or knocked prone.",
         amplifiable: true,
@@ -37,7 +36,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         range: "15-ft cone",
         savingThrow: {
             ability: "dexterity",
-            dc: 13,
         },
         effect: "15-ft cone, 3d8 fire/force damage.",
         amplifiable: true,
@@ -63,7 +61,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         range: "20-ft radius",
         savingThrow: {
             ability: "dexterity",
-            dc: 15,
         },
         effect: "20-ft radius implosion (6d10 force, Dex save half).",
         amplifiable: true,
@@ -81,7 +78,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         range: "15-ft cone",
         savingThrow: {
             ability: "constitution",
-            dc: 12,
         },
         effect: "15-ft cone, 1d8 thunder dmg; creatures lose reactions.",
         amplifiable: true,
@@ -115,7 +111,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         range: "10-ft radius",
         savingThrow: {
             ability: "constitution",
-            dc: 14,
         },
         effect: "Break crystal, glass, or armor (2d10 thunder, 10-ft radius).",
         amplifiable: true,
@@ -129,7 +124,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         range: "30-ft sphere",
         savingThrow: {
             ability: "constitution",
-            dc: 15,
         },
         effect: "Create a resonance storm; 30-ft sphere deals 5d10 thunder + deafened.",
         amplifiable: true,
@@ -219,7 +213,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         duration: "1 minute",
         savingThrow: {
             ability: "wisdom",
-            dc: 12,
         },
         effect: "Target has disadvantage on INT and WIS checks for 1 min.",
         amplifiable: true,
@@ -234,7 +227,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         duration: "1 minute",
         savingThrow: {
             ability: "wisdom",
-            dc: 13,
         },
         effect: "Suppress hostility in 20-ft radius (WIS save negates).",
         amplifiable: true,
@@ -322,7 +314,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         concentration: true,
         savingThrow: {
             ability: "wisdom",
-            dc: 16,
         },
         effect: "Create vast illusory landscape; DC 16 Insight to disbelieve.",
         amplifiable: true,
@@ -352,7 +343,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         range: "30 ft",
         savingThrow: {
             ability: "strength",
-            dc: 12,
         },
         effect: "Pull one creature or object 10 ft (STR save resists).",
         amplifiable: true,
@@ -380,7 +370,6 @@ export const MINDCRAFT_POWERS: MindcraftPower[] = [
         concentration: true,
         savingThrow: {
             ability: "strength",
-            dc: 14,
         },
         effect: "15-ft cube, 3d8 force damage, restrained on failed STR save.",
         amplifiable: true,
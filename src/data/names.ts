@@ -1,674 +1,706 @@
-export const FIRST_NAMES = [
-    // Rendai
-    "Lyrra",
-    "Caskel",
-    "Threno",
-    "Marn",
-    "Velka",
-    "Aeris",
-    "Pindar",
-    "Orven",
-    "Saela",
-    "Ruhn",
-    "Torric",
-    "Nisra",
-    "Fendal",
-    "Quinch",
-    "Yurra",
-    "Pelorin",
-    "Kael",
-    "Tasso",
-    "Ilin",
-    "Merin",
-    "Drell",
-    "Ossan",
-    "Tivra",
-    "Fenn",
-    "Serro",
-    "Rasha",
-    "Vonn",
-    "Delrik",
-    "Tandra",
-    "Erix",
-    "Morr",
-    "Senel",
-    "Brin",
-    "Fasha",
-    "Talven",
-    "Orsik",
-    "Yal",
-    "Nerren",
-    "Ira",
-    "Tollin",
-    "Corda",
-    "Aven",
-    "Jarro",
-    "Marik",
-    "Thessa",
-    "Ellen",
-    "Pyra",
-    "Dorran",
-    "Ril",
-    "Vesta",
-    // Vulmir
-    "Kaen",
-    "Rilsa",
-    "Torven",
-    "Siv",
-    "Merrik",
-    "Vell",
-    "Torr",
-    "Karn",
-    "Selin",
-    "Darr",
-    "Fayne",
-    "Nira",
-    "Voss",
-    "Eland",
-    "Rook",
-    "Sera",
-    "Drix",
-    "Orrin",
-    "Talan",
-    "Faro",
-    "Kesh",
-    "Zalen",
-    "Vayra",
-    "Renn",
-    "Osha",
-    "Tirn",
-    "Werris",
-    "Malin",
-    "Perrin",
-    "Corra",
-    "Zeth",
-    "Eira",
-    "Sorran",
-    "Jex",
-    "Nirra",
-    "Ferin",
-    "Ralk",
-    "Dessa",
-    "Vorn",
-    "Therr",
-    "Cail",
-    "Riven",
-    "Mael",
-    "Esa",
-    "Torrik",
-    "Lian",
-    "Daro",
-    "Selra",
-    "Verrin",
-    // Tharn
-    "Dorrik",
-    "Thalen",
-    "Elar",
-    "Miren",
-    "Korr",
-    "Taren",
-    "Vann",
-    "Sorek",
-    "Elda",
-    "Rhynn",
-    "Maros",
-    "Telra",
-    "Hirn",
-    "Anwen",
-    "Oris",
-    "Varra",
-    "Rindel",
-    "Saen",
-    "Farn",
-    "Lira",
-    "Vessel",
-    "Edrin",
-    "Cairn",
-    "Jorra",
-    "Wess",
-    "Dainn",
-    "Morn",
-    "Ysil",
-    "Tessan",
-    "Velra",
-    "Kair",
-    "Roln",
-    "Thyr",
-    "Sen",
-    "Harl",
-    "Vessa",
-    "Irin",
-    "Fayra",
-    "Kelvin",
-    "Raen",
-    "Thorr",
-    "Gallen",
-    "Mira",
-    "Vyn",
-    "Ressa",
-    "Elan",
-    "Korrin",
-    // Karnathi
-    "Vorr",
-    "Kaelen",
-    "Serra",
-    "Torm",
-    "Irion",
-    "Rashir",
-    "Moren",
-    "Thal",
-    "Issra",
-    "Kelr",
-    "Maren",
-    "Lorric",
-    "Nissa",
-    "Vorren",
-    "Saelen",
-    "Jorr",
-    "Ryn",
-    "Valen",
-    "Tarrin",
-    "Lenra",
-    "Saris",
-    "Keth",
-    "Arven",
-    "Velin",
-    "Korran",
-    "Lirra",
-    "Saren",
-    "Rydan",
-    "Eshan",
-    "Fenric",
-    "Talen",
-    "Saera",
-    "Morrik",
-    "Edriss",
-    "Thera",
-    "Kelven",
-    "Iren",
-    "Vorric",
-    "Aelar",
-    "Nessa",
-    // Skellin
-    "Riss",
-    "Kel",
-    "Salli",
-    "Vrix",
-    "Narra",
-    "Kess",
-    "Vel",
-    "Zirr",
-    "Tess",
-    "Fay",
-    "Dran",
-    "Issil",
-    "Kora",
-    "Rall",
-    "Ness",
-    "Sora",
-    "Tirr",
-    "Vaen",
-    "Ziss",
-    "Pell",
-    "Verr",
-    "Thil",
-    "Merr",
-    "Fiss",
-    "Liri",
-    "Venn",
-    "Orra",
-    "Siss",
-    "Tella",
-    "Vash",
-    "Rin",
-    "Cess",
-    "Rilka",
-    "Thess",
-    "Kelra",
-    "Rinn",
-    "Moss",
-    "Serr",
-    "Kessa",
-    "Fira",
-    "Toll",
-    "Issa",
-    "Nerr",
-    // Aqualoth
-    "Selen",
-    "Vorrin",
-    "Marra",
-    "Corin",
-    "Derrin",
-    "Luma",
-    "Velis",
-    "Merris",
-    "Korrin",
-    "Sael",
-    "Thara",
-    "Ylra",
-    "Vorra",
-    "Elin",
-    "Sorra",
-    "Jorran",
-    "Rellis",
-    "Kessa",
-    "Lirrin",
-    "Orren",
-    "Issil",
-    "Ryn",
-    "Farrin",
-    "Norr",
-    "Yssa",
-    "Cael",
-    "Eran",
-    "Mora",
-    "Fessa",
-    "Verris",
-    "Talrin",
-    "Resh",
-    "Kalen",
-    "Velra",
-    "Tirra",
-    "Asha",
-    "Leris",
-    "Vessa",
-    "Serrin",
-    // Avenar
-    "Selenn",
-    "Aris",
-    "Vael",
-    "Therrin",
-    "Ilios",
-    "Rynn",
-    "Kaelra",
-    "Mavren",
-    "Torrin",
-    "Seris",
-    "Liora",
-    "Edris",
-    "Corra",
-    "Veyra",
-    "Elias",
-    "Aerin",
-    "Torva",
-    "Melis",
-    "Faren",
-    "Saris",
-    "Vaen",
-    "Lannis",
-    "Irin",
-    "Vellin",
-    "Aenra",
-    "Therra",
-    "Essan",
-    "Kaelis",
-    "Lynra",
-    "Eliastra",
-    "Mellis",
-    "Valis",
-    "Seren",
-    "Miraen",
-    "Talra",
-    "Yssen",
-    "Ellan",
-    "Verris",
-    "Naren",
-];
+import type { SpeciesType } from "@/types";
 
-export const LAST_NAMES = [
-    // Rendai
-    "Quenchcoil",
-    "Hearthforge",
-    "Smoketine",
-    "Bralen",
-    "Furness",
-    "Copperlace",
-    "Darron",
-    "Velline",
-    "Oakenwire",
-    "Mindleaf",
-    "Tinbranch",
-    "Firespoke",
-    "Ashwhistle",
-    "Tumbline",
-    "Molengrove",
-    "Cinderpin",
-    "Coglace",
-    "Ironbrook",
-    "Vailen",
-    "Mirethane",
-    "Brewcog",
-    "Flintwake",
-    "Gearhaven",
-    "Stipple",
-    "Kindram",
-    "Rivetcharm",
-    "Drossen",
-    "Orrend",
-    "Steamroot",
-    "Weldrin",
-    "Glasslock",
-    "Feltar",
-    "Kettleworn",
-    "Bronzine",
-    "Wickerholt",
-    "Rustvale",
-    "Burnwright",
-    "Tannergleam",
-    "Greynose",
-    "Fallowburn",
-    "Patchline",
-    "Scrivel",
-    "Amberlace",
-    "Gearrin",
-    "Hollowbine",
-    "Sparkhollow",
-    "Varnan",
-    "Sootfield",
-    "Latchford",
-    "Whistlebrass",
-    // Vulmir
-    "Ironpelt",
-    "Quicklash",
-    "Brassfang",
-    "Tindersnout",
-    "Redmark",
-    "Vulgear",
-    "Cindertail",
-    "Ashgrin",
-    "Hotcoil",
-    "Rivetooth",
-    "Swiftforge",
-    "Bristlegleam",
-    "Gearclaw",
-    "Smokestride",
-    "Talonlace",
-    "Corkbolt",
-    "Rivetwhisper",
-    "Howlthane",
-    "Sootlash",
-    "Tinkertuft",
-    "Oilmane",
-    "Coilstride",
-    "Greaselock",
-    "Rusttail",
-    "Patchmaw",
-    "Voltcharm",
-    "Needlegrin",
-    "Sparkwhisk",
-    "Weldfang",
-    "Ironlash",
-    "Brindlecoil",
-    "Cogsine",
-    "Rumblesnout",
-    "Ferricfur",
-    "Steamstripe",
-    "Solderfang",
-    "Ashmane",
-    "Boltmark",
-    "Weldshine",
-    "Hollowfang",
-    "Tackfur",
-    "Gaskline",
-    "Burnstripe",
-    "Flaremane",
-    "Drivetail",
-    "Knurlgrin",
-    "Forgesnout",
-    "Valetail",
-    "Sparksnout",
-    "Tinclaw",
-    // Tharn
-    "Highbranch",
-    "Stonehoof",
-    "Bronzebough",
-    "Ironrack",
-    "Mossguard",
-    "Dunhorn",
-    "Hearthvale",
-    "Gildhorn",
-    "Coppermane",
-    "Trembark",
-    "Stillrack",
-    "Rootforge",
-    "Amberhoof",
-    "Ashgrove",
-    "Longvale",
-    "Trunkguard",
-    "Vellhorn",
-    "Steelfern",
-    "Barkwright",
-    "Stonemarch",
-    "Gearhorn",
-    "Mosshelm",
-    "Deepgrove",
-    "Fallowmane",
-    "Oakstirn",
-    "Fendbough",
-    "Hollowstep",
-    "Bronzehoof",
-    "Varnhorn",
-    "Hillthorn",
-    "Oakenrack",
-    "Rimebranch",
-    "Vinehelm",
-    "Weldstirn",
-    "Coldhoof",
-    "Brightbark",
-    "Valebough",
-    "Ashmantle",
-    "Greenthorn",
-    "Stillhorn",
-    "Sunderhoof",
-    "Wyrmhorn",
-    "Rustleaf",
-    "Shalehelm",
-    "Broadgrove",
-    "Firesoar",
-    "Dusthorn",
-    "Lighthoof",
-    "Tendrack",
-    "Stonebough",
-    // Karnathi
-    "Silverhoard",
-    "Brightspire",
-    "Sunforge",
-    "Brassmantle",
-    "Skythane",
-    "Stormveil",
-    "Ironrise",
-    "Vauldlorn",
-    "Radianthelm",
-    "Frostspire",
-    "Steelvale",
-    "Marrowguard",
-    "Halecrown",
-    "Soulthane",
-    "Oathsteel",
-    "Hearthspire",
-    "Hallowrack",
-    "Verrath",
-    "Giltmane",
-    "Auricrest",
-    "Ironveil",
-    "Gleamrack",
-    "Torchvale",
-    "Faithhold",
-    "Luminarch",
-    "Risenhorn",
-    "Giltspire",
-    "Firethane",
-    "Anvilmane",
-    "Hallowcrest",
-    "Brighthelm",
-    "Wardrack",
-    "Rimehold",
-    "Ironmantle",
-    "Vellthane",
-    "Brassveil",
-    "Pillarhorn",
-    "Forgecrest",
-    "Halestone",
-    "Sunrack",
-    "Frostthane",
-    "Soulmantle",
-    "Templspire",
-    "Varncrest",
-    "Aurivale",
-    "Gildrack",
-    "Faithforge",
-    "Oathspire",
-    "Lightmane",
-    // Skellin
-    "Glasscrawl",
-    "Sandhide",
-    "Sunscale",
-    "Shadewrap",
-    "Driftblink",
-    "Stonefrill",
-    "Mirrormouth",
-    "Slipdust",
-    "Ashskin",
-    "Wyrmstep",
-    "Dustcurl",
-    "Fadespine",
-    "Slatehide",
-    "Scalemask",
-    "Cindertail",
-    "Hollowstep",
-    "Brightdust",
-    "Shadegleam",
-    "Mirecrawl",
-    "Gritskin",
-    "Softstep",
-    "Scaleveil",
-    "Dustcloak",
-    "Rivertail",
-    "Limestep",
-    "Ashhide",
-    "Bluescale",
-    "Clouddust",
-    "Whisperhide",
-    "Nightfrill",
-    "Slipveil",
-    "Sootskin",
-    "Mossstep",
-    "Marbletail",
-    "Fadescale",
-    "Sunfrill",
-    "Glasshide",
-    "Stoneveil",
-    "Sandveil",
-    "Ashstep",
-    "Brightfrill",
-    "Cinderhide",
-    "Darkscale",
-    "Mireveil",
-    "Hollowtail",
-    "Shadescale",
-    "Glowstep",
-    "Ironveil",
-    "Loomfrill",
-    // Aqualoth
-    "Wavebinder",
-    "Deepveil",
-    "Coralshroud",
-    "Mistglade",
-    "Flowthane",
-    "Tideweaver",
-    "Pearlhelm",
-    "Seabright",
-    "Hydraskin",
-    "Bluegleam",
-    "Streamveil",
-    "Dewthread",
-    "Shellwarden",
-    "Gillsworn",
-    "Floodhelm",
-    "Currentborn",
-    "Mistveil",
-    "Foamthane",
-    "Riversong",
-    "Reeftide",
-    "Rainbinder",
-    "Hydroveil",
-    "Ebbcrest",
-    "Wavecrest",
-    "Kelpbloom",
-    "Flowcrest",
-    "Brineveil",
-    "Watershade",
-    "Tidesworn",
-    "Mistriver",
-    "Dewhelm",
-    "Saltveil",
-    "Seacrest",
-    "Bubbleshade",
-    "Coralcrest",
-    "Foamhelm",
-    "Mistborn",
-    "Tidecrest",
-    "Shorehelm",
-    "Wavebound",
-    "Currentshade",
-    "Deepcrest",
-    "Streamhelm",
-    "Riverborn",
-    "Rainshroud",
-    "Hydraspire",
-    "Shellcrest",
-    "Mistbloom",
-    "Ebbflow",
-    "Reefveil",
-    // Avenar
-    "Skyforge",
-    "Featherlace",
-    "Windspire",
-    "Hightalon",
-    "Stormgleam",
-    "Aetherplume",
-    "Skyridge",
-    "Galecrest",
-    "Cloudbane",
-    "Silverplume",
-    "Brightwing",
-    "Dawnfeather",
-    "Starcrest",
-    "Azurecrest",
-    "Skythane",
-    "Windveil",
-    "Hollowwing",
-    "Lightcrest",
-    "Blueplume",
-    "Mistfeather",
-    "Stormfeather",
-    "Auricplume",
-    "Suncrest",
-    "Cloudcrest",
-    "Nightwing",
-    "Whisperplume",
-    "Ridgefeather",
-    "Gildwing",
-    "Vailplume",
-    "Stormcrest",
-    "Zephyrcrest",
-    "Silverwing",
-    "Hightone",
-    "Feathermantle",
-    "Cloudspire",
-    "Azurewing",
-    "Dawncrest",
-    "Mistwing",
-    "Lightplume",
-    "Starfeather",
-    "Windcrest",
-    "Brightplume",
-    "Skylace",
-    "Aurawing",
-    "Stormplume",
-    "Cloudlace",
-    "Bluewing",
-    "Hollowcrest",
-    "Silvercrest",
-    "Featherhelm",
-];
+// ============================================================================
+// NAMES BY SPECIES
+// ============================================================================
+
+// Names are not split by gender; any first name suits any character.
+
+/** First names by species */
+export const FIRST_NAMES_BY_SPECIES: Record<SpeciesType, string[]> = {
+    Rendai: [
+        "Lyrra",
+        "Caskel",
+        "Threno",
+        "Marn",
+        "Velka",
+        "Aeris",
+        "Pindar",
+        "Orven",
+        "Saela",
+        "Ruhn",
+        "Torric",
+        "Nisra",
+        "Fendal",
+        "Quinch",
+        "Yurra",
+        "Pelorin",
+        "Kael",
+        "Tasso",
+        "Ilin",
+        "Merin",
+        "Drell",
+        "Ossan",
+        "Tivra",
+        "Fenn",
+        "Serro",
+        "Rasha",
+        "Vonn",
+        "Delrik",
+        "Tandra",
+        "Erix",
+        "Morr",
+        "Senel",
+        "Brin",
+        "Fasha",
+        "Talven",
+        "Orsik",
+        "Yal",
+        "Nerren",
+        "Ira",
+        "Tollin",
+        "Corda",
+        "Aven",
+        "Jarro",
+        "Marik",
+        "Thessa",
+        "Ellen",
+        "Pyra",
+        "Dorran",
+        "Ril",
+        "Vesta",
+    ],
+    Vulmir: [
+        "Kaen",
+        "Rilsa",
+        "Torven",
+        "Siv",
+        "Merrik",
+        "Vell",
+        "Torr",
+        "Karn",
+        "Selin",
+        "Darr",
+        "Fayne",
+        "Nira",
+        "Voss",
+        "Eland",
+        "Rook",
+        "Sera",
+        "Drix",
+        "Orrin",
+        "Talan",
+        "Faro",
+        "Kesh",
+        "Zalen",
+        "Vayra",
+        "Renn",
+        "Osha",
+        "Tirn",
+        "Werris",
+        "Malin",
+        "Perrin",
+        "Corra",
+        "Zeth",
+        "Eira",
+        "Sorran",
+        "Jex",
+        "Nirra",
+        "Ferin",
+        "Ralk",
+        "Dessa",
+        "Vorn",
+        "Therr",
+        "Cail",
+        "Riven",
+        "Mael",
+        "Esa",
+        "Torrik",
+        "Lian",
+        "Daro",
+        "Selra",
+        "Verrin",
+    ],
+    Tharn: [
+        "Dorrik",
+        "Thalen",
+        "Elar",
+        "Miren",
+        "Korr",
+        "Taren",
+        "Vann",
+        "Sorek",
+        "Elda",
+        "Rhynn",
+        "Maros",
+        "Telra",
+        "Hirn",
+        "Anwen",
+        "Oris",
+        "Varra",
+        "Rindel",
+        "Saen",
+        "Farn",
+        "Lira",
+        "Vessel",
+        "Edrin",
+        "Cairn",
+        "Jorra",
+        "Wess",
+        "Dainn",
+        "Morn",
+        "Ysil",
+        "Tessan",
+        "Velra",
+        "Kair",
+        "Roln",
+        "Thyr",
+        "Sen",
+        "Harl",
+        "Vessa",
+        "Irin",
+        "Fayra",
+        "Kelvin",
+        "Raen",
+        "Thorr",
+        "Gallen",
+        "Mira",
+        "Vyn",
+        "Ressa",
+        "Elan",
+        "Korrin",
+    ],
+    Karnathi: [
+        "Vorr",
+        "Kaelen",
+        "Serra",
+        "Torm",
+        "Irion",
+        "Rashir",
+        "Moren",
+        "Thal",
+        "Issra",
+        "Kelr",
+        "Maren",
+        "Lorric",
+        "Nissa",
+        "Vorren",
+        "Saelen",
+        "Jorr",
+        "Ryn",
+        "Valen",
+        "Tarrin",
+        "Lenra",
+        "Saris",
+        "Keth",
+        "Arven",
+        "Velin",
+        "Korran",
+        "Lirra",
+        "Saren",
+        "Rydan",
+        "Eshan",
+        "Fenric",
+        "Talen",
+        "Saera",
+        "Morrik",
+        "Edriss",
+        "Thera",
+        "Kelven",
+        "Iren",
+        "Vorric",
+        "Aelar",
+        "Nessa",
+    ],
+    Skellin: [
+        "Riss",
+        "Kel",
+        "Salli",
+        "Vrix",
+        "Narra",
+        "Kess",
+        "Vel",
+        "Zirr",
+        "Tess",
+        "Fay",
+        "Dran",
+        "Issil",
+        "Kora",
+        "Rall",
+        "Ness",
+        "Sora",
+        "Tirr",
+        "Vaen",
+        "Ziss",
+        "Pell",
+        "Verr",
+        "Thil",
+        "Merr",
+        "Fiss",
+        "Liri",
+        "Venn",
+        "Orra",
+        "Siss",
+        "Tella",
+        "Vash",
+        "Rin",
+        "Cess",
+        "Rilka",
+        "Thess",
+        "Kelra",
+        "Rinn",
+        "Moss",
+        "Serr",
+        "Kessa",
+        "Fira",
+        "Toll",
+        "Issa",
+        "Nerr",
+    ],
+    Aqualoth: [
+        "Selen",
+        "Vorrin",
+        "Marra",
+        "Corin",
+        "Derrin",
+        "Luma",
+        "Velis",
+        "Merris",
+        "Korrin",
+        "Sael",
+        "Thara",
+        "Ylra",
+        "Vorra",
+        "Elin",
+        "Sorra",
+        "Jorran",
+        "Rellis",
+        "Kessa",
+        "Lirrin",
+        "Orren",
+        "Issil",
+        "Ryn",
+        "Farrin",
+        "Norr",
+        "Yssa",
+        "Cael",
+        "Eran",
+        "Mora",
+        "Fessa",
+        "Verris",
+        "Talrin",
+        "Resh",
+        "Kalen",
+        "Velra",
+        "Tirra",
+        "Asha",
+        "Leris",
+        "Vessa",
+        "Serrin",
+    ],
+    Avenar: [
+        "Selenn",
+        "Aris",
+        "Vael",
+        "Therrin",
+        "Ilios",
+        "Rynn",
+        "Kaelra",
+        "Mavren",
+        "Torrin",
+        "Seris",
+        "Liora",
+        "Edris",
+        "Corra",
+        "Veyra",
+        "Elias",
+        "Aerin",
+        "Torva",
+        "Melis",
+        "Faren",
+        "Saris",
+        "Vaen",
+        "Lannis",
+        "Irin",
+        "Vellin",
+        "Aenra",
+        "Therra",
+        "Essan",
+        "Kaelis",
+        "Lynra",
+        "Eliastra",
+        "Mellis",
+        "Valis",
+        "Seren",
+        "Miraen",
+        "Talra",
+        "Yssen",
+        "Ellan",
+        "Verris",
+        "Naren",
+    ],
+};
+
+/** Last names by species */
+export const LAST_NAMES_BY_SPECIES: Record<SpeciesType, string[]> = {
+    Rendai: [
+        "Quenchcoil",
+        "Hearthforge",
+        "Smoketine",
+        "Bralen",
+        "Furness",
+        "Copperlace",
+        "Darron",
+        "Velline",
+        "Oakenwire",
+        "Mindleaf",
+        "Tinbranch",
+        "Firespoke",
+        "Ashwhistle",
+        "Tumbline",
+        "Molengrove",
+        "Cinderpin",
+        "Coglace",
+        "Ironbrook",
+        "Vailen",
+        "Mirethane",
+        "Brewcog",
+        "Flintwake",
+        "Gearhaven",
+        "Stipple",
+        "Kindram",
+        "Rivetcharm",
+        "Drossen",
+        "Orrend",
+        "Steamroot",
+        "Weldrin",
+        "Glasslock",
+        "Feltar",
+        "Kettleworn",
+        "Bronzine",
+        "Wickerholt",
+        "Rustvale",
+        "Burnwright",
+        "Tannergleam",
+        "Greynose",
+        "Fallowburn",
+        "Patchline",
+        "Scrivel",
+        "Amberlace",
+        "Gearrin",
+        "Hollowbine",
+        "Sparkhollow",
+        "Varnan",
+        "Sootfield",
+        "Latchford",
+        "Whistlebrass",
+    ],
+    Vulmir: [
+        "Ironpelt",
+        "Quicklash",
+        "Brassfang",
+        "Tindersnout",
+        "Redmark",
+        "Vulgear",
+        "Cindertail",
+        "Ashgrin",
+        "Hotcoil",
+        "Rivetooth",
+        "Swiftforge",
+        "Bristlegleam",
+        "Gearclaw",
+        "Smokestride",
+        "Talonlace",
+        "Corkbolt",
+        "Rivetwhisper",
+        "Howlthane",
+        "Sootlash",
+        "Tinkertuft",
+        "Oilmane",
+        "Coilstride",
+        "Greaselock",
+        "Rusttail",
+        "Patchmaw",
+        "Voltcharm",
+        "Needlegrin",
+        "Sparkwhisk",
+        "Weldfang",
+        "Ironlash",
+        "Brindlecoil",
+        "Cogsine",
+        "Rumblesnout",
+        "Ferricfur",
+        "Steamstripe",
+        "Solderfang",
+        "Ashmane",
+        "Boltmark",
+        "Weldshine",
+        "Hollowfang",
+        "Tackfur",
+        "Gaskline",
+        "Burnstripe",
+        "Flaremane",
+        "Drivetail",
+        "Knurlgrin",
+        "Forgesnout",
+        "Valetail",
+        "Sparksnout",
+        "Tinclaw",
+    ],
+    Tharn: [
+        "Highbranch",
+        "Stonehoof",
+        "Bronzebough",
+        "Ironrack",
+        "Mossguard",
+        "Dunhorn",
+        "Hearthvale",
+        "Gildhorn",
+        "Coppermane",
+        "Trembark",
+        "Stillrack",
+        "Rootforge",
+        "Amberhoof",
+        "Ashgrove",
+        "Longvale",
+        "Trunkguard",
+        "Vellhorn",
+        "Steelfern",
+        "Barkwright",
+        "Stonemarch",
+        "Gearhorn",
+        "Mosshelm",
+        "Deepgrove",
+        "Fallowmane",
+        "Oakstirn",
+        "Fendbough",
+        "Hollowstep",
+        "Bronzehoof",
+        "Varnhorn",
+        "Hillthorn",
+        "Oakenrack",
+        "Rimebranch",
+        "Vinehelm",
+        "Weldstirn",
+        "Coldhoof",
+        "Brightbark",
+        "Valebough",
+        "Ashmantle",
+        "Greenthorn",
+        "Stillhorn",
+        "Sunderhoof",
+        "Wyrmhorn",
+        "Rustleaf",
+        "Shalehelm",
+        "Broadgrove",
+        "Firesoar",
+        "Dusthorn",
+        "Lighthoof",
+        "Tendrack",
+        "Stonebough",
+    ],
+    Karnathi: [
+        "Silverhoard",
+        "Brightspire",
+        "Sunforge",
+        "Brassmantle",
+        "Skythane",
+        "Stormveil",
+        "Ironrise",
+        "Vauldlorn",
+        "Radianthelm",
+        "Frostspire",
+        "Steelvale",
+        "Marrowguard",
+        "Halecrown",
+        "Soulthane",
+        "Oathsteel",
+        "Hearthspire",
+        "Hallowrack",
+        "Verrath",
+        "Giltmane",
+        "Auricrest",
+        "Ironveil",
+        "Gleamrack",
+        "Torchvale",
+        "Faithhold",
+        "Luminarch",
+        "Risenhorn",
+        "Giltspire",
+        "Firethane",
+        "Anvilmane",
+        "Hallowcrest",
+        "Brighthelm",
+        "Wardrack",
+        "Rimehold",
+        "Ironmantle",
+        "Vellthane",
+        "Brassveil",
+        "Pillarhorn",
+        "Forgecrest",
+        "Halestone",
+        "Sunrack",
+        "Frostthane",
+        "Soulmantle",
+        "Templspire",
+        "Varncrest",
+        "Aurivale",
+        "Gildrack",
+        "Faithforge",
+        "Oathspire",
+        "Lightmane",
+    ],
+    Skellin: [
+        "Glasscrawl",
+        "Sandhide",
+        "Sunscale",
+        "Shadewrap",
+        "Driftblink",
+        "Stonefrill",
+        "Mirrormouth",
+        "Slipdust",
+        "Ashskin",
+        "Wyrmstep",
+        "Dustcurl",
+        "Fadespine",
+        "Slatehide",
+        "Scalemask",
+        "Cindertail",
+        "Hollowstep",
+        "Brightdust",
+        "Shadegleam",
+        "Mirecrawl",
+        "Gritskin",
+        "Softstep",
+        "Scaleveil",
+        "Dustcloak",
+        "Rivertail",
+        "Limestep",
+        "Ashhide",
+        "Bluescale",
+        "Clouddust",
+        "Whisperhide",
+        "Nightfrill",
+        "Slipveil",
+        "Sootskin",
+        "Mossstep",
+        "Marbletail",
+        "Fadescale",
+        "Sunfrill",
+        "Glasshide",
+        "Stoneveil",
+        "Sandveil",
+        "Ashstep",
+        "Brightfrill",
+        "Cinderhide",
+        "Darkscale",
+        "Mireveil",
+        "Hollowtail",
+        "Shadescale",
+        "Glowstep",
+        "Ironveil",
+        "Loomfrill",
+    ],
+    Aqualoth: [
+        "Wavebinder",
+        "Deepveil",
+        "Coralshroud",
+        "Mistglade",
+        "Flowthane",
+        "Tideweaver",
+        "Pearlhelm",
+        "Seabright",
+        "Hydraskin",
+        "Bluegleam",
+        "Streamveil",
+        "Dewthread",
+        "Shellwarden",
+        "Gillsworn",
+        "Floodhelm",
+        "Currentborn",
+        "Mistveil",
+        "Foamthane",
+        "Riversong",
+        "Reeftide",
+        "Rainbinder",
+        "Hydroveil",
+        "Ebbcrest",
+        "Wavecrest",
+        "Kelpbloom",
+        "Flowcrest",
+        "Brineveil",
+        "Watershade",
+        "Tidesworn",
+        "Mistriver",
+        "Dewhelm",
+        "Saltveil",
+        "Seacrest",
+        "Bubbleshade",
+        "Coralcrest",
+        "Foamhelm",
+        "Mistborn",
+        "Tidecrest",
+        "Shorehelm",
+        "Wavebound",
+        "Currentshade",
+        "Deepcrest",
+        "Streamhelm",
+        "Riverborn",
+        "Rainshroud",
+        "Hydraspire",
+        "Shellcrest",
+        "Mistbloom",
+        "Ebbflow",
+        "Reefveil",
+    ],
+    Avenar: [
+        "Skyforge",
+        "Featherlace",
+        "Windspire",
+        "Hightalon",
+        "Stormgleam",
+        "Aetherplume",
+        "Skyridge",
+        "Galecrest",
+        "Cloudbane",
+        "Silverplume",
+        "Brightwing",
+        "Dawnfeather",
+        "Starcrest",
+        "Azurecrest",
+        "Skythane",
+        "Windveil",
+        "Hollowwing",
+        "Lightcrest",
+        "Blueplume",
+        "Mistfeather",
+        "Stormfeather",
+        "Auricplume",
+        "Suncrest",
+        "Cloudcrest",
+        "Nightwing",
+        "Whisperplume",
+        "Ridgefeather",
+        "Gildwing",
+        "Vailplume",
+        "Stormcrest",
+        "Zephyrcrest",
+        "Silverwing",
+        "Hightone",
+        "Feathermantle",
+        "Cloudspire",
+        "Azurewing",
+        "Dawncrest",
+        "Mistwing",
+        "Lightplume",
+        "Starfeather",
+        "Windcrest",
+        "Brightplume",
+        "Skylace",
+        "Aurawing",
+        "Stormplume",
+        "Cloudlace",
+        "Bluewing",
+        "Hollowcrest",
+        "Silvercrest",
+        "Featherhelm",
+    ],
+};
+
+// ============================================================================
+// COMBINED LISTS
+// ============================================================================
+
+export const FIRST_NAMES = Object.values(FIRST_NAMES_BY_SPECIES).flat();
+
+export const LAST_NAMES = Object.values(LAST_NAMES_BY_SPECIES).flat();
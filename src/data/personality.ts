@@ -0,0 +1,297 @@
+import type { Personality, PersonalityAspect, SpeciesType } from "@/types";
+
+// ============================================================================
+// PERSONALITY TABLES
+// ============================================================================
+
+export const PERSONALITY_ASPECTS: PersonalityAspect[] = ["traits", "ideals", "bonds", "flaws"];
+
+/** How many entries of each aspect a character rolls */
+export const PERSONALITY_COUNTS: Record<PersonalityAspect, number> = {
+    traits: 2,
+    ideals: 1,
+    bonds: 1,
+    flaws: 1,
+};
+
+/** Personality options by background ID */
+export const PERSONALITY_BY_BACKGROUND: Record<string, Personality> = {
+    "guild-apprentice": {
+        traits: [
+            "I take apart anything I don't understand, and usually put it back together.",
+            "I quote my old master's sayings, whether or not they fit.",
+            "I keep my tools cleaner than my clothes.",
+        ],
+        ideals: [
+            "Craft. Work done right is its own reward.",
+            "Ambition. One day my name will be stamped on a Guild charter.",
+            "Fairness. Every apprentice deserves a master who teaches rather than exploits.",
+        ],
+        bonds: [
+            "I still owe two years on my indenture, and the Guild hasn't forgotten.",
+            "My first workbench sits in a hall I swore to return to as a master.",
+            "A fellow apprentice took the blame for my mistake.",
+        ],
+        flaws: [
+            "I can't walk past a broken machine without trying to fix it.",
+            "I defer to anyone wearing a Guild sash, even when they're wrong.",
+            "I secretly think most people are too slow to understand my work.",
+        ],
+    },
+    "rust-alley-scavenger": {
+        traits: [
+            "I pocket anything shiny, just in case.",
+            "I eat quickly and never leave a crumb.",
+            "I know a shortcut through every pipe and drain.",
+        ],
+        ideals: [
+            "Survival. Whatever keeps my crew alive is right.",
+            "Waste Not. Nothing is worthless to someone who knows how to use it.",
+            "Freedom. Nobody owns the alleys, and nobody owns me.",
+        ],
+        bonds: [
+            "The scrap gang that raised me still calls the undercity home.",
+            "I keep a broken music box from the day I lost my family.",
+            "I'll pay back the foundry foreman who shared his bread with me.",
+        ],
+        flaws: [
+            "I don't trust anyone who's never been hungry.",
+            "I hoard supplies, even when my friends need them more.",
+            "I'll bolt at the first sign of the city watch.",
+        ],
+    },
+    "relic-hunter": {
+        traits: [
+            "I date every ruin I see, out loud, whether anyone asks or not.",
+            "I'm calm in collapsing tunnels and nervous at dinner parties.",
+            "I sketch every mechanism I find before I touch it.",
+        ],
+        ideals: [
+            "Knowledge. What the old world knew should not stay buried.",
+            "Profit. Relics are worth exactly what a collector will pay.",
+            "Respect. The dead builders deserve to have their work honoured.",
+        ],
+        bonds: [
+            "My mentor vanished in a vault I've never found again.",
+            "I carry a pre-Collapse coin that I will never sell.",
+            "A collector funded my first dig and expects a return.",
+        ],
+        flaws: [
+            "I'll risk anyone's life for a chance at a rare find.",
+            "I lie about where my relics came from.",
+            "I can't resist opening a sealed door.",
+        ],
+    },
+    "foundry-hand": {
+        traits: [
+            "I speak loudly, out of habit from years beside the drop-hammers.",
+            "I measure time in shifts, not hours.",
+            "I'm never bothered by heat, smoke or noise.",
+        ],
+        ideals: [
+            "Solidarity. Workers have to look out for each other.",
+            "Endurance. Nothing worth making is made quickly.",
+            "Change. The foundries grind people down, and someone has to stop it.",
+        ],
+        bonds: [
+            "My shift crew is the closest thing I have to family.",
+            "I lost a friend to a boiler burst that management covered up.",
+            "I send half my earnings home to the foundry district.",
+        ],
+        flaws: [
+            "I resent anyone who's never done a hard day's work.",
+            "I solve problems with a hammer before I think.",
+            "I drink to forget the furnace.",
+        ],
+    },
+    "sky-dock-courier": {
+        traits: [
+            "I can't stand still; I'm always tapping, pacing or fidgeting.",
+            "I know the gossip from every mooring tower in the city.",
+            "I greet every airship crew like old friends.",
+        ],
+        ideals: [
+            "Reliability. A delivery is a promise.",
+            "Discretion. What's in the parcel is none of my business.",
+            "Adventure. The horizon is always calling.",
+        ],
+        bonds: [
+            "I owe my life to an airship captain who pulled me from a fall.",
+            "One parcel I never delivered still haunts me.",
+            "I dream of owning a ship of my own.",
+        ],
+        flaws: [
+            "I take reckless leaps to save a few seconds.",
+            "I can't keep a secret that makes a good story.",
+            "I promise more than I can deliver.",
+        ],
+    },
+    "aether-acolyte": {
+        traits: [
+            "I hum the old resonance hymns under my breath.",
+            "I see omens in every flicker of aether.",
+            "I'm patient with everyone except those who misuse aether.",
+        ],
+        ideals: [
+            "Harmony. Aether flows best when the world is in balance.",
+            "Devotion. The chapel's teachings guide everything I do.",
+            "Mercy. Every soul deserves healing, whatever they've done.",
+        ],
+        bonds: [
+            "My chapel's pylon was stolen, and I will find it.",
+            "I owe everything to the keeper who took me in.",
+            "I protect the pilgrims who travel to the resonant shrines.",
+        ],
+        flaws: [
+            "I judge harshly those who don't share my faith.",
+            "I trust the chapel's elders blindly.",
+            "I'm certain I alone hear the aether's true song.",
+        ],
+    },
+    "undercity-informant": {
+        traits: [
+            "I always sit where I can see the door.",
+            "I answer questions with questions.",
+            "I remember every name, face and debt.",
+        ],
+        ideals: [
+            "Information. Secrets are the only currency that never loses value.",
+            "Loyalty. I never sell out the people who trust me.",
+            "Power. Whoever knows the most holds the city.",
+        ],
+        bonds: [
+            "A gang boss holds proof of something I'd rather keep buried.",
+            "I protect the street kids who run my messages.",
+            "I'm trying to learn who betrayed my last contact.",
+        ],
+        flaws: [
+            "I can't help selling a secret to the highest bidder.",
+            "I assume everyone is lying to me.",
+            "I've told so many stories I've forgotten which one is true.",
+        ],
+    },
+};
+
+/** Personality options by species, mixed in with the background's */
+export const PERSONALITY_BY_SPECIES: Record<SpeciesType, Personality> = {
+    Aqualoth: {
+        traits: [
+            "I treat every machine as a living thing that needs care.",
+            "I speak softly and precisely, choosing each word.",
+        ],
+        ideals: [
+            "Memory. The drowned knowledge must be recovered.",
+            "Balance. Technology should grow with the world, not against it.",
+        ],
+        bonds: [
+            "I carry the last record of a flooded archive.",
+            "My hometown's water still runs dirty from a Guild foundry.",
+        ],
+        flaws: [
+            "I'm haunted by what was lost and dwell on it too long.",
+            "I freeze when I must act without time to think.",
+        ],
+    },
+    Vulmir: {
+        traits: [
+            "I have a sardonic remark for every occasion.",
+            "I'm restless when I stay anywhere more than a week.",
+        ],
+        ideals: [
+            "Cunning. The clever deserve to win.",
+            "Stories. Every tale worth telling should be passed on.",
+        ],
+        bonds: [
+            "I still carry messages for the courier network that raised me.",
+            "I'm collecting stories for a book no one else will ever read.",
+        ],
+        flaws: ["I create chaos just to see what happens.", "I can't resist taking a bet."],
+    },
+    Rendai: {
+        traits: [
+            "I laugh loudest at my own failed experiments.",
+            "I share my food, tools and ideas with anyone.",
+        ],
+        ideals: [
+            "Community. Knowledge belongs to the whole workshop.",
+            "Joy. What's the point of inventing if it isn't fun?",
+        ],
+        bonds: [
+            "My tinker-collective is waiting for me to bring home something wonderful.",
+            "I promised to finish an invention my mentor started.",
+        ],
+        flaws: [
+            "I start a dozen projects and finish none of them.",
+            "I act on impulse and explain myself afterwards.",
+        ],
+    },
+    Karnathi: {
+        traits: [
+            "I hold myself to standards no one else could meet.",
+            "I rarely show emotion, even among friends.",
+        ],
+        ideals: [
+            "Honor. My word binds me more than any law.",
+            "Preservation. Aether relics must be kept from those who would misuse them.",
+        ],
+        bonds: [
+            "My monastery entrusted me with a relic I must return.",
+            "I will restore my order's lost honor.",
+        ],
+        flaws: [
+            "I can't accept anything less than perfection, from myself or others.",
+            "I'm too proud to ask for help.",
+        ],
+    },
+    Tharn: {
+        traits: [
+            "I'm patient as the seasons, until I'm not.",
+            "I greet the land wherever I travel.",
+        ],
+        ideals: [
+            "Stewardship. The wildlands must be protected.",
+            "Balance. What is taken must be given back.",
+        ],
+        bonds: [
+            "My tribe's sacred grove was cut down for a foundry.",
+            "I guard the migration paths of the aether-touched herds.",
+        ],
+        flaws: ["My wrath is terrible when the balance is broken.", "I'm slow to trust city folk."],
+    },
+    Skellin: {
+        traits: [
+            "I'm curious about everything, especially what's locked away.",
+            "I change my plans, and my morals, as the situation demands.",
+        ],
+        ideals: [
+            "Adaptability. Those who can't change don't survive.",
+            "Clan. My kin come before anyone else.",
+        ],
+        bonds: [
+            "My clan is scattered, and I'm trying to bring them together.",
+            "I owe a debt to a rival clan that saved my life.",
+        ],
+        flaws: [
+            "I can't leave a mystery alone, even when it's dangerous.",
+            "I bend the truth so often I sometimes believe my own lies.",
+        ],
+    },
+    Avenar: {
+        traits: [
+            "I analyse every problem from three angles before speaking.",
+            "I'm unfailingly courteous, even to my enemies.",
+        ],
+        ideals: [
+            "Consensus. The choir's wisdom outweighs any single voice.",
+            "Reason. Emotion clouds judgment.",
+        ],
+        bonds: [
+            "My choir sent me into the world to learn, and I must report back.",
+            "I'm searching for a lost member of my nest.",
+        ],
+        flaws: [
+            "I become arrogant when my reasoning is challenged.",
+            "I look down on those who act without thinking.",
+        ],
+    },
+};
@@ -237,6 +237,7 @@ export const PREGENS: Character[] = [
             cores: 0,
         },
         spells: ["Cure Wounds", "Bless", "Sanctuary"],
+        preparedSpells: ["Bless", "Sanctuary"],
         resonanceCharges: {
             current: 2,
             maximum: 2, // Level 1 + Wis mod (+1)
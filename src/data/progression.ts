@@ -0,0 +1,21 @@
+import type { CampaignSettings } from "@/types";
+
+// ============================================================================
+// EXPERIENCE
+// ============================================================================
+
+export const MAX_LEVEL = 20;
+
+/** Total experience points needed to reach each level; index 0 is level 1 */
+export const EXPERIENCE_THRESHOLDS = [
+    0, 300, 900, 2700, 6500, 14000, 23000, 34000, 48000, 64000, 85000, 100000, 120000, 140000,
+    165000, 195000, 225000, 265000, 305000, 355000,
+];
+
+// ============================================================================
+// CAMPAIGN SETTINGS
+// ============================================================================
+
+export const DEFAULT_CAMPAIGN_SETTINGS: CampaignSettings = {
+    progression: "Experience",
+};
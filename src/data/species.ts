@@ -372,5 +372,6 @@ export const SPECIES: Species[] = [
             },
         ],
         languages: ["Common Geartrade", "Skycant"],
+        bonusLanguages: 1,
     },
 ];
@@ -26,6 +26,15 @@ export const SPELLS: Spell[] = [
         aetherCost: 0,
         overclockable: false,
         heatGenerated: 0,
+        savingThrow: {
+            ability: "strength",
+        },
+        damage: {
+            count: 1,
+            die: 8,
+            damageType: "Lightning",
+        },
+        scaling: { dice: 1, characterLevels: [5, 11, 17] },
         description:
             "You release a tether of crackling plasma that lashes out to drag a target closer. The creature must succeed on a Strength save or be pulled 10 ft toward you, taking 1d8 lightning damage. The air hums with the sound of overcharged coils.",
         higherLevels: "Damage increases by 1d8 at 5th, 11th, and 17th level.",
@@ -49,6 +58,12 @@ export const SPELLS: Spell[] = [
         aetherCost: 0,
         overclockable: false,
         heatGenerated: 0,
+        damage: {
+            count: 1,
+            die: 10,
+            damageType: "Fire",
+        },
+        scaling: { dice: 1, characterLevels: [5, 11, 17] },
         description:
             "You fire a bead of molten Aether from your gauntlet. On a hit, the target takes 1d10 fire damage. The bolt leaves a trail of glowing circuitry in the air.",
         higherLevels: "Damage increases by 1d10 at 5th, 11th, and 17th level.",
@@ -72,6 +87,15 @@ export const SPELLS: Spell[] = [
         aetherCost: 0,
         overclockable: false,
         heatGenerated: 0,
+        savingThrow: {
+            ability: "dexterity",
+        },
+        damage: {
+            count: 1,
+            die: 6,
+            damageType: "Acid",
+        },
+        scaling: { dice: 1, characterLevels: [5, 11, 17] },
         description:
             "You eject a splash of corrosive lubricant. Up to two creatures within 5 ft of each other must succeed on a Dexterity save or take 1d6 acid damage. A faint sizzling fills the air as metal begins to smoke.",
         higherLevels: "Damage increases by 1d6 at 5th, 11th, and 17th level.",
@@ -95,6 +119,11 @@ export const SPELLS: Spell[] = [
         aetherCost: 0,
         overclockable: false,
         heatGenerated: 0,
+        damage: {
+            count: 1,
+            die: 10,
+            damageType: "Force",
+        },
         description:
             "You project a focused psionic waveform. Make a ranged spell attack; on a hit, the target takes 1d10 force damage as a harmonic echo ripples through the battlefield.",
         higherLevels:
@@ -115,6 +144,9 @@ export const SPELLS: Spell[] = [
         aetherCost: 0,
         overclockable: false,
         heatGenerated: 0,
+        savingThrow: {
+            ability: "strength",
+        },
         description:
             "You release compressed air or Aether steam. A creature must succeed on a Strength save or be pushed 5 ft. Extinguishes small flames and disperses smoke.",
         higherLevels: "None.",
@@ -191,6 +223,12 @@ export const SPELLS: Spell[] = [
         aetherCost: 0,
         overclockable: false,
         heatGenerated: 0,
+        damage: {
+            count: 1,
+            die: 8,
+            damageType: "Lightning",
+        },
+        scaling: { dice: 1, characterLevels: [5, 11, 17] },
         description:
             "You surge your gauntlet with current. Make a melee spell attack; on a hit, deal 1d8 lightning damage and the target can't take reactions until its next turn.",
         higherLevels: "Damage increases by 1d8 at 5th, 11th, and 17th level.",
@@ -210,6 +248,12 @@ export const SPELLS: Spell[] = [
         aetherCost: 0,
         overclockable: false,
         heatGenerated: 0,
+        damage: {
+            count: 1,
+            die: 8,
+            damageType: "Cold",
+        },
+        scaling: { dice: 1, characterLevels: [5, 11, 17] },
         description:
             "You fire a beam of icy-blue resonance. On a hit, the target takes 1d8 cold damage and its speed is reduced by 10 ft.",
         higherLevels: "Damage increases by 1d8 at 5th, 11th, and 17th level.",
@@ -248,6 +292,15 @@ export const SPELLS: Spell[] = [
         aetherCost: 0,
         overclockable: false,
         heatGenerated: 0,
+        savingThrow: {
+            ability: "dexterity",
+        },
+        damage: {
+            count: 1,
+            die: 8,
+            damageType: "Radiant",
+        },
+        scaling: { dice: 1, characterLevels: [5, 11, 17] },
         description:
             "You call down golden fractals of radiant energy. Target must succeed on a Dexterity save or take 1d8 radiant damage.",
         higherLevels: "Damage increases by 1d8 at 5th, 11th, and 17th level.",
@@ -338,6 +391,13 @@ export const SPELLS: Spell[] = [
         aetherCost: 1,
         overclockable: true,
         heatGenerated: 1,
+        damage: {
+            count: 3,
+            die: 4,
+            bonus: 3,
+            damageType: "Force",
+        },
+        scaling: { dice: 1, bonus: 1 },
         description:
             "You release three bolts of condensed plasma, each striking a target for 1d4 + 1 force damage. The bolts automatically hit, appearing as glowing blue-white threads of Aether.",
         higherLevels: "+1 bolt per spell level above 1.",
@@ -376,6 +436,15 @@ export const SPELLS: Spell[] = [
         aetherCost: 1,
         overclockable: true,
         heatGenerated: 2,
+        savingThrow: {
+            ability: "dexterity",
+        },
+        damage: {
+            count: 3,
+            die: 6,
+            damageType: "Fire",
+        },
+        scaling: { dice: 1 },
         description:
             "A cone of flame and vapor erupts from your focus. Each creature in the area takes 3d6 fire damage (Dex save for half). Surfaces glow orange from residual heat.",
         higherLevels: "+1d6 damage per spell level above 1.",
@@ -414,6 +483,9 @@ export const SPELLS: Spell[] = [
         aetherCost: 1,
         overclockable: true,
         heatGenerated: 0,
+        savingThrow: {
+            ability: "dexterity",
+        },
         description:
             "Particles of reactive dust outline all creatures in a 20-ft cube with psionic light, granting advantage on attacks against them.",
         higherLevels: "None.",
@@ -433,6 +505,15 @@ export const SPELLS: Spell[] = [
         aetherCost: 1,
         overclockable: true,
         heatGenerated: 1,
+        savingThrow: {
+            ability: "constitution",
+        },
+        damage: {
+            count: 2,
+            die: 8,
+            damageType: "Thunder",
+        },
+        scaling: { dice: 1 },
         description:
             "You discharge a sonic pulse of pressurized Aether. Creatures take 2d8 thunder damage and are pushed 10 ft on a failed Con save. The ground shudders underfoot.",
         higherLevels: "+1d8 damage per spell level above 1.",
@@ -471,6 +552,9 @@ export const SPELLS: Spell[] = [
         aetherCost: 1,
         overclockable: true,
         heatGenerated: 1,
+        savingThrow: {
+            ability: "strength",
+        },
         description:
             "Metal shards and wiring animate to ensnare targets in a 20-ft square. Creatures must succeed on a Strength save or be restrained by magnetic force.",
         higherLevels: "None.",
@@ -600,6 +684,12 @@ export const SPELLS: Spell[] = [
         aetherCost: 1,
         overclockable: true,
         heatGenerated: 1,
+        damage: {
+            count: 3,
+            die: 10,
+            damageType: "Necrotic",
+        },
+        scaling: { dice: 1 },
         description:
             "You release inverted Aetheric energy. On a hit, deal 3d10 radiant or necrotic damage (your choice). Energy ripples outward in fractal lines.",
         higherLevels: "+1d10 per spell level above 1.",
@@ -700,6 +790,12 @@ export const SPELLS: Spell[] = [
         aetherCost: 1,
         overclockable: true,
         heatGenerated: 1,
+        damage: {
+            count: 4,
+            die: 6,
+            damageType: "Radiant",
+        },
+        scaling: { dice: 1 },
         description:
             "You unleash a focused line of coherent Aether energy. Make a ranged spell attack; on hit, deal 4d6 radiant damage, and the next attack against that target has advantage.",
         higherLevels: "+1d6 damage per spell level above 1.",
@@ -747,6 +843,9 @@ export const SPELLS: Spell[] = [
         aetherCost: 2,
         overclockable: true,
         heatGenerated: 1,
+        savingThrow: {
+            ability: "wisdom",
+        },
         description:
             "Threads of psionic energy lash out to bind a creature. On a failed Wisdom save, the target is paralyzed for up to 1 minute. At the end of each of its turns, it can repeat the save.",
         higherLevels: "+1 additional humanoid per spell level above 2.",
@@ -766,6 +865,11 @@ export const SPELLS: Spell[] = [
         aetherCost: 2,
         overclockable: true,
         heatGenerated: 2,
+        damage: {
+            count: 2,
+            die: 6,
+            damageType: "Fire",
+        },
         description:
             "You launch three focused beams of molten Aether. Each beam requires a separate attack roll and deals 2d6 fire damage.",
         higherLevels: "+1 ray per spell level above 2.",
@@ -785,6 +889,12 @@ export const SPELLS: Spell[] = [
         aetherCost: 2,
         overclockable: true,
         heatGenerated: 0,
+        damage: {
+            count: 1,
+            die: 8,
+            damageType: "Force",
+        },
+        scaling: { dice: 1, slotLevelsPerStep: 2 },
         description:
             "Manifest a spectral hammer or sword of psionic light. It attacks as a bonus action, dealing 1d8 + Wis mod force or radiant damage. Lasts 1 minute and ignores physical barriers.",
         higherLevels: "+1d8 damage per 2 spell levels above 2.",
@@ -872,6 +982,15 @@ export const SPELLS: Spell[] = [
         aetherCost: 3,
         overclockable: true,
         heatGenerated: 3,
+        savingThrow: {
+            ability: "dexterity",
+        },
+        damage: {
+            count: 8,
+            die: 6,
+            damageType: "Fire",
+        },
+        scaling: { dice: 1 },
         description:
             "You hurl a charged Aether core that detonates into vaporized plasma in a 20-ft radius. Each creature in the area must make a Dex save or take 8d6 fire damage (half on success). All metal surfaces in the area glow red-hot for 1 round.",
         higherLevels: "+1d6 damage per spell level above 3.",
@@ -934,6 +1053,15 @@ export const SPELLS: Spell[] = [
         aetherCost: 3,
         overclockable: true,
         heatGenerated: 1,
+        savingThrow: {
+            ability: "wisdom",
+        },
+        damage: {
+            count: 3,
+            die: 8,
+            damageType: "Radiant",
+        },
+        scaling: { dice: 1 },
         description:
             "You project your Resonance outward in a 15-ft aura of radiant psionic light. Creatures of your choice take 3d8 radiant or psychic damage when entering or starting their turn within range. Creatures make a Wis save for half damage.",
         higherLevels: "+1d8 damage per spell level above 3.",
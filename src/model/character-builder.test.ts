@@ -2,10 +2,13 @@
  * Unit tests for CharacterBuilder
  */
 
-import type { AbilityScores, ClassConfiguration } from "@/types";
+import { FIRST_NAMES_BY_SPECIES, LAST_NAMES_BY_SPECIES } from "@/data/names";
+import type { AbilityScores, ClassConfiguration, Language } from "@/types";
 import { describe, expect, it } from "vitest";
 import { CharacterBuilder } from "./character-builder";
 import { ValidationError } from "./character-utils";
+import { splitName } from "./name-utils";
+import { getPersonalityTable } from "./personality-utils";
 
 describe("CharacterBuilder", () => {
     const validAbilityScores: AbilityScores = {
@@ -812,4 +815,136 @@ describe("CharacterBuilder", () => {
             expect(allNonArmorUnequipped).toBe(true);
         });
     });
+
+    describe("Background Application", () => {
+        const buildArcanist = (background?: string) => {
+            const builder = new CharacterBuilder()
+                .setName("Test Character")
+                .setSpecies("Aqualoth")
+                .setClass("Arcanist")
+                .setAbilityScores(validAbilityScores);
+            return (background ? builder.setBackground(background) : builder).build();
+        };
+
+        it("should apply a background's proficiencies, languages, equipment and currency", () => {
+            const withoutBackground = buildArcanist();
+            const character = buildArcanist("rust-alley-scavenger");
+
+            expect(character.background).toBe("rust-alley-scavenger");
+            expect(character.proficiencies?.skills).toEqual(
+                expect.arrayContaining(["Stealth", "Survival"])
+            );
+            expect(character.skills.Stealth.proficient).toBe(true);
+            expect(character.proficiencies?.tools).toContain("Thieves' Tools");
+            expect(character.languages).toEqual(["Common Geartrade", "Aquan", "Rustspeech"]);
+            expect(character.inventory.map((item) => item.equipmentId)).toContain(
+                "steam-lantern-001"
+            );
+            expect(character.currency.cogs).toBe(withoutBackground.currency.cogs + 8);
+        });
+
+        it("should keep a custom background without applying anything", () => {
+            const withoutBackground = buildArcanist();
+            const character = buildArcanist("Guild Operative");
+
+            expect(character.background).toBe("Guild Operative");
+            expect(character.proficiencies).toEqual(withoutBackground.proficiencies);
+            expect(character.inventory).toHaveLength(withoutBackground.inventory.length);
+        });
+
+        it("should throw ValidationError for an empty background", () => {
+            expect(() => new CharacterBuilder().setBackground("  ")).toThrow(ValidationError);
+        });
+    });
+
+    describe("Bonus Languages", () => {
+        const buildAvenar = (languages: Language[]) =>
+            new CharacterBuilder()
+                .setName("Test Character")
+                .setSpecies("Avenar")
+                .setClass("Arcanist")
+                .setAbilityScores(validAbilityScores)
+                .setBackground("relic-hunter")
+                .setBonusLanguages(languages)
+                .build();
+
+        it("should add bonus languages up to the species, background and Intelligence allowance", () => {
+            const character = buildAvenar(["Guild Cant", "Gearcant", "Aquan", "Aetheric"]);
+
+            expect(character.languages).toEqual([
+                "Common Geartrade",
+                "Skycant",
+                "Old Tongue",
+                "Guild Cant",
+                "Gearcant",
+                "Aquan",
+                "Aetheric",
+            ]);
+        });
+
+        it("should throw ValidationError for too many bonus languages", () => {
+            expect(() =>
+                buildAvenar(["Guild Cant", "Gearcant", "Aquan", "Aetheric", "Sylvan"])
+            ).toThrow(ValidationError);
+        });
+
+        it("should throw ValidationError for a known or secret language", () => {
+            expect(() => buildAvenar(["Skycant"])).toThrow(ValidationError);
+            expect(() => buildAvenar(["Vox Mechanica"])).toThrow(ValidationError);
+        });
+    });
+
+    describe("Personality", () => {
+        it("should roll a personality from the background and species tables", () => {
+            const table = getPersonalityTable("relic-hunter", "Karnathi");
+            const personality = new CharacterBuilder()
+                .setSpecies("Karnathi")
+                .setBackground("relic-hunter")
+                .generatePersonality()
+                .getPersonality();
+
+            expect(personality.traits).toHaveLength(2);
+            expect(personality.flaws).toHaveLength(1);
+            expect(table.traits).toEqual(expect.arrayContaining(personality.traits));
+            expect(table.bonds).toContain(personality.bonds[0]);
+        });
+
+        it("should set a hand-picked personality, dropping blank entries", () => {
+            const character = new CharacterBuilder()
+                .setName("Test Character")
+                .setSpecies("Aqualoth")
+                .setClass("Arcanist")
+                .setAbilityScores(validAbilityScores)
+                .setPersonality({
+                    traits: [" I hum while I work. ", ""],
+                    ideals: ["Craft."],
+                    bonds: [],
+                    flaws: ["  "],
+                })
+                .build();
+
+            expect(character.traits).toEqual(["I hum while I work."]);
+            expect(character.ideals).toEqual(["Craft."]);
+            expect(character.bonds).toEqual([]);
+            expect(character.flaws).toEqual([]);
+        });
+    });
+
+    describe("Name Generation", () => {
+        it("should generate a name for the species", () => {
+            const builder = new CharacterBuilder().setSpecies("Karnathi");
+            builder.generateName();
+
+            const { first, last } = splitName(builder.getName()!);
+            expect(FIRST_NAMES_BY_SPECIES.Karnathi).toContain(first);
+            expect(LAST_NAMES_BY_SPECIES.Karnathi).toContain(last);
+        });
+
+        it("should keep a locked first name", () => {
+            const builder = new CharacterBuilder().setSpecies("Karnathi");
+            builder.generateName({ first: "Manual" });
+
+            expect(builder.getName()).toMatch(/^Manual /);
+        });
+    });
 });
@@ -2,13 +2,13 @@
  * CharacterBuilder Module
  *
  * Provides a builder pattern for creating new characters step-by-step.
- * Handles validation, derived stat calculation, and application of species/class features.
+ * Handles validation, derived stat calculation, and application of species/class/background features.
  *
  * @module character-builder
  */
 
+import { BACKGROUNDS_BY_ID } from "@/data/backgrounds";
 import { CLASSES } from "@/data/classes";
-import { FIRST_NAMES, LAST_NAMES } from "@/data/names";
 import { SPECIES } from "@/data/species";
 import { startingEquipmentService } from "@/service/starting-equipment-service";
 import type {
@@ -16,6 +16,8 @@ import type {
     Character,
     ClassConfiguration,
     ClassType,
+    Language,
+    Personality,
     SkillType,
     Skills,
     SpeciesType,
@@ -28,6 +30,10 @@ import {
     calculateProficiencyBonus,
     calculateSkillModifier,
 } from "./character-utils";
+import { getBonusLanguageCount, getLanguageOptions } from "./language-utils";
+import type { NameOptions } from "./name-utils";
+import { generateName } from "./name-utils";
+import { getPersonalityTable, rollPersonality } from "./personality-utils";
 
 /**
  * Builder class for creating new characters with fluent API
@@ -35,6 +41,7 @@ import {
 export class CharacterBuilder {
     private character: Partial<Character> = {};
     private classConfiguration?: ClassConfiguration;
+    private bonusLanguages: Language[] = [];
 
     /**
      * Set the character's name
@@ -47,13 +54,13 @@ export class CharacterBuilder {
         return this;
     }
 
-    generateName(): this {
-        const randomFirstName = FIRST_NAMES[Math.floor(Math.random() * FIRST_NAMES.length)];
-        const randomLastName = LAST_NAMES[Math.floor(Math.random() * LAST_NAMES.length)];
-
-        const generatedName = `${randomFirstName} ${randomLastName}`;
-
-        return this.setName(generatedName);
+    /**
+     * Generate a name suited to the species set so far (any species if none is set)
+     * @param options - Whether to invent new names, and a locked first or last name to keep
+     */
+    generateName(options: Omit<NameOptions, "species"> = {}): this {
+        const { first, last } = generateName({ ...options, species: this.character.species });
+        return this.setName(`${first} ${last}`);
     }
 
     /**
@@ -125,12 +132,61 @@ export class CharacterBuilder {
 
     /**
      * Set the character's background
+     *
+     * A background ID from BACKGROUNDS grants its proficiencies, languages, equipment and
+     * currency when the character is built; any other name is kept as a custom background.
      */
     setBackground(background: string): this {
-        this.character.background = background;
+        if (!background || background.trim().length === 0) {
+            throw new ValidationError("background", background, "must not be empty");
+        }
+        this.character.background = background.trim();
+        return this;
+    }
+
+    /**
+     * Choose bonus languages, checked against the species, background and Intelligence on build
+     */
+    setBonusLanguages(languages: Language[]): this {
+        this.bonusLanguages = [...new Set(languages)];
+        return this;
+    }
+
+    /**
+     * Set the character's personality traits, ideals, bonds and flaws (blank entries are dropped)
+     */
+    setPersonality(personality: Personality): this {
+        const clean = (entries: string[]) =>
+            entries.map((entry) => entry.trim()).filter((entry) => entry.length > 0);
+
+        this.character.traits = clean(personality.traits);
+        this.character.ideals = clean(personality.ideals);
+        this.character.bonds = clean(personality.bonds);
+        this.character.flaws = clean(personality.flaws);
         return this;
     }
 
+    /**
+     * Roll a personality from the tables for the background and species set so far
+     */
+    generatePersonality(): this {
+        return this.setPersonality(
+            rollPersonality(getPersonalityTable(this.character.background, this.character.species))
+        );
+    }
+
+    /**
+     * Get the current personality (useful for accessing generated personalities)
+     */
+    getPersonality(): Personality {
+        return {
+            traits: this.character.traits || [],
+            ideals: this.character.ideals || [],
+            bonds: this.character.bonds || [],
+            flaws: this.character.flaws || [],
+        };
+    }
+
     /**
      * Add starting equipment by equipment IDs
      */
@@ -198,6 +254,8 @@ export class CharacterBuilder {
         this.applyClassFeatures();
         this.initializeResources();
         this.applyStartingEquipment();
+        this.applyBackground();
+        this.applyBonusLanguages();
         this.storeClassConfiguration();
         this.calculateDerivedStats();
 
@@ -310,6 +368,73 @@ export class CharacterBuilder {
         }
     }
 
+    /**
+     * Apply background proficiencies, languages, equipment and currency
+     */
+    private applyBackground(): void {
+        const background = BACKGROUNDS_BY_ID[this.character.background || ""];
+        if (!background) {
+            return;
+        }
+
+        const proficiencies = this.character.proficiencies!;
+        proficiencies.skills = [
+            ...new Set([...proficiencies.skills, ...background.skillProficiencies]),
+        ];
+        proficiencies.tools = [
+            ...new Set([...proficiencies.tools, ...background.toolProficiencies]),
+        ];
+
+        this.character.languages = [
+            ...new Set([...(this.character.languages || []), ...background.languages]),
+        ];
+
+        this.addStartingEquipment(background.equipment);
+
+        const currency = this.character.currency!;
+        this.character.currency = {
+            ...currency,
+            cogs: currency.cogs + (background.currency.cogs || 0),
+            gears: currency.gears + (background.currency.gears || 0),
+            cores: currency.cores + (background.currency.cores || 0),
+            ...(background.currency.aetherDust && {
+                aetherDust: (currency.aetherDust || 0) + background.currency.aetherDust,
+            }),
+        };
+    }
+
+    /**
+     * Add the chosen bonus languages once species, background and Intelligence are known
+     */
+    private applyBonusLanguages(): void {
+        const known = this.character.languages || [];
+        const allowed = getBonusLanguageCount(
+            this.character.species,
+            this.character.background,
+            this.character.abilityScores!.intelligence
+        );
+
+        if (this.bonusLanguages.length > allowed) {
+            throw new ValidationError(
+                "languages",
+                this.bonusLanguages,
+                `must choose at most ${allowed} bonus languages`
+            );
+        }
+
+        const options = getLanguageOptions(known).map((language) => language.name);
+        const unavailable = this.bonusLanguages.find((language) => !options.includes(language));
+        if (unavailable) {
+            throw new ValidationError(
+                "languages",
+                unavailable,
+                "is already known or cannot be chosen at creation"
+            );
+        }
+
+        this.character.languages = [...known, ...this.bonusLanguages];
+    }
+
     /**
      * Store class configuration in character data
      */
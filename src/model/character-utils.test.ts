@@ -0,0 +1,186 @@
+import { FEATS_BY_ID } from "@/data";
+import type { AbilityScores, Character } from "@/types";
+import { describe, expect, it } from "vitest";
+import {
+    ValidationError,
+    calculateCasterLevel,
+    calculateLevelForExperience,
+    calculateSpellSlotMaximums,
+    canMulticlassInto,
+    formatFeatPrerequisite,
+    formatMulticlassPrerequisite,
+    getExperienceForLevel,
+    meetsFeatPrerequisite,
+    meetsMulticlassPrerequisite,
+    spendCurrency,
+    splitExperience,
+} from "./character-utils";
+
+const abilityScores: AbilityScores = {
+    strength: 10,
+    dexterity: 14,
+    constitution: 12,
+    intelligence: 16,
+    wisdom: 10,
+    charisma: 8,
+};
+
+describe("Character Utilities", () => {
+    describe("meetsMulticlassPrerequisite", () => {
+        it("should require every ability unless any one is enough", () => {
+            expect(meetsMulticlassPrerequisite("Arcanist", abilityScores)).toBe(true);
+            expect(meetsMulticlassPrerequisite("Templar", { ...abilityScores, strength: 13 })).toBe(
+                false
+            );
+            expect(meetsMulticlassPrerequisite("Vanguard", abilityScores)).toBe(true);
+        });
+    });
+
+    describe("canMulticlassInto", () => {
+        const character = { abilityScores, classes: [{ class: "Arcanist", level: 3 }] };
+
+        it("should check the prerequisites of the new class and every current class", () => {
+            expect(canMulticlassInto(character as Character, "Shadehand")).toBe(true);
+            expect(canMulticlassInto(character as Character, "Tweaker")).toBe(false);
+            expect(
+                canMulticlassInto(
+                    {
+                        ...character,
+                        abilityScores: { ...abilityScores, intelligence: 12 },
+                    } as Character,
+                    "Shadehand"
+                )
+            ).toBe(false);
+        });
+
+        it("should not multiclass into a class the character already has", () => {
+            expect(canMulticlassInto(character as Character, "Arcanist")).toBe(false);
+        });
+    });
+
+    describe("formatMulticlassPrerequisite", () => {
+        it("should describe the prerequisite", () => {
+            expect(formatMulticlassPrerequisite("Vanguard")).toBe("Strength 13 or Dexterity 13");
+            expect(formatMulticlassPrerequisite("Templar")).toBe("Strength 13 and Charisma 13");
+        });
+    });
+
+    describe("calculateCasterLevel", () => {
+        it("should count a single class's levels by its progression", () => {
+            expect(calculateCasterLevel([{ class: "Arcanist", level: 5 }])).toBe(5);
+            expect(calculateCasterLevel([{ class: "Templar", level: 5 }])).toBe(3);
+            expect(calculateCasterLevel([{ class: "Vanguard", level: 5 }])).toBe(0);
+        });
+
+        it("should combine full and half caster levels", () => {
+            expect(
+                calculateCasterLevel([
+                    { class: "Arcanist", level: 3 },
+                    { class: "Templar", level: 5 },
+                    { class: "Vanguard", level: 2 },
+                ])
+            ).toBe(5);
+        });
+    });
+
+    describe("calculateSpellSlotMaximums", () => {
+        it("should use the combined caster level", () => {
+            const slots = calculateSpellSlotMaximums([
+                { class: "Arcanist", level: 3 },
+                { class: "Templar", level: 4 },
+            ]);
+
+            expect(slots.level1).toBe(4);
+            expect(slots.level2).toBe(3);
+            expect(slots.level3).toBe(2);
+            expect(slots.level4).toBe(0);
+        });
+    });
+
+    describe("meetsFeatPrerequisite", () => {
+        it("should check ability scores and spellcasting", () => {
+            const character = { abilityScores, classes: [{ class: "Vanguard", level: 4 }] };
+
+            expect(meetsFeatPrerequisite(FEATS_BY_ID["alert"]!, character as Character)).toBe(true);
+            expect(
+                meetsFeatPrerequisite(FEATS_BY_ID["aether-attuned"]!, character as Character)
+            ).toBe(true);
+            expect(
+                meetsFeatPrerequisite(FEATS_BY_ID["heat-hardened"]!, character as Character)
+            ).toBe(false);
+            expect(meetsFeatPrerequisite(FEATS_BY_ID["war-caster"]!, character as Character)).toBe(
+                false
+            );
+        });
+    });
+
+    describe("formatFeatPrerequisite", () => {
+        it("should describe the prerequisite", () => {
+            expect(formatFeatPrerequisite(FEATS_BY_ID["aether-attuned"]!)).toBe(
+                "Intelligence 13 or Wisdom 13"
+            );
+            expect(formatFeatPrerequisite(FEATS_BY_ID["war-caster"]!)).toBe("Spellcasting");
+        });
+    });
+
+    describe("calculateLevelForExperience", () => {
+        it("should find the highest threshold reached", () => {
+            expect(calculateLevelForExperience(0)).toBe(1);
+            expect(calculateLevelForExperience(299)).toBe(1);
+            expect(calculateLevelForExperience(300)).toBe(2);
+            expect(calculateLevelForExperience(1000)).toBe(3);
+            expect(calculateLevelForExperience(400000)).toBe(20);
+        });
+    });
+
+    describe("getExperienceForLevel", () => {
+        it("should return the threshold for a level", () => {
+            expect(getExperienceForLevel(1)).toBe(0);
+            expect(getExperienceForLevel(5)).toBe(6500);
+            expect(getExperienceForLevel(20)).toBe(355000);
+            expect(getExperienceForLevel(21)).toBeUndefined();
+        });
+    });
+
+    describe("splitExperience", () => {
+        it("should split an award evenly, rounding down", () => {
+            expect(splitExperience(1000, 3)).toBe(333);
+            expect(splitExperience(1000, 0)).toBe(0);
+        });
+    });
+
+    describe("spendCurrency", () => {
+        it("should pay from cogs first and break larger coins for change", () => {
+            expect(spendCurrency({ cogs: 30, gears: 2, cores: 1 }, { cogs: 25 })).toEqual({
+                cogs: 5,
+                gears: 2,
+                cores: 1,
+            });
+            expect(spendCurrency({ cogs: 5, gears: 2, cores: 1 }, { cogs: 25 })).toEqual({
+                cogs: 0,
+                gears: 0,
+                cores: 1,
+            });
+            expect(spendCurrency({ cogs: 0, gears: 0, cores: 1 }, { cogs: 25 })).toEqual({
+                cogs: 75,
+                gears: 0,
+                cores: 0,
+            });
+        });
+
+        it("should spend aether dust separately", () => {
+            expect(
+                spendCurrency({ cogs: 0, gears: 0, cores: 0, aetherDust: 2 }, { aetherDust: 1 })
+            ).toEqual({ cogs: 0, gears: 0, cores: 0, aetherDust: 1 });
+        });
+
+        it("should throw ValidationError when the purse can't cover the cost", () => {
+            expect(() => spendCurrency({ cogs: 9, gears: 1, cores: 0 }, { cogs: 25 })).toThrow(
+                ValidationError
+            );
+            expect(() =>
+                spendCurrency({ cogs: 100, gears: 0, cores: 0 }, { aetherDust: 1 })
+            ).toThrow(ValidationError);
+        });
+    });
+});
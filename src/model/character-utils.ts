@@ -8,6 +8,11 @@
  * - Skill modifier calculations
  * - Armor class calculations
  * - Initiative calculations
+ * - Hit dice calculations
+ * - Multiclassing prerequisites and combined spell slots
+ * - Feat prerequisites
+ * - Experience point thresholds
+ * - Paying costs from a purse
  * - Validation helpers
  * - Formatting utilities
  *
@@ -16,8 +21,28 @@
  * @module character-utils
  */
 
-import { EQUIPMENT_BY_ID } from "@/data";
-import type { Armor, Character, InventoryItem as CharacterInventoryItem, Shield } from "@/types";
+import {
+    CLASSES,
+    EQUIPMENT_BY_ID,
+    EXPERIENCE_THRESHOLDS,
+    MAX_LEVEL,
+    MULTICLASS_ABILITY_MINIMUM,
+    SPELL_SLOTS_BY_CASTER_LEVEL,
+} from "@/data";
+import type {
+    AbilityScores,
+    Armor,
+    Character,
+    CharacterClass,
+    InventoryItem as CharacterInventoryItem,
+    ClassType,
+    Currency,
+    Die,
+    Feat,
+    HitDice,
+    Shield,
+    SpellSlots,
+} from "@/types";
 
 /**
  * Custom error class for domain-specific validation errors
@@ -186,6 +211,204 @@ export function calculateInitiative(dexterityScore: number): number {
     return calculateAbilityModifier(dexterityScore);
 }
 
+/**
+ * Calculate a character's hit dice, one pool per class
+ * @param character - The character
+ * @returns Each class's hit die with the dice remaining (maximum = class level)
+ * @example A level 3 Vanguard who spent 1 hit die -> [{ class: "Vanguard", die: 10, current: 2, maximum: 3 }]
+ */
+export function calculateHitDice(character: Character): HitDice[] {
+    return character.classes.map((cls) => {
+        const classData = CLASSES.find((c) => c.type === cls.class);
+        const die = (classData ? parseInt(classData.hitDie.substring(2)) : 6) as Die; // "1d8" -> 8
+        const spent = character.hitDiceSpent?.[cls.class] || 0;
+
+        return {
+            class: cls.class,
+            die,
+            current: Math.max(cls.level - spent, 0),
+            maximum: cls.level,
+        };
+    });
+}
+
+/**
+ * Format a minimum ability score (e.g., "Strength 13")
+ */
+function formatAbilityMinimum(ability: string, minimum: number): string {
+    return `${ability.charAt(0).toUpperCase()}${ability.slice(1)} ${minimum}`;
+}
+
+/**
+ * Check whether ability scores meet a class's multiclassing prerequisite
+ * @param classType - The class to check
+ * @param abilityScores - The character's ability scores
+ * @returns True if the required abilities are at least 13
+ * @example meetsMulticlassPrerequisite("Vanguard", { strength: 10, dexterity: 14, ... }) -> true
+ */
+export function meetsMulticlassPrerequisite(
+    classType: ClassType,
+    abilityScores: AbilityScores
+): boolean {
+    const prerequisite = CLASSES.find((c) => c.type === classType)?.multiclassPrerequisite;
+    if (!prerequisite) return false;
+
+    const meets = (ability: keyof AbilityScores) =>
+        abilityScores[ability] >= MULTICLASS_ABILITY_MINIMUM;
+    return prerequisite.anyOf
+        ? prerequisite.abilities.some(meets)
+        : prerequisite.abilities.every(meets);
+}
+
+/**
+ * Check whether a character can take their first level in another class
+ * @param character - The character
+ * @param classType - The class to multiclass into
+ * @returns True if the character meets the prerequisites of the new class and every class they have
+ */
+export function canMulticlassInto(character: Character, classType: ClassType): boolean {
+    if (character.classes.some((cls) => cls.class === classType)) return false;
+
+    return [classType, ...character.classes.map((cls) => cls.class)].every((cls) =>
+        meetsMulticlassPrerequisite(cls, character.abilityScores)
+    );
+}
+
+/**
+ * Describe a class's multiclassing prerequisite
+ * @param classType - The class
+ * @returns The prerequisite (e.g., "Strength 13 or Dexterity 13")
+ */
+export function formatMulticlassPrerequisite(classType: ClassType): string {
+    const prerequisite = CLASSES.find((c) => c.type === classType)?.multiclassPrerequisite;
+    if (!prerequisite) return "";
+
+    return prerequisite.abilities
+        .map((ability) => formatAbilityMinimum(ability, MULTICLASS_ABILITY_MINIMUM))
+        .join(prerequisite.anyOf ? " or " : " and ");
+}
+
+/**
+ * Check whether a character meets a feat's prerequisite
+ * @param feat - The feat
+ * @param character - The character
+ * @returns True if the feat has no prerequisite or the character meets it
+ */
+export function meetsFeatPrerequisite(feat: Feat, character: Character): boolean {
+    const { prerequisite } = feat;
+    if (!prerequisite) return true;
+
+    const minimums = Object.entries(prerequisite.abilityScores || {}) as [
+        keyof AbilityScores,
+        number,
+    ][];
+    const meets = ([ability, minimum]: [keyof AbilityScores, number]) =>
+        character.abilityScores[ability] >= minimum;
+    const meetsAbilityScores =
+        minimums.length === 0 ||
+        (prerequisite.anyAbility ? minimums.some(meets) : minimums.every(meets));
+    const meetsSpellcasting =
+        !prerequisite.spellcasting ||
+        character.classes.some((cls) => CLASSES.find((c) => c.type === cls.class)?.spellcasting);
+
+    return meetsAbilityScores && meetsSpellcasting;
+}
+
+/**
+ * Describe a feat's prerequisite
+ * @param feat - The feat
+ * @returns The prerequisite (e.g., "Intelligence 13 or Wisdom 13"), or "" if it has none
+ */
+export function formatFeatPrerequisite(feat: Feat): string {
+    const { prerequisite } = feat;
+    if (!prerequisite) return "";
+
+    const abilities = Object.entries(prerequisite.abilityScores || {})
+        .map(([ability, minimum]) => formatAbilityMinimum(ability, minimum))
+        .join(prerequisite.anyAbility ? " or " : " and ");
+    return [abilities, prerequisite.spellcasting ? "Spellcasting" : ""].filter(Boolean).join(", ");
+}
+
+/**
+ * Calculate the combined caster level of a character's spellcasting classes
+ * @param classes - The character's classes
+ * @returns Full-caster levels plus half of half-caster levels; a half caster's levels
+ *          round up when it is the only spellcasting class
+ * @example calculateCasterLevel([{ class: "Arcanist", level: 3 }, { class: "Templar", level: 5 }]) -> 5
+ */
+export function calculateCasterLevel(classes: CharacterClass[]): number {
+    const casters = classes
+        .map((cls) => ({
+            level: cls.level,
+            progression: CLASSES.find((c) => c.type === cls.class)?.spellcasting?.progression,
+        }))
+        .filter((cls) => cls.progression !== undefined);
+
+    if (casters.length === 1) {
+        const [caster] = casters;
+        return caster!.progression === "Full" ? caster!.level : Math.ceil(caster!.level / 2);
+    }
+
+    const fullLevels = casters
+        .filter((cls) => cls.progression === "Full")
+        .reduce((total, cls) => total + cls.level, 0);
+    const halfLevels = casters
+        .filter((cls) => cls.progression === "Half")
+        .reduce((total, cls) => total + cls.level, 0);
+    return fullLevels + Math.floor(halfLevels / 2);
+}
+
+/**
+ * Calculate spell slot maximums from a character's combined caster level
+ * @param classes - The character's classes
+ * @returns Slots per spell level, all 0 for characters without spellcasting classes
+ */
+export function calculateSpellSlotMaximums(
+    classes: CharacterClass[]
+): Record<keyof SpellSlots, number> {
+    const casterLevel = Math.min(
+        calculateCasterLevel(classes),
+        SPELL_SLOTS_BY_CASTER_LEVEL.length - 1
+    );
+    const slots = SPELL_SLOTS_BY_CASTER_LEVEL[casterLevel]!;
+
+    return Object.fromEntries(
+        slots.map((maximum, index) => [`level${index + 1}`, maximum])
+    ) as Record<keyof SpellSlots, number>;
+}
+
+/**
+ * Calculate the level a total of experience points reaches
+ * @param experiencePoints - Total experience points earned
+ * @returns The highest level whose threshold has been met (1-20)
+ * @example calculateLevelForExperience(1000) -> 3
+ */
+export function calculateLevelForExperience(experiencePoints: number): number {
+    return Math.max(
+        EXPERIENCE_THRESHOLDS.filter((threshold) => experiencePoints >= threshold).length,
+        1
+    );
+}
+
+/**
+ * Get the total experience points needed to reach a level
+ * @param level - The level to reach
+ * @returns The threshold, or undefined past level 20
+ */
+export function getExperienceForLevel(level: number): number | undefined {
+    return level > MAX_LEVEL ? undefined : EXPERIENCE_THRESHOLDS[Math.max(level, 1) - 1];
+}
+
+/**
+ * Split an experience award evenly across a group
+ * @param experiencePoints - Experience points awarded to the group
+ * @param memberCount - Number of characters sharing the award
+ * @returns Each character's share, rounded down
+ */
+export function splitExperience(experiencePoints: number, memberCount: number): number {
+    return memberCount > 0 ? Math.floor(experiencePoints / memberCount) : 0;
+}
+
 /**
  * Format a modifier as a string with + or - sign
  * @param modifier - The numeric modifier
@@ -195,6 +418,57 @@ export function formatModifier(modifier: number): string {
     return modifier >= 0 ? `+${modifier}` : `${modifier}`;
 }
 
+/**
+ * Format an amount of currency, largest denomination first
+ * @param currency - Amount in each denomination
+ * @returns Formatted string (e.g., "1 gear, 5 cogs"), or "none" if empty
+ */
+export function formatCurrency(currency: Partial<Currency>): string {
+    const denominations: [number | undefined, string, string][] = [
+        [currency.cores, "core", "cores"],
+        [currency.gears, "gear", "gears"],
+        [currency.cogs, "cog", "cogs"],
+        [currency.aetherDust, "vial of aether dust", "vials of aether dust"],
+    ];
+
+    return (
+        denominations
+            .filter(([amount]) => amount)
+            .map(([amount, singular, plural]) => `${amount} ${amount === 1 ? singular : plural}`)
+            .join(", ") || "none"
+    );
+}
+
+/**
+ * Pay a cost from a purse, breaking larger coins for change when needed
+ * @param purse - Currency the character has
+ * @param cost - Amount to pay
+ * @returns The purse after paying, keeping as many of its larger coins as it can
+ * @throws ValidationError if the purse cannot cover the cost
+ */
+export function spendCurrency(purse: Currency, cost: Partial<Currency>): Currency {
+    const toCogs = (currency: Partial<Currency>) =>
+        (currency.cogs || 0) + (currency.gears || 0) * 10 + (currency.cores || 0) * 100;
+
+    let remaining = toCogs(purse) - toCogs(cost);
+    const aetherDust = (purse.aetherDust || 0) - (cost.aetherDust || 0);
+    if (remaining < 0 || aetherDust < 0) {
+        throw new ValidationError("currency", cost, `costs more than ${formatCurrency(purse)}`);
+    }
+
+    const cores = Math.min(purse.cores, Math.floor(remaining / 100));
+    remaining -= cores * 100;
+    const gears = Math.min(purse.gears, Math.floor(remaining / 10));
+    remaining -= gears * 10;
+
+    return {
+        cogs: remaining,
+        gears,
+        cores,
+        ...(purse.aetherDust !== undefined ? { aetherDust } : {}),
+    };
+}
+
 /**
  * Validate that a value is within a range
  * @param field - The field name for error messages
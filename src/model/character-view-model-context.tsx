@@ -9,7 +9,7 @@ interface CharacterViewModelContextType {
     getCharacter: (id: string) => MutableCharacterViewModel;
     getAllCharacters: () => MutableCharacterViewModel[];
     createCharacter: (builder: CharacterBuilder) => string;
-    updateCharacter: (id: string, updater: (vm: MutableCharacterViewModel) => Character) => void;
+    updateCharacter: (id: string, updater: (vm: MutableCharacterViewModel) => Character) => boolean;
     deleteCharacter: (id: string) => void;
     exportCharacter: (id: string) => string;
     importCharacter: (json: string) => string;
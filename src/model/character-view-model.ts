@@ -1,7 +1,13 @@
 import {
+    BACKGROUNDS_BY_ID,
     CLASSES,
+    CONDITIONS_BY_NAME,
     DRONE_TEMPLATES_BY_ID,
     EQUIPMENT_BY_ID,
+    FEATS_BY_ID,
+    LANGUAGE_LEARNING_METHODS_BY_TYPE,
+    LANGUAGES_BY_NAME,
+    MAX_EXHAUSTION_LEVEL,
     MINDCRAFT_POWERS_LOOKUP,
     SPECIES,
     SPELLS_BY_NAME,
@@ -10,20 +16,40 @@ import { CRAFT_TIER_LOOKUP, MOD_LOOKUP } from "@/data/mods";
 import { SKILLS } from "@/data/skills";
 import type {
     AetherFluxPoints,
+    BackgroundFeature,
     Character,
+    CharacterEvent,
     ClassFeature,
     ClassType,
+    CombinedConditionEffects,
+    ConditionDefinition,
     CraftTier,
     DamageInfo,
     DamageType,
     Die,
     Drone,
+    ExhaustionPenalties,
+    Feat,
+    HeatStressPenalties,
+    HeatTracking,
+    HeatZone,
+    HitDice,
     HitPoints,
     InventoryMod,
+    Language,
+    LanguageDefinition,
+    LanguageLearningMethod,
     MindcraftPower,
     Mod,
+    OverheatCheck,
+    OverheatEffect,
+    PerRestUse,
+    Personality,
+    Points,
     ResonanceCharges,
     Rollable,
+    RollLogEntry,
+    RollMode,
     Skill,
     SkillType,
     SpeciesTrait,
@@ -33,11 +59,31 @@ import type {
 } from "@/types";
 import {
     calculateAbilityModifier,
+    calculateArmorClass,
+    calculateHitDice,
+    calculateLevelForExperience,
     calculateProficiencyBonus,
     formatModifier,
     getActiveDrone,
+    getEquippedArmor,
+    getEquippedShield,
+    getExperienceForLevel,
     ValidationError,
 } from "./character-utils";
+import {
+    calculateExhaustionPenalties,
+    combineConditionEffects,
+    getRollMode,
+} from "./condition-utils";
+import { calculateHeatStressPenalties, getHeatZone } from "./heat-utils";
+import { getPersonalityTable } from "./personality-utils";
+import type { SpellLimits } from "./spell-utils";
+import {
+    getMaxSpellLevel,
+    getSpellcastingAbility,
+    getSpellLimits,
+    requiresPreparation,
+} from "./spell-utils";
 
 export class AbilityScore {
     public score: number;
@@ -81,7 +127,47 @@ export interface CharacterSummary {
     activeDroneId?: string;
 }
 
-export type FeatureDisplay =
+export interface HeatStatus extends HeatTracking {
+    zone: HeatZone;
+    effects: OverheatEffect[];
+    lastOverheatCheck?: OverheatCheck;
+}
+
+// Experience points toward the next level
+export interface ExperienceProgress {
+    total: number;
+    level: number; // highest level the total has reached
+    nextLevelAt?: number; // undefined at level 20
+}
+
+// A language the character knows, with its script and dialect details
+export interface KnownLanguage {
+    language: Language;
+    definition?: LanguageDefinition;
+    expiresAt?: Date; // temporary languages only
+}
+
+// A language being learned in downtime
+export interface LanguageTrainingProgress {
+    language: Language;
+    method: LanguageLearningMethod;
+    daysSpent: number;
+}
+
+// Spell save DC and attack bonus from one class's spellcasting (or psionic) ability
+export interface SpellcastingStats {
+    classType: ClassType;
+    ability: keyof AbilityScores;
+    saveDC: number; // 8 + proficiency + ability modifier
+    attackBonus: number; // proficiency + ability modifier
+}
+
+// Uses left of a feature or mod that recharges on a rest
+export interface LimitedUses extends Points {
+    restType: PerRestUse["restType"];
+}
+
+export type FeatureDisplay = (
     | {
           type: "Species";
           source: SpeciesType;
@@ -96,12 +182,25 @@ export type FeatureDisplay =
           type: "Archetype";
           source: string;
           feature: ClassFeature;
-      };
+      }
+    | {
+          type: "Background";
+          source: string;
+          feature: BackgroundFeature;
+      }
+    | {
+          type: "Feat";
+          source: "Feat";
+          feature: Feat;
+      }
+) & { uses?: LimitedUses };
 
 export interface SavingThrow {
     proficient: boolean;
     modifier: string;
     rollable: Rollable;
+    mode: RollMode; // from conditions
+    autoFail: boolean; // e.g., STR and DEX saves while Paralyzed
 }
 
 export interface SavingThrows {
@@ -121,6 +220,8 @@ export type Skills = Record<
         expertise: boolean;
         ability: string;
         rollable: Rollable;
+        disadvantage: boolean; // imposed by Heat Stress or a condition
+        mode: RollMode; // default roll mode after advantage and disadvantage cancel out
     }
 >;
 
@@ -145,6 +246,8 @@ export interface Action {
     damage?: Damage;
     description?: string;
     range?: string;
+    jammed?: boolean;
+    mode: RollMode; // attack roll mode from conditions
 }
 
 export interface Damage extends Rollable {
@@ -156,7 +259,7 @@ export interface Damage extends Rollable {
     additionalDamage?: DamageInfo[];
 }
 
-export type ModViewModel = InventoryMod & { mod: Mod };
+export type ModViewModel = InventoryMod & { mod: Mod; disabled?: boolean; uses?: LimitedUses };
 
 export class InventoryViewModel {
     items: InventoryItem[];
@@ -175,23 +278,87 @@ export class InventoryViewModel {
     }
 }
 
+export interface ActiveCondition extends ConditionDefinition {
+    remainingRounds?: number; // undefined = until removed
+}
+
 export class CharacterViewModel {
     abilityScores: AbilityScores;
     summary: CharacterSummary;
+    hitDice: HitDice[];
+    experience: ExperienceProgress;
+    heat: HeatStatus;
+    heatStress: HeatStressPenalties;
+    exhaustion: ExhaustionPenalties;
     savingThrows: SavingThrows;
     skills: Skills;
+    personality: Personality;
+    personalityTable: Personality; // options for the character's background and species
+    languages: KnownLanguage[]; // permanent languages, then unexpired temporary ones
+    languageTraining: LanguageTrainingProgress[];
     actions: Action[] = []; // Placeholder for future implementation
     spellType: "Formulae" | "Miracles" | "None";
     spells: Spell[] = [];
+    maxSpellLevel: number; // highest slot level the character can cast, 0 without spellcasting
+    spellcasting: SpellcastingStats[]; // per spellcasting class, and Mindweaver for powers
+    spellLimits: SpellLimits; // spells known and prepared at the character's levels
+    preparableSpells: Spell[]; // known spells that are prepared on a long rest
+    preparedSpells: string[]; // readied on the last long rest
+    unpreparedSpells: string[]; // preparable spells that can't be cast until prepared
+    spellAttackMode: RollMode; // from conditions
+    concentrationDisadvantage?: string; // what imposes disadvantage on concentration checks
     mindcraftPowers: MindcraftPower[] = [];
     features: FeatureDisplay[] = [];
     inventory: InventoryViewModel;
     activeDrone?: Drone;
     drones: Drone[] = [];
+    rollHistory: RollLogEntry[]; // newest first
+    timeline: CharacterEvent[]; // newest first
+    conditions: ActiveCondition[];
+    conditionEffects: CombinedConditionEffects;
 
     constructor(private character: Character) {
         const primaryClass = this.character.classes[0];
         const classes = this.character.classes.map((cls) => cls.class);
+        const overheatEffects = this.character.overheatEffects || [];
+        const heatSources = this.character.heatSources || [];
+        const armorClassPenalty = overheatEffects.reduce(
+            (total, effect) => total + (effect.armorClassPenalty || 0),
+            0
+        );
+        const jammedItemIds = overheatEffects
+            .map((effect) => effect.inventoryItemId)
+            .filter((id): id is string => id !== undefined);
+        const disabledModIds = overheatEffects
+            .map((effect) => effect.modId)
+            .filter((id): id is string => id !== undefined);
+
+        this.conditionEffects = combineConditionEffects(this.character.conditions);
+        this.conditions = this.character.conditions.map((condition) => ({
+            ...CONDITIONS_BY_NAME[condition],
+            remainingRounds: this.character.conditionDurations?.[condition],
+        }));
+
+        // Heat Stress lowers Dexterity, which flows into AC, initiative and DEX skills
+        this.heatStress = calculateHeatStressPenalties(this.character.heatStressLevel);
+        // Heat Stress level 3 adds exhaustion on top of any the character already has
+        this.exhaustion = calculateExhaustionPenalties(
+            Math.min(
+                MAX_EXHAUSTION_LEVEL,
+                this.character.exhaustionLevel + this.heatStress.exhaustionLevels
+            )
+        );
+        const effectiveAbilityScores = {
+            ...this.character.abilityScores,
+            dexterity: this.character.abilityScores.dexterity - this.heatStress.dexterityPenalty,
+        };
+        const dexterityModifierPenalty =
+            calculateAbilityModifier(this.character.abilityScores.dexterity) -
+            calculateAbilityModifier(effectiveAbilityScores.dexterity);
+        const heatStressArmorClassPenalty = calculateHeatStressArmorClassPenalty(
+            this.character,
+            this.heatStress
+        );
         this.spellType = classes.includes("Templar")
             ? "Miracles"
             : classes.includes("Arcanist")
@@ -200,49 +367,108 @@ export class CharacterViewModel {
         this.summary = {
             name: this.character.name,
             class: primaryClass ? primaryClass.class : "Unknown",
-            fullClass: primaryClass
-                ? primaryClass.subclass
-                    ? `${primaryClass.class} (${primaryClass.subclass})`
-                    : primaryClass.class
-                : "Unknown",
+            fullClass:
+                this.character.classes.length > 1
+                    ? this.character.classes.map((cls) => `${cls.class} ${cls.level}`).join(" / ")
+                    : primaryClass
+                      ? primaryClass.subclass
+                          ? `${primaryClass.class} (${primaryClass.subclass})`
+                          : primaryClass.class
+                      : "Unknown",
             level: this.character.level,
             species: this.character.species,
-            background: this.character.background || "Unknown",
-            hitPoints: this.character.hitPoints,
+            background:
+                BACKGROUNDS_BY_ID[this.character.background || ""]?.name ??
+                (this.character.background || "Unknown"),
+            hitPoints: this.exhaustion.hitPointMaximumHalved
+                ? halveHitPointMaximum(this.character.hitPoints)
+                : this.character.hitPoints,
             heatPoints: this.character.heatPoints,
             aetherFluxPoints: this.character.aetherFluxPoints,
             resonanceCharges: this.character.resonanceCharges,
-            armorClass: this.character.armorClass,
-            initiative: formatModifier(this.character.initiative),
-            speed: this.character.speed,
+            armorClass: this.character.armorClass - armorClassPenalty - heatStressArmorClassPenalty,
+            initiative: formatModifier(this.character.initiative - dexterityModifierPenalty),
+            speed:
+                this.conditionEffects.speedZero || this.exhaustion.speedZero
+                    ? 0
+                    : Math.floor(
+                          Math.max(0, this.character.speed - this.heatStress.speedPenalty) /
+                              (this.exhaustion.speedHalved ? 2 : 1)
+                      ),
             avatarUrl: this.character.avatarUrl,
             id: this.character.id,
             activeDroneId: this.character.activeDroneId,
         };
+        this.hitDice = calculateHitDice(this.character);
+        this.personality = {
+            traits: this.character.traits || [],
+            ideals: this.character.ideals || [],
+            bonds: this.character.bonds || [],
+            flaws: this.character.flaws || [],
+        };
+        this.personalityTable = getPersonalityTable(
+            this.character.background,
+            this.character.species
+        );
+        this.languages = [
+            ...this.character.languages.map((language) => ({
+                language,
+                definition: LANGUAGES_BY_NAME[language],
+            })),
+            ...(this.character.temporaryLanguages || [])
+                .filter((temporary) => new Date(temporary.expiresAt).getTime() > Date.now())
+                .map((temporary) => ({
+                    language: temporary.language,
+                    definition: LANGUAGES_BY_NAME[temporary.language],
+                    expiresAt: new Date(temporary.expiresAt),
+                })),
+        ];
+        this.languageTraining = (this.character.languageTraining || []).map((training) => ({
+            ...training,
+            method: LANGUAGE_LEARNING_METHODS_BY_TYPE[training.method],
+        }));
+        const experiencePoints = this.character.experiencePoints || 0;
+        this.experience = {
+            total: experiencePoints,
+            level: calculateLevelForExperience(experiencePoints),
+            nextLevelAt: getExperienceForLevel(this.character.level + 1),
+        };
+        this.heat = {
+            current: this.character.heatPoints.current,
+            maximum: this.character.heatPoints.maximum,
+            stressLevel: this.character.heatStressLevel,
+            sources: heatSources,
+            zone: getHeatZone(this.character.heatPoints.current, this.character.heatPoints.maximum),
+            effects: overheatEffects,
+            lastOverheatCheck: heatSources.findLast((source) => source.overheatCheck)
+                ?.overheatCheck,
+        };
+        this.rollHistory = [...(this.character.rollHistory || [])].reverse();
+        this.timeline = [...(this.character.timeline || [])].reverse();
         this.abilityScores = {
             strength: new AbilityScore({
-                score: this.character.abilityScores.strength,
-                modifier: calculateAbilityModifier(this.character.abilityScores.strength),
+                score: effectiveAbilityScores.strength,
+                modifier: calculateAbilityModifier(effectiveAbilityScores.strength),
             }),
             dexterity: new AbilityScore({
-                score: this.character.abilityScores.dexterity,
-                modifier: calculateAbilityModifier(this.character.abilityScores.dexterity),
+                score: effectiveAbilityScores.dexterity,
+                modifier: calculateAbilityModifier(effectiveAbilityScores.dexterity),
             }),
             constitution: new AbilityScore({
-                score: this.character.abilityScores.constitution,
-                modifier: calculateAbilityModifier(this.character.abilityScores.constitution),
+                score: effectiveAbilityScores.constitution,
+                modifier: calculateAbilityModifier(effectiveAbilityScores.constitution),
             }),
             intelligence: new AbilityScore({
-                score: this.character.abilityScores.intelligence,
-                modifier: calculateAbilityModifier(this.character.abilityScores.intelligence),
+                score: effectiveAbilityScores.intelligence,
+                modifier: calculateAbilityModifier(effectiveAbilityScores.intelligence),
             }),
             wisdom: new AbilityScore({
-                score: this.character.abilityScores.wisdom,
-                modifier: calculateAbilityModifier(this.character.abilityScores.wisdom),
+                score: effectiveAbilityScores.wisdom,
+                modifier: calculateAbilityModifier(effectiveAbilityScores.wisdom),
             }),
             charisma: new AbilityScore({
-                score: this.character.abilityScores.charisma,
-                modifier: calculateAbilityModifier(this.character.abilityScores.charisma),
+                score: effectiveAbilityScores.charisma,
+                modifier: calculateAbilityModifier(effectiveAbilityScores.charisma),
             }),
         };
 
@@ -256,7 +482,7 @@ export class CharacterViewModel {
             "wisdom",
             "charisma",
         ] as const) {
-            const score = this.character.abilityScores[ability];
+            const score = effectiveAbilityScores[ability];
             const modifier = calculateAbilityModifier(score);
             const isProficient =
                 this.character.proficiencies?.savingThrows?.includes(ability) || false;
@@ -273,6 +499,11 @@ export class CharacterViewModel {
                         die: 20,
                         bonus: total,
                     },
+                    mode: getRollMode(
+                        this.conditionEffects.savingThrows[ability],
+                        this.exhaustion.attackAndSaveDisadvantage
+                    ),
+                    autoFail: this.conditionEffects.autoFailSaves.includes(ability),
                 },
             };
         }
@@ -280,18 +511,32 @@ export class CharacterViewModel {
         this.skills = Object.fromEntries(
             Object.entries(character.skills).map(([skillName, skillData]) => {
                 const skill = skillData as Skill;
+                const ability = SKILLS[skillName as SkillType];
+                const modifier =
+                    skill.modifier - (ability === "dexterity" ? dexterityModifierPenalty : 0);
+                const heatStressDisadvantage = this.heatStress.skillDisadvantage.includes(
+                    skillName as SkillType
+                );
                 return [
                     skillName,
                     {
-                        modifier: formatModifier(skill.modifier),
+                        modifier: formatModifier(modifier),
                         proficient: skill.proficient,
                         expertise: skill.expertise,
-                        ability: SKILLS[skillName as SkillType].substring(0, 3).toUpperCase(),
+                        ability: ability.substring(0, 3).toUpperCase(),
                         rollable: {
                             count: 1,
                             die: 20,
-                            bonus: skill.modifier,
+                            bonus: modifier,
                         },
+                        disadvantage:
+                            heatStressDisadvantage ||
+                            this.exhaustion.abilityCheckDisadvantage ||
+                            this.conditionEffects.abilityChecks.disadvantage,
+                        mode: getRollMode(
+                            this.conditionEffects.abilityChecks,
+                            heatStressDisadvantage || this.exhaustion.abilityCheckDisadvantage
+                        ),
                     },
                 ];
             })
@@ -312,6 +557,10 @@ export class CharacterViewModel {
                 mods: item.mods || [],
             };
         });
+        const attackRollMode = getRollMode(
+            this.conditionEffects.attackRolls,
+            this.exhaustion.attackAndSaveDisadvantage
+        );
         inventoryItems
             .filter((item) => {
                 const equipment = EQUIPMENT_BY_ID[item.equipmentId]!;
@@ -325,8 +574,9 @@ export class CharacterViewModel {
                     equipment
                 );
 
-                // Calculate additional damage from mods
+                // Calculate additional damage from mods (burned out mods contribute nothing)
                 const attachedMods = item.mods
+                    .filter((modId: string) => !disabledModIds.includes(modId))
                     .map((modId: string) => MOD_LOOKUP[modId])
                     .filter(
                         (mod: Mod | undefined): mod is Mod =>
@@ -369,9 +619,13 @@ export class CharacterViewModel {
                     range: equipment.range
                         ? `${equipment.range?.normal}' (${equipment.range?.max}')`
                         : "",
+                    jammed: jammedItemIds.includes(item.id),
+                    mode: attackRollMode,
                 });
             });
-        this.actions.push(createUnarmedStrikeAction(this.abilityScores.strength.modifier));
+        this.actions.push(
+            createUnarmedStrikeAction(this.abilityScores.strength.modifier, attackRollMode)
+        );
 
         // Add drone actions if there's an active drone
         if (character.activeDroneId && character.drones) {
@@ -391,6 +645,7 @@ export class CharacterViewModel {
                         },
                         description: `Your drone ${activeDrone.name} attacks with its ${droneTemplate.stats.attack.name}.`,
                         range: "60 ft (command range)",
+                        mode: "Normal", // the drone's conditions are its own
                     });
                 }
             }
@@ -403,33 +658,39 @@ export class CharacterViewModel {
                     return SPELLS_BY_NAME[spellName];
                 })
                 .filter((spell) => spell !== undefined) as Spell[]) || [];
-        const species = SPECIES.find((s) => s.type === character.species);
-        const cls = CLASSES.find((c) => c.type === primaryClass?.class);
-        const subclass = cls?.subclasses.find((s) => s.type === primaryClass?.subclass);
-
-        this.features = [
-            ...(species?.traits.map((feature) => ({
-                type: "Species" as const,
-                source: species.type,
-                feature,
-            })) || []),
-            ...(cls?.features.map((feature) => ({
-                type: "Class" as const,
-                source: cls.type,
-                feature,
-            })) || []),
-            ...(subclass?.features.map((feature) => ({
-                type: "Archetype" as const,
-                source: subclass.type,
-                feature,
-            })) || []),
-        ];
+        this.maxSpellLevel = getMaxSpellLevel(character.classes);
+        this.spellcasting = character.classes.flatMap(({ class: classType }) => {
+            const ability = getSpellcastingAbility(classType, character.classConfigurations);
+            if (!ability) return [];
+
+            const attackBonus = proficiencyBonus + this.abilityScores[ability].modifier;
+            return [{ classType, ability, saveDC: 8 + attackBonus, attackBonus }];
+        });
+        this.spellAttackMode = attackRollMode;
+        this.concentrationDisadvantage = this.character.concentrationDisadvantage;
+        this.spellLimits = getSpellLimits(character.classes, this.abilityScores);
+        this.preparableSpells = this.spells.filter((spell) =>
+            requiresPreparation(character.classes, spell)
+        );
+        this.preparedSpells = character.preparedSpells || [];
+        this.unpreparedSpells = this.preparableSpells
+            .filter((spell) => !this.preparedSpells.includes(spell.name))
+            .map((spell) => spell.name);
+        this.features = collectFeatures(character).map((display) => ({
+            ...display,
+            uses: calculateLimitedUses(
+                display.feature.usesPerRest,
+                character.featureUsesSpent?.[getFeatureUseKey(display)]
+            ),
+        }));
 
         const inventoryMods = character.mods.map((invMod) => {
             const mod = MOD_LOOKUP[invMod.modId]!;
             return {
                 ...invMod,
                 mod,
+                disabled: disabledModIds.includes(invMod.modId),
+                uses: calculateLimitedUses(mod.usesPerRest, character.modUsesSpent?.[invMod.id]),
             } as ModViewModel;
         });
 
@@ -449,6 +710,117 @@ export class CharacterViewModel {
     }
 }
 
+/**
+ * Features from the character's species, classes and subclasses up to the level reached in each,
+ * background and feats
+ */
+export function collectFeatures(character: Character): FeatureDisplay[] {
+    const species = SPECIES.find((s) => s.type === character.species);
+    const background = BACKGROUNDS_BY_ID[character.background || ""];
+    // Features from every class and subclass, up to the level reached in that class
+    const classFeatures = character.classes.flatMap(({ class: classType, level, subclass }) => {
+        const cls = CLASSES.find((c) => c.type === classType);
+        const sub = cls?.subclasses.find((s) => s.type === subclass);
+        return [
+            ...(cls?.features.map((feature) => ({
+                type: "Class" as const,
+                source: cls.type,
+                feature,
+            })) || []),
+            ...(sub?.features.map((feature) => ({
+                type: "Archetype" as const,
+                source: sub.type,
+                feature,
+            })) || []),
+        ].filter((display) => display.feature.level <= level);
+    });
+
+    return [
+        ...(species?.traits.map((feature) => ({
+            type: "Species" as const,
+            source: species.type,
+            feature,
+        })) || []),
+        ...classFeatures,
+        ...(background
+            ? [
+                  {
+                      type: "Background" as const,
+                      source: background.name,
+                      feature: background.feature,
+                  },
+              ]
+            : []),
+        ...(character.feats || [])
+            .map((featId) => FEATS_BY_ID[featId])
+            .filter((feat) => feat !== undefined)
+            .map((feature) => ({ type: "Feat" as const, source: "Feat" as const, feature })),
+    ];
+}
+
+/**
+ * Key of a feature's spent uses, by source so same-named features keep separate counts
+ * @example getFeatureUseKey({ source: "Vulmir", feature: shadowStep }) -> "Vulmir:Shadow Step"
+ */
+export function getFeatureUseKey({
+    source,
+    feature,
+}: Pick<FeatureDisplay, "source" | "feature">): string {
+    return `${source}:${feature.name}`;
+}
+
+/**
+ * AC lost to Heat Stress: lowered Dexterity, and armor shutting down at level 4
+ */
+function calculateHeatStressArmorClassPenalty(
+    character: Character,
+    heatStress: HeatStressPenalties
+): number {
+    if (heatStress.dexterityPenalty === 0 && !heatStress.armorShutdown) {
+        return 0;
+    }
+
+    const armor = getEquippedArmor(character);
+    const shield = getEquippedShield(character);
+    const stressed: Character = {
+        ...character,
+        abilityScores: {
+            ...character.abilityScores,
+            dexterity: character.abilityScores.dexterity - heatStress.dexterityPenalty,
+        },
+    };
+    const stressedArmorClass =
+        heatStress.armorShutdown && armor
+            ? calculateArmorClass(stressed) + (shield?.armorClassBonus || 0)
+            : calculateArmorClass(stressed, armor, shield);
+
+    return calculateArmorClass(character, armor, shield) - stressedArmorClass;
+}
+
+/**
+ * Uses left of a per-rest feature or mod
+ */
+function calculateLimitedUses(
+    usesPerRest: PerRestUse | undefined,
+    spent: number = 0
+): LimitedUses | undefined {
+    return (
+        usesPerRest && {
+            current: Math.max(usesPerRest.amount - spent, 0),
+            maximum: usesPerRest.amount,
+            restType: usesPerRest.restType,
+        }
+    );
+}
+
+/**
+ * Hit points under exhaustion level 4: maximum halved, current capped at the new maximum
+ */
+function halveHitPointMaximum(hitPoints: HitPoints): HitPoints {
+    const maximum = Math.floor(hitPoints.maximum / 2);
+    return { ...hitPoints, current: Math.min(hitPoints.current, maximum), maximum };
+}
+
 function calculateHitAndDamage(abilityScores: AbilityScores, weapon: Weapon) {
     const strengthMod = abilityScores.strength.modifier;
     const dexterityMod = abilityScores.dexterity.modifier;
@@ -467,7 +839,7 @@ function calculateHitAndDamage(abilityScores: AbilityScores, weapon: Weapon) {
     };
 }
 
-function createUnarmedStrikeAction(strengthModifier: number): Action {
+function createUnarmedStrikeAction(strengthModifier: number, mode: RollMode): Action {
     return {
         name: "Unarmed Strike",
         type: "Melee",
@@ -480,5 +852,6 @@ function createUnarmedStrikeAction(strengthModifier: number): Action {
             bonus: strengthModifier,
         },
         description: "Your unarmed strike can deal damage equal to 1 + your Strength modifier.",
+        mode,
     };
 }
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+    advanceConditionDurations,
+    calculateExhaustionPenalties,
+    combineConditionEffects,
+    getRollMode,
+} from "./condition-utils";
+
+describe("Condition Utilities", () => {
+    describe("combineConditionEffects", () => {
+        it("should have no effects without conditions", () => {
+            const effects = combineConditionEffects([]);
+
+            expect(effects.attackRolls).toEqual({ advantage: false, disadvantage: false });
+            expect(effects.autoFailSaves).toEqual([]);
+            expect(effects.speedZero).toBe(false);
+        });
+
+        it("should combine effects from every condition", () => {
+            const effects = combineConditionEffects(["Invisible", "Poisoned", "PsionicFeedback"]);
+
+            expect(effects.attackRolls).toEqual({ advantage: true, disadvantage: true });
+            expect(effects.abilityChecks.disadvantage).toBe(true);
+            expect(effects.savingThrows.wisdom.disadvantage).toBe(true);
+            expect(effects.savingThrows.strength.disadvantage).toBe(false);
+            expect(effects.cannotManifestPowers).toBe(true);
+        });
+
+        it("should list auto-failed saves once", () => {
+            const effects = combineConditionEffects(["Paralyzed", "Stunned"]);
+
+            expect(effects.autoFailSaves).toEqual(["strength", "dexterity"]);
+        });
+    });
+
+    describe("getRollMode", () => {
+        it("should cancel advantage and disadvantage", () => {
+            expect(getRollMode({ advantage: true, disadvantage: true })).toBe("Normal");
+            expect(getRollMode({ advantage: true, disadvantage: false })).toBe("Advantage");
+        });
+
+        it("should include disadvantage from other sources", () => {
+            expect(getRollMode({ advantage: false, disadvantage: false }, true)).toBe(
+                "Disadvantage"
+            );
+        });
+    });
+
+    describe("advanceConditionDurations", () => {
+        it("should keep conditions without a duration", () => {
+            const result = advanceConditionDurations(["Prone", "Blinded"], { Blinded: 2 }, 2);
+
+            expect(result).toEqual({ conditions: ["Prone"], durations: {} });
+        });
+    });
+
+    describe("calculateExhaustionPenalties", () => {
+        it("should have no penalties at level 0", () => {
+            const penalties = calculateExhaustionPenalties(0);
+
+            expect(penalties.effects).toEqual([]);
+            expect(penalties.abilityCheckDisadvantage).toBe(false);
+        });
+
+        it("should include the effects of every lower level", () => {
+            const penalties = calculateExhaustionPenalties(3);
+
+            expect(penalties.effects).toHaveLength(3);
+            expect(penalties.abilityCheckDisadvantage).toBe(true);
+            expect(penalties.speedHalved).toBe(true);
+            expect(penalties.attackAndSaveDisadvantage).toBe(true);
+            expect(penalties.hitPointMaximumHalved).toBe(false);
+            expect(penalties.dead).toBe(false);
+        });
+
+        it("should be fatal at level 6", () => {
+            expect(calculateExhaustionPenalties(6).dead).toBe(true);
+        });
+    });
+});
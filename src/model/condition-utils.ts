@@ -0,0 +1,144 @@
+/**
+ * Condition Utilities Module
+ *
+ * This module turns a character's conditions into mechanical effects:
+ * - Combining the effects of every active condition
+ * - Resolving advantage and disadvantage into a roll mode
+ * - Counting down condition durations in rounds
+ * - Accumulating the penalties of exhaustion levels
+ *
+ * @module condition-utils
+ */
+
+import { CONDITIONS_BY_NAME, EXHAUSTION_LEVELS } from "@/data";
+import type {
+    AbilityScores,
+    CombinedConditionEffects,
+    Condition,
+    ExhaustionPenalties,
+    RollAdjustment,
+    RollAdjustmentSources,
+    RollMode,
+} from "@/types";
+import { resolveRollMode } from "./dice-utils";
+
+const ABILITIES: (keyof AbilityScores)[] = [
+    "strength",
+    "dexterity",
+    "constitution",
+    "intelligence",
+    "wisdom",
+    "charisma",
+];
+
+/**
+ * Combine the effects of a set of conditions
+ * @param conditions - Active conditions
+ * @returns Every source of advantage/disadvantage and restriction the conditions impose
+ * @example combineConditionEffects(["Poisoned"]).attackRolls -> { advantage: false, disadvantage: true }
+ */
+export function combineConditionEffects(conditions: Condition[]): CombinedConditionEffects {
+    const effects = conditions.map((condition) => CONDITIONS_BY_NAME[condition].effects);
+    const sources = (adjustments: (RollAdjustment | undefined)[]): RollAdjustmentSources => ({
+        advantage: adjustments.includes("Advantage"),
+        disadvantage: adjustments.includes("Disadvantage"),
+    });
+
+    return {
+        attackRolls: sources(effects.map((e) => e.attackRolls)),
+        attacksAgainst: sources(effects.map((e) => e.attacksAgainst)),
+        abilityChecks: sources(effects.map((e) => e.abilityChecks)),
+        savingThrows: Object.fromEntries(
+            ABILITIES.map((ability) => [
+                ability,
+                sources(effects.map((e) => e.savingThrows?.[ability])),
+            ])
+        ) as Record<keyof AbilityScores, RollAdjustmentSources>,
+        autoFailSaves: ABILITIES.filter((ability) =>
+            effects.some((e) => e.autoFailSaves?.includes(ability))
+        ),
+        speedZero: effects.some((e) => e.speedZero),
+        incapacitated: effects.some((e) => e.incapacitated),
+        cannotCastSpells: effects.some((e) => e.cannotCastSpells),
+        cannotManifestPowers: effects.some((e) => e.cannotManifestPowers),
+        cannotOverclock: effects.some((e) => e.cannotOverclock),
+    };
+}
+
+/**
+ * Resolve advantage and disadvantage sources into a roll mode
+ * @param sources - Advantage and disadvantage from conditions
+ * @param disadvantage - Disadvantage from another source (e.g., Heat Stress)
+ * @returns The roll mode; advantage and disadvantage cancel out
+ */
+export function getRollMode(sources: RollAdjustmentSources, disadvantage = false): RollMode {
+    return resolveRollMode(sources.advantage, sources.disadvantage || disadvantage);
+}
+
+/**
+ * Count down condition durations, dropping conditions that run out
+ * @param conditions - Active conditions
+ * @param durations - Rounds remaining per condition; conditions without one last until removed
+ * @param rounds - Rounds that have passed
+ * @returns The remaining conditions and their durations
+ */
+export function advanceConditionDurations(
+    conditions: Condition[],
+    durations: Partial<Record<Condition, number>>,
+    rounds: number = 1
+): { conditions: Condition[]; durations: Partial<Record<Condition, number>> } {
+    const remaining: Partial<Record<Condition, number>> = {};
+    const expired = new Set<Condition>();
+
+    for (const condition of conditions) {
+        const duration = durations[condition];
+        if (duration === undefined) continue;
+
+        if (duration - rounds > 0) {
+            remaining[condition] = duration - rounds;
+        } else {
+            expired.add(condition);
+        }
+    }
+
+    return {
+        conditions: conditions.filter((condition) => !expired.has(condition)),
+        durations: remaining,
+    };
+}
+
+/**
+ * Calculate the combined penalties of an exhaustion level
+ * @param level - Exhaustion level (0-6); each level includes the effects below it
+ * @returns The cumulative penalties
+ * @example calculateExhaustionPenalties(2) -> ability check disadvantage and halved speed
+ */
+export function calculateExhaustionPenalties(level: number): ExhaustionPenalties {
+    return EXHAUSTION_LEVELS.filter(
+        (exhaustion) => exhaustion.level <= level
+    ).reduce<ExhaustionPenalties>(
+        (penalties, exhaustion) => ({
+            level: penalties.level,
+            effects: [...penalties.effects, exhaustion.effect],
+            abilityCheckDisadvantage:
+                penalties.abilityCheckDisadvantage || !!exhaustion.abilityCheckDisadvantage,
+            speedHalved: penalties.speedHalved || !!exhaustion.speedHalved,
+            attackAndSaveDisadvantage:
+                penalties.attackAndSaveDisadvantage || !!exhaustion.attackAndSaveDisadvantage,
+            hitPointMaximumHalved:
+                penalties.hitPointMaximumHalved || !!exhaustion.hitPointMaximumHalved,
+            speedZero: penalties.speedZero || !!exhaustion.speedZero,
+            dead: penalties.dead || !!exhaustion.dead,
+        }),
+        {
+            level,
+            effects: [],
+            abilityCheckDisadvantage: false,
+            speedHalved: false,
+            attackAndSaveDisadvantage: false,
+            hitPointMaximumHalved: false,
+            speedZero: false,
+            dead: false,
+        }
+    );
+}
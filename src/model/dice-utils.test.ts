@@ -0,0 +1,266 @@
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "./character-utils";
+import {
+    doubleDamageDice,
+    expressionToDamageInfo,
+    expressionToRollables,
+    formatDiceRollResult,
+    parseDiceExpression,
+    resolveRollMode,
+    rollAttack,
+    rollD20,
+    rollDiceExpression,
+    rollableToExpression,
+    rollablesToExpression,
+} from "./dice-utils";
+
+/**
+ * Create a die roller that returns the given values in order
+ */
+function sequence(...values: number[]): (sides: number) => number {
+    let index = 0;
+    return () => {
+        const value = values[index++];
+        if (value === undefined) {
+            throw new Error("Ran out of rolls");
+        }
+        return value;
+    };
+}
+
+describe("parseDiceExpression", () => {
+    it("should parse dice and flat modifiers", () => {
+        const parsed = parseDiceExpression("2d6 + 1d4 + 3");
+
+        expect(parsed.expression).toBe("2d6+1d4+3");
+        expect(parsed.terms).toEqual([
+            { kind: "dice", sign: 1, count: 2, sides: 6 },
+            { kind: "dice", sign: 1, count: 1, sides: 4 },
+            { kind: "modifier", sign: 1, value: 3 },
+        ]);
+    });
+
+    it("should parse negative terms, implicit counts and percentile dice", () => {
+        const parsed = parseDiceExpression("d20-1d4-2+D%");
+
+        expect(parsed.expression).toBe("1d20-1d4-2+1d100");
+        expect(parsed.terms[1]).toMatchObject({ sign: -1, count: 1, sides: 4 });
+        expect(parsed.terms[2]).toEqual({ kind: "modifier", sign: -1, value: 2 });
+    });
+
+    it("should parse keep and drop modifiers", () => {
+        expect(parseDiceExpression("4d6kh3").terms[0]).toMatchObject({
+            keep: { type: "highest", count: 3 },
+        });
+        expect(parseDiceExpression("2d20kl1").terms[0]).toMatchObject({
+            keep: { type: "lowest", count: 1 },
+        });
+        expect(parseDiceExpression("4d6dl1").expression).toBe("4d6kh3");
+    });
+
+    it("should parse advantage, rerolls and exploding dice", () => {
+        expect(parseDiceExpression("1d20adv").terms[0]).toMatchObject({ rollMode: "Advantage" });
+        expect(parseDiceExpression("1d20dis").terms[0]).toMatchObject({ rollMode: "Disadvantage" });
+        expect(parseDiceExpression("2d6ro<2").terms[0]).toMatchObject({
+            reroll: { comparison: "<=", value: 2, once: true },
+        });
+        expect(parseDiceExpression("3d6!").terms[0]).toMatchObject({
+            explode: { comparison: ">=", value: 6 },
+        });
+        expect(parseDiceExpression("1d10!>9r1").expression).toBe("1d10r1!>9");
+    });
+
+    it.each([
+        "",
+        "2d",
+        "d",
+        "1d6+",
+        "2x6",
+        "1d6zz",
+        "2d6kh3",
+        "1d20advkh1",
+        "1d1!",
+        "1d6r<6",
+        "1d6r>1",
+        "1d6r<9",
+        "0d6",
+        "1d0",
+        "1d1001",
+        "1d99999999!",
+    ])("should reject %j", (expression) => {
+        expect(() => parseDiceExpression(expression)).toThrow(ValidationError);
+    });
+});
+
+describe("rollDiceExpression", () => {
+    it("should total dice and modifiers", () => {
+        const result = rollDiceExpression("2d6+1d4+3", sequence(2, 5, 4));
+
+        expect(result.total).toBe(14);
+        expect(result.terms.map((term) => term.total)).toEqual([7, 4, 3]);
+    });
+
+    it("should subtract negative terms", () => {
+        expect(rollDiceExpression("1d20-1d4-1", sequence(15, 3)).total).toBe(11);
+    });
+
+    it("should keep the highest dice", () => {
+        const result = rollDiceExpression("4d6kh3", sequence(1, 6, 3, 5));
+
+        expect(result.total).toBe(14);
+        expect(result.terms[0]!.dice.map((die) => die.dropped)).toEqual([
+            true,
+            false,
+            false,
+            false,
+        ]);
+    });
+
+    it("should roll twice with advantage and disadvantage", () => {
+        expect(rollDiceExpression("1d20adv+2", sequence(7, 18)).total).toBe(20);
+        expect(rollDiceExpression("1d20dis+2", sequence(7, 18)).total).toBe(9);
+    });
+
+    it("should reroll matching dice until they no longer match", () => {
+        const result = rollDiceExpression("1d6r1", sequence(1, 1, 4));
+
+        expect(result.total).toBe(4);
+        expect(result.terms[0]!.dice[0]!.rerolls).toEqual([1, 1]);
+    });
+
+    it("should reroll only once with ro", () => {
+        expect(rollDiceExpression("1d6ro1", sequence(1, 1)).total).toBe(1);
+    });
+
+    it("should add a die for each exploding die", () => {
+        const result = rollDiceExpression("2d6!", sequence(6, 6, 2, 3));
+
+        expect(result.total).toBe(17);
+        expect(result.terms[0]!.dice.map((die) => die.exploded)).toEqual([
+            false,
+            true,
+            true,
+            false,
+        ]);
+    });
+
+    it("should stay within the die's range with the default roller", () => {
+        for (let i = 0; i < 50; i++) {
+            const { total } = rollDiceExpression("1d8");
+            expect(total).toBeGreaterThanOrEqual(1);
+            expect(total).toBeLessThanOrEqual(8);
+        }
+    });
+});
+
+describe("formatDiceRollResult", () => {
+    it("should list each die and strike through dropped dice", () => {
+        const result = rollDiceExpression("4d6kh3-1", sequence(1, 6, 3, 5));
+
+        expect(formatDiceRollResult(result)).toBe("4d6kh3-1: [~~1~~, 6, 3, 5] - 1 = 13");
+    });
+});
+
+describe("resolveRollMode", () => {
+    it("should cancel advantage and disadvantage", () => {
+        expect(resolveRollMode(true, false)).toBe("Advantage");
+        expect(resolveRollMode(false, true)).toBe("Disadvantage");
+        expect(resolveRollMode(true, true)).toBe("Normal");
+        expect(resolveRollMode(false, false)).toBe("Normal");
+    });
+});
+
+describe("rollD20", () => {
+    it("should add the modifier to a single d20", () => {
+        const result = rollD20(-1, "Normal", sequence(12));
+
+        expect(result.expression).toBe("1d20-1");
+        expect(result.total).toBe(11);
+        expect(result.natural).toBe(12);
+    });
+
+    it("should keep the better or worse d20", () => {
+        expect(rollD20(3, "Advantage", sequence(4, 20))).toMatchObject({
+            natural: 20,
+            total: 23,
+            criticalHit: true,
+        });
+        expect(rollD20(3, "Disadvantage", sequence(1, 20))).toMatchObject({
+            natural: 1,
+            total: 4,
+            criticalMiss: true,
+        });
+    });
+});
+
+describe("rollAttack", () => {
+    const damage = [
+        { count: 1, die: 8 as const, bonus: 3 },
+        { count: 1, die: 6 as const },
+    ];
+
+    it("should roll damage on a hit", () => {
+        const result = rollAttack(5, damage, "Normal", sequence(10, 4, 2));
+
+        expect(result.attack.total).toBe(15);
+        expect(result.damage?.expression).toBe("1d8+3+1d6");
+        expect(result.damage?.total).toBe(9);
+    });
+
+    it("should double damage dice but not bonuses on a natural 20", () => {
+        const result = rollAttack(5, damage, "Normal", sequence(20, 8, 8, 6, 6));
+
+        expect(result.attack.criticalHit).toBe(true);
+        expect(result.damage?.expression).toBe("2d8+3+2d6");
+        expect(result.damage?.total).toBe(31);
+    });
+
+    it("should not roll damage on a natural 1", () => {
+        const result = rollAttack(5, damage, "Normal", sequence(1));
+
+        expect(result.attack.criticalMiss).toBe(true);
+        expect(result.damage).toBeUndefined();
+    });
+
+    it("should not double static damage", () => {
+        expect(doubleDamageDice([{ count: 1, die: 1, bonus: 2 }])).toEqual([
+            { count: 1, die: 1, bonus: 2 },
+        ]);
+    });
+});
+
+describe("Rollable conversion", () => {
+    it("should convert rollables to notation", () => {
+        expect(rollableToExpression({ count: 2, die: 6, bonus: 3 })).toBe("2d6+3");
+        expect(rollableToExpression({ count: 1, die: 20, bonus: -1 })).toBe("1d20-1");
+        expect(rollableToExpression({ count: 1, die: 8 })).toBe("1d8");
+        expect(
+            rollablesToExpression([
+                { count: 1, die: 8, bonus: -1 },
+                { count: 1, die: 6 },
+            ])
+        ).toBe("1d8-1+1d6");
+    });
+
+    it("should convert notation to rollables", () => {
+        expect(expressionToRollables("2d6+1d4+3")).toEqual([
+            { count: 2, die: 6, bonus: 3 },
+            { count: 1, die: 4 },
+        ]);
+        expect(expressionToDamageInfo("1d8-1", "Fire")).toEqual([
+            { count: 1, die: 8, bonus: -1, damageType: "Fire" },
+        ]);
+    });
+
+    it("should round-trip rollables", () => {
+        const rollable = { count: 3, die: 10 as const, bonus: 4 };
+        expect(expressionToRollables(rollableToExpression(rollable))).toEqual([rollable]);
+    });
+
+    it.each(["4d6kh3", "1d20adv", "1d7", "3", "1d20-1d4"])(
+        "should reject %j as a Rollable",
+        (expression) => {
+            expect(() => expressionToRollables(expression)).toThrow(ValidationError);
+        }
+    );
+});
@@ -0,0 +1,487 @@
+/**
+ * Dice Utilities Module
+ *
+ * This module parses and rolls dice expressions. Supported notation:
+ * - Dice and flat modifiers: "2d6+1d4+3", "1d20-1", "d%"
+ * - Keep/drop: "4d6kh3", "2d20kl1", "4d6dl1"
+ * - Advantage/disadvantage: "1d20adv", "1d20dis"
+ * - Rerolls: "1d6r1" (until not 1), "2d6ro<2" (once, on 1 or 2)
+ * - Exploding dice: "3d6!" (on max face), "1d10!>9"
+ *
+ * It also resolves d20 tests and attacks (advantage/disadvantage, natural 20s and 1s,
+ * doubled damage dice on a critical hit) and converts between expressions and the fixed
+ * `Rollable`/`DamageInfo` shape used by the data modules.
+ *
+ * @module dice-utils
+ */
+
+import type {
+    AttackRollResult,
+    D20RollResult,
+    DamageInfo,
+    DamageType,
+    DiceCondition,
+    DiceExpression,
+    DiceExpressionTerm,
+    DiceRollResult,
+    DiceTerm,
+    DiceTermResult,
+    Die,
+    DieResult,
+    ParsedDiceExpression,
+    Rollable,
+    RollMode,
+} from "@/types";
+import { ValidationError } from "./character-utils";
+
+/** Largest number of dice a single term may roll */
+export const MAX_DICE_PER_TERM = 1000;
+
+/** Largest number of sides a die may have */
+export const MAX_SIDES = 1000;
+
+/** Safety cap on rerolls and explosions per term */
+const MAX_EXTRA_ROLLS = 100;
+
+const DICE: Die[] = [1, 4, 6, 8, 10, 12, 20, 100];
+
+/**
+ * Roll a single die
+ * @param sides - Number of sides on the die
+ * @returns A random number between 1 and sides
+ */
+export function rollDie(sides: number): number {
+    return Math.floor(Math.random() * sides) + 1;
+}
+
+/**
+ * Parse a dice expression
+ * @param expression - Dice notation, e.g. "2d6+1d4+3"
+ * @returns The parsed terms with a normalized expression
+ * @throws ValidationError if the expression is malformed
+ * @example parseDiceExpression("4d6kh3") -> one dice term keeping the highest 3 of 4d6
+ */
+export function parseDiceExpression(expression: DiceExpression): ParsedDiceExpression {
+    const source = expression.replace(/\s+/g, "").toLowerCase();
+    if (source.length === 0) {
+        throw new ValidationError("expression", expression, "must not be empty");
+    }
+
+    const terms: DiceExpressionTerm[] = [];
+    const termPattern = /([+-]?)([^+-]+)/y;
+    let match: RegExpExecArray | null;
+    while (termPattern.lastIndex < source.length && (match = termPattern.exec(source))) {
+        terms.push(parseTerm(match[2]!, match[1] === "-" ? -1 : 1, expression));
+    }
+
+    if (termPattern.lastIndex !== source.length) {
+        throw new ValidationError("expression", expression, "is not valid dice notation");
+    }
+
+    return { expression: terms.map(formatTerm).join("").replace(/^\+/, ""), terms };
+}
+
+function parseTerm(text: string, sign: 1 | -1, expression: string): DiceExpressionTerm {
+    if (/^\d+$/.test(text)) {
+        return { kind: "modifier", sign, value: parseInt(text) };
+    }
+
+    const dice = /^(\d*)d(\d+|%)(.*)$/.exec(text);
+    if (!dice) {
+        throw new ValidationError("expression", expression, `"${text}" is not a dice term`);
+    }
+
+    const term: DiceTerm = {
+        kind: "dice",
+        sign,
+        count: dice[1] ? parseInt(dice[1]) : 1,
+        sides: dice[2] === "%" ? 100 : parseInt(dice[2]!),
+    };
+    if (term.count < 1 || term.count > MAX_DICE_PER_TERM) {
+        throw new ValidationError(
+            "expression",
+            expression,
+            `dice count must be between 1 and ${MAX_DICE_PER_TERM}`
+        );
+    }
+    if (term.sides < 1 || term.sides > MAX_SIDES) {
+        throw new ValidationError(
+            "expression",
+            expression,
+            `dice must have between 1 and ${MAX_SIDES} sides`
+        );
+    }
+
+    let rest = dice[3]!;
+    while (rest.length > 0) {
+        const mode = /^(adv|dis)/.exec(rest);
+        const keep = /^(k[hl]?|d[hl])(\d+)/.exec(rest);
+        const reroll = /^(ro|r)(<|>|=)?(\d+)/.exec(rest);
+        const explode = /^!(?:(<|>|=)?(\d+))?/.exec(rest);
+
+        if (mode) {
+            term.rollMode = mode[1] === "adv" ? "Advantage" : "Disadvantage";
+            rest = rest.slice(mode[0].length);
+        } else if (keep) {
+            const amount = parseInt(keep[2]!);
+            if (amount > term.count) {
+                throw new ValidationError(
+                    "expression",
+                    expression,
+                    "cannot keep or drop more dice than rolled"
+                );
+            }
+            const isDrop = keep[1]!.startsWith("d");
+            const fromHighest = keep[1] === "kh" || keep[1] === "k" || keep[1] === "dl";
+            term.keep = {
+                type: fromHighest ? "highest" : "lowest",
+                count: isDrop ? term.count - amount : amount,
+            };
+            rest = rest.slice(keep[0].length);
+        } else if (reroll) {
+            term.reroll = { ...parseCondition(reroll[2], reroll[3]!), once: reroll[1] === "ro" };
+            rest = rest.slice(reroll[0].length);
+        } else if (explode) {
+            term.explode = explode[2]
+                ? parseCondition(explode[1], explode[2])
+                : { comparison: ">=", value: term.sides };
+            rest = rest.slice(explode[0].length);
+        } else {
+            throw new ValidationError("expression", expression, `unknown dice modifier "${rest}"`);
+        }
+    }
+
+    if (term.rollMode && term.keep) {
+        throw new ValidationError(
+            "expression",
+            expression,
+            "cannot combine adv/dis with keep/drop"
+        );
+    }
+    if (term.explode && matchesEveryFace(term.explode, term.sides)) {
+        throw new ValidationError("expression", expression, "exploding dice would never stop");
+    }
+    if (term.reroll && !term.reroll.once && matchesEveryFace(term.reroll, term.sides)) {
+        throw new ValidationError("expression", expression, "rerolls would never stop");
+    }
+
+    return term;
+}
+
+function parseCondition(operator: string | undefined, value: string): DiceCondition {
+    const comparison = operator === "<" ? "<=" : operator === ">" ? ">=" : "=";
+    return { comparison, value: parseInt(value) };
+}
+
+function matchesCondition(condition: DiceCondition, value: number): boolean {
+    switch (condition.comparison) {
+        case "<=":
+            return value <= condition.value;
+        case ">=":
+            return value >= condition.value;
+        default:
+            return value === condition.value;
+    }
+}
+
+function matchesEveryFace(condition: DiceCondition, sides: number): boolean {
+    switch (condition.comparison) {
+        case "<=":
+            return sides <= condition.value;
+        case ">=":
+            return condition.value <= 1;
+        default:
+            return sides === 1 && condition.value === 1;
+    }
+}
+
+function formatCondition(condition: DiceCondition): string {
+    const operator = condition.comparison === "=" ? "" : condition.comparison.charAt(0);
+    return `${operator}${condition.value}`;
+}
+
+/**
+ * Format a single term as dice notation, including its sign
+ * @param term - The term to format
+ * @returns Notation such as "+4d6kh3" or "-2"
+ */
+export function formatTerm(term: DiceExpressionTerm): string {
+    const sign = term.sign === -1 ? "-" : "+";
+    if (term.kind === "modifier") {
+        return `${sign}${term.value}`;
+    }
+
+    let notation = `${sign}${term.count}d${term.sides}`;
+    if (term.rollMode === "Advantage") {
+        notation += "adv";
+    } else if (term.rollMode === "Disadvantage") {
+        notation += "dis";
+    }
+    if (term.keep) {
+        notation += `k${term.keep.type === "highest" ? "h" : "l"}${term.keep.count}`;
+    }
+    if (term.reroll) {
+        notation += `${term.reroll.once ? "ro" : "r"}${formatCondition(term.reroll)}`;
+    }
+    if (term.explode) {
+        const isDefault = term.explode.comparison === ">=" && term.explode.value === term.sides;
+        notation += isDefault ? "!" : `!${formatCondition(term.explode)}`;
+    }
+    return notation;
+}
+
+/**
+ * Roll a dice expression
+ * @param expression - Dice notation or an already parsed expression
+ * @param roll - Die roller, injectable for deterministic results
+ * @returns Every die rolled per term and the overall total
+ * @throws ValidationError if the expression is malformed
+ * @example rollDiceExpression("1d20adv+5") -> two d20s, the lower one dropped, plus 5
+ */
+export function rollDiceExpression(
+    expression: DiceExpression | ParsedDiceExpression,
+    roll: (sides: number) => number = rollDie
+): DiceRollResult {
+    const parsed = typeof expression === "string" ? parseDiceExpression(expression) : expression;
+    const terms = parsed.terms.map((term) => rollTerm(term, roll));
+
+    return {
+        expression: parsed.expression,
+        terms,
+        total: terms.reduce((sum, term) => sum + term.total, 0),
+    };
+}
+
+function rollTerm(term: DiceExpressionTerm, roll: (sides: number) => number): DiceTermResult {
+    const notation = formatTerm(term).replace(/^\+/, "");
+    if (term.kind === "modifier") {
+        return { term, notation, dice: [], total: term.sign * term.value };
+    }
+
+    let extraRolls = 0;
+    const rollOne = (exploded: boolean): DieResult => {
+        const die: DieResult = { value: roll(term.sides), dropped: false, rerolls: [], exploded };
+        while (
+            term.reroll &&
+            matchesCondition(term.reroll, die.value) &&
+            extraRolls < MAX_EXTRA_ROLLS &&
+            !(term.reroll.once && die.rerolls.length > 0)
+        ) {
+            die.rerolls.push(die.value);
+            die.value = roll(term.sides);
+            extraRolls++;
+        }
+        return die;
+    };
+
+    const count = term.rollMode === "Normal" || !term.rollMode ? term.count : term.count * 2;
+    const dice: DieResult[] = [];
+    for (let i = 0; i < count; i++) {
+        let die = rollOne(false);
+        dice.push(die);
+        while (
+            term.explode &&
+            matchesCondition(term.explode, die.value) &&
+            extraRolls < MAX_EXTRA_ROLLS
+        ) {
+            die = rollOne(true);
+            dice.push(die);
+            extraRolls++;
+        }
+    }
+
+    const keep =
+        term.keep ??
+        (term.rollMode === "Advantage"
+            ? { type: "highest" as const, count: term.count }
+            : term.rollMode === "Disadvantage"
+              ? { type: "lowest" as const, count: term.count }
+              : undefined);
+    if (keep) {
+        const ranked = dice
+            .map((die, index) => ({ die, index }))
+            .sort((a, b) =>
+                keep.type === "highest" ? b.die.value - a.die.value : a.die.value - b.die.value
+            );
+        ranked.slice(keep.count).forEach(({ die }) => (die.dropped = true));
+    }
+
+    const sum = dice.filter((die) => !die.dropped).reduce((total, die) => total + die.value, 0);
+    return { term, notation, dice, total: term.sign * sum };
+}
+
+/**
+ * Format a roll result as plain text, marking dropped dice with ~~strikethrough~~
+ * @param result - The roll to format
+ * @returns Text such as "4d6kh3: [~~1~~, 6, 3, 5] = 14"
+ */
+export function formatDiceRollResult(result: DiceRollResult): string {
+    const parts = result.terms.map((term, index) => {
+        const negative = term.term.sign === -1;
+        const sign = index === 0 ? (negative ? "-" : "") : negative ? " - " : " + ";
+        if (term.term.kind === "modifier") {
+            return `${sign}${term.term.value}`;
+        }
+        const dice = term.dice.map((die) => (die.dropped ? `~~${die.value}~~` : `${die.value}`));
+        return `${sign}[${dice.join(", ")}]`;
+    });
+
+    return `${result.expression}: ${parts.join("")} = ${result.total}`;
+}
+
+/**
+ * Combine sources of advantage and disadvantage
+ * @param advantage - Whether any source grants advantage
+ * @param disadvantage - Whether any source imposes disadvantage
+ * @returns The roll mode; advantage and disadvantage cancel out
+ */
+export function resolveRollMode(advantage: boolean, disadvantage: boolean): RollMode {
+    if (advantage === disadvantage) {
+        return "Normal";
+    }
+    return advantage ? "Advantage" : "Disadvantage";
+}
+
+/**
+ * Roll a d20 test (attack roll, ability check or saving throw)
+ * @param modifier - Total modifier added to the d20
+ * @param mode - Advantage rolls two d20s and keeps the higher, disadvantage the lower
+ * @param roll - Die roller, injectable for deterministic results
+ * @returns The roll with the kept natural d20 and critical flags
+ * @example rollD20(5, "Advantage") -> "1d20adv+5"
+ */
+export function rollD20(
+    modifier: number,
+    mode: RollMode = "Normal",
+    roll: (sides: number) => number = rollDie
+): D20RollResult {
+    const die = mode === "Advantage" ? "1d20adv" : mode === "Disadvantage" ? "1d20dis" : "1d20";
+    const result = rollDiceExpression(
+        modifier === 0 ? die : `${die}${modifier > 0 ? "+" : ""}${modifier}`,
+        roll
+    );
+    const natural = result.terms[0]!.dice.find((d) => !d.dropped)!.value;
+
+    return {
+        ...result,
+        mode,
+        natural,
+        criticalHit: natural === 20,
+        criticalMiss: natural === 1,
+    };
+}
+
+/**
+ * Double the dice of damage rollables for a critical hit
+ * @param rollables - Damage to double
+ * @returns The rollables with twice as many dice; flat bonuses and static damage (d1) are unchanged
+ */
+export function doubleDamageDice<T extends Rollable>(rollables: T[]): T[] {
+    return rollables.map((rollable) =>
+        rollable.die === 1 ? rollable : { ...rollable, count: rollable.count * 2 }
+    );
+}
+
+/**
+ * Roll an attack and its damage together
+ *
+ * A natural 20 is a critical hit and doubles the damage dice; a natural 1 always
+ * misses and no damage is rolled.
+ *
+ * @param modifier - Attack roll modifier
+ * @param damage - Damage rollables for a hit
+ * @param mode - Advantage or disadvantage on the attack roll
+ * @param roll - Die roller, injectable for deterministic results
+ * @returns The attack roll and, unless it was a natural 1, the damage roll
+ */
+export function rollAttack(
+    modifier: number,
+    damage: Rollable[],
+    mode: RollMode = "Normal",
+    roll: (sides: number) => number = rollDie
+): AttackRollResult {
+    const attack = rollD20(modifier, mode, roll);
+    if (attack.criticalMiss || damage.length === 0) {
+        return { attack };
+    }
+
+    const damageDice = attack.criticalHit ? doubleDamageDice(damage) : damage;
+    return { attack, damage: rollDiceExpression(rollablesToExpression(damageDice), roll) };
+}
+
+/**
+ * Convert a `Rollable` into dice notation
+ * @param rollable - The fixed dice shape
+ * @returns Notation such as "2d6+3" or "1d20-1"
+ */
+export function rollableToExpression(rollable: Rollable): DiceExpression {
+    const bonus = rollable.bonus || 0;
+    const bonusNotation = bonus > 0 ? `+${bonus}` : bonus < 0 ? `${bonus}` : "";
+    return `${rollable.count}d${rollable.die}${bonusNotation}`;
+}
+
+/**
+ * Convert several `Rollable`s into one dice expression
+ * @param rollables - The fixed dice shapes, summed together
+ * @returns Notation such as "1d8+3+1d6"
+ */
+export function rollablesToExpression(rollables: Rollable[]): DiceExpression {
+    return rollables.map(rollableToExpression).join("+").replace(/\+-/g, "-");
+}
+
+/**
+ * Convert dice notation into `Rollable`s, one per dice term
+ * @param expression - Plain dice notation without keep, reroll or exploding modifiers
+ * @returns The rollables; flat modifiers are added to the first rollable's bonus
+ * @throws ValidationError if the expression cannot be represented as `Rollable`s
+ * @example expressionToRollables("2d6+1d4+3") -> [{ count: 2, die: 6, bonus: 3 }, { count: 1, die: 4 }]
+ */
+export function expressionToRollables(expression: DiceExpression): Rollable[] {
+    const { terms } = parseDiceExpression(expression);
+    const rollables: Rollable[] = [];
+    let bonus = 0;
+
+    for (const term of terms) {
+        if (term.kind === "modifier") {
+            bonus += term.sign * term.value;
+            continue;
+        }
+        if (term.sign === -1 || term.keep || term.rollMode || term.reroll || term.explode) {
+            throw new ValidationError(
+                "expression",
+                expression,
+                "only added dice and flat modifiers can be converted to a Rollable"
+            );
+        }
+        if (!DICE.includes(term.sides as Die)) {
+            throw new ValidationError(
+                "expression",
+                expression,
+                `d${term.sides} is not a standard die`
+            );
+        }
+        rollables.push({ count: term.count, die: term.sides as Die });
+    }
+
+    if (rollables.length === 0) {
+        throw new ValidationError("expression", expression, "must contain at least one die");
+    }
+    if (bonus !== 0) {
+        rollables[0] = { ...rollables[0]!, bonus };
+    }
+    return rollables;
+}
+
+/**
+ * Convert dice notation into `DamageInfo` entries of a single damage type
+ * @param expression - Plain dice notation, e.g. "2d6+1"
+ * @param damageType - Damage type for every entry
+ * @returns One `DamageInfo` per dice term
+ * @throws ValidationError if the expression cannot be represented as `Rollable`s
+ */
+export function expressionToDamageInfo(
+    expression: DiceExpression,
+    damageType: DamageType
+): DamageInfo[] {
+    return expressionToRollables(expression).map((rollable) => ({ ...rollable, damageType }));
+}
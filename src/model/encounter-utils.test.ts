@@ -0,0 +1,229 @@
+import { CREATURES_BY_ID } from "@/data";
+import type { Combatant, Encounter } from "@/types";
+import { describe, expect, it } from "vitest";
+import { ValidationError } from "./character-utils";
+import {
+    addCombatant,
+    applyHitPointChange,
+    calculateConcentrationDC,
+    createBestiaryCombatant,
+    createCreatureCombatant,
+    createEncounter,
+    endEncounter,
+    nextTurn,
+    previousTurn,
+    removeCombatant,
+    rollInitiative,
+    setInitiative,
+    sortByInitiative,
+} from "./encounter-utils";
+
+function createCombatant(
+    id: string,
+    type: Combatant["type"],
+    initiativeModifier: number,
+    characterId?: string
+): Combatant {
+    return {
+        id,
+        type,
+        name: id,
+        characterId,
+        initiativeModifier,
+        armorClass: 12,
+        conditions: [],
+    };
+}
+
+// Returns the given d20 results in order
+function fixedRolls(...values: number[]) {
+    let index = 0;
+    return () => values[index++]!;
+}
+
+function createStartedEncounter(): Encounter {
+    let encounter = createEncounter();
+    encounter = addCombatant(encounter, createCombatant("a", "Creature", 0));
+    encounter = addCombatant(encounter, createCombatant("b", "Creature", 0));
+    encounter = addCombatant(encounter, createCombatant("c", "Creature", 0));
+    return rollInitiative(encounter, fixedRolls(20, 10, 5));
+}
+
+describe("Encounter Utilities", () => {
+    describe("createCreatureCombatant", () => {
+        it("should start at full hit points", () => {
+            const creature = createCreatureCombatant({
+                name: "Scrap Hound",
+                armorClass: 13,
+                hitPoints: 11,
+                initiativeModifier: 2,
+            });
+
+            expect(creature.type).toBe("Creature");
+            expect(creature.hitPoints).toEqual({ current: 11, maximum: 11 });
+        });
+
+        it("should reject non-positive hit points", () => {
+            expect(() =>
+                createCreatureCombatant({
+                    name: "Ghost",
+                    armorClass: 10,
+                    hitPoints: 0,
+                    initiativeModifier: 0,
+                })
+            ).toThrow(ValidationError);
+        });
+    });
+
+    describe("createBestiaryCombatant", () => {
+        it("should use the stat block's AC, average HP and DEX modifier", () => {
+            const rustCrawler = CREATURES_BY_ID["rust-crawler"]!;
+
+            const combatant = createBestiaryCombatant(rustCrawler);
+
+            expect(combatant.creatureId).toBe("rust-crawler");
+            expect(combatant.armorClass).toBe(13);
+            expect(combatant.hitPoints).toEqual({ current: 11, maximum: 11 });
+            expect(combatant.initiativeModifier).toBe(2);
+        });
+
+        it("should accept rolled hit points", () => {
+            const combatant = createBestiaryCombatant(CREATURES_BY_ID["gear-rat"]!, 9);
+
+            expect(combatant.hitPoints?.maximum).toBe(9);
+        });
+    });
+
+    describe("rollInitiative", () => {
+        it("should add the modifier, sort and start round 1", () => {
+            let encounter = createEncounter();
+            encounter = addCombatant(encounter, createCombatant("slow", "Creature", 1));
+            encounter = addCombatant(encounter, createCombatant("fast", "Creature", 3));
+
+            const started = rollInitiative(encounter, fixedRolls(5, 12));
+
+            expect(started.combatants.map((c) => [c.id, c.initiative])).toEqual([
+                ["fast", 15],
+                ["slow", 6],
+            ]);
+            expect(started.round).toBe(1);
+            expect(started.turnIndex).toBe(0);
+        });
+
+        it("should throw without combatants", () => {
+            expect(() => rollInitiative(createEncounter())).toThrow(ValidationError);
+        });
+    });
+
+    describe("sortByInitiative", () => {
+        it("should place drones right after their Artifex", () => {
+            const combatants = [
+                { ...createCombatant("drone", "Drone", 2, "artifex"), initiative: 25 },
+                { ...createCombatant("artifex", "Character", 2, "artifex"), initiative: 8 },
+                { ...createCombatant("creature", "Creature", 0), initiative: 12 },
+            ];
+
+            expect(sortByInitiative(combatants).map((c) => c.id)).toEqual([
+                "creature",
+                "artifex",
+                "drone",
+            ]);
+        });
+
+        it("should break ties by modifier and put unrolled combatants last", () => {
+            const combatants = [
+                createCombatant("unrolled", "Creature", 5),
+                { ...createCombatant("low", "Creature", 1), initiative: 10 },
+                { ...createCombatant("high", "Creature", 4), initiative: 10 },
+            ];
+
+            expect(sortByInitiative(combatants).map((c) => c.id)).toEqual([
+                "high",
+                "low",
+                "unrolled",
+            ]);
+        });
+    });
+
+    describe("nextTurn and previousTurn", () => {
+        it("should start a new round after the last combatant", () => {
+            let encounter = createStartedEncounter();
+            encounter = nextTurn(nextTurn(encounter));
+            expect(encounter.turnIndex).toBe(2);
+
+            encounter = nextTurn(encounter);
+            expect(encounter.round).toBe(2);
+            expect(encounter.turnIndex).toBe(0);
+
+            encounter = previousTurn(encounter);
+            expect(encounter.round).toBe(1);
+            expect(encounter.turnIndex).toBe(2);
+        });
+
+        it("should not go back before the first turn", () => {
+            const encounter = createStartedEncounter();
+
+            expect(previousTurn(encounter)).toEqual(encounter);
+        });
+
+        it("should throw before initiative is rolled", () => {
+            const encounter = addCombatant(createEncounter(), createCombatant("a", "Creature", 0));
+
+            expect(() => nextTurn(encounter)).toThrow(ValidationError);
+        });
+    });
+
+    describe("setInitiative and removeCombatant", () => {
+        it("should keep the turn on the same combatant when re-sorting", () => {
+            let encounter = nextTurn(createStartedEncounter()); // b's turn
+            encounter = setInitiative(encounter, "c", 30);
+
+            expect(encounter.combatants.map((c) => c.id)).toEqual(["c", "a", "b"]);
+            expect(encounter.combatants[encounter.turnIndex]!.id).toBe("b");
+        });
+
+        it("should keep the turn on the same combatant when an earlier one leaves", () => {
+            let encounter = nextTurn(createStartedEncounter()); // b's turn
+            encounter = removeCombatant(encounter, "a");
+
+            expect(encounter.combatants[encounter.turnIndex]!.id).toBe("b");
+        });
+
+        it("should throw for an unknown combatant", () => {
+            expect(() => removeCombatant(createStartedEncounter(), "missing")).toThrow(
+                ValidationError
+            );
+        });
+    });
+
+    describe("endEncounter", () => {
+        it("should clear initiative and return to round 0", () => {
+            const encounter = endEncounter(createStartedEncounter());
+
+            expect(encounter.round).toBe(0);
+            expect(encounter.combatants.every((c) => c.initiative === undefined)).toBe(true);
+        });
+    });
+
+    describe("applyHitPointChange", () => {
+        it("should spend temporary hit points before current", () => {
+            expect(applyHitPointChange({ current: 10, maximum: 10, temporary: 3 }, -5)).toEqual({
+                current: 8,
+                maximum: 10,
+                temporary: 0,
+            });
+        });
+
+        it("should cap healing at the maximum and damage at 0", () => {
+            expect(applyHitPointChange({ current: 8, maximum: 10 }, 5).current).toBe(10);
+            expect(applyHitPointChange({ current: 8, maximum: 10 }, -20).current).toBe(0);
+        });
+    });
+
+    describe("calculateConcentrationDC", () => {
+        it("should be 10 or half the damage, whichever is higher", () => {
+            expect(calculateConcentrationDC(7)).toBe(10);
+            expect(calculateConcentrationDC(31)).toBe(15);
+        });
+    });
+});
@@ -0,0 +1,367 @@
+/**
+ * Encounter Utilities Module
+ *
+ * This module provides the turn-order bookkeeping behind the encounter tracker:
+ * - Creating combatants from characters, drones and creatures
+ * - Rolling and sorting initiative (drones act right after their Artifex)
+ * - Stepping through rounds and turns
+ * - Creature hit point tracking and Concentration save DCs
+ *
+ * All functions return new Encounter objects and never modify their input.
+ *
+ * @module encounter-utils
+ */
+
+import { DRONE_TEMPLATES_BY_ID } from "@/data";
+import type { Combatant, Creature, Drone, Encounter, HitPoints } from "@/types";
+import { ValidationError, calculateInitiative } from "./character-utils";
+import type { CharacterViewModel } from "./character-view-model";
+import { rollDie } from "./dice-utils";
+
+/**
+ * Create an empty encounter
+ * @param name - Display name of the encounter
+ * @returns An encounter with no combatants that has not started
+ */
+export function createEncounter(name: string = "Encounter"): Encounter {
+    return {
+        id: crypto.randomUUID(),
+        name,
+        combatants: [],
+        round: 0,
+        turnIndex: 0,
+    };
+}
+
+/**
+ * Create a combatant for a saved character
+ * @param character - The character's view model
+ * @returns A combatant linked to the character
+ */
+export function createCharacterCombatant(character: CharacterViewModel): Combatant {
+    return {
+        id: crypto.randomUUID(),
+        type: "Character",
+        name: character.summary.name,
+        characterId: character.summary.id,
+        initiativeModifier: parseInt(character.summary.initiative),
+        armorClass: character.summary.armorClass,
+        conditions: [],
+    };
+}
+
+/**
+ * Create a combatant for a character's drone
+ * @param character - The Artifex who built the drone
+ * @param drone - The drone
+ * @returns A combatant linked to the drone, sharing its Artifex's initiative
+ */
+export function createDroneCombatant(character: CharacterViewModel, drone: Drone): Combatant {
+    return {
+        id: crypto.randomUUID(),
+        type: "Drone",
+        name: drone.name,
+        characterId: character.summary.id,
+        droneId: drone.id,
+        initiativeModifier: parseInt(character.summary.initiative),
+        armorClass: DRONE_TEMPLATES_BY_ID[drone.templateId]?.stats.armorClass ?? 10,
+        conditions: [],
+    };
+}
+
+/**
+ * Create a combatant for a creature tracked only within the encounter
+ * @param creature - Name, Armor Class, hit point maximum and initiative modifier
+ * @returns A creature combatant at full hit points
+ * @throws ValidationError if hit points are not positive
+ */
+export function createCreatureCombatant(creature: {
+    name: string;
+    armorClass: number;
+    hitPoints: number;
+    initiativeModifier: number;
+}): Combatant {
+    if (creature.hitPoints <= 0) {
+        throw new ValidationError("hitPoints", creature.hitPoints, "must be positive");
+    }
+
+    return {
+        id: crypto.randomUUID(),
+        type: "Creature",
+        name: creature.name,
+        initiativeModifier: creature.initiativeModifier,
+        armorClass: creature.armorClass,
+        hitPoints: {
+            current: creature.hitPoints,
+            maximum: creature.hitPoints,
+        },
+        conditions: [],
+    };
+}
+
+/**
+ * Create a combatant for a bestiary creature
+ * @param creature - The creature's stat block
+ * @param hitPoints - Hit point maximum, e.g. rolled from its hit dice (defaults to the average)
+ * @returns A creature combatant at full hit points, linked to its stat block
+ * @throws ValidationError if hit points are not positive
+ */
+export function createBestiaryCombatant(
+    creature: Creature,
+    hitPoints: number = creature.hitPoints.average
+): Combatant {
+    return {
+        ...createCreatureCombatant({
+            name: creature.name,
+            armorClass: creature.armorClass,
+            hitPoints,
+            initiativeModifier: calculateInitiative(creature.abilityScores.dexterity),
+        }),
+        creatureId: creature.id,
+    };
+}
+
+/**
+ * Add a combatant; once combat has started it joins with no initiative at the end of the order
+ * @param encounter - The encounter
+ * @param combatant - The combatant to add
+ * @returns Updated encounter
+ */
+export function addCombatant(encounter: Encounter, combatant: Combatant): Encounter {
+    return sortEncounter({
+        ...encounter,
+        combatants: [...encounter.combatants, combatant],
+    });
+}
+
+/**
+ * Remove a combatant, keeping the turn on the same combatant where possible
+ * @param encounter - The encounter
+ * @param combatantId - ID of the combatant to remove
+ * @returns Updated encounter
+ * @throws ValidationError if the combatant is not in the encounter
+ */
+export function removeCombatant(encounter: Encounter, combatantId: string): Encounter {
+    const index = findCombatantIndex(encounter, combatantId);
+    const combatants = encounter.combatants.filter((c) => c.id !== combatantId);
+    const turnIndex = index < encounter.turnIndex ? encounter.turnIndex - 1 : encounter.turnIndex;
+
+    return {
+        ...encounter,
+        combatants,
+        turnIndex: combatants.length === 0 ? 0 : turnIndex % combatants.length,
+    };
+}
+
+/**
+ * Update a combatant's tracked state (conditions, concentration, creature hit points...)
+ * @param encounter - The encounter
+ * @param combatantId - ID of the combatant to update
+ * @param changes - Fields to change
+ * @returns Updated encounter
+ * @throws ValidationError if the combatant is not in the encounter
+ */
+export function updateCombatant(
+    encounter: Encounter,
+    combatantId: string,
+    changes: Partial<Omit<Combatant, "id" | "type">>
+): Encounter {
+    findCombatantIndex(encounter, combatantId);
+
+    return {
+        ...encounter,
+        combatants: encounter.combatants.map((c) =>
+            c.id === combatantId ? { ...c, ...changes } : c
+        ),
+    };
+}
+
+/**
+ * Roll initiative (d20 + modifier) for every combatant and start round 1
+ * @param encounter - The encounter
+ * @param roll - Die roller, injectable for deterministic results
+ * @returns The encounter in initiative order on the first combatant's turn
+ * @throws ValidationError if the encounter has no combatants
+ */
+export function rollInitiative(
+    encounter: Encounter,
+    roll: (sides: number) => number = rollDie
+): Encounter {
+    if (encounter.combatants.length === 0) {
+        throw new ValidationError("combatants", 0, "add combatants before rolling initiative");
+    }
+
+    const combatants = encounter.combatants.map((c) => ({
+        ...c,
+        initiative: roll(20) + c.initiativeModifier,
+    }));
+
+    return {
+        ...encounter,
+        combatants: sortByInitiative(combatants),
+        round: 1,
+        turnIndex: 0,
+    };
+}
+
+/**
+ * Set a combatant's initiative by hand (e.g. a player rolled physical dice)
+ * @param encounter - The encounter
+ * @param combatantId - ID of the combatant
+ * @param initiative - Initiative total
+ * @returns The re-sorted encounter, still on the same combatant's turn
+ * @throws ValidationError if the combatant is not in the encounter
+ */
+export function setInitiative(
+    encounter: Encounter,
+    combatantId: string,
+    initiative: number
+): Encounter {
+    return sortEncounter(updateCombatant(encounter, combatantId, { initiative }));
+}
+
+/**
+ * Sort combatants by initiative, breaking ties by initiative modifier.
+ * Drones follow their Artifex; combatants without initiative go last.
+ * @param combatants - Combatants to sort
+ * @returns A new array in turn order
+ */
+export function sortByInitiative(combatants: Combatant[]): Combatant[] {
+    const owners = new Set(
+        combatants.filter((c) => c.type === "Character").map((c) => c.characterId)
+    );
+    const leaders = combatants
+        .filter((c) => c.type !== "Drone" || !owners.has(c.characterId))
+        .sort(
+            (a, b) =>
+                (b.initiative ?? -Infinity) - (a.initiative ?? -Infinity) ||
+                b.initiativeModifier - a.initiativeModifier
+        );
+
+    return leaders.flatMap((leader) => [
+        leader,
+        ...(leader.type === "Character"
+            ? combatants.filter((c) => c.type === "Drone" && c.characterId === leader.characterId)
+            : []),
+    ]);
+}
+
+/**
+ * Advance to the next combatant's turn, starting a new round after the last
+ * @param encounter - The encounter
+ * @returns Updated encounter
+ * @throws ValidationError if initiative has not been rolled
+ */
+export function nextTurn(encounter: Encounter): Encounter {
+    assertStarted(encounter);
+
+    const isLastTurn = encounter.turnIndex >= encounter.combatants.length - 1;
+    return {
+        ...encounter,
+        round: isLastTurn ? encounter.round + 1 : encounter.round,
+        turnIndex: isLastTurn ? 0 : encounter.turnIndex + 1,
+    };
+}
+
+/**
+ * Go back to the previous combatant's turn
+ * @param encounter - The encounter
+ * @returns Updated encounter (unchanged on the first turn of round 1)
+ * @throws ValidationError if initiative has not been rolled
+ */
+export function previousTurn(encounter: Encounter): Encounter {
+    assertStarted(encounter);
+
+    if (encounter.turnIndex > 0) {
+        return { ...encounter, turnIndex: encounter.turnIndex - 1 };
+    }
+    if (encounter.round === 1) {
+        return encounter;
+    }
+    return {
+        ...encounter,
+        round: encounter.round - 1,
+        turnIndex: encounter.combatants.length - 1,
+    };
+}
+
+/**
+ * End combat, clearing initiative but keeping the combatants
+ * @param encounter - The encounter
+ * @returns The encounter back at round 0
+ */
+export function endEncounter(encounter: Encounter): Encounter {
+    return {
+        ...encounter,
+        combatants: encounter.combatants.map((c) => ({ ...c, initiative: undefined })),
+        round: 0,
+        turnIndex: 0,
+    };
+}
+
+/**
+ * Apply damage (negative) or healing (positive) to tracked hit points.
+ * Damage spends temporary hit points first; healing cannot exceed the maximum.
+ * @param hitPoints - Current hit points
+ * @param delta - Healing if positive, damage if negative
+ * @returns Updated hit points
+ */
+export function applyHitPointChange(hitPoints: HitPoints, delta: number): HitPoints {
+    if (delta >= 0) {
+        return {
+            ...hitPoints,
+            current: Math.min(hitPoints.maximum, hitPoints.current + delta),
+        };
+    }
+
+    const temporary = hitPoints.temporary ?? 0;
+    const absorbed = Math.min(temporary, -delta);
+    return {
+        ...hitPoints,
+        temporary: temporary - absorbed,
+        current: Math.max(0, hitPoints.current - (-delta - absorbed)),
+    };
+}
+
+/**
+ * Calculate the Constitution save DC to keep Concentration after taking damage
+ * @param damage - Damage taken
+ * @returns DC 10 or half the damage, whichever is higher
+ */
+export function calculateConcentrationDC(damage: number): number {
+    return Math.max(10, Math.floor(damage / 2));
+}
+
+function findCombatantIndex(encounter: Encounter, combatantId: string): number {
+    const index = encounter.combatants.findIndex((c) => c.id === combatantId);
+    if (index === -1) {
+        throw new ValidationError("combatantId", combatantId, "combatant not found");
+    }
+    return index;
+}
+
+function assertStarted(encounter: Encounter): void {
+    if (encounter.round === 0 || encounter.combatants.length === 0) {
+        throw new ValidationError("round", encounter.round, "roll initiative first");
+    }
+}
+
+/**
+ * Re-sort combatants after a change, keeping the turn on the same combatant
+ */
+function sortEncounter(encounter: Encounter): Encounter {
+    if (encounter.round === 0) {
+        return encounter;
+    }
+
+    const currentId = encounter.combatants[encounter.turnIndex]?.id;
+    const combatants = sortByInitiative(encounter.combatants);
+    return {
+        ...encounter,
+        combatants,
+        turnIndex: Math.max(
+            0,
+            combatants.findIndex((c) => c.id === currentId)
+        ),
+    };
+}
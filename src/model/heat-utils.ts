@@ -0,0 +1,101 @@
+/**
+ * Heat Utilities Module
+ *
+ * This module provides the calculations behind the Heat system (Chapters 7 and 14):
+ * - Heat zone classification (safe, danger, overheat)
+ * - Overheat Check DCs
+ * - Overheat Table lookups
+ * - Cumulative Heat Stress penalties
+ *
+ * @module heat-utils
+ */
+
+import { HEAT_STRESS_TRACK, OVERHEAT_TABLE_BY_ROLL } from "@/data";
+import type { HeatStressPenalties, HeatZone, OverheatTableEntry } from "@/types";
+import { ValidationError } from "./character-utils";
+
+/**
+ * Classify current heat into a zone
+ * @param current - Current heat points
+ * @param maximum - Overheat threshold (normally 10)
+ * @returns "Safe" up to half the threshold, "Danger" below it, "Overheat" at or above it
+ * @example getHeatZone(5, 10) -> "Safe", getHeatZone(6, 10) -> "Danger"
+ */
+export function getHeatZone(current: number, maximum: number): HeatZone {
+    if (current >= maximum) {
+        return "Overheat";
+    }
+    if (current > Math.floor(maximum / 2)) {
+        return "Danger";
+    }
+    return "Safe";
+}
+
+/**
+ * Check whether a heat level requires an Overheat Check
+ * @param current - Current heat points
+ * @param maximum - Overheat threshold (normally 10)
+ * @returns True when heat is above the threshold
+ */
+export function requiresOverheatCheck(current: number, maximum: number): boolean {
+    return current > maximum;
+}
+
+/**
+ * Calculate the Overheat Check DC
+ * @param current - Current heat points
+ * @param maximum - Overheat threshold (normally 10)
+ * @returns DC 10 + heat points above the threshold
+ */
+export function calculateOverheatDC(current: number, maximum: number): number {
+    return 10 + Math.max(0, current - maximum);
+}
+
+/**
+ * Look up a row of the d6 Overheat Table
+ * @param roll - The d6 roll (1-6)
+ * @returns The matching Overheat Table entry
+ * @throws ValidationError if the roll is not on the table
+ */
+export function getOverheatTableEntry(roll: number): OverheatTableEntry {
+    const entry = OVERHEAT_TABLE_BY_ROLL[roll];
+    if (!entry) {
+        throw new ValidationError("overheatRoll", roll, "must be between 1 and 6");
+    }
+    return entry;
+}
+
+/**
+ * Calculate the combined penalties of a Heat Stress level
+ * @param level - Heat Stress level (0-4); each level includes the effects below it
+ * @returns The cumulative penalties
+ * @example calculateHeatStressPenalties(2) -> Stealth/Perception disadvantage, −1 Dex, −5 ft
+ */
+export function calculateHeatStressPenalties(level: number): HeatStressPenalties {
+    return HEAT_STRESS_TRACK.filter((stress) => stress.level <= level).reduce<HeatStressPenalties>(
+        (penalties, stress) => ({
+            level: penalties.level,
+            effects: [...penalties.effects, stress.effect],
+            skillDisadvantage: [
+                ...penalties.skillDisadvantage,
+                ...(stress.skillDisadvantage || []),
+            ],
+            dexterityPenalty: penalties.dexterityPenalty + (stress.dexterityPenalty || 0),
+            speedPenalty: penalties.speedPenalty + (stress.speedPenalty || 0),
+            exhaustionLevels: penalties.exhaustionLevels + (stress.exhaustionLevels || 0),
+            malfunctionEachCombat:
+                penalties.malfunctionEachCombat || !!stress.malfunctionEachCombat,
+            armorShutdown: penalties.armorShutdown || !!stress.armorShutdown,
+        }),
+        {
+            level,
+            effects: [],
+            skillDisadvantage: [],
+            dexterityPenalty: 0,
+            speedPenalty: 0,
+            exhaustionLevels: 0,
+            malfunctionEachCombat: false,
+            armorShutdown: false,
+        }
+    );
+}
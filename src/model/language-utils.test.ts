@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { getBonusLanguageCount, getLanguageOptions, getStartingLanguages } from "./language-utils";
+
+describe("Language Utilities", () => {
+    describe("getStartingLanguages", () => {
+        it("should combine species and background languages without repeats", () => {
+            expect(getStartingLanguages("Avenar", "sky-dock-courier")).toEqual([
+                "Common Geartrade",
+                "Skycant",
+            ]);
+            expect(getStartingLanguages("Tharn", "relic-hunter")).toEqual([
+                "Common Geartrade",
+                "Sylvan",
+                "Old Tongue",
+            ]);
+            expect(getStartingLanguages("Tharn", "Guild Operative")).toEqual([
+                "Common Geartrade",
+                "Sylvan",
+            ]);
+        });
+    });
+
+    describe("getBonusLanguageCount", () => {
+        it("should add species, background and a positive Intelligence modifier", () => {
+            expect(getBonusLanguageCount("Avenar", "relic-hunter", 14)).toBe(4);
+            expect(getBonusLanguageCount("Tharn", "guild-apprentice", 8)).toBe(0);
+            expect(getBonusLanguageCount(undefined, undefined, 12)).toBe(1);
+        });
+    });
+
+    describe("getLanguageOptions", () => {
+        it("should leave out known languages and, unless asked, secret ones", () => {
+            const options = getLanguageOptions(["Common Geartrade"]).map((l) => l.name);
+
+            expect(options).not.toContain("Common Geartrade");
+            expect(options).toContain("Gearcant");
+            expect(options).not.toContain("Vox Mechanica");
+            expect(getLanguageOptions([], true).map((l) => l.name)).toContain("Vox Mechanica");
+        });
+    });
+});
@@ -0,0 +1,61 @@
+/**
+ * Language Utilities Module
+ *
+ * This module works out which languages a character knows and can choose:
+ * - Languages granted by species and background
+ * - Bonus language choices from species, background and Intelligence
+ * - Languages that can be chosen or learned
+ *
+ * @module language-utils
+ */
+
+import { BACKGROUNDS_BY_ID, LANGUAGES, SPECIES } from "@/data";
+import type { Language, LanguageDefinition, SpeciesType } from "@/types";
+import { calculateAbilityModifier } from "./character-utils";
+
+/**
+ * Get the languages a species and background grant
+ * @param species - Species type
+ * @param background - Background ID (custom backgrounds grant none)
+ * @returns The species' languages followed by any new ones from the background
+ */
+export function getStartingLanguages(species?: SpeciesType, background?: string): Language[] {
+    const speciesLanguages = SPECIES.find((s) => s.type === species)?.languages || [];
+    const backgroundLanguages = (background && BACKGROUNDS_BY_ID[background]?.languages) || [];
+
+    return [...new Set([...speciesLanguages, ...backgroundLanguages])];
+}
+
+/**
+ * Count the bonus languages a new character may choose
+ * @param species - Species type
+ * @param background - Background ID
+ * @param intelligence - Intelligence score, after species increases
+ * @returns Species and background choices, plus the Intelligence modifier if positive
+ */
+export function getBonusLanguageCount(
+    species: SpeciesType | undefined,
+    background: string | undefined,
+    intelligence: number
+): number {
+    const speciesBonus = SPECIES.find((s) => s.type === species)?.bonusLanguages || 0;
+    const backgroundBonus = (background && BACKGROUNDS_BY_ID[background]?.bonusLanguages) || 0;
+
+    return speciesBonus + backgroundBonus + Math.max(0, calculateAbilityModifier(intelligence));
+}
+
+/**
+ * Get the languages a character could choose or learn
+ * @param known - Languages the character already knows
+ * @param includeSecret - Whether secret and lost languages can be learned (GM discretion)
+ * @returns Language definitions not already known
+ */
+export function getLanguageOptions(
+    known: Language[],
+    includeSecret: boolean = false
+): LanguageDefinition[] {
+    return LANGUAGES.filter(
+        (language) =>
+            !known.includes(language.name) && (includeSecret || language.category !== "Secret")
+    );
+}
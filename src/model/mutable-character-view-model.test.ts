@@ -1,7 +1,7 @@
 import type { Character } from "@/types";
 import { describe, expect, it } from "vitest";
 import { ValidationError } from "./character-utils";
-import { MutableCharacterViewModel } from "./mutable-character-view-model";
+import { MAX_ROLL_HISTORY, MutableCharacterViewModel } from "./mutable-character-view-model";
 
 // Helper to create a minimal test character
 function createTestCharacter(): Character {
@@ -114,6 +114,48 @@ describe("MutableCharacterViewModel", () => {
         });
     });
 
+    describe("takeDamage", () => {
+        it("should spend temporary hit points first", () => {
+            const character = createTestCharacter();
+            character.hitPoints.temporary = 3;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.takeDamage(5);
+
+            expect(updated.hitPoints.temporary).toBe(0);
+            expect(updated.hitPoints.current).toBe(6);
+        });
+
+        it("should not drop below 0 hit points", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(vm.takeDamage(20).hitPoints.current).toBe(0);
+        });
+
+        it("should throw error for negative damage", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(() => vm.takeDamage(-1)).toThrow(ValidationError);
+        });
+    });
+
+    describe("heal", () => {
+        it("should restore hit points up to the maximum", () => {
+            const character = createTestCharacter();
+            character.hitPoints.current = 2;
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(vm.heal(3).hitPoints.current).toBe(5);
+            expect(vm.heal(10).hitPoints.current).toBe(8);
+        });
+
+        it("should throw error for negative healing", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(() => vm.heal(-1)).toThrow(ValidationError);
+        });
+    });
+
     describe("updateHeatPoints", () => {
         it("should update heat points", () => {
             const character = createTestCharacter();
@@ -132,6 +174,446 @@ describe("MutableCharacterViewModel", () => {
         });
     });
 
+    describe("gainHeat", () => {
+        it("should add heat and record the source", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.gainHeat(2, "Overclock");
+
+            expect(updated.heatPoints.current).toBe(2);
+            expect(updated.heatSources).toHaveLength(1);
+            expect(updated.heatSources?.[0]?.source).toBe("Overclock");
+            expect(updated.heatSources?.[0]?.overheatCheck).toBeUndefined();
+        });
+
+        it("should throw error for non-positive heat", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.gainHeat(0, "Nothing")).toThrow(ValidationError);
+        });
+
+        it("should reduce heat by 2 on a successful Overheat Check", () => {
+            const character = createTestCharacter();
+            character.heatPoints.current = 9;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.gainHeat(2, "Overclock", { saveRoll: 15 });
+            const check = updated.heatSources?.[0]?.overheatCheck;
+
+            expect(check?.dc).toBe(11);
+            expect(check?.total).toBe(16);
+            expect(check?.success).toBe(true);
+            expect(updated.heatPoints.current).toBe(9);
+        });
+
+        it("should not make an Overheat Check when heat only reaches the maximum", () => {
+            const character = createTestCharacter();
+            character.heatPoints.current = 9;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.gainHeat(1, "Overclock", { saveRoll: 1 });
+
+            expect(updated.heatPoints.current).toBe(10);
+            expect(updated.heatSources?.[0]?.overheatCheck).toBeUndefined();
+        });
+
+        it("should apply a Steam Leak on a failed Overheat Check", () => {
+            const character = createTestCharacter();
+            character.heatPoints.current = 10;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.gainHeat(1, "Fire damage", {
+                saveRoll: 2,
+                tableRoll: 1,
+                damageRoll: 3,
+            });
+            const check = updated.heatSources?.[0]?.overheatCheck;
+
+            expect(check?.success).toBe(false);
+            expect(check?.result?.type).toBe("SteamLeak");
+            expect(updated.heatPoints.current).toBe(11);
+            expect(updated.hitPoints.current).toBe(5);
+            expect(updated.overheatEffects).toHaveLength(1);
+
+            const updatedVm = new MutableCharacterViewModel(updated);
+            expect(updatedVm.summary.armorClass).toBe(11);
+            expect(updatedVm.heat.zone).toBe("Overheat");
+        });
+
+        it("should jam an equipped weapon on Overpressure", () => {
+            const character = createTestCharacter();
+            character.heatPoints.current = 10;
+            const vm = new MutableCharacterViewModel(character);
+            const withWeapon = vm.addItem("brass-dagger-001", true);
+
+            const updated = new MutableCharacterViewModel(withWeapon).gainHeat(1, "Overclock", {
+                saveRoll: 1,
+                tableRoll: 3,
+            });
+
+            expect(updated.overheatEffects?.[0]?.inventoryItemId).toBe(withWeapon.inventory[0]?.id);
+            const updatedVm = new MutableCharacterViewModel(updated);
+            expect(updatedVm.actions.find((a) => a.name !== "Unarmed Strike")?.jammed).toBe(true);
+        });
+    });
+
+    describe("rollOverheatTable", () => {
+        it("should apply the Overheat Table result without a check or heat gain", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.rollOverheatTable({ tableRoll: 4, damageRoll: 3 });
+
+            expect(updated.heatPoints.current).toBe(character.heatPoints.current);
+            expect(updated.hitPoints.current).toBe(character.hitPoints.current - 3);
+            expect(updated.overheatEffects).toHaveLength(1);
+            expect(updated.overheatEffects![0]!.type).toBe("PsionicDistortion");
+        });
+    });
+
+    describe("clearOverheatEffect", () => {
+        it("should remove the effect", () => {
+            const character = createTestCharacter();
+            character.heatPoints.current = 10;
+            const vm = new MutableCharacterViewModel(character);
+            const overheated = vm.gainHeat(1, "Overclock", { saveRoll: 1, tableRoll: 2 });
+            const effectId = overheated.overheatEffects![0]!.id;
+
+            const updated = new MutableCharacterViewModel(overheated).clearOverheatEffect(effectId);
+
+            expect(updated.overheatEffects).toHaveLength(0);
+        });
+
+        it("should throw error if effect not found", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.clearOverheatEffect("nonexistent")).toThrow(ValidationError);
+        });
+    });
+
+    describe("updateHeatStressLevel", () => {
+        it("should flag Stealth and Perception at level 1", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            const updatedVm = new MutableCharacterViewModel(vm.updateHeatStressLevel(1));
+
+            expect(updatedVm.skills.Stealth?.disadvantage).toBe(true);
+            expect(updatedVm.skills.Perception?.disadvantage).toBe(true);
+            expect(updatedVm.skills.Arcana?.disadvantage).toBe(false);
+        });
+
+        it("should lower Dexterity and speed at level 2", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            const updatedVm = new MutableCharacterViewModel(vm.updateHeatStressLevel(2));
+
+            expect(updatedVm.abilityScores.dexterity.score).toBe(13);
+            expect(updatedVm.skills.Acrobatics?.modifier).toBe("+1");
+            expect(updatedVm.summary.initiative).toBe("+1");
+            expect(updatedVm.summary.armorClass).toBe(11);
+            expect(updatedVm.summary.speed).toBe(25);
+        });
+
+        it("should include exhaustion and armor shutdown at higher levels", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            const updatedVm = new MutableCharacterViewModel(vm.updateHeatStressLevel(4));
+
+            expect(updatedVm.heatStress.exhaustionLevels).toBe(1);
+            expect(updatedVm.heatStress.malfunctionEachCombat).toBe(true);
+            expect(updatedVm.heatStress.armorShutdown).toBe(true);
+            expect(updatedVm.heatStress.effects).toHaveLength(4);
+        });
+
+        it("should throw error for level above 4", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.updateHeatStressLevel(5)).toThrow(ValidationError);
+        });
+    });
+
+    describe("useSteamVentHarness", () => {
+        it("should clear Heat Stress and vent 2 Heat", () => {
+            const character = createTestCharacter();
+            character.heatStressLevel = 3;
+            character.heatPoints.current = 5;
+            const vm = new MutableCharacterViewModel(character);
+            const withHarness = vm.addItem("steam-vent-harness-001");
+
+            const updated = new MutableCharacterViewModel(withHarness).useSteamVentHarness();
+
+            expect(updated.heatStressLevel).toBe(0);
+            expect(updated.heatPoints.current).toBe(3);
+        });
+
+        it("should throw error without a harness", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.useSteamVentHarness()).toThrow(ValidationError);
+        });
+    });
+
+    describe("addCondition", () => {
+        it("should apply the condition's effects to derived rolls and speed", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const updatedVm = new MutableCharacterViewModel(vm.addCondition("Restrained"));
+
+            expect(updatedVm.savingThrows.dexterity.mode).toBe("Disadvantage");
+            expect(updatedVm.savingThrows.strength.mode).toBe("Normal");
+            expect(updatedVm.actions.every((action) => action.mode === "Disadvantage")).toBe(true);
+            expect(updatedVm.summary.speed).toBe(0);
+        });
+
+        it("should auto-fail Strength and Dexterity saves while Paralyzed", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const updatedVm = new MutableCharacterViewModel(vm.addCondition("Paralyzed"));
+
+            expect(updatedVm.savingThrows.strength.autoFail).toBe(true);
+            expect(updatedVm.savingThrows.dexterity.autoFail).toBe(true);
+            expect(updatedVm.savingThrows.wisdom.autoFail).toBe(false);
+            expect(updatedVm.conditionEffects.incapacitated).toBe(true);
+        });
+
+        it("should give disadvantage on skill checks while Poisoned", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const updatedVm = new MutableCharacterViewModel(vm.addCondition("Poisoned"));
+
+            expect(updatedVm.skills.Arcana?.mode).toBe("Disadvantage");
+        });
+
+        it("should refresh the duration of an existing condition", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+            vm.addCondition("Frightened", 2);
+
+            const updated = vm.addCondition("Frightened", 5);
+
+            expect(updated.conditions).toEqual(["Frightened"]);
+            expect(updated.conditionDurations).toEqual({ Frightened: 5 });
+        });
+
+        it("should throw error for a non-positive duration", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(() => vm.addCondition("Prone", 0)).toThrow(ValidationError);
+        });
+    });
+
+    describe("removeCondition", () => {
+        it("should remove the condition and its duration", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+            vm.addCondition("Blinded", 3);
+
+            const updated = vm.removeCondition("Blinded");
+
+            expect(updated.conditions).toEqual([]);
+            expect(updated.conditionDurations).toEqual({});
+        });
+
+        it("should throw error for a condition the character doesn't have", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(() => vm.removeCondition("Stunned")).toThrow(ValidationError);
+        });
+    });
+
+    describe("advanceConditionDurations", () => {
+        it("should count down durations and drop expired conditions", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+            vm.addCondition("Stunned", 1);
+            vm.addCondition("Frightened", 3);
+            vm.addCondition("Prone");
+
+            const updated = vm.advanceConditionDurations();
+
+            expect(updated.conditions).toEqual(["Frightened", "Prone"]);
+            expect(updated.conditionDurations).toEqual({ Frightened: 2 });
+        });
+    });
+
+    describe("gainExhaustion", () => {
+        it("should apply the cumulative penalties of the new level", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const updatedVm = new MutableCharacterViewModel(vm.gainExhaustion(4));
+
+            expect(updatedVm.exhaustion.level).toBe(4);
+            expect(updatedVm.skills.Arcana?.mode).toBe("Disadvantage");
+            expect(updatedVm.savingThrows.wisdom.mode).toBe("Disadvantage");
+            expect(updatedVm.summary.speed).toBe(15);
+            expect(updatedVm.summary.hitPoints).toEqual({ current: 4, maximum: 4 });
+        });
+
+        it("should cap exhaustion at level 6", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+            vm.gainExhaustion(5);
+
+            const updatedVm = new MutableCharacterViewModel(vm.gainExhaustion(3));
+
+            expect(updatedVm.exhaustion.level).toBe(6);
+            expect(updatedVm.exhaustion.dead).toBe(true);
+            expect(updatedVm.summary.speed).toBe(0);
+        });
+
+        it("should throw error for a non-positive number of levels", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(() => vm.gainExhaustion(0)).toThrow(ValidationError);
+        });
+
+        it("should add a level from Heat Stress level 3", () => {
+            const character = createTestCharacter();
+            character.exhaustionLevel = 1;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updatedVm = new MutableCharacterViewModel(vm.updateHeatStressLevel(3));
+
+            expect(updatedVm.exhaustion.level).toBe(2);
+        });
+    });
+
+    describe("removeExhaustion", () => {
+        it("should not go below level 0", () => {
+            const character = createTestCharacter();
+            character.exhaustionLevel = 2;
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(vm.removeExhaustion(3).exhaustionLevel).toBe(0);
+        });
+    });
+
+    describe("spendFeatureUse", () => {
+        it("should count down the feature's uses", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const updatedVm = new MutableCharacterViewModel(
+                vm.spendFeatureUse("Vulmir", "Cunning Reflexes")
+            );
+
+            const feature = updatedVm.features.find((f) => f.feature.name === "Cunning Reflexes");
+            expect(feature?.uses).toEqual({ current: 0, maximum: 1, restType: "short" });
+        });
+
+        it("should throw error when no uses are left", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+            vm.spendFeatureUse("Vulmir", "Shadow Step");
+
+            expect(() => vm.spendFeatureUse("Vulmir", "Shadow Step")).toThrow(ValidationError);
+        });
+
+        it("should count uses by the feature's source", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(vm.spendFeatureUse("Vulmir", "Shadow Step").featureUsesSpent).toEqual({
+                "Vulmir:Shadow Step": 1,
+            });
+            expect(() => vm.spendFeatureUse("Arcanist", "Shadow Step")).toThrow(ValidationError);
+        });
+
+        it("should find features gained since the view model was created", () => {
+            const character = createTestCharacter();
+            character.classes = [{ level: 5, class: "Arcanist", subclass: "Aethermancer" }];
+            character.level = 5;
+            const vm = new MutableCharacterViewModel(character);
+            vm.levelUp();
+
+            expect(vm.spendFeatureUse("Aethermancer", "Resonant Pulse").featureUsesSpent).toEqual({
+                "Aethermancer:Resonant Pulse": 1,
+            });
+        });
+
+        it("should throw error for a feature without per-rest uses", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(() => vm.spendFeatureUse("Vulmir", "Echo Mimicry")).toThrow(ValidationError);
+        });
+    });
+
+    describe("spendModUse", () => {
+        it("should count down the mod's uses", () => {
+            const character = createTestCharacter();
+            character.mods = [{ id: "coil-1", modId: "overclock-coil", equipped: true }];
+            const vm = new MutableCharacterViewModel(character);
+
+            const updatedVm = new MutableCharacterViewModel(vm.spendModUse("coil-1"));
+
+            expect(updatedVm.inventory.mods[0]?.uses?.current).toBe(0);
+            expect(() => updatedVm.spendModUse("coil-1")).toThrow(ValidationError);
+        });
+    });
+
+    describe("takeShortRest", () => {
+        it("should heal each rolled hit die plus CON and spend it", () => {
+            const character = createTestCharacter();
+            character.classes = [{ level: 3, class: "Arcanist" }];
+            character.hitPoints = { current: 5, maximum: 20 };
+            const vm = new MutableCharacterViewModel(character);
+
+            const updatedVm = new MutableCharacterViewModel(
+                vm.takeShortRest({ hitDice: { Arcanist: 2 }, hitDiceRolls: [4, 6] })
+            );
+
+            expect(updatedVm.summary.hitPoints.current).toBe(17);
+            expect(updatedVm.hitDice).toEqual([
+                { class: "Arcanist", die: 6, current: 1, maximum: 3 },
+            ]);
+        });
+
+        it("should use the average when a die isn't rolled", () => {
+            const character = createTestCharacter();
+            character.hitPoints.current = 1;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.takeShortRest({ hitDice: { Arcanist: 1 } });
+
+            expect(updated.hitPoints.current).toBe(6);
+        });
+
+        it("should recharge only short-rest uses", () => {
+            const character = createTestCharacter();
+            character.featureUsesSpent = { "Vulmir:Cunning Reflexes": 1, "Vulmir:Shadow Step": 1 };
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.takeShortRest();
+
+            expect(updated.featureUsesSpent).toEqual({ "Vulmir:Shadow Step": 1 });
+        });
+
+        it("should add the rest to the timeline", () => {
+            const character = createTestCharacter();
+            character.hitPoints.current = 1;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.takeShortRest({ hitDice: { Arcanist: 1 }, hitDiceRolls: [3] });
+
+            expect(updated.timeline).toHaveLength(1);
+            expect(updated.timeline?.[0]).toMatchObject({
+                kind: "Rest",
+                type: "short",
+                hitDiceSpent: 1,
+                resourcesRestored: { hitPoints: 4 },
+            });
+        });
+
+        it("should throw error when spending more hit dice than remain", () => {
+            const character = createTestCharacter();
+            character.hitDiceSpent = { Arcanist: 1 };
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.takeShortRest({ hitDice: { Arcanist: 1 } })).toThrow(ValidationError);
+        });
+    });
+
     describe("takeLongRest", () => {
         it("should restore all HP", () => {
             const character = createTestCharacter();
@@ -154,15 +636,410 @@ describe("MutableCharacterViewModel", () => {
             expect(updated.heatPoints.current).toBe(0);
         });
 
-        it("should reset heat stress level", () => {
+        it("should reset heat stress level in a safe environment", () => {
             const character = createTestCharacter();
             character.heatStressLevel = 2;
             const vm = new MutableCharacterViewModel(character);
 
-            const updated = vm.takeLongRest();
+            const updated = vm.takeLongRest({ safeEnvironment: true });
 
             expect(updated.heatStressLevel).toBe(0);
         });
+
+        describe("spell preparation", () => {
+            function createTemplar(): Character {
+                const character = createTestCharacter();
+                character.classes = [{ level: 5, class: "Templar" }];
+                character.level = 5;
+                character.spells = ["Sacred Flame", "Bless", "Guiding Bolt", "Hold Person"];
+                character.preparedSpells = ["Bless"];
+                return character;
+            }
+
+            it("should prepare the chosen spells", () => {
+                const vm = new MutableCharacterViewModel(createTemplar());
+
+                const updated = vm.takeLongRest({
+                    preparedSpells: ["Guiding Bolt", "Hold Person"],
+                });
+
+                expect(updated.preparedSpells).toEqual(["Guiding Bolt", "Hold Person"]);
+            });
+
+            it("should keep the current preparation when none is chosen", () => {
+                const vm = new MutableCharacterViewModel(createTemplar());
+
+                expect(vm.takeLongRest().preparedSpells).toEqual(["Bless"]);
+            });
+
+            it("should only prepare known spells that need preparing", () => {
+                const vm = new MutableCharacterViewModel(createTemplar());
+
+                expect(() => vm.takeLongRest({ preparedSpells: ["Fireball"] })).toThrow(
+                    "spell not known"
+                );
+                expect(() => vm.takeLongRest({ preparedSpells: ["Sacred Flame"] })).toThrow(
+                    "Sacred Flame is always ready and can't be prepared"
+                );
+            });
+
+            it("should prepare no more than Templar level + Wisdom modifier", () => {
+                const character = createTemplar();
+                character.classes = [{ level: 1, class: "Templar" }];
+                const vm = new MutableCharacterViewModel(character);
+
+                expect(() =>
+                    vm.takeLongRest({ preparedSpells: ["Bless", "Guiding Bolt"] })
+                ).toThrow("preparing 2 spells, the limit is 1");
+            });
+        });
+
+        it("should keep heat stress outside a safe environment", () => {
+            const character = createTestCharacter();
+            character.heatStressLevel = 2;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.takeLongRest({ safeEnvironment: false });
+
+            expect(updated.heatStressLevel).toBe(2);
+        });
+
+        it("should keep heat stress unless the environment is said to be safe", () => {
+            const character = createTestCharacter();
+            character.heatStressLevel = 2;
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(vm.takeLongRest().heatStressLevel).toBe(2);
+        });
+
+        it("should recover half the hit dice, minimum 1", () => {
+            const character = createTestCharacter();
+            character.classes = [{ level: 5, class: "Arcanist" }];
+            character.hitDiceSpent = { Arcanist: 5 };
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.takeLongRest();
+
+            expect(updated.hitDiceSpent).toEqual({ Arcanist: 3 });
+            expect(
+                new MutableCharacterViewModel(createTestCharacter()).takeLongRest().hitDiceSpent
+            ).toEqual({ Arcanist: 0 });
+        });
+
+        it("should recharge every feature and mod", () => {
+            const character = createTestCharacter();
+            character.featureUsesSpent = { "Vulmir:Shadow Step": 1 };
+            character.modUsesSpent = { "coil-1": 1 };
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.takeLongRest();
+
+            expect(updated.featureUsesSpent).toEqual({});
+            expect(updated.modUsesSpent).toEqual({});
+        });
+
+        it("should record exactly what was restored", () => {
+            const character = createTestCharacter();
+            character.hitPoints.current = 3;
+            character.heatPoints.current = 6;
+            character.exhaustionLevel = 1;
+            character.featureUsesSpent = { "Vulmir:Shadow Step": 1 };
+            const vm = new MutableCharacterViewModel(character);
+
+            const [event] = vm.takeLongRest().timeline!;
+
+            expect(event).toEqual({
+                kind: "Rest",
+                type: "long",
+                timestamp: expect.any(Date),
+                resourcesRestored: {
+                    hitPoints: 5,
+                    heatPoints: 6,
+                    exhaustionLevels: 1,
+                    limitedUses: ["Shadow Step"],
+                },
+            });
+        });
+
+        it("should remove one level of exhaustion", () => {
+            const character = createTestCharacter();
+            character.exhaustionLevel = 3;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.takeLongRest();
+
+            expect(updated.exhaustionLevel).toBe(2);
+        });
+    });
+
+    describe("awardExperience", () => {
+        it("should add to the character's experience points", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            vm.awardExperience(200);
+            const updated = vm.awardExperience(150);
+
+            expect(updated.experiencePoints).toBe(350);
+            expect(updated.level).toBe(1);
+            expect(new MutableCharacterViewModel(updated).experience).toEqual({
+                total: 350,
+                level: 2,
+                nextLevelAt: 300,
+            });
+        });
+
+        it("should throw ValidationError for negative or fractional experience points", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(() => vm.awardExperience(-50)).toThrow(ValidationError);
+            expect(() => vm.awardExperience(12.5)).toThrow(ValidationError);
+        });
+    });
+
+    describe("levelUp", () => {
+        it("should add the level-up to the timeline", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const updated = vm.levelUp({ hitPointRoll: 5 });
+
+            expect(updated.timeline).toEqual([
+                {
+                    kind: "LevelUp",
+                    newLevel: 2,
+                    classType: "Arcanist",
+                    hitPointIncrease: 6,
+                    featuresGained: [],
+                    timestamp: expect.any(Date),
+                },
+            ]);
+        });
+
+        it("should apply and store a class configuration", () => {
+            const character = createTestCharacter();
+            character.level = 2;
+            character.classes = [{ level: 2, class: "Arcanist" }];
+            const vm = new MutableCharacterViewModel(character);
+            const classConfiguration = {
+                classType: "Arcanist" as const,
+                level: 3,
+                subclass: "Aethermancer" as const,
+                featureChoices: {},
+            };
+
+            const updated = vm.levelUp({ classConfiguration });
+
+            expect(updated.classes[0]).toEqual({
+                level: 3,
+                class: "Arcanist",
+                subclass: "Aethermancer",
+            });
+            expect(updated.classConfigurations).toEqual([classConfiguration]);
+        });
+
+        it("should throw ValidationError for an invalid class configuration", () => {
+            const character = createTestCharacter();
+            character.level = 2;
+            character.classes = [{ level: 2, class: "Arcanist" }];
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() =>
+                vm.levelUp({
+                    classConfiguration: { classType: "Arcanist", level: 3, featureChoices: {} },
+                })
+            ).toThrow(ValidationError);
+            expect(vm.toCharacter().level).toBe(2);
+        });
+
+        it("should learn the spells a class configuration selects on top of those known", () => {
+            const character = createTestCharacter();
+            character.level = 2;
+            character.classes = [{ level: 2, class: "Arcanist" }];
+            character.spells = [
+                "Fire Bolt",
+                "Gust",
+                "Mage Hand",
+                "Magic Missile",
+                "Shield",
+                "Burning Hands",
+                "Thunderwave",
+                "Fog Cloud",
+                "Detect Magic",
+                "Comprehend Languages",
+                "Faerie Fire",
+            ];
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.levelUp({
+                classConfiguration: {
+                    classType: "Arcanist",
+                    level: 3,
+                    subclass: "Aethermancer",
+                    featureChoices: {},
+                    spellsSelected: ["Scorching Ray", "Misty Step"],
+                },
+            });
+
+            expect(updated.spells).toEqual([...character.spells, "Scorching Ray", "Misty Step"]);
+        });
+
+        it("should check spells learned on level up as learnSpell does", () => {
+            const character = createTestCharacter();
+            character.spells = ["Fire Bolt", "Gust", "Mage Hand"];
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.levelUp({ spellsLearned: ["Ray of Frost"] })).toThrow(
+                "already knows 3 cantrips"
+            );
+            expect(vm.toCharacter().level).toBe(1);
+            expect(vm.levelUp({ spellsLearned: ["Magic Missile"] }).spells).toContain(
+                "Magic Missile"
+            );
+        });
+
+        it("should multiclass into a new class with its own hit die", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const updated = vm.levelUp({ classType: "Shadehand" });
+
+            expect(updated.level).toBe(2);
+            expect(updated.classes).toEqual([
+                { level: 1, class: "Arcanist" },
+                { level: 1, class: "Shadehand", subclass: undefined },
+            ]);
+            expect(updated.hitPoints.maximum).toBe(14); // d8 average 5 + CON 1
+            const updatedVm = new MutableCharacterViewModel(updated);
+            expect(updatedVm.hitDice.map((pool) => pool.die)).toEqual([6, 8]);
+            expect(updatedVm.summary.fullClass).toBe("Arcanist 1 / Shadehand 1");
+        });
+
+        it("should throw ValidationError without the multiclassing prerequisites", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(() => vm.levelUp({ classType: "Tweaker" })).toThrow(ValidationError);
+        });
+
+        it("should combine spell slots and start new class resources", () => {
+            const character = createTestCharacter();
+            character.level = 2;
+            character.classes = [{ level: 2, class: "Arcanist" }];
+            character.abilityScores = { ...character.abilityScores, strength: 13, charisma: 13 };
+            character.spellSlots = {
+                level1: { current: 1, maximum: 3 },
+                level2: { current: 0, maximum: 0 },
+                level3: { current: 0, maximum: 0 },
+                level4: { current: 0, maximum: 0 },
+                level5: { current: 0, maximum: 0 },
+                level6: { current: 0, maximum: 0 },
+                level7: { current: 0, maximum: 0 },
+                level8: { current: 0, maximum: 0 },
+                level9: { current: 0, maximum: 0 },
+            };
+            const vm = new MutableCharacterViewModel(character);
+
+            const templar1 = vm.levelUp({ classType: "Templar" });
+
+            expect(templar1.spellSlots?.level1).toEqual({ current: 1, maximum: 3 });
+            expect(templar1.resonanceCharges?.maximum).toBe(1);
+
+            const templar2 = vm.levelUp({ classType: "Templar" });
+
+            expect(templar2.spellSlots?.level1).toEqual({ current: 2, maximum: 4 });
+            expect(templar2.spellSlots?.level2).toEqual({ current: 2, maximum: 2 });
+            expect(templar2.resonanceCharges?.maximum).toBe(2);
+        });
+
+        describe("ability score improvements and feats", () => {
+            function createLevel3Arcanist(): Character {
+                return {
+                    ...createTestCharacter(),
+                    level: 3,
+                    classes: [{ level: 3, class: "Arcanist", subclass: "Aethermancer" }],
+                    hitPoints: { current: 20, maximum: 20 },
+                };
+            }
+
+            it("should recalculate hit points for every level when Constitution improves", () => {
+                const vm = new MutableCharacterViewModel(createLevel3Arcanist());
+
+                const updated = vm.levelUp({
+                    hitPointRoll: 4,
+                    abilityScoreImprovement: { ability1: "constitution", ability2: "constitution" },
+                });
+
+                expect(updated.abilityScores.constitution).toBe(14);
+                // 4 rolled + CON 2, plus 1 more for each of the 3 earlier levels
+                expect(updated.hitPoints.maximum).toBe(29);
+                expect(updated.timeline?.[0]).toMatchObject({ hitPointIncrease: 9 });
+            });
+
+            it("should recalculate armor class, initiative and skills when Dexterity improves", () => {
+                const vm = new MutableCharacterViewModel(createLevel3Arcanist());
+
+                const updated = vm.levelUp({
+                    abilityScoreImprovement: { ability1: "dexterity", ability2: "dexterity" },
+                });
+
+                expect(updated.abilityScores.dexterity).toBe(16);
+                expect(updated.armorClass).toBe(13);
+                expect(updated.initiative).toBe(3);
+                expect(updated.skills.Stealth.modifier).toBe(3);
+            });
+
+            it("should take a feat and apply its effects", () => {
+                const vm = new MutableCharacterViewModel(createLevel3Arcanist());
+
+                const updated = vm.levelUp({ hitPointRoll: 4, feat: { featId: "tough" } });
+
+                expect(updated.feats).toEqual(["tough"]);
+                // 4 rolled + CON 1 + Tough 2, plus Tough's 2 for each of the 3 earlier levels
+                expect(updated.hitPoints.maximum).toBe(33);
+                const features = new MutableCharacterViewModel(updated).features;
+                expect(features.at(-1)).toMatchObject({ type: "Feat", source: "Feat" });
+            });
+
+            it("should apply a feat's ability increase and initiative bonus", () => {
+                const character = createLevel3Arcanist();
+                character.feats = ["alert"];
+                const vm = new MutableCharacterViewModel(character);
+
+                const updated = vm.levelUp({
+                    feat: { featId: "athlete", ability: "dexterity" },
+                });
+
+                expect(updated.feats).toEqual(["alert", "athlete"]);
+                expect(updated.abilityScores.dexterity).toBe(15);
+                expect(updated.initiative).toBe(7);
+            });
+
+            it("should throw ValidationError for an invalid choice", () => {
+                const character = createLevel3Arcanist();
+                character.feats = ["alert"];
+                character.abilityScores = { ...character.abilityScores, intelligence: 20 };
+                const vm = new MutableCharacterViewModel(character);
+
+                expect(() =>
+                    vm.levelUp({
+                        abilityScoreImprovement: { ability1: "strength" },
+                        feat: { featId: "tough" },
+                    })
+                ).toThrow(ValidationError);
+                expect(() => vm.levelUp({ feat: { featId: "alert" } })).toThrow(ValidationError);
+                expect(() => vm.levelUp({ feat: { featId: "heat-hardened" } })).toThrow(
+                    "requires Constitution 13"
+                );
+                expect(() => vm.levelUp({ feat: { featId: "athlete" } })).toThrow(ValidationError);
+                expect(() =>
+                    vm.levelUp({ abilityScoreImprovement: { ability1: "intelligence" } })
+                ).toThrow(ValidationError);
+                expect(vm.toCharacter().level).toBe(3);
+            });
+
+            it("should only offer feats at ability score improvement levels", () => {
+                const vm = new MutableCharacterViewModel(createTestCharacter());
+
+                expect(() => vm.levelUp({ feat: { featId: "tough" } })).toThrow(ValidationError);
+            });
+        });
     });
 
     describe("learnSpell", () => {
@@ -183,6 +1060,43 @@ describe("MutableCharacterViewModel", () => {
             expect(() => vm.learnSpell("Magic Missile")).toThrow(ValidationError);
         });
 
+        it("should refuse spells above the highest slot level", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            expect(() => vm.learnSpell("Fireball")).toThrow(
+                "no level 3 spell slots to learn Fireball with"
+            );
+        });
+
+        it("should refuse spells beyond the number known at the character's level", () => {
+            const character = createTestCharacter();
+            character.spells = ["Fire Bolt", "Gust", "Mage Hand"];
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.learnSpell("Ray of Frost")).toThrow("already knows 3 cantrips");
+            expect(vm.learnSpell("Magic Missile").spells).toContain("Magic Missile");
+        });
+
+        it("should not count spells that are prepared toward spells known", () => {
+            const character = createTestCharacter();
+            character.classes = [
+                { level: 1, class: "Arcanist" },
+                { level: 1, class: "Templar" },
+            ];
+            character.spells = [
+                "Magic Missile",
+                "Shield",
+                "Burning Hands",
+                "Faerie Fire",
+                "Thunderwave",
+                "Fog Cloud",
+            ];
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.clone().learnSpell("Detect Magic")).toThrow("already knows 6 spells");
+            expect(vm.learnSpell("Bless").spells).toContain("Bless");
+        });
+
         it("should throw error if class cannot learn spells", () => {
             const character = createTestCharacter();
             character.classes = [{ level: 1, class: "Vanguard" }];
@@ -204,6 +1118,15 @@ describe("MutableCharacterViewModel", () => {
             expect(updated.spells).toContain("Fireball");
         });
 
+        it("should unprepare a forgotten spell", () => {
+            const character = createTestCharacter();
+            character.spells = ["Bless", "Guiding Bolt"];
+            character.preparedSpells = ["Bless", "Guiding Bolt"];
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(vm.forgetSpell("Bless").preparedSpells).toEqual(["Guiding Bolt"]);
+        });
+
         it("should throw error if spell not known", () => {
             const character = createTestCharacter();
             const vm = new MutableCharacterViewModel(character);
@@ -212,6 +1135,294 @@ describe("MutableCharacterViewModel", () => {
         });
     });
 
+    describe("castSpell", () => {
+        function createCaster(): Character {
+            const character = createTestCharacter();
+            character.classes = [{ level: 5, class: "Arcanist" }];
+            character.level = 5;
+            character.spells = ["Fire Bolt", "Magic Missile", "Fireball"];
+            character.aetherFluxPoints = {
+                current: 8,
+                maximum: 8,
+                rechargeRate: { shortRest: 4, longRest: 8 },
+            };
+            return character;
+        }
+
+        it("should spend AFP for the spell's level and gain its heat", () => {
+            const vm = new MutableCharacterViewModel(createCaster());
+
+            const updated = vm.castSpell("Magic Missile");
+
+            expect(updated.aetherFluxPoints?.current).toBe(7);
+            expect(updated.heatPoints.current).toBe(1);
+            expect(updated.heatSources?.[0]?.source).toBe("Cast Arc Pulse Array");
+        });
+
+        it("should spend 1 more AFP per level when upcast", () => {
+            const vm = new MutableCharacterViewModel(createCaster());
+
+            expect(vm.castSpell("Magic Missile", { slotLevel: 3 }).aetherFluxPoints?.current).toBe(
+                5
+            );
+        });
+
+        it("should cast cantrips for free", () => {
+            const vm = new MutableCharacterViewModel(createCaster());
+
+            const updated = vm.castSpell("Fire Bolt");
+
+            expect(updated.aetherFluxPoints?.current).toBe(8);
+            expect(updated.heatSources).toBeUndefined();
+        });
+
+        it("should spend a spell slot without an AFP or RC pool", () => {
+            const character = createCaster();
+            delete character.aetherFluxPoints;
+            character.spellSlots = {
+                level1: { current: 4, maximum: 4 },
+                level2: { current: 3, maximum: 3 },
+                level3: { current: 0, maximum: 2 },
+                level4: { current: 0, maximum: 0 },
+                level5: { current: 0, maximum: 0 },
+                level6: { current: 0, maximum: 0 },
+                level7: { current: 0, maximum: 0 },
+                level8: { current: 0, maximum: 0 },
+                level9: { current: 0, maximum: 0 },
+            };
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(vm.castSpell("Magic Missile", { slotLevel: 2 }).spellSlots?.level2.current).toBe(
+                2
+            );
+            expect(() => vm.castSpell("Fireball")).toThrow("no level 3 spell slots left");
+        });
+
+        it("should fail without enough AFP and leave the character unchanged", () => {
+            const character = createCaster();
+            character.aetherFluxPoints!.current = 2;
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.castSpell("Fireball")).toThrow("needs 3 AFP at level 3, only 2 left");
+            expect(vm.toCharacter().aetherFluxPoints?.current).toBe(2);
+            expect(vm.toCharacter().heatPoints.current).toBe(0);
+        });
+
+        it("should only cast at slot levels the character can reach", () => {
+            const vm = new MutableCharacterViewModel(createCaster());
+
+            expect(() => vm.castSpell("Magic Missile", { slotLevel: 4 })).toThrow(ValidationError);
+            expect(() => vm.castSpell("Fireball", { slotLevel: 2 })).toThrow(ValidationError);
+        });
+
+        it("should throw error if the spell is not known", () => {
+            const vm = new MutableCharacterViewModel(createCaster());
+
+            expect(() => vm.castSpell("Cure Wounds")).toThrow("spell not known");
+        });
+
+        it("should be prevented by conditions that stop spellcasting", () => {
+            const character = createCaster();
+            character.conditions = ["Paralyzed"];
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.castSpell("Fire Bolt")).toThrow("can't cast spells while Paralyzed");
+        });
+
+        describe("Overclock", () => {
+            it("should spend 1 more AFP and add the Overclock's heat", () => {
+                const vm = new MutableCharacterViewModel(createCaster());
+
+                const updated = vm.castSpell("Magic Missile", { casting: "Overclock" });
+
+                expect(updated.aetherFluxPoints?.current).toBe(6);
+                expect(updated.heatPoints.current).toBe(3);
+                expect(updated.heatSources?.[0]?.source).toBe("Overclocked Arc Pulse Array");
+            });
+
+            it("should only Overclock overclockable spells", () => {
+                const vm = new MutableCharacterViewModel(createCaster());
+
+                expect(() => vm.castSpell("Fire Bolt", { casting: "Overclock" })).toThrow(
+                    "Fire Bolt can't be Overclocked"
+                );
+            });
+
+            it("should skip the Overclock's heat with a use of Reactor Tuning", () => {
+                const vm = new MutableCharacterViewModel(createCaster());
+
+                vm.castSpell("Magic Missile", { casting: "Overclock", safe: true });
+                const updated = vm.castSpell("Magic Missile", { casting: "Overclock", safe: true });
+
+                expect(updated.aetherFluxPoints?.current).toBe(4);
+                expect(updated.heatPoints.current).toBe(2);
+                expect(() =>
+                    vm.castSpell("Magic Missile", { casting: "Overclock", safe: true })
+                ).toThrow("no uses left until a long rest");
+                expect(vm.toCharacter().aetherFluxPoints?.current).toBe(4);
+            });
+
+            it("should need Reactor Tuning to Overclock safely", () => {
+                const character = createCaster();
+                character.classes = [{ level: 4, class: "Arcanist" }];
+                character.level = 4;
+                const vm = new MutableCharacterViewModel(character);
+
+                expect(() =>
+                    vm.castSpell("Magic Missile", { casting: "Overclock", safe: true })
+                ).toThrow("needs the Arcanist feature Reactor Tuning");
+                expect(vm.toCharacter().aetherFluxPoints?.current).toBe(8);
+                expect(vm.toCharacter().heatPoints.current).toBe(0);
+            });
+
+            it("should be prevented by conditions that stop Overclocking", () => {
+                const character = createCaster();
+                character.conditions = ["Overheated"];
+                const vm = new MutableCharacterViewModel(character);
+
+                expect(() => vm.castSpell("Magic Missile", { casting: "Overclock" })).toThrow(
+                    "can't Overclock while Overheated"
+                );
+            });
+        });
+
+        describe("Overchannel", () => {
+            function createTemplar(): Character {
+                const character = createTestCharacter();
+                character.classes = [{ level: 5, class: "Templar" }];
+                character.level = 5;
+                character.hitPoints = { current: 20, maximum: 24 };
+                character.spells = ["Guiding Bolt"];
+                character.preparedSpells = ["Guiding Bolt"];
+                character.resonanceCharges = {
+                    current: 1,
+                    maximum: 3,
+                    rechargeRate: { shortRest: 1, longRest: 3 },
+                };
+                return character;
+            }
+
+            it("should refuse a Miracle that isn't prepared", () => {
+                const character = createTemplar();
+                character.preparedSpells = [];
+                const vm = new MutableCharacterViewModel(character);
+
+                expect(() => vm.castSpell("Guiding Bolt")).toThrow("Judgment Beam isn't prepared");
+            });
+
+            it("should burn 2 HP per spell level instead of RC", () => {
+                const vm = new MutableCharacterViewModel(createTemplar());
+
+                const updated = vm.castSpell("Guiding Bolt", {
+                    slotLevel: 2,
+                    casting: "Overchannel",
+                });
+
+                expect(updated.resonanceCharges?.current).toBe(1);
+                expect(updated.hitPoints.current).toBe(16);
+                expect(updated.heatPoints.current).toBe(3);
+            });
+
+            it("should skip the Overchannel's heat with a use of Safe Overchannel", () => {
+                const vm = new MutableCharacterViewModel(createTemplar());
+
+                const updated = vm.castSpell("Guiding Bolt", {
+                    slotLevel: 2,
+                    casting: "Overchannel",
+                    safe: true,
+                });
+
+                expect(updated.hitPoints.current).toBe(16);
+                expect(updated.heatPoints.current).toBe(1);
+                expect(updated.featureUsesSpent).toEqual({ "Templar:Safe Overchannel": 1 });
+                expect(() =>
+                    vm.castSpell("Guiding Bolt", {
+                        slotLevel: 2,
+                        casting: "Overchannel",
+                        safe: true,
+                    })
+                ).toThrow("no uses left until a long rest");
+                expect(vm.toCharacter().hitPoints.current).toBe(16);
+                expect(vm.toCharacter().resonanceCharges?.current).toBe(1);
+            });
+
+            it("should leave a rejected safe Overchannel unpaid", () => {
+                const character = createTemplar();
+                character.hitPoints.current = 4;
+                const vm = new MutableCharacterViewModel(character);
+
+                expect(() =>
+                    vm.castSpell("Guiding Bolt", {
+                        slotLevel: 2,
+                        casting: "Overchannel",
+                        safe: true,
+                    })
+                ).toThrow("burns 4 HP, only 4 left");
+                expect(vm.toCharacter().hitPoints.current).toBe(4);
+                expect(vm.toCharacter().resonanceCharges?.current).toBe(1);
+                expect(vm.toCharacter().featureUsesSpent).toBeUndefined();
+            });
+
+            it("should refuse when there's enough RC to cast normally", () => {
+                const vm = new MutableCharacterViewModel(createTemplar());
+
+                expect(() => vm.castSpell("Guiding Bolt", { casting: "Overchannel" })).toThrow(
+                    "enough RC to cast Guiding Bolt normally"
+                );
+            });
+
+            it("should refuse when the burned hit points would drop the Templar", () => {
+                const character = createTemplar();
+                character.hitPoints.current = 2;
+                character.resonanceCharges!.current = 0;
+                const vm = new MutableCharacterViewModel(character);
+
+                expect(() => vm.castSpell("Guiding Bolt", { casting: "Overchannel" })).toThrow(
+                    "burns 2 HP, only 2 left"
+                );
+            });
+
+            it("should only Overchannel Miracles cast with RC", () => {
+                const vm = new MutableCharacterViewModel(createCaster());
+
+                expect(() => vm.castSpell("Magic Missile", { casting: "Overchannel" })).toThrow(
+                    ValidationError
+                );
+            });
+        });
+    });
+
+    describe("sufferFaithFeedback", () => {
+        it("should add a level of Heat Stress, the feedback heat and concentration disadvantage", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const updated = vm.sufferFaithFeedback(3);
+
+            expect(updated.heatStressLevel).toBe(1);
+            expect(updated.heatPoints.current).toBe(3);
+            expect(updated.heatSources?.[0]?.source).toBe("Faith Feedback");
+            expect(updated.concentrationDisadvantage).toBe("Faith Feedback");
+        });
+
+        it("should make an Overheat Check when the feedback heat passes the maximum", () => {
+            const character = createTestCharacter();
+            character.heatPoints.current = 9;
+            const vm = new MutableCharacterViewModel(character);
+
+            const updated = vm.sufferFaithFeedback(4, { saveRoll: 20 });
+
+            expect(updated.heatSources?.[0]?.overheatCheck).toBeDefined();
+        });
+
+        it("should lift the concentration disadvantage on a rest", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            vm.sufferFaithFeedback();
+
+            expect(vm.takeShortRest().concentrationDisadvantage).toBeUndefined();
+        });
+    });
+
     describe("addItem", () => {
         it("should add item to inventory", () => {
             const character = createTestCharacter();
@@ -257,4 +1468,136 @@ describe("MutableCharacterViewModel", () => {
             expect(() => vm.removeItem("nonexistent")).toThrow(ValidationError);
         });
     });
+
+    describe("recordRoll", () => {
+        const roll = {
+            roller: "Test Character",
+            rollType: "Damage" as const,
+            title: "Longsword - Damage (Slashing)",
+            results: [{ expression: "1d8+3", terms: [], total: 7 }],
+            total: 7,
+        };
+
+        it("should add the roll to the log, newest first in the view model", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            vm.recordRoll(roll);
+            const updatedVm = new MutableCharacterViewModel(
+                vm.recordRoll({ ...roll, rollType: "Attack", total: 15 })
+            );
+
+            expect(updatedVm.rollHistory).toHaveLength(2);
+            expect(updatedVm.rollHistory[0]!.rollType).toBe("Attack");
+            expect(updatedVm.rollHistory[1]!.id).toBeDefined();
+        });
+
+        it("should keep only the most recent rolls", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            for (let i = 0; i <= MAX_ROLL_HISTORY; i++) {
+                vm.recordRoll({ ...roll, total: i });
+            }
+
+            const log = vm.toCharacter().rollHistory!;
+            expect(log).toHaveLength(MAX_ROLL_HISTORY);
+            expect(log[0]!.total).toBe(1);
+        });
+
+        it("should throw error if the roll has no results", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.recordRoll({ ...roll, results: [] })).toThrow(ValidationError);
+        });
+
+        it("should clear the log", () => {
+            const character = createTestCharacter();
+            const vm = new MutableCharacterViewModel(character);
+            vm.recordRoll(roll);
+
+            expect(vm.clearRollHistory().rollHistory).toEqual([]);
+        });
+    });
+
+    describe("learnLanguage", () => {
+        it("should pay for and track training until the language is learned", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const started = vm.learnLanguage("Guild Cant", "Tutored", 4);
+            expect(started.currency.cogs).toBe(75);
+            expect(started.languageTraining).toEqual([
+                { language: "Guild Cant", method: "Tutored", daysSpent: 4 },
+            ]);
+
+            const learned = vm.learnLanguage("Guild Cant", "Tutored", 6);
+            expect(learned.currency.cogs).toBe(75);
+            expect(learned.languageTraining).toEqual([]);
+            expect(learned.languages).toContain("Guild Cant");
+        });
+
+        it("should show training progress in the view model", () => {
+            const vm = new MutableCharacterViewModel(createTestCharacter());
+
+            const updatedVm = new MutableCharacterViewModel(
+                vm.learnLanguage("Aquan", "Immersive", 12)
+            );
+
+            expect(updatedVm.languageTraining[0]!.daysSpent).toBe(12);
+            expect(updatedVm.languageTraining[0]!.method.days).toBe(30);
+        });
+
+        it("should learn a Psionic Imprint at once, but only temporarily", () => {
+            const character = {
+                ...createTestCharacter(),
+                currency: { cogs: 0, gears: 0, cores: 0, aetherDust: 1 },
+            };
+            const vm = new MutableCharacterViewModel(character);
+
+            const updatedVm = new MutableCharacterViewModel(
+                vm.learnLanguage("Skycant", "PsionicImprint", 0)
+            );
+
+            expect(updatedVm.toCharacter().languages).not.toContain("Skycant");
+            expect(updatedVm.toCharacter().currency.aetherDust).toBe(0);
+            const imprinted = updatedVm.languages.find((l) => l.language === "Skycant");
+            expect(imprinted?.expiresAt).toBeInstanceOf(Date);
+            expect(imprinted?.definition?.script).toBe("Featherstroke");
+        });
+
+        it("should throw ValidationError for a known language, another method or an unpaid cost", () => {
+            const character = {
+                ...createTestCharacter(),
+                currency: { cogs: 50, gears: 0, cores: 0 },
+            };
+            const vm = new MutableCharacterViewModel(character);
+
+            expect(() => vm.learnLanguage("Common Geartrade", "Tutored", 10)).toThrow(
+                ValidationError
+            );
+            expect(() => vm.learnLanguage("Aquan", "AetherCrystal", 1)).toThrow(ValidationError);
+
+            vm.learnLanguage("Aquan", "Immersive", 1);
+            expect(() => vm.learnLanguage("Aquan", "Tutored", 1)).toThrow(ValidationError);
+        });
+    });
+
+    describe("updatePersonality", () => {
+        it("should replace the given aspects, trimming and dropping blank entries", () => {
+            const character = { ...createTestCharacter(), traits: ["Curious"], flaws: ["Greedy"] };
+            const vm = new MutableCharacterViewModel(character);
+
+            const updatedVm = new MutableCharacterViewModel(
+                vm.updatePersonality({ traits: [" Patient ", ""], bonds: ["My old crew"] })
+            );
+
+            expect(updatedVm.personality).toEqual({
+                traits: ["Patient"],
+                ideals: [],
+                bonds: ["My old crew"],
+                flaws: ["Greedy"],
+            });
+        });
+    });
 });
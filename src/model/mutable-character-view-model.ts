@@ -2,8 +2,9 @@
  * Mutable Character View Model
  *
  * This module provides a mutable extension of CharacterViewModel that supports
- * character state mutations including resource updates, rest mechanics, leveling,
- * inventory management, and spell/power management.
+ * character state mutations including resource updates, conditions, limited-use
+ * features and mods, rest mechanics, leveling, inventory management, spell/power
+ * management, spellcasting, the roll log, and the timeline of rests and level-ups.
  *
  * All mutations validate inputs and return updated Character objects while
  * maintaining immutability of the original Character.
@@ -11,64 +12,162 @@
  * @module mutable-character-view-model
  */
 
-import { CLASSES, EQUIPMENT_BY_ID } from "@/data";
-import type { AbilityScores, Character, ClassConfiguration, SpellSlots, SubclassType } from "@/types";
+import {
+    ABILITY_SCORE_IMPROVEMENT_LEVELS,
+    CLASSES,
+    CONDITIONS_BY_NAME,
+    EQUIPMENT_BY_ID,
+    FEATS_BY_ID,
+    LANGUAGE_LEARNING_METHODS_BY_TYPE,
+    MAX_ABILITY_SCORE,
+    MAX_EXHAUSTION_LEVEL,
+    MAX_HEAT_STRESS_LEVEL,
+    OVERCLOCK_RULES_BY_TYPE,
+    PERSONALITY_ASPECTS,
+    SPELLS_BY_NAME,
+} from "@/data";
+import { MOD_LOOKUP } from "@/data/mods";
+import { classConfigurationService } from "@/service/class-configuration-service";
+import type {
+    AbilityScores,
+    AetherFluxPoints,
+    CastingMode,
+    Character,
+    CharacterClass,
+    CharacterEvent,
+    ClassConfiguration,
+    ClassType,
+    Condition,
+    Feat,
+    FeatChoice,
+    Language,
+    LanguageLearningMethodType,
+    OverheatCheck,
+    OverheatEffect,
+    OverheatResult,
+    OverheatTableEntry,
+    PerRestUse,
+    Personality,
+    RestEvent,
+    RollLogEntry,
+    Spell,
+    SpellSlots,
+    SubclassType,
+} from "@/types";
 import {
     ValidationError,
     calculateAbilityModifier,
+    calculateHitDice,
+    calculateInitiative,
     calculateProficiencyBonus,
+    calculateSpellSlotMaximums,
+    canMulticlassInto,
+    formatFeatPrerequisite,
+    formatMulticlassPrerequisite,
+    meetsFeatPrerequisite,
+    spendCurrency,
     validateRange,
 } from "./character-utils";
-import { CharacterViewModel } from "./character-view-model";
+import { CharacterViewModel, collectFeatures, getFeatureUseKey } from "./character-view-model";
+import { advanceConditionDurations } from "./condition-utils";
+import { rollDiceExpression, rollDie, rollableToExpression } from "./dice-utils";
+import { calculateOverheatDC, getOverheatTableEntry, requiresOverheatCheck } from "./heat-utils";
+import type { SpellResource } from "./spell-utils";
+import {
+    getAetherCost,
+    getCastableLevels,
+    getMaxSpellLevel,
+    getOverchannelHitPoints,
+    getSpellLearningError,
+    getSpellLimits,
+    getSpellResource,
+    requiresPreparation,
+} from "./spell-utils";
 
 /**
  * Options for leveling up a character
  */
 export interface LevelUpOptions {
+    /** Class to advance; a class the character doesn't have yet multiclasses into it (defaults to the primary class) */
+    classType?: ClassType;
     /** Hit point roll (if not provided, use average) */
     hitPointRoll?: number;
-    /** Subclass selection (required at level 3 if not set) */
+    /** Subclass selection (required at the class's subclass level if not set) */
     subclass?: SubclassType;
-    /** Spells learned on level up (for classes that learn spells) */
+    /** Spells learned on level up, each checked as learnSpell() does at the new level */
     spellsLearned?: string[];
-    /** Ability score improvement (at levels 4, 8, 12, 16, 19) */
+    /** Ability score improvement (at class levels 4, 8, 12, 16, 19) */
     abilityScoreImprovement?: {
         ability1: keyof AbilityScores;
         ability2?: keyof AbilityScores;
     };
+    /** Feat taken instead of an ability score improvement */
+    feat?: FeatChoice;
     /**
-     * Class configuration for the new level
-     * 
-     * FUTURE ENHANCEMENT: This will be used to configure class-specific options
-     * when leveling up, similar to the character creation flow.
-     * 
-     * Usage:
-     * 1. Present ClassLevelConfigurator component in level-up UI
-     * 2. Pass current class, new level, and existing configurations
-     * 3. Capture user selections (subclass, features, spells, proficiencies)
-     * 4. Pass the configuration to levelUp() method
-     * 5. Apply configuration using ClassConfigurationService.applyConfiguration()
-     * 
-     * Example:
-     * ```typescript
-     * const config: ClassConfiguration = {
-     *   classType: "Arcanist",
-     *   level: 3,
-     *   subclass: "Aethermancer",
-     *   featureChoices: { "Psionic Discipline": "Telekinesis" },
-     *   spellsSelected: ["fireball", "lightning-bolt"],
-     *   proficienciesSelected: []
-     * };
-     * 
-     * mutableViewModel.levelUp({ classConfiguration: config });
-     * ```
-     * 
+     * Class configuration for the advanced class's new level, as collected by ClassLevelConfigurator
+     *
+     * Validated with ClassConfigurationService.validateConfiguration() and applied with
+     * ClassConfigurationService.applyConfiguration(). Its subclass takes precedence over
+     * the subclass option, and it is stored in character.classConfigurations. Its
+     * spellsSelected are the spells gained this level, on top of those already known.
+     *
      * @see ClassConfigurationService.applyConfiguration
      * @see ClassLevelConfigurator component
      */
     classConfiguration?: ClassConfiguration;
 }
 
+/**
+ * Options for taking a short rest
+ */
+export interface ShortRestOptions {
+    /** Hit dice to spend, per class */
+    hitDice?: Partial<Record<ClassType, number>>;
+    /** Hit die results in spending order (a die without a result heals its average) */
+    hitDiceRolls?: number[];
+}
+
+/**
+ * Options for taking a long rest
+ */
+export interface LongRestOptions {
+    /** Whether the rest is in a safe, cool environment, which clears Heat Stress (default false) */
+    safeEnvironment?: boolean;
+    /** Spells to prepare for the coming day (the current preparation is kept when absent) */
+    preparedSpells?: string[];
+}
+
+/**
+ * Dice results for an Overheat Check (random rolls are made for any not provided)
+ */
+export interface OverheatRolls {
+    /** Natural d20 for the CON saving throw */
+    saveRoll?: number;
+    /** d6 for the Overheat Table on a failed check */
+    tableRoll?: number;
+    /** Total of the damage dice for Overheat Table results that deal damage */
+    damageRoll?: number;
+}
+
+/**
+ * Options for casting a spell
+ */
+export interface CastSpellOptions {
+    /** Level to cast it at (defaults to the spell's level) */
+    slotLevel?: number;
+    /** Cast normally, Overclock a Formula, or Overchannel a Miracle (defaults to "Normal") */
+    casting?: CastingMode;
+    /** Use a risk-free Overclock (Reactor Tuning) or consequence-free Overchannel (Safe Overchannel) */
+    safe?: boolean;
+    /** Dice results for an Overheat Check if the casting's heat triggers one */
+    rolls?: OverheatRolls;
+}
+
+/**
+ * Number of rolls kept in a character's roll log
+ */
+export const MAX_ROLL_HISTORY = 200;
+
 /**
  * Mutable Character View Model
  *
@@ -129,14 +228,87 @@ export class MutableCharacterViewModel extends CharacterViewModel {
         return this.toCharacter();
     }
 
+    /**
+     * Take damage, spending temporary hit points first
+     * @param amount - Damage taken (non-negative)
+     * @returns Updated character
+     * @throws ValidationError if amount is negative
+     */
+    takeDamage(amount: number): Character {
+        if (amount < 0) {
+            throw new ValidationError("amount", amount, "must be non-negative");
+        }
+
+        this._takeDamage(amount);
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Regain hit points, up to the maximum
+     * @param amount - Hit points regained (non-negative)
+     * @returns Updated character
+     * @throws ValidationError if amount is negative
+     */
+    heal(amount: number): Character {
+        if (amount < 0) {
+            throw new ValidationError("amount", amount, "must be non-negative");
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            hitPoints: {
+                ...this._mutableCharacter.hitPoints,
+                current: Math.min(
+                    this._mutableCharacter.hitPoints.maximum,
+                    this._mutableCharacter.hitPoints.current + amount
+                ),
+            },
+        };
+
+        return this.toCharacter();
+    }
+
     /**
      * Update heat points
-     * @param current - Current heat points (0 to maximum)
+     * @param current - Current heat points (0 to maximum, or lower than an overheated total)
      * @returns Updated character
      * @throws ValidationError if heat points are out of range
      */
     updateHeatPoints(current: number): Character {
-        validateRange("heatPoints.current", current, 0, this._mutableCharacter.heatPoints.maximum);
+        const { maximum, current: existing } = this._mutableCharacter.heatPoints;
+        validateRange("heatPoints.current", current, 0, Math.max(maximum, existing));
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            heatPoints: {
+                ...this._mutableCharacter.heatPoints,
+                current,
+            },
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Gain heat from a source, making an Overheat Check when heat exceeds the threshold
+     *
+     * On a successful check heat is reduced by 2. On a failure the d6 Overheat Table is
+     * rolled and its outcome is applied to the character.
+     *
+     * @param amount - Heat points gained (must be positive)
+     * @param source - What generated the heat (e.g., "Overclock", "Fire damage")
+     * @param rolls - Dice results to use (random rolls are made for any not provided)
+     * @returns Updated character
+     * @throws ValidationError if amount is not positive
+     */
+    gainHeat(amount: number, source: string, rolls: OverheatRolls = {}): Character {
+        if (amount <= 0) {
+            throw new ValidationError("amount", amount, "must be positive");
+        }
+
+        const { maximum } = this._mutableCharacter.heatPoints;
+        const current = this._mutableCharacter.heatPoints.current + amount;
 
         this._mutableCharacter = {
             ...this._mutableCharacter,
@@ -146,9 +318,214 @@ export class MutableCharacterViewModel extends CharacterViewModel {
             },
         };
 
+        const overheatCheck = requiresOverheatCheck(current, maximum)
+            ? this._makeOverheatCheck(current, rolls)
+            : undefined;
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            heatSources: [
+                ...(this._mutableCharacter.heatSources || []),
+                { source, amount, timestamp: new Date(), overheatCheck },
+            ],
+        };
+
         return this.toCharacter();
     }
 
+    /**
+     * Roll on the d6 Overheat Table immediately, without an Overheat Check
+     *
+     * Used when a natural 1 is rolled during an Overclocked action (Chapter 7).
+     *
+     * @param rolls - Dice results to use (random rolls are made for any not provided)
+     * @returns Updated character
+     */
+    rollOverheatTable(rolls: Omit<OverheatRolls, "saveRoll"> = {}): Character {
+        this._applyOverheatResult(
+            getOverheatTableEntry(rolls.tableRoll ?? rollDie(6)),
+            rolls.damageRoll
+        );
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Update the long-term Heat Stress level
+     * @param level - Heat Stress level (0-4)
+     * @returns Updated character
+     * @throws ValidationError if level is out of range
+     */
+    updateHeatStressLevel(level: number): Character {
+        validateRange("heatStressLevel", level, 0, MAX_HEAT_STRESS_LEVEL);
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            heatStressLevel: level,
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Use a Steam Vent Harness to clear all Heat Stress and vent 2 Heat
+     * @returns Updated character
+     * @throws ValidationError if the character has no Steam Vent Harness
+     */
+    useSteamVentHarness(): Character {
+        const hasHarness = this._mutableCharacter.inventory.some(
+            (item) => EQUIPMENT_BY_ID[item.equipmentId]?.name === "Steam Vent Harness"
+        );
+        if (!hasHarness) {
+            throw new ValidationError(
+                "inventory",
+                undefined,
+                "character has no Steam Vent Harness"
+            );
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            heatPoints: {
+                ...this._mutableCharacter.heatPoints,
+                current: Math.max(0, this._mutableCharacter.heatPoints.current - 2),
+            },
+            heatStressLevel: 0,
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Clear an Overheat Table effect (e.g., after repairing a steam leak or clearing a jam)
+     * @param effectId - ID of the overheat effect to clear
+     * @returns Updated character
+     * @throws ValidationError if effect not found
+     */
+    clearOverheatEffect(effectId: string): Character {
+        const effects = this._mutableCharacter.overheatEffects || [];
+        if (!effects.some((effect) => effect.id === effectId)) {
+            throw new ValidationError("effectId", effectId, "overheat effect not found");
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            overheatEffects: effects.filter((effect) => effect.id !== effectId),
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Make an Overheat Check (CON save, DC 10 + heat above the threshold)
+     * @param current - Heat points after the gain
+     * @param rolls - Dice results to use
+     * @returns The resolved check
+     */
+    private _makeOverheatCheck(current: number, rolls: OverheatRolls): OverheatCheck {
+        const { maximum } = this._mutableCharacter.heatPoints;
+        const dc = calculateOverheatDC(current, maximum);
+        const isProficient =
+            this._mutableCharacter.proficiencies?.savingThrows?.includes("constitution") || false;
+        const modifier =
+            calculateAbilityModifier(this._mutableCharacter.abilityScores.constitution) +
+            (isProficient ? calculateProficiencyBonus(this._mutableCharacter.level) : 0);
+        const roll = rolls.saveRoll ?? rollDie(20);
+        const total = roll + modifier;
+
+        if (total >= dc) {
+            // The system stabilizes
+            this._mutableCharacter = {
+                ...this._mutableCharacter,
+                heatPoints: {
+                    ...this._mutableCharacter.heatPoints,
+                    current: Math.max(0, current - 2),
+                },
+            };
+
+            return { dc, roll, modifier, total, success: true };
+        }
+
+        const result = this._applyOverheatResult(
+            getOverheatTableEntry(rolls.tableRoll ?? rollDie(6)),
+            rolls.damageRoll
+        );
+
+        return { dc, roll, modifier, total, success: false, result };
+    }
+
+    /**
+     * Apply an Overheat Table outcome to the character
+     * @param entry - The Overheat Table entry rolled
+     * @param damageRoll - Damage roll to use for self-inflicted damage
+     * @returns The applied result
+     */
+    private _applyOverheatResult(entry: OverheatTableEntry, damageRoll?: number): OverheatResult {
+        let damageTaken: number | undefined;
+        if (entry.damage) {
+            damageTaken =
+                damageRoll ?? rollDiceExpression(rollableToExpression(entry.damage)).total;
+            this._takeDamage(damageTaken);
+        }
+
+        const effect: OverheatEffect = {
+            id: crypto.randomUUID(),
+            type: entry.type,
+            name: entry.name,
+            description: entry.effect,
+            armorClassPenalty: entry.armorClassPenalty,
+            timestamp: new Date(),
+        };
+
+        if (entry.type === "Overpressure") {
+            // Jam the first equipped weapon
+            effect.inventoryItemId = this._mutableCharacter.inventory.find(
+                (item) => item.equipped && EQUIPMENT_BY_ID[item.equipmentId]?.type === "Weapon"
+            )?.id;
+        } else if (entry.type === "SystemBurnout") {
+            // Burn out a mod attached to equipped gear, falling back to any carried mod
+            const attachedModId = this._mutableCharacter.inventory
+                .filter((item) => item.equipped)
+                .flatMap((item) => item.mods)[0];
+            effect.modId = attachedModId ?? this._mutableCharacter.mods[0]?.modId;
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            overheatEffects: [...(this._mutableCharacter.overheatEffects || []), effect],
+        };
+
+        return {
+            roll: entry.roll,
+            type: entry.type,
+            name: entry.name,
+            effect: entry.effect,
+            damage: entry.damage,
+            damageTaken,
+        };
+    }
+
+    /**
+     * Apply damage, spending temporary hit points first
+     * @param amount - Damage taken
+     */
+    private _takeDamage(amount: number): void {
+        const temporary = this._mutableCharacter.hitPoints.temporary ?? 0;
+        const absorbed = Math.min(temporary, amount);
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            hitPoints: {
+                ...this._mutableCharacter.hitPoints,
+                temporary: temporary - absorbed,
+                current: Math.max(
+                    0,
+                    this._mutableCharacter.hitPoints.current - (amount - absorbed)
+                ),
+            },
+        };
+    }
+
     /**
      * Update drone hit points
      * @param droneId - ID of the drone to update
@@ -324,20 +701,252 @@ export class MutableCharacterViewModel extends CharacterViewModel {
         return this.toCharacter();
     }
 
+    // ========================================================================
+    // CONDITION METHODS
+    // ========================================================================
+
+    /**
+     * Add a condition, or refresh its duration if the character already has it
+     * @param condition - Condition to add
+     * @param durationRounds - Rounds until it ends (omit to last until removed)
+     * @returns Updated character
+     * @throws ValidationError if the duration is not a positive whole number
+     */
+    addCondition(condition: Condition, durationRounds?: number): Character {
+        if (
+            durationRounds !== undefined &&
+            (!Number.isInteger(durationRounds) || durationRounds < 1)
+        ) {
+            throw new ValidationError("durationRounds", durationRounds, "must be at least 1 round");
+        }
+
+        const { [condition]: _previous, ...durations } =
+            this._mutableCharacter.conditionDurations || {};
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            conditions: this._mutableCharacter.conditions.includes(condition)
+                ? this._mutableCharacter.conditions
+                : [...this._mutableCharacter.conditions, condition],
+            conditionDurations:
+                durationRounds === undefined
+                    ? durations
+                    : { ...durations, [condition]: durationRounds },
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Remove a condition
+     * @param condition - Condition to remove
+     * @returns Updated character
+     * @throws ValidationError if the character doesn't have the condition
+     */
+    removeCondition(condition: Condition): Character {
+        if (!this._mutableCharacter.conditions.includes(condition)) {
+            throw new ValidationError("condition", condition, "character does not have condition");
+        }
+
+        const { [condition]: _removed, ...durations } =
+            this._mutableCharacter.conditionDurations || {};
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            conditions: this._mutableCharacter.conditions.filter((c) => c !== condition),
+            conditionDurations: durations,
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Count down condition durations, removing conditions that run out
+     * @param rounds - Rounds that have passed (default 1)
+     * @returns Updated character
+     * @throws ValidationError if rounds is not positive
+     */
+    advanceConditionDurations(rounds: number = 1): Character {
+        if (rounds < 1) {
+            throw new ValidationError("rounds", rounds, "must be at least 1");
+        }
+
+        const { conditions, durations } = advanceConditionDurations(
+            this._mutableCharacter.conditions,
+            this._mutableCharacter.conditionDurations || {},
+            rounds
+        );
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            conditions,
+            conditionDurations: durations,
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Gain levels of exhaustion, up to the maximum of 6
+     * @param levels - Levels gained (default 1)
+     * @returns Updated character
+     * @throws ValidationError if levels is not a positive whole number
+     */
+    gainExhaustion(levels: number = 1): Character {
+        if (!Number.isInteger(levels) || levels < 1) {
+            throw new ValidationError("levels", levels, "must be at least 1");
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            exhaustionLevel: Math.min(
+                this._mutableCharacter.exhaustionLevel + levels,
+                MAX_EXHAUSTION_LEVEL
+            ),
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Remove levels of exhaustion
+     * @param levels - Levels removed (default 1)
+     * @returns Updated character
+     * @throws ValidationError if levels is not a positive whole number
+     */
+    removeExhaustion(levels: number = 1): Character {
+        if (!Number.isInteger(levels) || levels < 1) {
+            throw new ValidationError("levels", levels, "must be at least 1");
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            exhaustionLevel: Math.max(this._mutableCharacter.exhaustionLevel - levels, 0),
+        };
+
+        return this.toCharacter();
+    }
+
+    // ========================================================================
+    // LIMITED-USE METHODS
+    // ========================================================================
+
+    /**
+     * Spend one use of a feature that recharges on a rest (e.g., Second Wind)
+     * @param source - Species, class, subclass, background or "Feat" the feature comes from
+     * @param featureName - Name of the feature
+     * @returns Updated character
+     * @throws ValidationError if the feature has no per-rest uses or none are left
+     */
+    spendFeatureUse(source: string, featureName: string): Character {
+        const display = collectFeatures(this._mutableCharacter).find(
+            (f) => f.source === source && f.feature.name === featureName
+        );
+        const usesPerRest = display?.feature.usesPerRest;
+        if (!display || !usesPerRest) {
+            throw new ValidationError("featureName", featureName, "feature has no per-rest uses");
+        }
+
+        const key = getFeatureUseKey(display);
+        const spent = this._mutableCharacter.featureUsesSpent?.[key] || 0;
+        if (spent >= usesPerRest.amount) {
+            throw new ValidationError(
+                "featureName",
+                featureName,
+                `no uses left until a ${usesPerRest.restType} rest`
+            );
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            featureUsesSpent: {
+                ...this._mutableCharacter.featureUsesSpent,
+                [key]: spent + 1,
+            },
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Spend one use of a mod that recharges on a rest (e.g., an Overclock Coil)
+     * @param inventoryModId - ID of the mod in the character's inventory
+     * @returns Updated character
+     * @throws ValidationError if the mod is missing, has no per-rest uses, or none are left
+     */
+    spendModUse(inventoryModId: string): Character {
+        const inventoryMod = this._mutableCharacter.mods.find((m) => m.id === inventoryModId);
+        if (!inventoryMod) {
+            throw new ValidationError("inventoryModId", inventoryModId, "mod not found");
+        }
+
+        const usesPerRest = MOD_LOOKUP[inventoryMod.modId]?.usesPerRest;
+        if (!usesPerRest) {
+            throw new ValidationError("inventoryModId", inventoryModId, "mod has no per-rest uses");
+        }
+
+        const spent = this._mutableCharacter.modUsesSpent?.[inventoryModId] || 0;
+        if (spent >= usesPerRest.amount) {
+            throw new ValidationError(
+                "inventoryModId",
+                inventoryModId,
+                `no uses left until a ${usesPerRest.restType} rest`
+            );
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            modUsesSpent: {
+                ...this._mutableCharacter.modUsesSpent,
+                [inventoryModId]: spent + 1,
+            },
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Recharge the features and mods that come back on a short rest
+     * @returns Uses still spent, which only recharge on a long rest
+     */
+    private _rechargeShortRestUses(): Pick<Character, "featureUsesSpent" | "modUsesSpent"> {
+        const rechargesOnLongRest = (usesPerRest?: PerRestUse) => usesPerRest?.restType === "long";
+        const features = collectFeatures(this._mutableCharacter);
+
+        return {
+            featureUsesSpent: Object.fromEntries(
+                Object.entries(this._mutableCharacter.featureUsesSpent || {}).filter(([key]) =>
+                    rechargesOnLongRest(
+                        features.find((f) => getFeatureUseKey(f) === key)?.feature.usesPerRest
+                    )
+                )
+            ),
+            modUsesSpent: Object.fromEntries(
+                Object.entries(this._mutableCharacter.modUsesSpent || {}).filter(([id]) => {
+                    const inventoryMod = this._mutableCharacter.mods.find((m) => m.id === id);
+                    return rechargesOnLongRest(
+                        inventoryMod && MOD_LOOKUP[inventoryMod.modId]?.usesPerRest
+                    );
+                })
+            ),
+        };
+    }
+
     // ========================================================================
     // REST MECHANICS METHODS
     // ========================================================================
 
     /**
-     * Take a short rest
-     * @param hitDiceSpent - Number of hit dice to spend (optional)
+     * Take a short rest, spending hit dice to heal and recharging short-rest features and mods
+     * @param options - Hit dice to spend per class and their rolled results
      * @returns Updated character
+     * @throws ValidationError if more hit dice are spent than remain
      */
-    takeShortRest(hitDiceSpent: number = 0): Character {
+    takeShortRest(options: ShortRestOptions = {}): Character {
+        const before = this._mutableCharacter;
         const conMod = calculateAbilityModifier(this._mutableCharacter.abilityScores.constitution);
-        const primaryClass = this._mutableCharacter.classes[0];
 
-        if (!primaryClass) {
+        if (this._mutableCharacter.classes.length === 0) {
             throw new ValidationError(
                 "classes",
                 undefined,
@@ -345,16 +954,26 @@ export class MutableCharacterViewModel extends CharacterViewModel {
             );
         }
 
-        // Calculate HP restoration from hit dice
+        // Each hit die heals its roll (or average) + CON modifier, never less than 0
+        const rolls = [...(options.hitDiceRolls || [])];
+        const hitDiceSpent = { ...this._mutableCharacter.hitDiceSpent };
         let hpRestored = 0;
-        if (hitDiceSpent > 0) {
-            // Parse hit die (e.g., "1d8" -> 8)
-            const classData = CLASSES.find((c) => c.type === primaryClass.class);
-            const hitDieMatch = classData?.hitDie.match(/\d+$/);
-            const hitDie = hitDieMatch ? parseInt(hitDieMatch[0], 10) : 6;
+        for (const pool of calculateHitDice(this._mutableCharacter)) {
+            const count = options.hitDice?.[pool.class] || 0;
+            if (!Number.isInteger(count) || count < 0 || count > pool.current) {
+                throw new ValidationError(
+                    "hitDice",
+                    count,
+                    `${pool.class} has ${pool.current} d${pool.die} hit dice remaining`
+                );
+            }
 
-            // Use average roll for each hit die + CON modifier
-            hpRestored = hitDiceSpent * (Math.floor(hitDie / 2) + 1 + conMod);
+            for (let i = 0; i < count; i++) {
+                const roll = rolls.shift() ?? Math.floor(pool.die / 2) + 1;
+                validateRange("hitDiceRolls", roll, 1, pool.die);
+                hpRestored += Math.max(roll + conMod, 0);
+            }
+            hitDiceSpent[pool.class] = pool.maximum - pool.current + count;
         }
 
         const newHP = Math.min(
@@ -392,18 +1011,34 @@ export class MutableCharacterViewModel extends CharacterViewModel {
                 ...this._mutableCharacter.hitPoints,
                 current: newHP,
             },
+            hitDiceSpent,
             aetherFluxPoints: updatedAFP,
             resonanceCharges: updatedRC,
+            concentrationDisadvantage: undefined,
+            ...this._rechargeShortRestUses(),
         };
+        this._recordRest(
+            "short",
+            before,
+            Object.values(options.hitDice || {}).reduce((total, count) => total + (count || 0), 0)
+        );
 
         return this.toCharacter();
     }
 
     /**
-     * Take a long rest
+     * Take a long rest, which also recharges every feature and mod, recovers half the
+     * character's hit dice and removes one level of exhaustion
+     * @param options - Long rest options (Heat Stress only resets in a safe environment)
      * @returns Updated character
      */
-    takeLongRest(): Character {
+    takeLongRest(options: LongRestOptions = {}): Character {
+        const { safeEnvironment = false, preparedSpells } = options;
+        if (preparedSpells) {
+            this._validatePreparation(preparedSpells);
+        }
+        const before = this._mutableCharacter;
+
         // Restore all HP
         const restoredHP = {
             current: this._mutableCharacter.hitPoints.maximum,
@@ -482,34 +1117,154 @@ export class MutableCharacterViewModel extends CharacterViewModel {
             spellSlots: restoredSpellSlots,
             aetherFluxPoints: restoredAFP,
             resonanceCharges: restoredRC,
-            heatStressLevel: 0,
+            heatStressLevel: safeEnvironment ? 0 : this._mutableCharacter.heatStressLevel,
+            hitDiceSpent: this._recoverHitDice(),
+            featureUsesSpent: {},
+            modUsesSpent: {},
+            exhaustionLevel: Math.max(this._mutableCharacter.exhaustionLevel - 1, 0),
+            heatSources: [],
+            overheatEffects: [],
+            concentrationDisadvantage: undefined,
+            preparedSpells: preparedSpells
+                ? [...new Set(preparedSpells)]
+                : this._mutableCharacter.preparedSpells,
         };
+        this._recordRest("long", before);
 
         return this.toCharacter();
     }
 
+    /**
+     * Add a rest to the timeline with everything it restored
+     * @param type - Short or long rest
+     * @param before - The character before resting
+     * @param hitDiceSpent - Hit dice spent to heal on a short rest
+     */
+    private _recordRest(type: RestEvent["type"], before: Character, hitDiceSpent?: number): void {
+        const after = this._mutableCharacter;
+        const gained = (from: number = 0, to: number = 0) => (to > from ? to - from : undefined);
+        const hitDiceRemaining = (character: Character) =>
+            calculateHitDice(character).reduce((total, pool) => total + pool.current, 0);
+        const recharged = (
+            spentBefore: Record<string, number> = {},
+            spentAfter: Record<string, number> = {}
+        ) => Object.keys(spentBefore).filter((key) => (spentAfter[key] || 0) < spentBefore[key]!);
+
+        const spellSlots = Object.fromEntries(
+            Object.entries(after.spellSlots || {})
+                .map(([level, slots]) => [
+                    level,
+                    gained(before.spellSlots?.[level as keyof SpellSlots].current, slots.current),
+                ])
+                .filter(([, regained]) => regained !== undefined)
+        );
+        const featureNames = new Map(
+            collectFeatures(after).map((display) => [
+                getFeatureUseKey(display),
+                display.feature.name,
+            ])
+        );
+        const limitedUses = [
+            ...recharged(before.featureUsesSpent, after.featureUsesSpent).map(
+                (key) => featureNames.get(key) ?? key
+            ),
+            ...recharged(before.modUsesSpent, after.modUsesSpent).map(
+                (id) => MOD_LOOKUP[after.mods.find((m) => m.id === id)?.modId ?? ""]?.name ?? id
+            ),
+        ];
+
+        this._addToTimeline({
+            kind: "Rest",
+            type,
+            timestamp: new Date(),
+            hitDiceSpent: hitDiceSpent || undefined,
+            resourcesRestored: {
+                hitPoints: gained(before.hitPoints.current, after.hitPoints.current),
+                hitDice: gained(hitDiceRemaining(before), hitDiceRemaining(after)),
+                heatPoints: gained(after.heatPoints.current, before.heatPoints.current),
+                spellSlots: Object.keys(spellSlots).length > 0 ? spellSlots : undefined,
+                aetherFluxPoints: gained(
+                    before.aetherFluxPoints?.current,
+                    after.aetherFluxPoints?.current
+                ),
+                resonanceCharges: gained(
+                    before.resonanceCharges?.current,
+                    after.resonanceCharges?.current
+                ),
+                exhaustionLevels: gained(after.exhaustionLevel, before.exhaustionLevel),
+                heatStressLevels: gained(after.heatStressLevel, before.heatStressLevel),
+                limitedUses: limitedUses.length > 0 ? limitedUses : undefined,
+            },
+        });
+    }
+
+    /**
+     * Recover half the character's total hit dice (minimum 1), largest dice first
+     * @returns Hit dice still spent per class
+     */
+    private _recoverHitDice(): Partial<Record<ClassType, number>> {
+        const pools = calculateHitDice(this._mutableCharacter).sort((a, b) => b.die - a.die);
+        let recovered = Math.max(
+            Math.floor(pools.reduce((total, pool) => total + pool.maximum, 0) / 2),
+            1
+        );
+
+        const hitDiceSpent: Partial<Record<ClassType, number>> = {};
+        for (const pool of pools) {
+            const spent = pool.maximum - pool.current;
+            const regained = Math.min(spent, recovered);
+            recovered -= regained;
+            hitDiceSpent[pool.class] = spent - regained;
+        }
+
+        return hitDiceSpent;
+    }
+
     // ========================================================================
     // CHARACTER PROGRESSION METHODS
     // ========================================================================
 
     /**
-     * Level up the character
-     * 
-     * FUTURE ENHANCEMENT: This method will be enhanced to use ClassConfigurationService
-     * to apply class-specific configurations when leveling up.
-     * 
-     * Integration steps:
-     * 1. Import ClassConfigurationService
-     * 2. If options.classConfiguration is provided:
-     *    - Validate configuration using service.validateConfiguration()
-     *    - Apply configuration using service.applyConfiguration()
-     *    - Store configuration in character.classConfigurations array
-     * 3. Update spells, proficiencies, and features from configuration
-     * 4. Handle subclass selection from configuration instead of direct option
-     * 
+     * Award experience points
+     *
+     * Crossing a level's threshold doesn't level the character up by itself; the sheet
+     * prompts to start the level-up flow instead.
+     *
+     * @param experiencePoints - Experience points earned (a whole number, 0 or more)
+     * @returns Updated character
+     * @throws ValidationError if experiencePoints is negative or not a whole number
+     */
+    awardExperience(experiencePoints: number): Character {
+        if (!Number.isInteger(experiencePoints) || experiencePoints < 0) {
+            throw new ValidationError(
+                "experiencePoints",
+                experiencePoints,
+                "must be a non-negative whole number"
+            );
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            experiencePoints: (this._mutableCharacter.experiencePoints || 0) + experiencePoints,
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Level up the character in one of their classes, or multiclass into a new one
+     *
+     * Hit points, ability score improvements, features, subclass and class configuration
+     * follow the advanced class's level; proficiency bonus follows the character level, and
+     * spell slots follow the combined caster level of every class.
+     *
+     * When options.classConfiguration is provided it is validated for the class's new level
+     * (keeping the current subclass if it doesn't choose one) and applied after the
+     * level-based updates: subclass, spells and proficiencies.
+     *
      * @param options - Level up options
      * @returns Updated character
-     * @throws ValidationError if level up requirements are not met
+     * @throws ValidationError if level up requirements, multiclassing prerequisites or the class configuration are not met
      */
     levelUp(options: LevelUpOptions = {}): Character {
         const newLevel = this._mutableCharacter.level + 1;
@@ -527,127 +1282,293 @@ export class MutableCharacterViewModel extends CharacterViewModel {
             );
         }
 
-        const classData = CLASSES.find((c) => c.type === primaryClass.class);
+        const classType = options.classType ?? primaryClass.class;
+        const classData = CLASSES.find((c) => c.type === classType);
         if (!classData) {
-            throw new ValidationError("class", primaryClass.class, "invalid class type");
-        }
-
-        // FUTURE ENHANCEMENT: Check if classConfiguration is provided and validate it
-        // Example:
-        // if (options.classConfiguration) {
-        //     const service = new ClassConfigurationService();
-        //     const validation = service.validateConfiguration(
-        //         primaryClass.class,
-        //         newLevel,
-        //         options.classConfiguration
-        //     );
-        //     if (!validation.valid) {
-        //         throw new ValidationError("classConfiguration", options.classConfiguration, 
-        //             validation.errors.join(", "));
-        //     }
-        // }
-
-        // Check for subclass requirement at level 3
-        // FUTURE ENHANCEMENT: This will be handled by classConfiguration.subclass
-        if (newLevel === 3 && !primaryClass.subclass && !options.subclass) {
+            throw new ValidationError("class", classType, "invalid class type");
+        }
+
+        const currentClass = this._mutableCharacter.classes.find((c) => c.class === classType);
+        if (!currentClass && !canMulticlassInto(this._mutableCharacter, classType)) {
+            const prerequisites = [
+                classType,
+                ...this._mutableCharacter.classes.map((c) => c.class),
+            ].map((c) => `${c}: ${formatMulticlassPrerequisite(c)}`);
+            throw new ValidationError(
+                "classType",
+                classType,
+                `multiclassing requires ${prerequisites.join("; ")}`
+            );
+        }
+        const classLevel = (currentClass?.level ?? 0) + 1;
+
+        const classConfiguration = options.classConfiguration && {
+            ...options.classConfiguration,
+            classType,
+            level: classLevel,
+            subclass: options.classConfiguration.subclass ?? currentClass?.subclass,
+        };
+        if (classConfiguration) {
+            const validation = classConfigurationService.validateConfiguration(
+                classType,
+                classLevel,
+                classConfiguration,
+                this._mutableCharacter
+            );
+            if (!validation.valid) {
+                throw new ValidationError(
+                    "classConfiguration",
+                    options.classConfiguration,
+                    validation.errors.join(", ")
+                );
+            }
+        }
+
+        // Check for subclass requirement at the class's subclass level
+        const subclassType =
+            classConfiguration?.subclass ?? options.subclass ?? currentClass?.subclass;
+        const subclassLevel = classConfigurationService.getSubclassSelectionLevel(classType);
+        if (classLevel === subclassLevel && !subclassType) {
             throw new ValidationError(
                 "subclass",
                 undefined,
-                "subclass selection required at level 3"
+                `subclass selection required at ${classType} level ${subclassLevel}`
             );
         }
 
-        // Calculate HP increase
-        const conMod = calculateAbilityModifier(this._mutableCharacter.abilityScores.constitution);
+        const updatedClasses = currentClass
+            ? this._mutableCharacter.classes.map((c) =>
+                  c.class === classType ? { ...c, level: classLevel, subclass: subclassType } : c
+              )
+            : [
+                  ...this._mutableCharacter.classes,
+                  { class: classType, level: classLevel, subclass: subclassType },
+              ];
+
+        // Apply an ability score improvement or feat before anything derived from ability scores
+        const previous = this._mutableCharacter;
+        const { abilityScores, feat } = this._improveAbilityScores(classLevel, options);
+        const feats = feat ? [...(previous.feats || []), feat.id] : previous.feats;
+        const skillProficiency = feat?.effects.skillProficiency;
+        this._mutableCharacter = {
+            ...previous,
+            abilityScores,
+            ...(feat && { feats }),
+            skills: skillProficiency
+                ? {
+                      ...previous.skills,
+                      [skillProficiency]: {
+                          ...previous.skills[skillProficiency],
+                          proficient: true,
+                      },
+                  }
+                : previous.skills,
+            speed: previous.speed + (feat?.effects.speedBonus || 0),
+            heatPoints: {
+                ...previous.heatPoints,
+                maximum: previous.heatPoints.maximum + (feat?.effects.heatCapacityBonus || 0),
+            },
+        };
+
+        // Calculate HP increase, including hit points earlier levels gain from a higher
+        // Constitution modifier or a new feat
+        const conMod = Math.max(calculateAbilityModifier(abilityScores.constitution), 0);
+        const previousConMod = Math.max(
+            calculateAbilityModifier(previous.abilityScores.constitution),
+            0
+        );
+        const featHitPointsPerLevel = (feats || []).reduce(
+            (total, featId) => total + (FEATS_BY_ID[featId]?.effects.hitPointsPerLevel || 0),
+            0
+        );
         const hitDieMatch = classData.hitDie.match(/\d+$/);
         const hitDie = hitDieMatch ? parseInt(hitDieMatch[0], 10) : 6;
         const hpIncrease =
-            (options.hitPointRoll ?? Math.floor(hitDie / 2) + 1) + Math.max(conMod, 0);
+            (options.hitPointRoll ?? Math.floor(hitDie / 2) + 1) +
+            conMod +
+            featHitPointsPerLevel +
+            (conMod - previousConMod + (feat?.effects.hitPointsPerLevel || 0)) * previous.level;
 
-        // Update proficiency bonus if needed
+        // Recalculate skills for the new proficiency bonus and ability scores
         const newProfBonus = calculateProficiencyBonus(newLevel);
-        const oldProfBonus = calculateProficiencyBonus(this._mutableCharacter.level);
+        const updatedSkills = this._recalculateSkills(newProfBonus);
 
-        // Recalculate skills if proficiency bonus changed
-        const updatedSkills =
-            oldProfBonus !== newProfBonus
-                ? this._recalculateSkills(newProfBonus)
-                : this._mutableCharacter.skills;
-
-        // Update spell slots for spellcasters
-        const updatedSpellSlots = this._updateSpellSlotsForLevel(newLevel);
+        // Update spell slots for spellcasters, starting them when multiclassing into one
+        const updatedSpellSlots = this._updateSpellSlots(
+            updatedClasses,
+            !currentClass && !!classData.spellcasting
+        );
 
         // Update AFP maximum
+        const afpMaximum = this._calculateAFPMaximum(updatedClasses);
         const updatedAFP = this._mutableCharacter.aetherFluxPoints
-            ? {
-                  ...this._mutableCharacter.aetherFluxPoints,
-                  maximum: this._calculateAFPMaximum(newLevel),
-              }
-            : undefined;
+            ? { ...this._mutableCharacter.aetherFluxPoints, maximum: afpMaximum }
+            : !currentClass && classData.primaryResource === "AetherFluxPoints"
+              ? this._createRechargingPool(afpMaximum)
+              : undefined;
+
+        // Update RC maximum
+        const rcMaximum = this._calculateRCMaximum(updatedClasses);
+        const updatedRC = this._mutableCharacter.resonanceCharges
+            ? { ...this._mutableCharacter.resonanceCharges, maximum: rcMaximum }
+            : !currentClass && classData.primaryResource === "ResonanceCharges"
+              ? this._createRechargingPool(rcMaximum)
+              : undefined;
+
+        // Update character
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            level: newLevel,
+            classes: updatedClasses,
+            hitPoints: {
+                ...this._mutableCharacter.hitPoints,
+                maximum: this._mutableCharacter.hitPoints.maximum + hpIncrease,
+                current: this._mutableCharacter.hitPoints.current + hpIncrease,
+            },
+            skills: updatedSkills,
+            spellSlots: updatedSpellSlots,
+            aetherFluxPoints: updatedAFP,
+            resonanceCharges: updatedRC,
+        };
+
+        // Dexterity and feats feed armor class and initiative
+        if (abilityScores !== previous.abilityScores || feat) {
+            this._recalculateArmorClass();
+            this._recalculateInitiative();
+        }
+
+        // Spells are learned at the new level with the same checks as learnSpell(); one that
+        // can't be learned undoes the level up
+        try {
+            if (classConfiguration) {
+                this._mutableCharacter = classConfigurationService.applyConfiguration(
+                    structuredClone(this._mutableCharacter),
+                    classConfiguration
+                );
+            }
+            (options.spellsLearned || []).forEach((spellName) => this.learnSpell(spellName));
+        } catch (error) {
+            this._mutableCharacter = previous;
+            throw error;
+        }
+
+        const subclass = classData.subclasses.find((s) => s.type === subclassType);
+        this._addToTimeline({
+            kind: "LevelUp",
+            newLevel,
+            classType,
+            hitPointIncrease: hpIncrease,
+            featuresGained: [...classData.features, ...(subclass?.features || [])].filter(
+                (feature) => feature.level === classLevel
+            ),
+            timestamp: new Date(),
+        });
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Validate and apply the ability score improvement or feat chosen on level up
+     * @param classLevel - The advanced class's new level
+     * @param options - Level up options
+     * @returns Improved ability scores, and the feat taken if any
+     * @throws ValidationError if both or an invalid feat are chosen, or a score would exceed 20
+     */
+    private _improveAbilityScores(
+        classLevel: number,
+        options: LevelUpOptions
+    ): { abilityScores: AbilityScores; feat?: Feat } {
+        const { abilityScoreImprovement, feat: featChoice } = options;
+        const abilityScores = this._mutableCharacter.abilityScores;
+
+        if (abilityScoreImprovement && featChoice) {
+            throw new ValidationError(
+                "feat",
+                featChoice.featId,
+                "choose an ability score improvement or a feat, not both"
+            );
+        }
+        if (!ABILITY_SCORE_IMPROVEMENT_LEVELS.includes(classLevel)) {
+            if (featChoice) {
+                throw new ValidationError(
+                    "feat",
+                    featChoice.featId,
+                    `feats are only available at class levels ${ABILITY_SCORE_IMPROVEMENT_LEVELS.join(", ")}`
+                );
+            }
+            return { abilityScores };
+        }
+
+        const increases: (keyof AbilityScores)[] = [];
+        if (abilityScoreImprovement) {
+            const { ability1, ability2 } = abilityScoreImprovement;
+            increases.push(ability1, ...(ability2 ? [ability2] : []));
+        }
+
+        const feat = featChoice && FEATS_BY_ID[featChoice.featId];
+        if (featChoice) {
+            if (!feat) {
+                throw new ValidationError("feat", featChoice.featId, "unknown feat");
+            }
+            if (this._mutableCharacter.feats?.includes(feat.id)) {
+                throw new ValidationError("feat", feat.id, "feat already taken");
+            }
+            if (!meetsFeatPrerequisite(feat, this._mutableCharacter)) {
+                throw new ValidationError(
+                    "feat",
+                    feat.id,
+                    `requires ${formatFeatPrerequisite(feat)}`
+                );
+            }
+
+            const choices = feat.effects.abilityScoreIncrease;
+            if (choices) {
+                const ability =
+                    featChoice.ability ?? (choices.length === 1 ? choices[0] : undefined);
+                if (!ability || !choices.includes(ability)) {
+                    throw new ValidationError(
+                        "feat.ability",
+                        featChoice.ability,
+                        `must be one of ${choices.join(", ")}`
+                    );
+                }
+                increases.push(ability);
+            }
+        }
 
-        // Update RC maximum
-        const updatedRC = this._mutableCharacter.resonanceCharges
-            ? {
-                  ...this._mutableCharacter.resonanceCharges,
-                  maximum: this._calculateRCMaximum(newLevel),
-              }
-            : undefined;
+        if (increases.length === 0) {
+            return { abilityScores, feat };
+        }
 
-        // Apply ability score improvements if applicable
-        let updatedAbilityScores = { ...this._mutableCharacter.abilityScores };
-        if (options.abilityScoreImprovement && [4, 8, 12, 16, 19].includes(newLevel)) {
-            const { ability1, ability2 } = options.abilityScoreImprovement;
-            updatedAbilityScores[ability1] += 1;
-            if (ability2) {
-                updatedAbilityScores[ability2] += 1;
+        const improved = { ...abilityScores };
+        for (const ability of increases) {
+            improved[ability] += 1;
+            if (improved[ability] > MAX_ABILITY_SCORE) {
+                throw new ValidationError(
+                    ability,
+                    improved[ability],
+                    `ability scores cannot exceed ${MAX_ABILITY_SCORE}`
+                );
             }
         }
 
-        // FUTURE ENHANCEMENT: Apply class configuration if provided
-        // Example:
-        // let updatedCharacter = { ...this._mutableCharacter };
-        // if (options.classConfiguration) {
-        //     const service = new ClassConfigurationService();
-        //     updatedCharacter = service.applyConfiguration(
-        //         updatedCharacter,
-        //         options.classConfiguration
-        //     );
-        // }
+        return { abilityScores: improved, feat };
+    }
+
+    /**
+     * Recalculate initiative from Dexterity and feat bonuses
+     */
+    private _recalculateInitiative(): void {
+        const featBonus = (this._mutableCharacter.feats || []).reduce(
+            (total, featId) => total + (FEATS_BY_ID[featId]?.effects.initiativeBonus || 0),
+            0
+        );
 
-        // Update character
         this._mutableCharacter = {
             ...this._mutableCharacter,
-            level: newLevel,
-            classes: [
-                {
-                    ...primaryClass,
-                    level: newLevel,
-                    // FUTURE ENHANCEMENT: Use options.classConfiguration?.subclass if provided
-                    subclass: options.subclass ?? primaryClass.subclass,
-                },
-            ],
-            hitPoints: {
-                ...this._mutableCharacter.hitPoints,
-                maximum: this._mutableCharacter.hitPoints.maximum + hpIncrease,
-                current: this._mutableCharacter.hitPoints.current + hpIncrease,
-            },
-            abilityScores: updatedAbilityScores,
-            skills: updatedSkills,
-            spellSlots: updatedSpellSlots,
-            aetherFluxPoints: updatedAFP,
-            resonanceCharges: updatedRC,
-            // FUTURE ENHANCEMENT: Spells will be handled by classConfiguration.spellsSelected
-            spells: options.spellsLearned
-                ? [...this._mutableCharacter.spells, ...options.spellsLearned]
-                : this._mutableCharacter.spells,
-            // FUTURE ENHANCEMENT: Store class configuration
-            // classConfigurations: [
-            //     ...(this._mutableCharacter.classConfigurations || []),
-            //     options.classConfiguration
-            // ].filter(Boolean)
+            initiative:
+                calculateInitiative(this._mutableCharacter.abilityScores.dexterity) + featBonus,
         };
-
-        return this.toCharacter();
     }
 
     /**
@@ -699,71 +1620,80 @@ export class MutableCharacterViewModel extends CharacterViewModel {
     }
 
     /**
-     * Update spell slots for new level
-     * @param level - New character level
-     * @returns Updated spell slots or undefined
+     * Update spell slot maximums for the combined caster level of the character's classes
+     * @param classes - Classes after leveling up
+     * @param startSpellcasting - Create spell slots if the character has none yet
+     * @returns Updated spell slots or undefined; newly gained slots are available right away
      */
-    private _updateSpellSlotsForLevel(level: number): SpellSlots | undefined {
-        if (!this._mutableCharacter.spellSlots) {
+    private _updateSpellSlots(
+        classes: CharacterClass[],
+        startSpellcasting: boolean
+    ): SpellSlots | undefined {
+        const spellSlots = this._mutableCharacter.spellSlots;
+        if (!spellSlots && !startSpellcasting) {
             return undefined;
         }
 
-        // Spell slot progression table (simplified - would need full table for production)
-        // This is a basic implementation - full implementation would reference spell slot tables
-        const spellSlotsByLevel: Record<number, Partial<Record<keyof SpellSlots, number>>> = {
-            1: { level1: 2 },
-            2: { level1: 3 },
-            3: { level1: 4, level2: 2 },
-            4: { level1: 4, level2: 3 },
-            5: { level1: 4, level2: 3, level3: 2 },
-            // ... would continue for all levels
-        };
-
-        const newSlots = spellSlotsByLevel[level] || {};
-        const updatedSpellSlots = { ...this._mutableCharacter.spellSlots };
-
-        for (const [slotLevel, maxSlots] of Object.entries(newSlots)) {
-            const key = slotLevel as keyof SpellSlots;
-            if (maxSlots !== undefined) {
-                updatedSpellSlots[key] = {
-                    current: maxSlots,
-                    maximum: maxSlots,
-                };
-            }
+        const maximums = calculateSpellSlotMaximums(classes);
+        const updatedSpellSlots = { ...spellSlots } as SpellSlots;
+
+        for (const slotLevel of Object.keys(maximums) as (keyof SpellSlots)[]) {
+            const slots = spellSlots?.[slotLevel];
+            const maximum = maximums[slotLevel];
+            const gained = maximum - (slots?.maximum ?? 0);
+            updatedSpellSlots[slotLevel] = {
+                current: Math.max(Math.min((slots?.current ?? 0) + gained, maximum), 0),
+                maximum,
+            };
         }
 
         return updatedSpellSlots;
     }
 
     /**
-     * Calculate AFP maximum for level
-     * @param level - Character level
-     * @returns AFP maximum
+     * Calculate AFP maximum
+     * @param classes - The character's classes
+     * @returns AFP maximum: levels in AFP classes + their primary ability modifier
      */
-    private _calculateAFPMaximum(level: number): number {
+    private _calculateAFPMaximum(classes: CharacterClass[]): number {
         // AFP = Level + Ability Modifier (INT or WIS depending on class)
-        const primaryClass = this._mutableCharacter.classes[0];
-        if (!primaryClass) return 0;
-
-        const classData = CLASSES.find((c) => c.type === primaryClass.class);
-        const abilityMod = classData
-            ? calculateAbilityModifier(
-                  this._mutableCharacter.abilityScores[classData.primaryAbility]
-              )
-            : 0;
+        const afpClasses = classes
+            .map((cls) => ({ level: cls.level, data: CLASSES.find((c) => c.type === cls.class) }))
+            .filter((cls) => cls.data?.primaryResource === "AetherFluxPoints");
+        if (afpClasses.length === 0) return 0;
 
-        return level + abilityMod;
+        const abilityMod = calculateAbilityModifier(
+            this._mutableCharacter.abilityScores[afpClasses[0]!.data!.primaryAbility]
+        );
+        return afpClasses.reduce((total, cls) => total + cls.level, 0) + abilityMod;
     }
 
     /**
-     * Calculate RC maximum for level
-     * @param level - Character level
+     * Calculate RC maximum
+     * @param classes - The character's classes
      * @returns RC maximum
      */
-    private _calculateRCMaximum(level: number): number {
+    private _calculateRCMaximum(classes: CharacterClass[]): number {
         // RC = Templar Level + Wisdom modifier
+        const templarLevel = classes.find((cls) => cls.class === "Templar")?.level ?? 0;
         const wisMod = calculateAbilityModifier(this._mutableCharacter.abilityScores.wisdom);
-        return level + wisMod;
+        return templarLevel + wisMod;
+    }
+
+    /**
+     * Start a full AFP or RC pool for a class gained by multiclassing
+     * @param maximum - Pool maximum
+     * @returns The pool, recharging half on a short rest and all on a long rest
+     */
+    private _createRechargingPool(maximum: number): AetherFluxPoints {
+        return {
+            current: maximum,
+            maximum,
+            rechargeRate: {
+                shortRest: Math.floor(maximum / 2),
+                longRest: maximum,
+            },
+        };
     }
 
     // ========================================================================
@@ -1021,32 +1951,11 @@ export class MutableCharacterViewModel extends CharacterViewModel {
      * @throws ValidationError if character cannot learn spells or spell is invalid
      */
     learnSpell(spellName: string): Character {
-        // Check if character can learn spells
-        const primaryClass = this._mutableCharacter.classes[0];
-        if (!primaryClass) {
-            throw new ValidationError(
-                "classes",
-                undefined,
-                "character must have at least one class"
-            );
-        }
-
-        const classData = CLASSES.find((c) => c.type === primaryClass.class);
-        if (!classData?.spellcasting) {
-            throw new ValidationError(
-                "spellcasting",
-                primaryClass.class,
-                "character class cannot learn spells"
-            );
-        }
-
-        // Check if spell is already known
-        if (this._mutableCharacter.spells.includes(spellName)) {
-            throw new ValidationError("spellName", spellName, "spell already known");
+        const error = getSpellLearningError(this._mutableCharacter, spellName);
+        if (error) {
+            throw new ValidationError("spellName", spellName, error);
         }
 
-        // TODO: Add spell level validation when spell data is available
-
         this._mutableCharacter = {
             ...this._mutableCharacter,
             spells: [...this._mutableCharacter.spells, spellName],
@@ -1069,11 +1978,45 @@ export class MutableCharacterViewModel extends CharacterViewModel {
         this._mutableCharacter = {
             ...this._mutableCharacter,
             spells: this._mutableCharacter.spells.filter((s) => s !== spellName),
+            preparedSpells: this._mutableCharacter.preparedSpells?.filter((s) => s !== spellName),
         };
 
         return this.toCharacter();
     }
 
+    /**
+     * Check the spells chosen for a day's preparation
+     * @param spellNames - Spells to prepare
+     * @throws ValidationError if a spell isn't known or needn't be prepared, or there are too many
+     */
+    private _validatePreparation(spellNames: string[]): void {
+        const { classes, spells } = this._mutableCharacter;
+
+        for (const spellName of spellNames) {
+            const spell = SPELLS_BY_NAME[spellName];
+            if (!spell || !spells.includes(spellName)) {
+                throw new ValidationError("preparedSpells", spellName, "spell not known");
+            }
+            if (!requiresPreparation(classes, spell)) {
+                throw new ValidationError(
+                    "preparedSpells",
+                    spellName,
+                    `${spellName} is always ready and can't be prepared`
+                );
+            }
+        }
+
+        const maximum = getSpellLimits(classes, this.abilityScores).spellsPrepared || 0;
+        const count = new Set(spellNames).size;
+        if (count > maximum) {
+            throw new ValidationError(
+                "preparedSpells",
+                count,
+                `preparing ${count} spells, the limit is ${maximum}`
+            );
+        }
+    }
+
     /**
      * Learn a new mindcraft power
      * @param power - Mindcraft power to learn
@@ -1124,4 +2067,457 @@ export class MutableCharacterViewModel extends CharacterViewModel {
 
         return this.toCharacter();
     }
+
+    /**
+     * Record a roll in the character's roll log, dropping the oldest entries beyond the limit
+     * @param roll - The roll to record
+     * @returns Updated character
+     * @throws ValidationError if the roll has no results
+     */
+    recordRoll(roll: Omit<RollLogEntry, "id" | "timestamp">): Character {
+        if (roll.results.length === 0) {
+            throw new ValidationError("results", roll.results, "must contain at least one roll");
+        }
+
+        const entry: RollLogEntry = {
+            ...roll,
+            id: crypto.randomUUID(),
+            timestamp: new Date(),
+        };
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            rollHistory: [...(this._mutableCharacter.rollHistory || []), entry].slice(
+                -MAX_ROLL_HISTORY
+            ),
+        };
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Clear the character's roll log
+     * @returns Updated character
+     */
+    clearRollHistory(): Character {
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            rollHistory: [],
+        };
+
+        return this.toCharacter();
+    }
+
+    // ========================================================================
+    // SPELLCASTING METHODS
+    // ========================================================================
+
+    /**
+     * Cast a known spell, spending its cost and gaining its heat (Chapter 9)
+     *
+     * Leveled spells cost AFP (Formulae) or RC (Miracles) for their slot level, or a spell slot
+     * of that level for a character without the pool. Cantrips are free. Casting at a higher
+     * slot level than the spell's own costs 1 more AFP or RC per level.
+     *
+     * An Overclocked Formula costs 1 more AFP and adds the Overclock's heat. A Templar out of RC
+     * can Overchannel a Miracle by burning 2 HP per spell level, which also adds heat. The
+     * natural 1 on an Overclocked attack and the Faith Feedback check are rolled afterwards; see
+     * rollOverheatTable() and sufferFaithFeedback(). A safe casting spends a use of Reactor
+     * Tuning or Safe Overchannel instead of adding heat, and skips those rolls.
+     *
+     * @param spellName - Name of the spell to cast
+     * @param options - Slot level, casting mode and dice results
+     * @returns Updated character
+     * @throws ValidationError if the spell isn't known, a condition prevents casting, the slot level can't be cast, the casting mode isn't available, or the cost can't be paid
+     */
+    castSpell(spellName: string, options: CastSpellOptions = {}): Character {
+        const { casting = "Normal", safe = false, rolls = {} } = options;
+        const spell = SPELLS_BY_NAME[spellName];
+        if (!spell || !this._mutableCharacter.spells.includes(spellName)) {
+            throw new ValidationError("spellName", spellName, "spell not known");
+        }
+
+        if (
+            requiresPreparation(this._mutableCharacter.classes, spell) &&
+            !this._mutableCharacter.preparedSpells?.includes(spellName)
+        ) {
+            throw new ValidationError(
+                "spellName",
+                spellName,
+                `${spell.hollowgearName || spell.name} isn't prepared`
+            );
+        }
+
+        const preventedBy = this._mutableCharacter.conditions.filter(
+            (condition) =>
+                CONDITIONS_BY_NAME[condition].effects.cannotCastSpells ||
+                CONDITIONS_BY_NAME[condition].effects.incapacitated
+        );
+        if (preventedBy.length > 0) {
+            throw new ValidationError(
+                "conditions",
+                preventedBy,
+                `can't cast spells while ${preventedBy.join(", ")}`
+            );
+        }
+
+        const level = options.slotLevel ?? spell.level;
+        const castableLevels = getCastableLevels(
+            spell,
+            getMaxSpellLevel(this._mutableCharacter.classes)
+        );
+        if (!castableLevels.includes(level)) {
+            throw new ValidationError(
+                "slotLevel",
+                level,
+                castableLevels.length > 0
+                    ? `must be one of ${castableLevels.join(", ")} for ${spell.name}`
+                    : `level ${spell.level} spells are beyond the character's reach`
+            );
+        }
+
+        const resource = getSpellResource(this._mutableCharacter, spell);
+        const name = spell.hollowgearName || spell.name;
+        let heat = spell.heatGenerated || 0;
+        let source = `Cast ${name}`;
+
+        const rule =
+            casting === "Normal"
+                ? undefined
+                : OVERCLOCK_RULES_BY_TYPE[casting === "Overclock" ? "Formula" : casting];
+        const safeUses = safe ? rule?.safeUses : undefined;
+        if (safe && !safeUses) {
+            throw new ValidationError("safe", safe, "only an Overclock or Overchannel can be safe");
+        }
+
+        if (casting === "Overclock") {
+            this._validateOverclock(spell, resource);
+            source = `Overclocked ${name}`;
+        }
+
+        // A casting that can't be paid for in full leaves the character as it was
+        const before = this._mutableCharacter;
+        try {
+            if (safeUses) {
+                this._spendSafeUse(safeUses);
+            } else if (rule) {
+                heat += rule.heatGenerated;
+            }
+
+            if (casting === "Overchannel") {
+                this._overchannel(spell, level, resource);
+                source = `Overchannelled ${name}`;
+            } else if (level > 0) {
+                this._spendSpellCost(spell, level, resource, casting);
+            }
+
+            if (heat > 0) {
+                this.gainHeat(heat, source, rolls);
+            }
+        } catch (error) {
+            this._mutableCharacter = before;
+            throw error;
+        }
+
+        return this.toCharacter();
+    }
+
+    /**
+     * Suffer a failed Faith Feedback check after Overchannelling (Chapter 9)
+     *
+     * The Templar gains a level of Heat Stress and 1d4 Heat, and has disadvantage on
+     * concentration checks until their next rest.
+     *
+     * @param heatRoll - Heat die result (rolled if not provided)
+     * @param rolls - Dice results for an Overheat Check if the heat triggers one
+     * @returns Updated character
+     */
+    sufferFaithFeedback(heatRoll?: number, rolls: OverheatRolls = {}): Character {
+        const { feedbackHeat } = OVERCLOCK_RULES_BY_TYPE.Overchannel;
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            heatStressLevel: Math.min(
+                MAX_HEAT_STRESS_LEVEL,
+                this._mutableCharacter.heatStressLevel + 1
+            ),
+            concentrationDisadvantage: "Faith Feedback",
+        };
+
+        return feedbackHeat
+            ? this.gainHeat(
+                  heatRoll ?? rollDiceExpression(rollableToExpression(feedbackHeat)).total,
+                  "Faith Feedback",
+                  rolls
+              )
+            : this.toCharacter();
+    }
+
+    /**
+     * Spend a use of the class feature that makes an Overclock or Overchannel free of risk
+     * @param safeUses - The feature and the class it comes from
+     * @throws ValidationError if the character lacks the feature or has no uses left
+     */
+    private _spendSafeUse({ source, feature }: { source: ClassType; feature: string }): void {
+        const hasFeature = collectFeatures(this._mutableCharacter).some(
+            (display) => display.source === source && display.feature.name === feature
+        );
+        if (!hasFeature) {
+            throw new ValidationError("safe", true, `needs the ${source} feature ${feature}`);
+        }
+
+        this.spendFeatureUse(source, feature);
+    }
+
+    /**
+     * Check a spell can be Overclocked
+     * @throws ValidationError if the spell isn't overclockable, isn't cast with AFP, or a condition prevents Overclocking
+     */
+    private _validateOverclock(spell: Spell, resource: SpellResource | undefined): void {
+        if (!spell.overclockable) {
+            throw new ValidationError("casting", "Overclock", `${spell.name} can't be Overclocked`);
+        }
+
+        if (resource !== "aetherFluxPoints") {
+            throw new ValidationError(
+                "casting",
+                "Overclock",
+                "only Formulae cast with Aether Flux Points can be Overclocked"
+            );
+        }
+
+        const preventedBy = this._mutableCharacter.conditions.filter(
+            (condition) => CONDITIONS_BY_NAME[condition].effects.cannotOverclock
+        );
+        if (preventedBy.length > 0) {
+            throw new ValidationError(
+                "conditions",
+                preventedBy,
+                `can't Overclock while ${preventedBy.join(", ")}`
+            );
+        }
+    }
+
+    /**
+     * Pay for an Overchannelled Miracle with hit points: 2 per spell level
+     * @throws ValidationError if the spell isn't cast with RC, there's enough RC to cast it normally, or too few hit points are left
+     */
+    private _overchannel(
+        spell: Spell,
+        slotLevel: number,
+        resource: SpellResource | undefined
+    ): void {
+        if (resource !== "resonanceCharges" || slotLevel === 0) {
+            throw new ValidationError(
+                "casting",
+                "Overchannel",
+                "only Miracles cast with Resonance Charges can be Overchannelled"
+            );
+        }
+
+        const charges = this._mutableCharacter.resonanceCharges!.current;
+        if (charges >= getAetherCost(spell, slotLevel)) {
+            throw new ValidationError(
+                "casting",
+                "Overchannel",
+                `enough RC to cast ${spell.name} normally`
+            );
+        }
+
+        const hitPoints = getOverchannelHitPoints(slotLevel);
+        const { current } = this._mutableCharacter.hitPoints;
+        if (current <= hitPoints) {
+            throw new ValidationError(
+                "hitPoints.current",
+                current,
+                `Overchannelling ${spell.name} burns ${hitPoints} HP, only ${current} left`
+            );
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            hitPoints: { ...this._mutableCharacter.hitPoints, current: current - hitPoints },
+        };
+    }
+
+    /**
+     * Spend the AFP, RC or spell slot a leveled spell costs at a slot level
+     * @throws ValidationError if the character has no resource for the spell or too little of it
+     */
+    private _spendSpellCost(
+        spell: Spell,
+        slotLevel: number,
+        resource: SpellResource | undefined,
+        casting: CastingMode
+    ): void {
+        if (resource === "spellSlots") {
+            const spellSlots = this._mutableCharacter.spellSlots!;
+            const slotKey = `level${slotLevel}` as keyof SpellSlots;
+            if (spellSlots[slotKey].current < 1) {
+                throw new ValidationError(
+                    `spellSlots.${slotKey}.current`,
+                    spellSlots[slotKey].current,
+                    `no level ${slotLevel} spell slots left`
+                );
+            }
+
+            this._mutableCharacter = {
+                ...this._mutableCharacter,
+                spellSlots: {
+                    ...spellSlots,
+                    [slotKey]: { ...spellSlots[slotKey], current: spellSlots[slotKey].current - 1 },
+                },
+            };
+            return;
+        }
+
+        if (!resource) {
+            throw new ValidationError(
+                "spellcasting",
+                spell.name,
+                "character has no spell slots, Aether Flux Points or Resonance Charges"
+            );
+        }
+
+        const cost = getAetherCost(spell, slotLevel, casting);
+        const { current } = this._mutableCharacter[resource]!;
+        const abbreviation = resource === "aetherFluxPoints" ? "AFP" : "RC";
+        if (current < cost) {
+            throw new ValidationError(
+                `${resource}.current`,
+                current,
+                `${spell.name} needs ${cost} ${abbreviation} at level ${slotLevel}, only ${current} left`
+            );
+        }
+
+        if (resource === "aetherFluxPoints") {
+            this.updateAetherFluxPoints(current - cost);
+        } else {
+            this.updateResonanceCharges(current - cost);
+        }
+    }
+
+    // ========================================================================
+    // LANGUAGE METHODS
+    // ========================================================================
+
+    /**
+     * Spend downtime learning a language (Chapter 10)
+     *
+     * The first call starts training and pays the method's cost; later calls add days until
+     * the method's time is reached and the language is learned. A Psionic Imprint is learned at
+     * once but forgotten after its temporary days.
+     *
+     * @param language - Language to learn
+     * @param method - How it is being learned
+     * @param days - Downtime days spent
+     * @returns Updated character
+     * @throws ValidationError if the language is known, training uses another method, or the cost can't be paid
+     */
+    learnLanguage(language: Language, method: LanguageLearningMethodType, days: number): Character {
+        if (!Number.isInteger(days) || days < 0) {
+            throw new ValidationError("days", days, "must be a non-negative whole number");
+        }
+
+        const now = Date.now();
+        const temporaryLanguages = (this._mutableCharacter.temporaryLanguages || []).filter(
+            (temporary) => new Date(temporary.expiresAt).getTime() > now
+        );
+        if (
+            this._mutableCharacter.languages.includes(language) ||
+            temporaryLanguages.some((temporary) => temporary.language === language)
+        ) {
+            throw new ValidationError("language", language, "is already known");
+        }
+
+        const learningMethod = LANGUAGE_LEARNING_METHODS_BY_TYPE[method];
+        const languageTraining = this._mutableCharacter.languageTraining || [];
+        const training = languageTraining.find((t) => t.language === language);
+        if (training && training.method !== method) {
+            throw new ValidationError(
+                "method",
+                method,
+                `${language} is already being learned by ${LANGUAGE_LEARNING_METHODS_BY_TYPE[training.method].name}`
+            );
+        }
+
+        const currency = training
+            ? this._mutableCharacter.currency
+            : spendCurrency(this._mutableCharacter.currency, learningMethod.cost);
+        const daysSpent = (training?.daysSpent || 0) + days;
+        const otherTraining = languageTraining.filter((t) => t.language !== language);
+
+        if (daysSpent < learningMethod.days) {
+            this._mutableCharacter = {
+                ...this._mutableCharacter,
+                currency,
+                languageTraining: [...otherTraining, { language, method, daysSpent }],
+            };
+            return this.toCharacter();
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            currency,
+            languageTraining: otherTraining,
+            ...(learningMethod.temporaryDays
+                ? {
+                      temporaryLanguages: [
+                          ...temporaryLanguages,
+                          {
+                              language,
+                              expiresAt: new Date(
+                                  now + learningMethod.temporaryDays * 24 * 60 * 60 * 1000
+                              ),
+                          },
+                      ],
+                  }
+                : { languages: [...this._mutableCharacter.languages, language] }),
+        };
+
+        return this.toCharacter();
+    }
+
+    // ========================================================================
+    // PERSONALITY METHODS
+    // ========================================================================
+
+    /**
+     * Replace some or all of the character's traits, ideals, bonds and flaws
+     * @param personality - Aspects to replace; entries are trimmed and blank ones dropped
+     * @returns Updated character
+     */
+    updatePersonality(personality: Partial<Personality>): Character {
+        const updated: Partial<Personality> = {};
+        for (const aspect of PERSONALITY_ASPECTS) {
+            const entries = personality[aspect];
+            if (entries) {
+                updated[aspect] = entries
+                    .map((entry) => entry.trim())
+                    .filter((entry) => entry.length > 0);
+            }
+        }
+
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            ...updated,
+        };
+
+        return this.toCharacter();
+    }
+
+    // ========================================================================
+    // TIMELINE METHODS
+    // ========================================================================
+
+    /**
+     * Append an event to the character's timeline
+     * @param event - The rest or level-up that just happened
+     */
+    private _addToTimeline(event: CharacterEvent): void {
+        this._mutableCharacter = {
+            ...this._mutableCharacter,
+            timeline: [...(this._mutableCharacter.timeline || []), event],
+        };
+    }
 }
@@ -0,0 +1,63 @@
+import { FIRST_NAMES_BY_SPECIES, LAST_NAMES_BY_SPECIES } from "@/data/names";
+import { describe, expect, it } from "vitest";
+import { buildNameModel, generateName, inventName, splitName } from "./name-utils";
+
+describe("Name Utilities", () => {
+    describe("splitName", () => {
+        it("should split the first word from the rest", () => {
+            expect(splitName(" Lyrra  Quenchcoil ")).toEqual({
+                first: "Lyrra",
+                last: "Quenchcoil",
+            });
+            expect(splitName("Kaen of the Ninth Mast")).toEqual({
+                first: "Kaen",
+                last: "of the Ninth Mast",
+            });
+            expect(splitName("Siv")).toEqual({ first: "Siv", last: "" });
+        });
+    });
+
+    describe("buildNameModel", () => {
+        it("should record the letters that follow each pair", () => {
+            const model = buildNameModel(["Ana", "Anu"]);
+
+            expect(model.get("^^")).toEqual(["a", "a"]);
+            expect(model.get("an")).toEqual(["a", "u"]);
+            expect(model.get("nu")).toEqual(["$"]);
+        });
+    });
+
+    describe("inventName", () => {
+        it("should invent capitalized names of a sensible length", () => {
+            const names = FIRST_NAMES_BY_SPECIES.Tharn;
+
+            for (let i = 0; i < 20; i++) {
+                const name = inventName(names);
+                expect(name.charAt(0)).toBe(name.charAt(0).toUpperCase());
+                expect(name.length).toBeLessThanOrEqual(12);
+            }
+        });
+
+        it("should fall back to the list when nothing new can be invented", () => {
+            expect(inventName(["Ana"])).toBe("Ana");
+        });
+    });
+
+    describe("generateName", () => {
+        it("should pick names from the species' lists", () => {
+            for (let i = 0; i < 20; i++) {
+                const { first, last } = generateName({ species: "Tharn" });
+                expect(FIRST_NAMES_BY_SPECIES.Tharn).toContain(first);
+                expect(LAST_NAMES_BY_SPECIES.Tharn).toContain(last);
+            }
+        });
+
+        it("should keep a locked first or last name", () => {
+            expect(generateName({ species: "Avenar", first: "Siv" }).first).toBe("Siv");
+
+            const { first, last } = generateName({ species: "Avenar", last: "Quenchcoil" });
+            expect(FIRST_NAMES_BY_SPECIES.Avenar).toContain(first);
+            expect(last).toBe("Quenchcoil");
+        });
+    });
+});
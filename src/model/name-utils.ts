@@ -0,0 +1,133 @@
+/**
+ * Name Utilities Module
+ *
+ * This module generates character names that suit a species:
+ * - Picking first and last names from a species' lists
+ * - Inventing new names with a letter-level Markov chain trained on those lists
+ * - Keeping a locked first or last name while rerolling the other
+ *
+ * Names are not gendered, so there is no gender option.
+ *
+ * @module name-utils
+ */
+
+import {
+    FIRST_NAMES,
+    FIRST_NAMES_BY_SPECIES,
+    LAST_NAMES,
+    LAST_NAMES_BY_SPECIES,
+} from "@/data/names";
+import type { SpeciesType } from "@/types";
+
+/**
+ * A name split into the part before the first space and everything after it
+ */
+export interface NameParts {
+    first: string;
+    last: string;
+}
+
+/**
+ * Options for generating a name
+ */
+export interface NameOptions {
+    species?: SpeciesType; // names from every species when omitted
+    invent?: boolean; // invent new names instead of picking from the lists
+    first?: string; // locked first name, kept as is
+    last?: string; // locked last name, kept as is
+}
+
+/** Letters of context the Markov chain looks back on */
+const MARKOV_ORDER = 2;
+const MIN_INVENTED_LENGTH = 3;
+const MAX_INVENTED_LENGTH = 12;
+const MAX_INVENT_ATTEMPTS = 50;
+
+const START = "^";
+const END = "$";
+
+/**
+ * Pick a random entry from a list
+ */
+const pick = <T>(list: T[]): T => list[Math.floor(Math.random() * list.length)]!;
+
+/**
+ * Split a full name into first and last parts
+ * @param name - Full name, e.g. "Lyrra Quenchcoil"
+ * @returns The first word, and the rest of the name (empty for a single word)
+ */
+export function splitName(name: string): NameParts {
+    const [first = "", ...rest] = name.trim().split(/\s+/);
+    return { first, last: rest.join(" ") };
+}
+
+/**
+ * Count which letter follows each run of letters in the training names
+ * @param names - Names to learn from
+ * @returns Followers for each context, repeated by frequency so a uniform pick is weighted
+ */
+export function buildNameModel(names: string[]): Map<string, string[]> {
+    const model = new Map<string, string[]>();
+
+    for (const name of names) {
+        const letters = START.repeat(MARKOV_ORDER) + name.toLowerCase() + END;
+        for (let i = MARKOV_ORDER; i < letters.length; i++) {
+            const context = letters.slice(i - MARKOV_ORDER, i);
+            model.set(context, [...(model.get(context) || []), letters[i]!]);
+        }
+    }
+
+    return model;
+}
+
+/**
+ * Invent a new name that sounds like the training names
+ * @param names - Names to learn from
+ * @returns A name not in the list, or one picked from the list if none could be invented
+ */
+export function inventName(names: string[]): string {
+    const model = buildNameModel(names);
+    const known = new Set(names.map((name) => name.toLowerCase()));
+
+    for (let attempt = 0; attempt < MAX_INVENT_ATTEMPTS; attempt++) {
+        let context = START.repeat(MARKOV_ORDER);
+        let name = "";
+
+        while (name.length <= MAX_INVENTED_LENGTH) {
+            const followers = model.get(context);
+            if (!followers) break;
+
+            const next = pick(followers);
+            if (next === END) break;
+
+            name += next;
+            context = (context + next).slice(-MARKOV_ORDER);
+        }
+
+        if (
+            name.length >= MIN_INVENTED_LENGTH &&
+            name.length <= MAX_INVENTED_LENGTH &&
+            !known.has(name)
+        ) {
+            return name.charAt(0).toUpperCase() + name.slice(1);
+        }
+    }
+
+    return pick(names);
+}
+
+/**
+ * Generate a name for a species
+ * @param options - Species, whether to invent names, and any locked parts
+ * @returns The locked parts unchanged and the rest rolled
+ */
+export function generateName(options: NameOptions = {}): NameParts {
+    const firstNames = options.species ? FIRST_NAMES_BY_SPECIES[options.species] : FIRST_NAMES;
+    const lastNames = options.species ? LAST_NAMES_BY_SPECIES[options.species] : LAST_NAMES;
+    const roll = (names: string[]) => (options.invent ? inventName(names) : pick(names));
+
+    return {
+        first: options.first || roll(firstNames),
+        last: options.last || roll(lastNames),
+    };
+}
@@ -0,0 +1,47 @@
+import { PERSONALITY_BY_BACKGROUND, PERSONALITY_BY_SPECIES } from "@/data";
+import { describe, expect, it } from "vitest";
+import { getPersonalityTable, rollPersonality, rollPersonalityEntry } from "./personality-utils";
+
+describe("Personality Utilities", () => {
+    describe("getPersonalityTable", () => {
+        it("should combine the background and species options", () => {
+            const table = getPersonalityTable("foundry-hand", "Tharn");
+
+            expect(table.ideals).toEqual([
+                ...PERSONALITY_BY_BACKGROUND["foundry-hand"]!.ideals,
+                ...PERSONALITY_BY_SPECIES.Tharn.ideals,
+            ]);
+        });
+
+        it("should use only the species options for a custom background", () => {
+            expect(getPersonalityTable("Guild Operative", "Tharn")).toEqual(
+                PERSONALITY_BY_SPECIES.Tharn
+            );
+            expect(getPersonalityTable().traits).toEqual([]);
+        });
+    });
+
+    describe("rollPersonalityEntry", () => {
+        it("should not repeat an excluded entry", () => {
+            const [first, second] = PERSONALITY_BY_SPECIES.Vulmir.flaws;
+
+            expect(rollPersonalityEntry(PERSONALITY_BY_SPECIES.Vulmir, "flaws", [first!])).toBe(
+                second
+            );
+            expect(
+                rollPersonalityEntry(PERSONALITY_BY_SPECIES.Vulmir, "flaws", [first!, second!])
+            ).toBeUndefined();
+        });
+    });
+
+    describe("rollPersonality", () => {
+        it("should roll two distinct traits and one of each other aspect", () => {
+            const personality = rollPersonality(getPersonalityTable("relic-hunter", "Avenar"));
+
+            expect(new Set(personality.traits).size).toBe(2);
+            expect(personality.ideals).toHaveLength(1);
+            expect(personality.bonds).toHaveLength(1);
+            expect(personality.flaws).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,72 @@
+/**
+ * Personality Utilities Module
+ *
+ * This module rolls a character's personality from the tables for their background and species:
+ * - Combining the background and species tables
+ * - Rolling a single trait, ideal, bond or flaw
+ * - Rolling a full personality
+ *
+ * @module personality-utils
+ */
+
+import {
+    PERSONALITY_ASPECTS,
+    PERSONALITY_BY_BACKGROUND,
+    PERSONALITY_BY_SPECIES,
+    PERSONALITY_COUNTS,
+} from "@/data";
+import type { Personality, PersonalityAspect, SpeciesType } from "@/types";
+
+/**
+ * Get the personality options for a background and species
+ * @param background - Background ID (custom backgrounds have no table of their own)
+ * @param species - Species type
+ * @returns The background's options followed by the species'
+ */
+export function getPersonalityTable(background?: string, species?: SpeciesType): Personality {
+    const backgroundTable = background ? PERSONALITY_BY_BACKGROUND[background] : undefined;
+    const speciesTable = species ? PERSONALITY_BY_SPECIES[species] : undefined;
+
+    return Object.fromEntries(
+        PERSONALITY_ASPECTS.map((aspect) => [
+            aspect,
+            [...(backgroundTable?.[aspect] || []), ...(speciesTable?.[aspect] || [])],
+        ])
+    ) as Personality;
+}
+
+/**
+ * Roll one entry of a personality aspect
+ * @param table - Personality options to roll from
+ * @param aspect - Which aspect to roll
+ * @param exclude - Entries the character already has
+ * @returns A random entry not in exclude, or undefined if none are left
+ */
+export function rollPersonalityEntry(
+    table: Personality,
+    aspect: PersonalityAspect,
+    exclude: string[] = []
+): string | undefined {
+    const options = table[aspect].filter((entry) => !exclude.includes(entry));
+    return options[Math.floor(Math.random() * options.length)];
+}
+
+/**
+ * Roll a full personality: two traits and one each of ideals, bonds and flaws
+ * @param table - Personality options to roll from
+ * @returns Distinct entries for each aspect, fewer if the table runs out
+ */
+export function rollPersonality(table: Personality): Personality {
+    const personality: Personality = { traits: [], ideals: [], bonds: [], flaws: [] };
+
+    for (const aspect of PERSONALITY_ASPECTS) {
+        for (let i = 0; i < PERSONALITY_COUNTS[aspect]; i++) {
+            const entry = rollPersonalityEntry(table, aspect, personality[aspect]);
+            if (entry) {
+                personality[aspect].push(entry);
+            }
+        }
+    }
+
+    return personality;
+}
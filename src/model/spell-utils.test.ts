@@ -0,0 +1,221 @@
+import { CLASSES, SPELLS_BY_NAME } from "@/data";
+import type { Character } from "@/types";
+import { describe, expect, it } from "vitest";
+import {
+    getAetherCost,
+    getCastableLevels,
+    getClassSpellLimits,
+    getFaithFeedbackDC,
+    getMaxSpellLevel,
+    getOverchannelHitPoints,
+    getSpellcastingAbility,
+    getSpellDamage,
+    getSpellLimits,
+    getSpellResource,
+    getSpellsLeftToLearn,
+    requiresPreparation,
+} from "./spell-utils";
+
+const fireBolt = SPELLS_BY_NAME["Fire Bolt"]!;
+const magicMissile = SPELLS_BY_NAME["Magic Missile"]!;
+const fireball = SPELLS_BY_NAME["Fireball"]!;
+
+describe("Spell Utilities", () => {
+    describe("getSpellcastingAbility", () => {
+        it("should use the class's spellcasting ability", () => {
+            expect(getSpellcastingAbility("Templar")).toBe("wisdom");
+            expect(getSpellcastingAbility("Arcanist")).toBe("intelligence");
+            expect(getSpellcastingAbility("Vanguard")).toBeUndefined();
+        });
+
+        it("should use the Mindweaver's chosen ability", () => {
+            expect(getSpellcastingAbility("Mindweaver")).toBe("intelligence");
+            expect(
+                getSpellcastingAbility("Mindweaver", [
+                    {
+                        classType: "Mindweaver",
+                        level: 1,
+                        featureChoices: { "Primary Ability": "wisdom" },
+                    },
+                ])
+            ).toBe("wisdom");
+        });
+    });
+
+    describe("getClassSpellLimits", () => {
+        const arcanist = CLASSES.find((c) => c.type === "Arcanist")!.spellcasting!;
+        const templar = CLASSES.find((c) => c.type === "Templar")!.spellcasting!;
+
+        it("should grow the cantrips and spells an Arcanist knows with level", () => {
+            expect(getClassSpellLimits(arcanist, 1)).toEqual({
+                cantripsKnown: 3,
+                spellsKnown: 6,
+                spellsPrepared: undefined,
+            });
+            expect(getClassSpellLimits(arcanist, 4)).toMatchObject({
+                cantripsKnown: 4,
+                spellsKnown: 12,
+            });
+            expect(getClassSpellLimits(arcanist, 10).cantripsKnown).toBe(5);
+        });
+
+        it("should let a Templar prepare their level + Wisdom modifier, minimum 1", () => {
+            expect(getClassSpellLimits(templar, 5, 2).spellsPrepared).toBe(7);
+            expect(getClassSpellLimits(templar, 1, -1).spellsPrepared).toBe(1);
+        });
+    });
+
+    describe("getSpellLimits", () => {
+        const modifiers = {
+            strength: { modifier: 0 },
+            dexterity: { modifier: 0 },
+            constitution: { modifier: 0 },
+            intelligence: { modifier: 3 },
+            wisdom: { modifier: 1 },
+            charisma: { modifier: 0 },
+        };
+
+        it("should combine the limits of each spellcasting class", () => {
+            expect(
+                getSpellLimits(
+                    [
+                        { class: "Arcanist", level: 2 },
+                        { class: "Templar", level: 3 },
+                        { class: "Vanguard", level: 1 },
+                    ],
+                    modifiers
+                )
+            ).toEqual({ cantripsKnown: 3, spellsKnown: 8, spellsPrepared: 4 });
+            expect(getSpellLimits([{ class: "Vanguard", level: 1 }], modifiers)).toEqual({});
+        });
+    });
+
+    describe("getSpellsLeftToLearn", () => {
+        it("should take the spells known from the limits, leaving out prepared spells", () => {
+            const character = {
+                classes: [
+                    { class: "Arcanist" as const, level: 2 },
+                    { class: "Templar" as const, level: 3 },
+                ],
+                abilityScores: {
+                    strength: 10,
+                    dexterity: 10,
+                    constitution: 10,
+                    intelligence: 16,
+                    wisdom: 12,
+                    charisma: 10,
+                },
+                spells: ["Fire Bolt", "Magic Missile", "Shield", "Guiding Bolt"],
+            };
+
+            expect(getSpellsLeftToLearn(character)).toEqual({ cantripsKnown: 2, spellsKnown: 6 });
+            expect(
+                getSpellsLeftToLearn({ ...character, classes: [{ class: "Templar", level: 3 }] })
+            ).toEqual({ cantripsKnown: undefined, spellsKnown: undefined });
+        });
+    });
+
+    describe("requiresPreparation", () => {
+        const guidingBolt = SPELLS_BY_NAME["Guiding Bolt"]!;
+
+        it("should only prepare leveled spells cast through a preparing class", () => {
+            const templar = [{ class: "Templar" as const, level: 5 }];
+
+            expect(requiresPreparation(templar, guidingBolt)).toBe(true);
+            expect(requiresPreparation(templar, SPELLS_BY_NAME["Sacred Flame"]!)).toBe(false);
+            expect(requiresPreparation(templar, magicMissile)).toBe(false);
+        });
+
+        it("should keep spells an Arcanist can also cast always ready", () => {
+            const multiclass = [
+                { class: "Arcanist" as const, level: 3 },
+                { class: "Templar" as const, level: 2 },
+            ];
+
+            expect(requiresPreparation(multiclass, SPELLS_BY_NAME["Hold Person"]!)).toBe(false);
+            expect(requiresPreparation(multiclass, guidingBolt)).toBe(true);
+        });
+    });
+
+    describe("getMaxSpellLevel", () => {
+        it("should follow the combined caster level", () => {
+            expect(getMaxSpellLevel([{ class: "Arcanist", level: 1 }])).toBe(1);
+            expect(getMaxSpellLevel([{ class: "Arcanist", level: 5 }])).toBe(3);
+            expect(getMaxSpellLevel([{ class: "Vanguard", level: 5 }])).toBe(0);
+        });
+    });
+
+    describe("getCastableLevels", () => {
+        it("should list the spell's level up to the highest the caster can reach", () => {
+            expect(getCastableLevels(magicMissile, 3)).toEqual([1, 2, 3]);
+            expect(getCastableLevels(fireball, 2)).toEqual([]);
+            expect(getCastableLevels(fireBolt, 0)).toEqual([0]);
+        });
+    });
+
+    describe("getAetherCost", () => {
+        it("should add 1 per level a spell is upcast", () => {
+            expect(getAetherCost(magicMissile)).toBe(1);
+            expect(getAetherCost(magicMissile, 3)).toBe(3);
+            expect(getAetherCost(fireBolt)).toBe(0);
+        });
+
+        it("should add the Overclock's extra AFP", () => {
+            expect(getAetherCost(magicMissile, 2, "Overclock")).toBe(3);
+        });
+    });
+
+    describe("getSpellDamage", () => {
+        it("should add a die to cantrips at character levels 5, 11 and 17", () => {
+            expect(getSpellDamage(fireBolt, 4)).toMatchObject({ count: 1, die: 10 });
+            expect(getSpellDamage(fireBolt, 5)).toMatchObject({ count: 2, die: 10 });
+            expect(getSpellDamage(fireBolt, 17)).toMatchObject({ count: 4, damageType: "Fire" });
+        });
+
+        it("should add dice for each slot level a spell is upcast", () => {
+            expect(getSpellDamage(fireball, 5)?.count).toBe(8);
+            expect(getSpellDamage(fireball, 9, 5)?.count).toBe(10);
+            expect(getSpellDamage(magicMissile, 5, 3)).toMatchObject({ count: 5, bonus: 5 });
+        });
+
+        it("should only scale every other slot level when the spell says so", () => {
+            const spiritualWeapon = SPELLS_BY_NAME["Spiritual Weapon"]!;
+
+            expect(getSpellDamage(spiritualWeapon, 9, 3)?.count).toBe(1);
+            expect(getSpellDamage(spiritualWeapon, 9, 4)?.count).toBe(2);
+        });
+
+        it("should leave spells without scaling or damage as they are", () => {
+            expect(getSpellDamage(SPELLS_BY_NAME["Scorching Ray"]!, 9, 4)?.count).toBe(2);
+            expect(getSpellDamage(SPELLS_BY_NAME["Shield"]!, 9)).toBeUndefined();
+        });
+    });
+
+    describe("getOverchannelHitPoints", () => {
+        it("should burn 2 HP per spell level", () => {
+            expect(getOverchannelHitPoints(1)).toBe(2);
+            expect(getOverchannelHitPoints(3)).toBe(6);
+        });
+    });
+
+    describe("getFaithFeedbackDC", () => {
+        it("should be 10 + the slot level", () => {
+            expect(getFaithFeedbackDC(3)).toBe(13);
+        });
+    });
+
+    describe("getSpellResource", () => {
+        it("should prefer the pool of the spell's class, then spell slots", () => {
+            const arcanist = { aetherFluxPoints: { current: 2, maximum: 2 } } as Character;
+            const templar = { resonanceCharges: { current: 2, maximum: 2 } } as Character;
+            const slotsOnly = { spellSlots: {} } as Character;
+
+            expect(getSpellResource(arcanist, magicMissile)).toBe("aetherFluxPoints");
+            expect(getSpellResource(templar, SPELLS_BY_NAME["Guiding Bolt"]!)).toBe(
+                "resonanceCharges"
+            );
+            expect(getSpellResource(slotsOnly, magicMissile)).toBe("spellSlots");
+            expect(getSpellResource({} as Character, magicMissile)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,390 @@
+/**
+ * Spell Utilities Module
+ *
+ * This module provides the rules behind casting Formulae and Miracles (Chapter 9):
+ * - The ability each class casts with, including the Mindweaver's choice
+ * - The highest spell level a character can cast
+ * - How many spells each class knows and prepares at its level
+ * - Whether a character can learn a spell
+ * - The slot levels a spell can be cast at, including upcasting
+ * - AFP and RC costs at a slot level, including Overclocking
+ * - Damage scaled by character level (cantrips) or slot level (upcasting)
+ * - Which resource pays for a spell
+ * - Overchannel hit point costs and Faith Feedback DCs
+ *
+ * @module spell-utils
+ */
+
+import { CLASSES, OVERCLOCK_RULES_BY_TYPE, SPELLS_BY_NAME } from "@/data";
+import type {
+    AbilityScores,
+    CastingMode,
+    Character,
+    CharacterClass,
+    ClassConfiguration,
+    ClassType,
+    DamageInfo,
+    Spell,
+    SpellcastingInfo,
+} from "@/types";
+import { calculateAbilityModifier, calculateSpellSlotMaximums } from "./character-utils";
+
+/**
+ * Resource spent to cast a leveled spell
+ */
+export type SpellResource = "aetherFluxPoints" | "resonanceCharges" | "spellSlots";
+
+/**
+ * Pool each spellcasting class casts from instead of spell slots
+ */
+const RESOURCE_BY_CLASS: Partial<Record<ClassType, SpellResource>> = {
+    Arcanist: "aetherFluxPoints",
+    Templar: "resonanceCharges",
+};
+
+/**
+ * Configurable feature holding a Mindweaver's choice of Intelligence or Wisdom
+ */
+const PRIMARY_ABILITY_FEATURE = "Primary Ability";
+
+/**
+ * Get the ability a class casts spells or manifests powers with
+ *
+ * Mindweavers choose Intelligence or Wisdom when they take the class; without a choice they
+ * use the class's primary ability.
+ *
+ * @param classType - The class
+ * @param classConfigurations - The character's class configurations, holding the Mindweaver's choice
+ * @returns The ability, or undefined for classes without spellcasting or psionics
+ * @example getSpellcastingAbility("Templar") -> "wisdom"
+ */
+export function getSpellcastingAbility(
+    classType: ClassType,
+    classConfigurations: ClassConfiguration[] = []
+): keyof AbilityScores | undefined {
+    const cls = CLASSES.find((c) => c.type === classType);
+
+    if (classType === "Mindweaver") {
+        const choice = classConfigurations.find(
+            (config) =>
+                config.classType === classType && config.featureChoices[PRIMARY_ABILITY_FEATURE]
+        )?.featureChoices[PRIMARY_ABILITY_FEATURE];
+        return typeof choice === "string" ? (choice as keyof AbilityScores) : cls?.primaryAbility;
+    }
+
+    return cls?.spellcasting?.spellcastingAbility;
+}
+
+/**
+ * How many spells a character may know and prepare (undefined means no limit)
+ */
+export interface SpellLimits {
+    cantripsKnown?: number;
+    spellsKnown?: number; // leveled spells that are always ready to cast
+    spellsPrepared?: number; // leveled spells readied on a long rest
+}
+
+/**
+ * Get how many spells one spellcasting class knows and prepares
+ * @param spellcasting - The class's spellcasting rules
+ * @param level - Level in the class
+ * @param abilityModifier - Spellcasting ability modifier, added to spells prepared
+ * @returns The class's limits
+ * @example getClassSpellLimits(arcanist.spellcasting, 4) -> { cantripsKnown: 4, spellsKnown: 12 }
+ */
+export function getClassSpellLimits(
+    spellcasting: SpellcastingInfo,
+    level: number,
+    abilityModifier: number = 0
+): SpellLimits {
+    const { cantripsKnown, cantripsGainedAt = [], spellsKnown, spellsPrepared } = spellcasting;
+
+    return {
+        cantripsKnown:
+            cantripsKnown === undefined
+                ? undefined
+                : cantripsKnown + cantripsGainedAt.filter((gainedAt) => gainedAt <= level).length,
+        spellsKnown:
+            spellsKnown === undefined
+                ? undefined
+                : spellsKnown + (level - 1) * (spellcasting.spellsGainedPerLevel || 0),
+        spellsPrepared:
+            spellsPrepared === undefined
+                ? undefined
+                : Math.max(1, spellsPrepared + level + abilityModifier),
+    };
+}
+
+/**
+ * Get how many spells a character knows and prepares across their spellcasting classes
+ * @param classes - The character's classes
+ * @param abilityScores - Ability modifiers, for spells prepared
+ * @returns Each limit summed over the classes that have one
+ */
+export function getSpellLimits(
+    classes: CharacterClass[],
+    abilityScores: Record<keyof AbilityScores, { modifier: number }>
+): SpellLimits {
+    const add = (total?: number, limit?: number) =>
+        limit === undefined ? total : (total || 0) + limit;
+
+    return classes.reduce<SpellLimits>((limits, { class: classType, level }) => {
+        const spellcasting = CLASSES.find((c) => c.type === classType)?.spellcasting;
+        if (!spellcasting) return limits;
+
+        const classLimits = getClassSpellLimits(
+            spellcasting,
+            level,
+            abilityScores[spellcasting.spellcastingAbility].modifier
+        );
+        return {
+            cantripsKnown: add(limits.cantripsKnown, classLimits.cantripsKnown),
+            spellsKnown: add(limits.spellsKnown, classLimits.spellsKnown),
+            spellsPrepared: add(limits.spellsPrepared, classLimits.spellsPrepared),
+        };
+    }, {});
+}
+
+/**
+ * Check whether a spell must be prepared on a long rest before it can be cast
+ *
+ * Templars prepare Miracles each day; Arcanists always have their Formulae ready. A spell is
+ * only prepared when every class the character casts it through is a preparing class.
+ *
+ * @param classes - The character's classes
+ * @param spell - The spell
+ * @returns False for cantrips and for spells none of the character's classes can cast
+ */
+export function requiresPreparation(classes: CharacterClass[], spell: Spell): boolean {
+    if (spell.level === 0) {
+        return false;
+    }
+
+    const casting = classes
+        .filter(({ class: classType }) => spell.classes.includes(classType))
+        .map(({ class: classType }) => CLASSES.find((c) => c.type === classType)?.spellcasting);
+
+    return casting.length > 0 && casting.every((info) => info && info.spellsPrepared !== undefined);
+}
+
+/**
+ * Get the modifier for each ability score
+ */
+function getAbilityModifiers(
+    abilityScores: AbilityScores
+): Record<keyof AbilityScores, { modifier: number }> {
+    return Object.fromEntries(
+        Object.entries(abilityScores).map(([ability, score]) => [
+            ability,
+            { modifier: calculateAbilityModifier(score) },
+        ])
+    ) as Record<keyof AbilityScores, { modifier: number }>;
+}
+
+/**
+ * Count the cantrips and spells that count toward a character's spells known
+ * @param classes - The character's classes
+ * @param spellNames - Spells to count
+ * @returns Cantrips, and leveled spells that aren't prepared each day
+ */
+export function countSpellsKnown(
+    classes: CharacterClass[],
+    spellNames: string[]
+): { cantrips: number; spells: number } {
+    const spells = spellNames
+        .map((spellName) => SPELLS_BY_NAME[spellName])
+        .filter((spell): spell is Spell => !!spell);
+
+    return {
+        cantrips: spells.filter((spell) => spell.level === 0).length,
+        spells: spells.filter((spell) => spell.level > 0 && !requiresPreparation(classes, spell))
+            .length,
+    };
+}
+
+/**
+ * Get how many more cantrips and spells a character can learn
+ * @param character - The character's classes, ability scores and known spells
+ * @returns The limits less what the character already knows, never below 0
+ */
+export function getSpellsLeftToLearn(
+    character: Pick<Character, "classes" | "abilityScores" | "spells">
+): Pick<SpellLimits, "cantripsKnown" | "spellsKnown"> {
+    const { classes, abilityScores, spells } = character;
+    const limits = getSpellLimits(classes, getAbilityModifiers(abilityScores));
+    const known = countSpellsKnown(classes, spells);
+    const left = (limit: number | undefined, count: number) =>
+        limit === undefined ? undefined : Math.max(0, limit - count);
+
+    return {
+        cantripsKnown: left(limits.cantripsKnown, known.cantrips),
+        spellsKnown: left(limits.spellsKnown, known.spells),
+    };
+}
+
+/**
+ * Check whether a character can learn a spell
+ *
+ * A spellcasting class must have slots of the spell's level, and the character must have room
+ * among the cantrips or spells they know. Spells that are prepared each day don't count
+ * toward spells known.
+ *
+ * @param character - The character's classes, ability scores and known spells
+ * @param spellName - Spell to learn
+ * @returns Why the spell can't be learned, undefined if it can
+ */
+export function getSpellLearningError(
+    character: Pick<Character, "classes" | "abilityScores" | "spells">,
+    spellName: string
+): string | undefined {
+    const { classes, abilityScores, spells } = character;
+    if (classes.length === 0) {
+        return "character must have at least one class";
+    }
+    if (!classes.some((cls) => CLASSES.find((c) => c.type === cls.class)?.spellcasting)) {
+        return "character class cannot learn spells";
+    }
+    if (spells.includes(spellName)) {
+        return "spell already known";
+    }
+
+    const spell = SPELLS_BY_NAME[spellName];
+    if (!spell) {
+        return "unknown spell";
+    }
+    if (spell.level > getMaxSpellLevel(classes)) {
+        return `no level ${spell.level} spell slots to learn ${spellName} with`;
+    }
+
+    const limits = getSpellLimits(classes, getAbilityModifiers(abilityScores));
+    const known = countSpellsKnown(classes, spells);
+    if (spell.level === 0) {
+        return limits.cantripsKnown !== undefined && known.cantrips >= limits.cantripsKnown
+            ? `already knows ${limits.cantripsKnown} cantrips`
+            : undefined;
+    }
+
+    return limits.spellsKnown !== undefined &&
+        !requiresPreparation(classes, spell) &&
+        known.spells >= limits.spellsKnown
+        ? `already knows ${limits.spellsKnown} spells`
+        : undefined;
+}
+
+/**
+ * Get the highest spell level a character can cast
+ * @param classes - The character's classes
+ * @returns The highest slot level the combined caster level grants, 0 for non-casters
+ * @example getMaxSpellLevel([{ class: "Arcanist", level: 5 }]) -> 3
+ */
+export function getMaxSpellLevel(classes: CharacterClass[]): number {
+    return Object.values(calculateSpellSlotMaximums(classes)).filter((maximum) => maximum > 0)
+        .length;
+}
+
+/**
+ * Get the slot levels a spell can be cast at
+ * @param spell - The spell to cast
+ * @param maxSpellLevel - Highest spell level the caster can cast
+ * @returns [0] for cantrips, otherwise the spell's level up to the maximum (empty when out of reach)
+ * @example getCastableLevels(fireball, 5) -> [3, 4, 5]
+ */
+export function getCastableLevels(spell: Spell, maxSpellLevel: number): number[] {
+    if (spell.level === 0) {
+        return [0];
+    }
+
+    return Array.from(
+        { length: Math.max(0, maxSpellLevel - spell.level + 1) },
+        (_, index) => spell.level + index
+    );
+}
+
+/**
+ * Get a spell's damage at the caster's level and the slot level it is cast at
+ * @param spell - The spell to cast
+ * @param characterLevel - The caster's character level, which cantrips scale with
+ * @param slotLevel - Level it is cast at (defaults to the spell's level)
+ * @returns The damage with each scaling step's dice and bonus added, undefined if it deals none
+ * @example getSpellDamage(fireBolt, 5) -> 2d10 Fire, getSpellDamage(fireball, 5, 4) -> 9d6 Fire
+ */
+export function getSpellDamage(
+    spell: Spell,
+    characterLevel: number,
+    slotLevel: number = spell.level
+): DamageInfo | undefined {
+    const { damage, scaling } = spell;
+    if (!damage || !scaling) {
+        return damage;
+    }
+
+    const steps =
+        spell.level === 0
+            ? (scaling.characterLevels || []).filter((level) => level <= characterLevel).length
+            : Math.floor(Math.max(0, slotLevel - spell.level) / (scaling.slotLevelsPerStep || 1));
+
+    return {
+        ...damage,
+        count: damage.count + steps * scaling.dice,
+        ...(scaling.bonus && { bonus: (damage.bonus || 0) + steps * scaling.bonus }),
+    };
+}
+
+/**
+ * Get the AFP or RC cost of casting a spell
+ * @param spell - The spell to cast
+ * @param slotLevel - Level it is cast at (defaults to the spell's level)
+ * @param casting - How it is cast; Overclocking costs extra AFP
+ * @returns The spell's cost plus 1 per level it is upcast, 0 for cantrips
+ * @example getAetherCost(magicMissile, 3) -> 3, getAetherCost(magicMissile, 1, "Overclock") -> 2
+ */
+export function getAetherCost(
+    spell: Spell,
+    slotLevel: number = spell.level,
+    casting: CastingMode = "Normal"
+): number {
+    if (spell.level === 0) {
+        return 0;
+    }
+
+    const overclockCost =
+        casting === "Overclock" ? OVERCLOCK_RULES_BY_TYPE.Formula.resourceCost || 0 : 0;
+    return (spell.aetherCost ?? spell.level) + slotLevel - spell.level + overclockCost;
+}
+
+/**
+ * Get the hit points a Templar out of RC burns to Overchannel a spell
+ * @param slotLevel - Level it is cast at
+ * @returns 2 × the slot level
+ * @example getOverchannelHitPoints(2) -> 4
+ */
+export function getOverchannelHitPoints(slotLevel: number): number {
+    return slotLevel * (OVERCLOCK_RULES_BY_TYPE.Overchannel.hitPointsPerLevel || 0);
+}
+
+/**
+ * Get the DC of the Faith Feedback check after Overchannelling
+ * @param slotLevel - Level the spell was cast at
+ * @returns 10 + the slot level
+ */
+export function getFaithFeedbackDC(slotLevel: number): number {
+    return (OVERCLOCK_RULES_BY_TYPE.Overchannel.feedbackDC || 0) + slotLevel;
+}
+
+/**
+ * Get the resource a character spends to cast a leveled spell
+ *
+ * Arcanists cast Formulae with AFP and Templars cast Miracles with RC instead of spell slots.
+ * A character without the pool for any of the spell's classes spends spell slots.
+ *
+ * @param character - The caster
+ * @param spell - The spell to cast
+ * @returns The resource to spend, or undefined if the character has none
+ */
+export function getSpellResource(character: Character, spell: Spell): SpellResource | undefined {
+    const pool = spell.classes
+        .map((classType) => RESOURCE_BY_CLASS[classType])
+        .find((resource) => resource && character[resource]);
+
+    return pool ?? (character.spellSlots ? "spellSlots" : undefined);
+}
@@ -0,0 +1,24 @@
+import { CampaignSettingsStorageService } from "@/service/campaign-settings-storage-service";
+import type { CampaignSettings } from "@/types";
+import { useRef, useState } from "react";
+
+/**
+ * Campaign settings loaded from localStorage; updates are saved straight back
+ */
+export function useCampaignSettings() {
+    const storageServiceRef = useRef(new CampaignSettingsStorageService());
+    const [settings, setSettings] = useState<CampaignSettings>(() =>
+        storageServiceRef.current.loadSettings()
+    );
+
+    const updateSettings = (updated: CampaignSettings) => {
+        try {
+            storageServiceRef.current.saveSettings(updated);
+        } catch (error) {
+            console.error("Failed to save campaign settings:", error);
+        }
+        setSettings(updated);
+    };
+
+    return { settings, updateSettings };
+}
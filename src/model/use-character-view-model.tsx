@@ -2,7 +2,9 @@ import { PREGENS } from "@/data";
 import { CharacterStorageService } from "@/service/character-storage-service";
 import type { Character } from "@/types";
 import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
 import { CharacterBuilder } from "./character-builder";
+import { ValidationError } from "./character-utils";
 import { MutableCharacterViewModel } from "./mutable-character-view-model";
 
 /**
@@ -50,6 +52,9 @@ export function useCharacterViewModel() {
     );
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<Error | null>(null);
+    // Latest characters, including updates made earlier in the same event
+    const charactersRef = useRef(characters);
+    charactersRef.current = characters;
 
     // Cleanup on unmount
     useEffect(() => {
@@ -120,35 +125,44 @@ export function useCharacterViewModel() {
 
     /**
      * Update a character using an updater function
+     *
+     * The updater runs before the state changes, so a rule it breaks is reported in a toast
+     * and leaves the character as it was.
+     *
      * @param id - Character ID
      * @param updater - Function that receives MutableCharacterViewModel and returns updated Character
+     * @returns False if the updater threw a ValidationError
      */
     const updateCharacter = (
         id: string,
         updater: (vm: MutableCharacterViewModel) => Character
-    ): void => {
+    ): boolean => {
         try {
             setIsLoading(true);
             setError(null);
 
-            setCharacters((prev) => {
-                const existing = prev.get(id);
-                if (!existing) {
-                    throw new Error(`Character with id ${id} not found`);
-                }
+            const existing = charactersRef.current.get(id);
+            if (!existing) {
+                throw new Error(`Character with id ${id} not found`);
+            }
 
-                const viewModel = new MutableCharacterViewModel(existing);
-                const updated = updater(viewModel);
+            const updated = updater(new MutableCharacterViewModel(existing));
 
-                const newMap = new Map(prev);
-                newMap.set(id, updated);
+            const newMap = new Map(charactersRef.current);
+            newMap.set(id, updated);
+            charactersRef.current = newMap;
+            setCharacters(newMap);
 
-                // Trigger debounced save
-                storageServiceRef.current.debouncedSave(Array.from(newMap.values()));
+            // Trigger debounced save
+            storageServiceRef.current.debouncedSave(Array.from(newMap.values()));
 
-                return newMap;
-            });
+            return true;
         } catch (err) {
+            if (err instanceof ValidationError) {
+                toast.error(err.constraint, { position: "bottom-right" });
+                return false;
+            }
+
             const error = err instanceof Error ? err : new Error(String(err));
             setError(error);
             throw error;
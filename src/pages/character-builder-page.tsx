@@ -1,29 +1,64 @@
 import { AbilityScoreSelector } from "@/components/ability-score-selector";
+import { BackgroundDetails } from "@/components/background-details";
 import { CharacterBuilderSummary } from "@/components/character-builder-summary";
 import { ClassLevelConfigurator } from "@/components/class-level-configurator";
-import { CLASSES, SPECIES } from "@/data";
+import { PersonalityPanel } from "@/components/personality";
+import { BACKGROUNDS, BACKGROUNDS_BY_ID, CLASSES, SPECIES } from "@/data";
 import { CharacterBuilder } from "@/model/character-builder";
 import { useCharacterViewModelContext } from "@/model/character-view-model-context";
-import type { AbilityScores, ClassConfiguration, ClassType, SpeciesType } from "@/types";
-import { Button, Card, CardBody, CardHeader, Chip, Input, Select, SelectItem } from "@heroui/react";
+import {
+    getBonusLanguageCount,
+    getLanguageOptions,
+    getStartingLanguages,
+} from "@/model/language-utils";
+import { splitName } from "@/model/name-utils";
+import { getPersonalityTable } from "@/model/personality-utils";
+import type {
+    AbilityScores,
+    ClassConfiguration,
+    ClassType,
+    Language,
+    Personality,
+    SpeciesType,
+} from "@/types";
+import {
+    Button,
+    Card,
+    CardBody,
+    CardHeader,
+    Checkbox,
+    CheckboxGroup,
+    Chip,
+    Input,
+    Select,
+    SelectItem,
+    Switch,
+} from "@heroui/react";
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 
 type BuilderStep =
-    | "basics"
     | "species"
+    | "basics"
     | "class"
     | "class-configuration"
     | "abilities"
     | "background"
+    | "languages"
+    | "personality"
     | "review";
 
+const CUSTOM_BACKGROUND = "custom";
+
 export function CharacterBuilderPage() {
     const navigate = useNavigate();
     const { createCharacter } = useCharacterViewModelContext();
 
-    const [step, setStep] = useState<BuilderStep>("basics");
+    const [step, setStep] = useState<BuilderStep>("species");
     const [name, setName] = useState("");
+    const [lockFirstName, setLockFirstName] = useState(false);
+    const [lockLastName, setLockLastName] = useState(false);
+    const [inventNames, setInventNames] = useState(false);
     const [species, setSpecies] = useState<SpeciesType | "">("");
     const [classType, setClassType] = useState<ClassType | "">("");
     const [classConfiguration, setClassConfiguration] = useState<Partial<ClassConfiguration>>({});
@@ -36,16 +71,26 @@ export function CharacterBuilderPage() {
         wisdom: 10,
         charisma: 10,
     });
-    const [background, setBackground] = useState("");
+    const [backgroundId, setBackgroundId] = useState("");
+    const [customBackground, setCustomBackground] = useState("");
+    const [bonusLanguages, setBonusLanguages] = useState<Language[]>([]);
+    const [personality, setPersonality] = useState<Personality>({
+        traits: [],
+        ideals: [],
+        bonds: [],
+        flaws: [],
+    });
     const [error, setError] = useState<string | null>(null);
 
     const steps: { key: BuilderStep; label: string }[] = [
-        { key: "basics", label: "Basics" },
         { key: "species", label: "Species" },
+        { key: "basics", label: "Basics" },
         { key: "class", label: "Class" },
         { key: "class-configuration", label: "Configuration" },
         { key: "abilities", label: "Abilities" },
         { key: "background", label: "Background" },
+        { key: "languages", label: "Languages" },
+        { key: "personality", label: "Personality" },
         { key: "review", label: "Review" },
     ];
 
@@ -73,7 +118,9 @@ export function CharacterBuilderPage() {
                 .setSpecies(species as SpeciesType)
                 .setClass(classType as ClassType)
                 .setAbilityScores(abilityScores)
-                .setBackground(background || "Adventurer");
+                .setBackground(background)
+                .setBonusLanguages(chosenLanguages)
+                .setPersonality(personality);
 
             // Apply class configuration if provided
             if (classConfiguration.classType && classConfiguration.level) {
@@ -89,10 +136,10 @@ export function CharacterBuilderPage() {
 
     const canProceed = () => {
         switch (step) {
-            case "basics":
-                return name.trim().length > 0;
             case "species":
                 return species !== "";
+            case "basics":
+                return name.trim().length > 0;
             case "class":
                 return classType !== "";
             case "class-configuration":
@@ -101,6 +148,10 @@ export function CharacterBuilderPage() {
                 return true; // Always valid
             case "background":
                 return true; // Optional
+            case "languages":
+                return chosenLanguages.length <= bonusLanguageCount;
+            case "personality":
+                return true; // Optional
             case "review":
                 return true;
             default:
@@ -108,9 +159,25 @@ export function CharacterBuilderPage() {
         }
     };
 
+    // A background from the catalogue is stored by ID; anything else is a custom name
+    const background =
+        backgroundId === CUSTOM_BACKGROUND
+            ? customBackground.trim() || "Adventurer"
+            : backgroundId || "Adventurer";
+    const selectedBackground = BACKGROUNDS_BY_ID[backgroundId];
+
     const selectedSpecies = SPECIES.find((s) => s.type === species);
     const selectedClass = CLASSES.find((c) => c.type === classType);
 
+    // Bonus languages come from the species, the background and Intelligence after species increases
+    const startingLanguages = getStartingLanguages(species || undefined, backgroundId);
+    const bonusLanguageCount = getBonusLanguageCount(
+        species || undefined,
+        backgroundId,
+        abilityScores.intelligence + (selectedSpecies?.abilityScoreIncrease.intelligence || 0)
+    );
+    const chosenLanguages = bonusLanguages.filter((l) => !startingLanguages.includes(l));
+
     return (
         <div style={{ padding: "2rem", maxWidth: "1400px", margin: "0 auto" }}>
             <div
@@ -164,58 +231,6 @@ export function CharacterBuilderPage() {
                                 </div>
                             )}
 
-                            {/* Step: Basics */}
-                            {step === "basics" && (
-                                <div
-                                    style={{
-                                        display: "flex",
-                                        flexDirection: "column",
-                                        gap: "1.5rem",
-                                    }}
-                                >
-                                    <h2 style={{ fontSize: "1.5rem", fontWeight: 600 }}>
-                                        Character Basics
-                                    </h2>
-                                    <div
-                                        style={{
-                                            display: "flex",
-                                            gap: "0.5rem",
-                                            alignItems: "flex-end",
-                                        }}
-                                    >
-                                        <Input
-                                            label="Character Name"
-                                            placeholder="Enter your character's name"
-                                            value={name}
-                                            onValueChange={setName}
-                                            size="lg"
-                                            isRequired
-                                            style={{ flex: 1 }}
-                                            endContent={
-                                                <Button
-                                                    variant="faded"
-                                                    onPress={() => {
-                                                        const builder = new CharacterBuilder();
-                                                        builder.generateName();
-                                                        const generatedName = builder.getName();
-                                                        if (generatedName) {
-                                                            setName(generatedName);
-                                                        }
-                                                    }}
-                                                    size="sm"
-                                                >
-                                                    Generate
-                                                </Button>
-                                            }
-                                        />
-                                    </div>
-                                    <p style={{ fontSize: "0.875rem", opacity: 0.7 }}>
-                                        Choose a name that fits the steampunk & psionics world of
-                                        Hollow Gear, or click Generate for a random name.
-                                    </p>
-                                </div>
-                            )}
-
                             {/* Step: Species */}
                             {step === "species" && (
                                 <div
@@ -319,6 +334,97 @@ export function CharacterBuilderPage() {
                                 </div>
                             )}
 
+                            {/* Step: Basics */}
+                            {step === "basics" && (
+                                <div
+                                    style={{
+                                        display: "flex",
+                                        flexDirection: "column",
+                                        gap: "1.5rem",
+                                    }}
+                                >
+                                    <h2 style={{ fontSize: "1.5rem", fontWeight: 600 }}>
+                                        Character Basics
+                                    </h2>
+                                    <div
+                                        style={{
+                                            display: "flex",
+                                            gap: "0.5rem",
+                                            alignItems: "flex-end",
+                                        }}
+                                    >
+                                        <Input
+                                            label="Character Name"
+                                            placeholder="Enter your character's name"
+                                            value={name}
+                                            onValueChange={setName}
+                                            size="lg"
+                                            isRequired
+                                            style={{ flex: 1 }}
+                                            endContent={
+                                                <Button
+                                                    variant="faded"
+                                                    onPress={() => {
+                                                        const { first, last } = splitName(name);
+                                                        const builder = new CharacterBuilder();
+                                                        if (species) {
+                                                            builder.setSpecies(species);
+                                                        }
+                                                        builder.generateName({
+                                                            invent: inventNames,
+                                                            first: lockFirstName
+                                                                ? first
+                                                                : undefined,
+                                                            last: lockLastName ? last : undefined,
+                                                        });
+                                                        const generatedName = builder.getName();
+                                                        if (generatedName) {
+                                                            setName(generatedName);
+                                                        }
+                                                    }}
+                                                    size="sm"
+                                                >
+                                                    Generate
+                                                </Button>
+                                            }
+                                        />
+                                    </div>
+                                    <div
+                                        style={{
+                                            display: "flex",
+                                            gap: "1.5rem",
+                                            flexWrap: "wrap",
+                                        }}
+                                    >
+                                        <Checkbox
+                                            isSelected={lockFirstName}
+                                            onValueChange={setLockFirstName}
+                                        >
+                                            Keep first name
+                                        </Checkbox>
+                                        <Checkbox
+                                            isSelected={lockLastName}
+                                            onValueChange={setLockLastName}
+                                        >
+                                            Keep last name
+                                        </Checkbox>
+                                        <Switch
+                                            size="sm"
+                                            isSelected={inventNames}
+                                            onValueChange={setInventNames}
+                                        >
+                                            Invent new names
+                                        </Switch>
+                                    </div>
+                                    <p style={{ fontSize: "0.875rem", opacity: 0.7 }}>
+                                        Choose a name that fits the steampunk & psionics world of
+                                        Hollow Gear, or click Generate for a random {species} name.
+                                        Keep a first or last name to reroll only the other, or
+                                        invent new names in the style of your species.
+                                    </p>
+                                </div>
+                            )}
+
                             {/* Step: Class */}
                             {step === "class" && (
                                 <div
@@ -442,17 +548,128 @@ export function CharacterBuilderPage() {
                                     <h2 style={{ fontSize: "1.5rem", fontWeight: 600 }}>
                                         Background
                                     </h2>
-                                    <Input
+                                    <Select
                                         label="Background"
-                                        placeholder="e.g., Guild Mechanist, Street Urchin, Noble"
-                                        value={background}
-                                        onValueChange={setBackground}
+                                        placeholder="Choose a background"
+                                        selectedKeys={backgroundId ? [backgroundId] : []}
+                                        onChange={(e) => setBackgroundId(e.target.value)}
                                         size="lg"
-                                    />
+                                    >
+                                        {[
+                                            ...BACKGROUNDS.map((b) => (
+                                                <SelectItem
+                                                    key={b.id}
+                                                    description={b.skillProficiencies.join(", ")}
+                                                >
+                                                    {b.name}
+                                                </SelectItem>
+                                            )),
+                                            <SelectItem
+                                                key={CUSTOM_BACKGROUND}
+                                                description="Name your own, without proficiencies or gear"
+                                            >
+                                                Custom
+                                            </SelectItem>,
+                                        ]}
+                                    </Select>
+                                    {backgroundId === CUSTOM_BACKGROUND && (
+                                        <Input
+                                            label="Custom Background"
+                                            placeholder="e.g., Guild Mechanist, Street Urchin, Noble"
+                                            value={customBackground}
+                                            onValueChange={setCustomBackground}
+                                            size="lg"
+                                        />
+                                    )}
+                                    {selectedBackground ? (
+                                        <BackgroundDetails background={selectedBackground} />
+                                    ) : (
+                                        <p style={{ fontSize: "0.875rem", opacity: 0.7 }}>
+                                            Your character's background provides context for their
+                                            story, along with skill and tool proficiencies,
+                                            languages, equipment and a background feature. This is
+                                            optional.
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Step: Languages */}
+                            {step === "languages" && (
+                                <div
+                                    style={{
+                                        display: "flex",
+                                        flexDirection: "column",
+                                        gap: "1.5rem",
+                                    }}
+                                >
+                                    <h2 style={{ fontSize: "1.5rem", fontWeight: 600 }}>
+                                        Languages
+                                    </h2>
+                                    <div>
+                                        <strong>Known:</strong> {startingLanguages.join(", ")}
+                                    </div>
+                                    <p style={{ fontSize: "0.875rem", opacity: 0.7 }}>
+                                        Your species, background and Intelligence let you choose{" "}
+                                        {bonusLanguageCount} more{" "}
+                                        {bonusLanguageCount === 1 ? "language" : "languages"}.
+                                        Secret and lost languages can only be learned in play.
+                                    </p>
+                                    <CheckboxGroup
+                                        label={`Bonus languages (${chosenLanguages.length}/${bonusLanguageCount})`}
+                                        value={chosenLanguages}
+                                        onValueChange={(values) =>
+                                            setBonusLanguages(values as Language[])
+                                        }
+                                        isInvalid={chosenLanguages.length > bonusLanguageCount}
+                                    >
+                                        {getLanguageOptions(startingLanguages).map((language) => (
+                                            <Checkbox
+                                                key={language.name}
+                                                value={language.name}
+                                                isDisabled={
+                                                    !chosenLanguages.includes(language.name) &&
+                                                    chosenLanguages.length >= bonusLanguageCount
+                                                }
+                                            >
+                                                {language.name}{" "}
+                                                <span style={{ fontSize: "0.75rem", opacity: 0.7 }}>
+                                                    ({language.script ?? "no script"}
+                                                    {language.dialectOf &&
+                                                        `, dialect of ${language.dialectOf}`}
+                                                    )
+                                                </span>
+                                            </Checkbox>
+                                        ))}
+                                    </CheckboxGroup>
+                                </div>
+                            )}
+
+                            {/* Step: Personality */}
+                            {step === "personality" && (
+                                <div
+                                    style={{
+                                        display: "flex",
+                                        flexDirection: "column",
+                                        gap: "1.5rem",
+                                    }}
+                                >
+                                    <h2 style={{ fontSize: "1.5rem", fontWeight: 600 }}>
+                                        Personality
+                                    </h2>
                                     <p style={{ fontSize: "0.875rem", opacity: 0.7 }}>
-                                        Your character's background provides context for their story
-                                        and skills. This is optional.
+                                        Roll or pick traits, ideals, bonds and flaws from the tables
+                                        for your background and species, or write your own. This is
+                                        optional, and can be changed later on the sheet.
                                     </p>
+                                    <PersonalityPanel
+                                        personality={personality}
+                                        table={getPersonalityTable(
+                                            backgroundId,
+                                            species || undefined
+                                        )}
+                                        onChange={setPersonality}
+                                    />
                                 </div>
                             )}
 
@@ -494,8 +711,21 @@ export function CharacterBuilderPage() {
                                                 )}
                                                 <div>
                                                     <strong>Background:</strong>{" "}
-                                                    {background || "Adventurer"}
+                                                    {selectedBackground?.name ?? background}
                                                 </div>
+                                                <div>
+                                                    <strong>Languages:</strong>{" "}
+                                                    {[
+                                                        ...startingLanguages,
+                                                        ...chosenLanguages,
+                                                    ].join(", ")}
+                                                </div>
+                                                {personality.traits.length > 0 && (
+                                                    <div>
+                                                        <strong>Personality:</strong>{" "}
+                                                        {personality.traits.join(" ")}
+                                                    </div>
+                                                )}
                                                 <div>
                                                     <strong>Ability Scores:</strong>
                                                     <div
@@ -547,7 +777,7 @@ export function CharacterBuilderPage() {
                                     </Card>
                                     <p style={{ fontSize: "0.875rem", opacity: 0.7 }}>
                                         Starting equipment will be automatically added based on your
-                                        class.
+                                        class and background.
                                     </p>
                                 </div>
                             )}
@@ -595,7 +825,7 @@ export function CharacterBuilderPage() {
                         classType={classType}
                         classConfiguration={classConfiguration}
                         abilityScores={abilityScores}
-                        background={background}
+                        background={backgroundId ? background : ""}
                     />
                 </div>
             </div>
@@ -1,8 +1,11 @@
 import { CharacterSheet } from "@/components/character-sheet";
+import { RollLogProvider } from "@/components/roll-log-context";
+import { useCharacterViewModelContext } from "@/model/character-view-model-context";
 import { useParams } from "react-router-dom";
 
 export function CharacterSheetPage() {
     const { id } = useParams<{ id: string }>();
+    const { getCharacter, updateCharacter } = useCharacterViewModelContext();
 
     if (!id) {
         return (
@@ -12,5 +15,12 @@ export function CharacterSheetPage() {
         );
     }
 
-    return <CharacterSheet id={id} />;
+    return (
+        <RollLogProvider
+            roller={getCharacter(id).summary.name}
+            onRoll={(roll) => updateCharacter(id, (vm) => vm.recordRoll(roll))}
+        >
+            <CharacterSheet id={id} />
+        </RollLogProvider>
+    );
 }
@@ -1,3 +1,4 @@
+import { CampaignControls } from "@/components/campaign-controls";
 import { CharacterList } from "@/components/character-list";
 import { useNavigate } from "react-router-dom";
 
@@ -10,6 +11,7 @@ export function CharactersPage() {
 
     return (
         <div style={{ padding: "2rem", maxWidth: "1400px", margin: "0 auto" }}>
+            <CampaignControls />
             <CharacterList onSelectCharacter={handleSelectCharacter} />
         </div>
     );
@@ -0,0 +1,9 @@
+import { EncounterTracker } from "@/components/encounter-tracker";
+
+export function EncounterPage() {
+    return (
+        <div style={{ padding: "2rem", maxWidth: "1400px", margin: "0 auto" }}>
+            <EncounterTracker />
+        </div>
+    );
+}
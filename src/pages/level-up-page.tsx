@@ -0,0 +1,521 @@
+import { ClassLevelConfigurator } from "@/components/class-level-configurator";
+import { ABILITY_SCORE_IMPROVEMENT_LEVELS, CLASSES, FEATS, FEATS_BY_ID } from "@/data";
+import {
+    calculateProficiencyBonus,
+    canMulticlassInto,
+    formatFeatPrerequisite,
+    formatModifier,
+    formatMulticlassPrerequisite,
+    meetsFeatPrerequisite,
+} from "@/model/character-utils";
+import { useCharacterViewModelContext } from "@/model/character-view-model-context";
+import { rollDie } from "@/model/dice-utils";
+import type { LevelUpOptions } from "@/model/mutable-character-view-model";
+import type { AbilityScores, ClassConfiguration, ClassType } from "@/types";
+import { Button, Card, CardBody, CardHeader, Chip, Select, SelectItem } from "@heroui/react";
+import { useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+
+type LevelUpStep = "class" | "hit-points" | "ability-scores" | "class-configuration" | "review";
+
+const ABILITIES: (keyof AbilityScores)[] = [
+    "strength",
+    "dexterity",
+    "constitution",
+    "intelligence",
+    "wisdom",
+    "charisma",
+];
+
+export function LevelUpPage() {
+    const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const { getCharacter, updateCharacter } = useCharacterViewModelContext();
+
+    const [step, setStep] = useState<LevelUpStep>("class");
+    const [selectedClass, setSelectedClass] = useState<ClassType>();
+    const [hitPointRoll, setHitPointRoll] = useState<number>();
+    const [ability1, setAbility1] = useState<keyof AbilityScores | "">("");
+    const [ability2, setAbility2] = useState<keyof AbilityScores | "">("");
+    const [takeFeat, setTakeFeat] = useState(false);
+    const [featId, setFeatId] = useState("");
+    const [featAbility, setFeatAbility] = useState<keyof AbilityScores | "">("");
+    const [classConfiguration, setClassConfiguration] = useState<Partial<ClassConfiguration>>({});
+    const [isConfigurationValid, setIsConfigurationValid] = useState(false);
+
+    const viewModel = id ? getCharacter(id) : undefined;
+    const character = viewModel?.toCharacter();
+    // The configurator re-fetches its options whenever the character changes; the stored
+    // classes, ability scores and spells keep their identity between renders
+    const configuredCharacter = useMemo(
+        () => viewModel?.toCharacter(),
+        [character?.classes, character?.abilityScores, character?.spells]
+    );
+    const classType = selectedClass ?? character?.classes[0]?.class;
+    const currentClass = character?.classes.find((c) => c.class === classType);
+    const newLevel = (character?.level ?? 0) + 1;
+    const classLevel = (currentClass?.level ?? 0) + 1;
+
+    // Start from the current subclass with no spells picked yet; the configurator re-fetches
+    // its options whenever this changes, so keep it stable
+    const existingConfig = useMemo<ClassConfiguration | undefined>(
+        () =>
+            classType && {
+                classType,
+                level: classLevel,
+                subclass: currentClass?.subclass,
+                featureChoices: {},
+                spellsSelected: [],
+                proficienciesSelected: [],
+            },
+        [classType, classLevel, currentClass?.subclass]
+    );
+
+    if (!id || !viewModel || !character || !classType) {
+        return (
+            <div style={{ padding: "2rem", textAlign: "center" }}>
+                <p>Character not found</p>
+            </div>
+        );
+    }
+
+    if (character.level >= 20) {
+        return (
+            <div style={{ padding: "2rem", textAlign: "center" }}>
+                <p>{character.name} is already level 20</p>
+            </div>
+        );
+    }
+
+    const classData = CLASSES.find((c) => c.type === classType);
+    const hitDie = classData ? parseInt(classData.hitDie.substring(2)) : 6; // "1d8" -> 8
+    const averageRoll = Math.floor(hitDie / 2) + 1;
+    const conModifier = viewModel.abilityScores.constitution.modifier;
+    const hitPointIncrease = (hitPointRoll ?? averageRoll) + Math.max(conModifier, 0);
+    const oldProficiencyBonus = calculateProficiencyBonus(character.level);
+    const newProficiencyBonus = calculateProficiencyBonus(newLevel);
+    const grantsAbilityScoreImprovement = ABILITY_SCORE_IMPROVEMENT_LEVELS.includes(classLevel);
+
+    const subclassType = classConfiguration.subclass ?? currentClass?.subclass;
+    const subclass = classData?.subclasses.find((s) => s.type === subclassType);
+    const feat = takeFeat ? FEATS_BY_ID[featId] : undefined;
+    const featAbilityChoices = feat?.effects.abilityScoreIncrease || [];
+    const featuresGained = [...(classData?.features || []), ...(subclass?.features || [])].filter(
+        (feature) => feature.level === classLevel
+    );
+
+    const steps: { key: LevelUpStep; label: string }[] = [
+        { key: "class", label: "Class" },
+        { key: "hit-points", label: "Hit Points" },
+        ...(grantsAbilityScoreImprovement
+            ? [{ key: "ability-scores" as const, label: "Ability Scores" }]
+            : []),
+        { key: "class-configuration", label: "Configuration" },
+        { key: "review", label: "Review" },
+    ];
+
+    const currentStepIndex = steps.findIndex((s) => s.key === step);
+
+    const handleNext = () => {
+        if (currentStepIndex < steps.length - 1) {
+            setStep(steps[currentStepIndex + 1]!.key);
+        }
+    };
+
+    const handleBack = () => {
+        if (currentStepIndex > 0) {
+            setStep(steps[currentStepIndex - 1]!.key);
+        }
+    };
+
+    // A single ability improvement counts twice: +2 to one ability score
+    const options: LevelUpOptions = {
+        classType,
+        hitPointRoll,
+        abilityScoreImprovement:
+            grantsAbilityScoreImprovement && !takeFeat && ability1
+                ? { ability1, ability2: ability2 || ability1 }
+                : undefined,
+        feat:
+            grantsAbilityScoreImprovement && feat
+                ? { featId: feat.id, ability: featAbility || featAbilityChoices[0] }
+                : undefined,
+        classConfiguration: {
+            ...classConfiguration,
+            classType,
+            level: classLevel,
+            featureChoices: classConfiguration.featureChoices || {},
+        },
+    };
+
+    // Preview the level up on a copy for the review step
+    const preview = (() => {
+        if (step !== "review") return undefined;
+        try {
+            return { character: getCharacter(id).clone().levelUp(options) };
+        } catch (err) {
+            return { error: err instanceof Error ? err.message : "Failed to level up" };
+        }
+    })();
+
+    const handleLevelUp = () => {
+        if (updateCharacter(id, (vm) => vm.levelUp(options))) {
+            navigate(`/characters/${id}`);
+        }
+    };
+
+    const canProceed = () => {
+        switch (step) {
+            case "class":
+                return true;
+            case "hit-points":
+                return true;
+            case "ability-scores":
+                return takeFeat
+                    ? !!feat && (featAbilityChoices.length <= 1 || featAbility !== "")
+                    : ability1 !== "";
+            case "class-configuration":
+                return isConfigurationValid;
+            case "review":
+                return true;
+            default:
+                return false;
+        }
+    };
+
+    return (
+        <div style={{ padding: "2rem", maxWidth: "1400px", margin: "0 auto" }}>
+            <Card>
+                <CardHeader>
+                    <div style={{ width: "100%" }}>
+                        <h1 style={{ fontSize: "2rem", fontWeight: 700, marginBottom: "1rem" }}>
+                            Level Up {character.name}
+                        </h1>
+                        <p style={{ marginBottom: "1rem", color: "var(--heroui-default-500)" }}>
+                            Level {character.level} → {newLevel}, {classType} {classLevel - 1} →{" "}
+                            {classLevel}
+                        </p>
+                        {/* Progress Steps */}
+                        <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+                            {steps.map((s, idx) => (
+                                <Chip
+                                    key={s.key}
+                                    color={
+                                        idx < currentStepIndex
+                                            ? "success"
+                                            : idx === currentStepIndex
+                                              ? "primary"
+                                              : "default"
+                                    }
+                                    variant={idx === currentStepIndex ? "solid" : "flat"}
+                                    size="sm"
+                                >
+                                    {idx + 1}. {s.label}
+                                </Chip>
+                            ))}
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardBody>
+                    <div style={{ minHeight: "400px", padding: "1rem" }}>
+                        {/* Step: Class */}
+                        {step === "class" && (
+                            <div
+                                style={{ display: "flex", flexDirection: "column", gap: "1.5rem" }}
+                            >
+                                <h2 style={{ fontSize: "1.5rem", fontWeight: 600 }}>
+                                    Choose Class
+                                </h2>
+                                <p>
+                                    Advance a class you already have, or multiclass into a new one.
+                                    Multiclassing requires the prerequisites of the new class and
+                                    every class you have.
+                                </p>
+                                <Select
+                                    label="Class"
+                                    selectedKeys={[classType]}
+                                    disabledKeys={CLASSES.filter(
+                                        (c) =>
+                                            !character.classes.some(
+                                                (cls) => cls.class === c.type
+                                            ) && !canMulticlassInto(character, c.type)
+                                    ).map((c) => c.type)}
+                                    onChange={(e) =>
+                                        e.target.value &&
+                                        setSelectedClass(e.target.value as ClassType)
+                                    }
+                                >
+                                    {CLASSES.map((c) => {
+                                        const level = character.classes.find(
+                                            (cls) => cls.class === c.type
+                                        )?.level;
+                                        return (
+                                            <SelectItem
+                                                key={c.type}
+                                                description={
+                                                    level
+                                                        ? `Level ${level}`
+                                                        : `Multiclass: ${formatMulticlassPrerequisite(c.type)}`
+                                                }
+                                            >
+                                                {c.type}
+                                            </SelectItem>
+                                        );
+                                    })}
+                                </Select>
+                            </div>
+                        )}
+
+                        {/* Step: Hit Points */}
+                        {step === "hit-points" && (
+                            <div
+                                style={{ display: "flex", flexDirection: "column", gap: "1.5rem" }}
+                            >
+                                <h2 style={{ fontSize: "1.5rem", fontWeight: 600 }}>Hit Points</h2>
+                                <p>
+                                    Roll your hit die (d{hitDie}) or take the average ({averageRoll}
+                                    ), then add your Constitution modifier (
+                                    {formatModifier(conModifier)}).
+                                </p>
+                                <div style={{ display: "flex", gap: "0.5rem" }}>
+                                    <Button
+                                        color={hitPointRoll !== undefined ? "primary" : "default"}
+                                        variant="flat"
+                                        onPress={() => setHitPointRoll(rollDie(hitDie))}
+                                    >
+                                        {hitPointRoll !== undefined ? "Reroll" : "Roll"} d{hitDie}
+                                    </Button>
+                                    <Button
+                                        color={hitPointRoll === undefined ? "primary" : "default"}
+                                        variant="flat"
+                                        onPress={() => setHitPointRoll(undefined)}
+                                    >
+                                        Take Average
+                                    </Button>
+                                </div>
+                                <p style={{ fontSize: "1.25rem", fontWeight: 600 }}>
+                                    {hitPointRoll !== undefined
+                                        ? `Rolled ${hitPointRoll}`
+                                        : `Average ${averageRoll}`}{" "}
+                                    → +{hitPointIncrease} maximum HP
+                                </p>
+                            </div>
+                        )}
+
+                        {/* Step: Ability Scores */}
+                        {step === "ability-scores" && (
+                            <div
+                                style={{ display: "flex", flexDirection: "column", gap: "1.5rem" }}
+                            >
+                                <h2 style={{ fontSize: "1.5rem", fontWeight: 600 }}>
+                                    Ability Score Improvement
+                                </h2>
+                                <p>
+                                    Increase one ability score by 2, or two ability scores by 1, or
+                                    take a feat instead. Ability scores cannot exceed 20.
+                                </p>
+                                <div style={{ display: "flex", gap: "0.5rem" }}>
+                                    <Button
+                                        color={!takeFeat ? "primary" : "default"}
+                                        variant="flat"
+                                        onPress={() => setTakeFeat(false)}
+                                    >
+                                        Ability Score Improvement
+                                    </Button>
+                                    <Button
+                                        color={takeFeat ? "primary" : "default"}
+                                        variant="flat"
+                                        onPress={() => setTakeFeat(true)}
+                                    >
+                                        Feat
+                                    </Button>
+                                </div>
+
+                                {!takeFeat ? (
+                                    <div style={{ display: "flex", gap: "0.5rem" }}>
+                                        <Select
+                                            label="First +1"
+                                            selectedKeys={ability1 ? [ability1] : []}
+                                            onChange={(e) =>
+                                                setAbility1(e.target.value as keyof AbilityScores)
+                                            }
+                                        >
+                                            {ABILITIES.map((ability) => (
+                                                <SelectItem key={ability}>{ability}</SelectItem>
+                                            ))}
+                                        </Select>
+                                        <Select
+                                            label="Second +1"
+                                            description="Leave empty to add +2 to the first"
+                                            selectedKeys={ability2 ? [ability2] : []}
+                                            onChange={(e) =>
+                                                setAbility2(e.target.value as keyof AbilityScores)
+                                            }
+                                        >
+                                            {ABILITIES.map((ability) => (
+                                                <SelectItem key={ability}>{ability}</SelectItem>
+                                            ))}
+                                        </Select>
+                                    </div>
+                                ) : (
+                                    <div style={{ display: "flex", gap: "0.5rem" }}>
+                                        <Select
+                                            label="Feat"
+                                            selectedKeys={featId ? [featId] : []}
+                                            disabledKeys={FEATS.filter(
+                                                (f) =>
+                                                    character.feats?.includes(f.id) ||
+                                                    !meetsFeatPrerequisite(f, character)
+                                            ).map((f) => f.id)}
+                                            onChange={(e) => {
+                                                setFeatId(e.target.value);
+                                                setFeatAbility("");
+                                            }}
+                                        >
+                                            {FEATS.map((f) => (
+                                                <SelectItem
+                                                    key={f.id}
+                                                    description={
+                                                        character.feats?.includes(f.id)
+                                                            ? "Already taken"
+                                                            : f.prerequisite
+                                                              ? `Requires ${formatFeatPrerequisite(f)}`
+                                                              : undefined
+                                                    }
+                                                >
+                                                    {f.name}
+                                                </SelectItem>
+                                            ))}
+                                        </Select>
+                                        {featAbilityChoices.length > 1 && (
+                                            <Select
+                                                label="+1 to"
+                                                selectedKeys={featAbility ? [featAbility] : []}
+                                                onChange={(e) =>
+                                                    setFeatAbility(
+                                                        e.target.value as keyof AbilityScores
+                                                    )
+                                                }
+                                            >
+                                                {featAbilityChoices.map((ability) => (
+                                                    <SelectItem key={ability}>{ability}</SelectItem>
+                                                ))}
+                                            </Select>
+                                        )}
+                                    </div>
+                                )}
+                                {feat && <p>{feat.description}</p>}
+                            </div>
+                        )}
+
+                        {/* Step: Class Configuration */}
+                        {step === "class-configuration" && (
+                            <ClassLevelConfigurator
+                                key={classType}
+                                classType={classType}
+                                level={classLevel}
+                                existingConfig={existingConfig}
+                                character={configuredCharacter}
+                                onConfigurationChange={setClassConfiguration}
+                                onValidationChange={setIsConfigurationValid}
+                            />
+                        )}
+
+                        {/* Step: Review */}
+                        {step === "review" && (
+                            <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+                                <h2 style={{ fontSize: "1.5rem", fontWeight: 600 }}>
+                                    Level {newLevel} ({classType} {classLevel})
+                                </h2>
+                                {preview?.character && (
+                                    <div>
+                                        <strong>Hit Points:</strong> +
+                                        {preview.character.hitPoints.maximum -
+                                            character.hitPoints.maximum}{" "}
+                                        (maximum {preview.character.hitPoints.maximum})
+                                    </div>
+                                )}
+                                {preview?.error && (
+                                    <div style={{ color: "var(--heroui-danger)" }}>
+                                        {preview.error}
+                                    </div>
+                                )}
+                                {newProficiencyBonus !== oldProficiencyBonus && (
+                                    <div>
+                                        <strong>Proficiency Bonus:</strong>{" "}
+                                        {formatModifier(oldProficiencyBonus)} →{" "}
+                                        {formatModifier(newProficiencyBonus)}
+                                    </div>
+                                )}
+                                {options.abilityScoreImprovement && (
+                                    <div>
+                                        <strong>Ability Scores:</strong> {ability1} +
+                                        {ability2 && ability2 !== ability1 ? 1 : 2}
+                                        {ability2 && ability2 !== ability1 && `, ${ability2} +1`}
+                                    </div>
+                                )}
+                                {options.feat && feat && (
+                                    <div>
+                                        <strong>Feat:</strong> {feat.name}
+                                        {options.feat.ability && ` (${options.feat.ability} +1)`}
+                                    </div>
+                                )}
+                                {subclassType !== currentClass?.subclass && (
+                                    <div>
+                                        <strong>Subclass:</strong> {subclassType}
+                                    </div>
+                                )}
+                                <div>
+                                    <strong>Features Gained:</strong>
+                                    {featuresGained.length === 0 ? (
+                                        <span> None</span>
+                                    ) : (
+                                        <ul style={{ marginTop: "0.5rem", paddingLeft: "1.5rem" }}>
+                                            {featuresGained.map((feature) => (
+                                                <li key={feature.name}>
+                                                    <strong>{feature.name}</strong> —{" "}
+                                                    {feature.description}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Navigation Buttons */}
+                    <div
+                        style={{
+                            display: "flex",
+                            justifyContent: "space-between",
+                            marginTop: "2rem",
+                            paddingTop: "1rem",
+                            borderTop: "1px solid var(--heroui-divider)",
+                        }}
+                    >
+                        <Button
+                            variant="flat"
+                            onPress={
+                                currentStepIndex === 0
+                                    ? () => navigate(`/characters/${id}`)
+                                    : handleBack
+                            }
+                        >
+                            {currentStepIndex === 0 ? "Cancel" : "Back"}
+                        </Button>
+                        {step !== "review" ? (
+                            <Button color="primary" onPress={handleNext} isDisabled={!canProceed()}>
+                                Next
+                            </Button>
+                        ) : (
+                            <Button color="success" onPress={handleLevelUp}>
+                                Complete Level Up
+                            </Button>
+                        )}
+                    </div>
+                </CardBody>
+            </Card>
+        </div>
+    );
+}
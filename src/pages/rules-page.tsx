@@ -1,3 +1,5 @@
+import { StatBlock } from "@/components/stat-block";
+import { CREATURES } from "@/data";
 import { Card, CardBody, CardHeader } from "@heroui/react";
 
 export function RulesPage() {
@@ -25,6 +27,25 @@ export function RulesPage() {
                     </div>
                 </CardBody>
             </Card>
+
+            <Card style={{ marginTop: "1.5rem" }}>
+                <CardHeader>
+                    <h2 style={{ fontSize: "1.5rem", fontWeight: 700 }}>Bestiary</h2>
+                </CardHeader>
+                <CardBody>
+                    <div
+                        style={{
+                            display: "grid",
+                            gridTemplateColumns: "repeat(auto-fill, minmax(400px, 1fr))",
+                            gap: "1rem",
+                        }}
+                    >
+                        {CREATURES.map((creature) => (
+                            <StatBlock key={creature.id} creature={creature} />
+                        ))}
+                    </div>
+                </CardBody>
+            </Card>
         </div>
     );
 }
@@ -0,0 +1,93 @@
+import { DEFAULT_CAMPAIGN_SETTINGS } from "@/data";
+import type { CampaignSettings } from "@/types";
+import { StorageError } from "./character-storage-service";
+
+/**
+ * Schema version for localStorage data structure.
+ * Increment this when making breaking changes to the storage format.
+ */
+const CURRENT_VERSION = 1;
+
+/**
+ * Key used to store the campaign settings in localStorage.
+ */
+const STORAGE_KEY = "hollowgear:campaign";
+
+/**
+ * Structure of data stored in localStorage.
+ */
+interface StoredData {
+    version: number;
+    settings: CampaignSettings;
+    lastModified: string; // ISO timestamp
+}
+
+/**
+ * Service for persisting campaign-wide settings, such as XP or milestone progression,
+ * to localStorage.
+ */
+export class CampaignSettingsStorageService {
+    /**
+     * Save the campaign settings to localStorage.
+     * @param settings - Settings to persist
+     * @throws {StorageError} If save fails (e.g., quota exceeded)
+     */
+    saveSettings(settings: CampaignSettings): void {
+        try {
+            const data: StoredData = {
+                version: CURRENT_VERSION,
+                settings,
+                lastModified: new Date().toISOString(),
+            };
+
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+        } catch (error) {
+            throw new StorageError("Failed to save campaign settings to localStorage", error);
+        }
+    }
+
+    /**
+     * Load the campaign settings from localStorage.
+     * @returns The saved settings, or the defaults if no valid settings exist
+     */
+    loadSettings(): CampaignSettings {
+        try {
+            const raw = localStorage.getItem(STORAGE_KEY);
+
+            if (!raw) {
+                return DEFAULT_CAMPAIGN_SETTINGS;
+            }
+
+            const data = JSON.parse(raw) as unknown;
+
+            if (!this.isValidStoredData(data) || data.version !== CURRENT_VERSION) {
+                console.warn("Invalid campaign settings in localStorage. Using defaults.");
+                return DEFAULT_CAMPAIGN_SETTINGS;
+            }
+
+            return data.settings;
+        } catch (error) {
+            console.error("Failed to parse campaign settings:", error);
+            return DEFAULT_CAMPAIGN_SETTINGS;
+        }
+    }
+
+    /**
+     * Type guard to validate StoredData structure.
+     */
+    private isValidStoredData(data: unknown): data is StoredData {
+        if (typeof data !== "object" || data === null) {
+            return false;
+        }
+
+        const obj = data as Record<string, unknown>;
+        const settings = obj.settings as Record<string, unknown> | null;
+
+        return (
+            typeof obj.version === "number" &&
+            typeof settings === "object" &&
+            settings !== null &&
+            (settings.progression === "Experience" || settings.progression === "Milestone")
+        );
+    }
+}
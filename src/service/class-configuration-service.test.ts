@@ -99,6 +99,29 @@ describe("ClassConfigurationService", () => {
             expect(options.spellSelection?.availableSpells.length).toBeGreaterThan(0);
         });
 
+        it("should only offer the spells a leveling character gains", () => {
+            const character = createTestCharacter();
+            character.spells = [
+                "Fire Bolt",
+                "Gust",
+                "Mage Hand",
+                "Magic Missile",
+                "Shield",
+                "Burning Hands",
+                "Thunderwave",
+                "Fog Cloud",
+                "Detect Magic",
+            ];
+
+            const options = service.getAvailableOptions("Arcanist", 2, undefined, character);
+
+            expect(options.spellSelection?.cantripsKnown).toBe(0);
+            expect(options.spellSelection?.spellsKnown).toBe(2);
+            expect(options.spellSelection?.maxSpellLevel).toBe(1);
+            expect(options.spellSelection?.availableSpells).not.toContain("Magic Missile");
+            expect(options.spellSelection?.availableSpells).toContain("Faerie Fire");
+        });
+
         it("should throw error for invalid class type", () => {
             expect(() => {
                 service.getAvailableOptions("InvalidClass" as ClassType, 1);
@@ -200,6 +223,115 @@ describe("ClassConfigurationService", () => {
         });
     });
 
+    describe("validateConfiguration when leveling up", () => {
+        const createLevelingCharacter = (): Character => ({
+            ...createTestCharacter(),
+            spells: [
+                "Fire Bolt",
+                "Gust",
+                "Mage Hand",
+                "Magic Missile",
+                "Shield",
+                "Burning Hands",
+                "Thunderwave",
+                "Fog Cloud",
+                "Detect Magic",
+            ],
+        });
+
+        it("should validate only the spells gained this level", () => {
+            const config: Partial<ClassConfiguration> = {
+                classType: "Arcanist",
+                level: 2,
+                featureChoices: {},
+                spellsSelected: ["Comprehend Languages", "Faerie Fire"],
+            };
+
+            const result = service.validateConfiguration(
+                "Arcanist",
+                2,
+                config,
+                createLevelingCharacter()
+            );
+
+            expect(result.errors).toEqual([]);
+        });
+
+        it("should cap spells at the highest slot level of the character's classes", () => {
+            const config: Partial<ClassConfiguration> = {
+                classType: "Arcanist",
+                level: 2,
+                featureChoices: {},
+                spellsSelected: ["Comprehend Languages", "Misty Step"],
+            };
+
+            const result = service.validateConfiguration(
+                "Arcanist",
+                2,
+                config,
+                createLevelingCharacter()
+            );
+
+            expect(result.errors).toContain(
+                'Spell "Misty Step" is level 2, but max spell level is 1'
+            );
+        });
+
+        it("should pass the cantrip and spells applyConfiguration learns when multiclassed", () => {
+            const character: Character = {
+                ...createTestCharacter(),
+                classes: [
+                    { level: 2, class: "Templar" },
+                    { level: 3, class: "Arcanist", subclass: "Aethermancer" },
+                ],
+                level: 5,
+                spells: [
+                    "Fire Bolt",
+                    "Gust",
+                    "Mage Hand",
+                    "Magic Missile",
+                    "Shield",
+                    "Burning Hands",
+                    "Faerie Fire",
+                    "Thunderwave",
+                    "Fog Cloud",
+                    "Entangle",
+                    "Detect Magic",
+                    "Comprehend Languages",
+                    "Misty Step",
+                    "Bless",
+                ],
+            };
+            const config: ClassConfiguration = {
+                classType: "Arcanist",
+                level: 4,
+                subclass: "Aethermancer",
+                featureChoices: {},
+                spellsSelected: ["Ray of Frost", "Hold Person", "Scorching Ray"],
+            };
+
+            const result = service.validateConfiguration("Arcanist", 4, config, character);
+            const updatedCharacter = service.applyConfiguration(
+                {
+                    ...character,
+                    classes: [
+                        { level: 2, class: "Templar" },
+                        { level: 4, class: "Arcanist", subclass: "Aethermancer" },
+                    ],
+                },
+                config
+            );
+
+            expect(result.errors).toEqual([]);
+            expect(updatedCharacter.spells).toEqual([
+                ...character.spells,
+                "Ray of Frost",
+                "Hold Person",
+                "Scorching Ray",
+            ]);
+        });
+    });
+
     describe("applyConfiguration", () => {
         it("should apply configuration to character", () => {
             const character = createTestCharacter();
@@ -253,6 +385,22 @@ describe("ClassConfigurationService", () => {
             expect(updatedCharacter.classes[0]?.subclass).toBe("Path of the Echo");
         });
 
+        it("should learn selected spells with the checks of learnSpell", () => {
+            const character = createTestCharacter();
+            character.spells = ["Fire Bolt", "Gust", "Mage Hand"];
+
+            const config: ClassConfiguration = {
+                classType: "Arcanist",
+                level: 1,
+                featureChoices: {},
+                spellsSelected: ["Ray of Frost"],
+            };
+
+            expect(() => service.applyConfiguration(character, config)).toThrow(
+                "already knows 3 cantrips"
+            );
+        });
+
         it("should merge spells without duplicates", () => {
             const character = createTestCharacter();
             character.spells = ["Magic Missile"];
@@ -1,5 +1,7 @@
 import type {
     Character,
+    CharacterClass,
+    Class,
     ClassConfiguration,
     ClassType,
     ConfigurableFeature,
@@ -9,6 +11,14 @@ import type {
 import { CLASSES } from "@/data/classes";
 import { SPELLS_BY_NAME } from "@/data/spells";
 import { SKILLS } from "@/data/skills";
+import { ValidationError } from "@/model/character-utils";
+import {
+    countSpellsKnown,
+    getClassSpellLimits,
+    getMaxSpellLevel,
+    getSpellLearningError,
+    getSpellsLeftToLearn,
+} from "@/model/spell-utils";
 
 // ============================================================================
 // TYPES
@@ -51,11 +61,13 @@ export interface ValidationResult {
 export class ClassConfigurationService {
     /**
      * Get all configurable options for a class at a specific level
+     * When leveling up a character, spell selection covers only the spells gained this level
      */
     getAvailableOptions(
         classType: ClassType,
         level: number,
-        existingConfig?: ClassConfiguration
+        existingConfig?: ClassConfiguration,
+        character?: Character
     ): LevelConfiguration {
         const classData = CLASSES.find((c) => c.type === classType);
         if (!classData) {
@@ -81,7 +93,7 @@ export class ClassConfigurationService {
 
         // Add spell selection if class has spellcasting
         if (classData.spellcasting) {
-            config.spellSelection = this._getSpellSelectionOptions(classData, level);
+            config.spellSelection = this._getSpellSelectionOptions(classData, level, character);
         }
 
         // Add proficiency selection if needed (can be extended based on class features)
@@ -92,11 +104,13 @@ export class ClassConfigurationService {
 
     /**
      * Validate that a configuration is complete and valid
+     * When leveling up a character, only selected spells they don't know yet are validated
      */
     validateConfiguration(
         classType: ClassType,
         level: number,
-        config: Partial<ClassConfiguration>
+        config: Partial<ClassConfiguration>,
+        character?: Character
     ): ValidationResult {
         const errors: string[] = [];
         const warnings: string[] = [];
@@ -107,7 +121,12 @@ export class ClassConfigurationService {
             return { valid: false, errors, warnings };
         }
 
-        const availableOptions = this.getAvailableOptions(classType, level, config as ClassConfiguration);
+        const availableOptions = this.getAvailableOptions(
+            classType,
+            level,
+            config as ClassConfiguration,
+            character
+        );
 
         // Validate subclass selection
         if (availableOptions.requiresSubclass && !config.subclass) {
@@ -145,7 +164,8 @@ export class ClassConfigurationService {
         if (availableOptions.spellSelection && config.spellsSelected) {
             const spellErrors = this._validateSpellSelection(
                 availableOptions.spellSelection,
-                config.spellsSelected
+                config.spellsSelected.filter((spell) => !character?.spells.includes(spell)),
+                this._getClassesAtLevel(classType, level, character)
             );
             errors.push(...spellErrors);
         }
@@ -168,6 +188,7 @@ export class ClassConfigurationService {
 
     /**
      * Apply a configuration to a character
+     * @throws ValidationError if a selected spell can't be learned, with the checks of learnSpell()
      */
     applyConfiguration(character: Character, config: ClassConfiguration): Character {
         // Create a copy of the character
@@ -186,26 +207,26 @@ export class ClassConfigurationService {
         // Add new configuration
         updatedCharacter.classConfigurations.push(config);
 
-        // Update character's class subclass if this is their primary class
-        const primaryClass = updatedCharacter.classes[0];
-        if (primaryClass && primaryClass.class === config.classType && config.subclass) {
-            updatedCharacter.classes = [
-                {
-                    ...primaryClass,
-                    subclass: config.subclass,
-                },
-                ...updatedCharacter.classes.slice(1),
-            ];
+        // Update the subclass of the configured class
+        if (config.subclass) {
+            updatedCharacter.classes = updatedCharacter.classes.map((cls) =>
+                cls.class === config.classType ? { ...cls, subclass: config.subclass } : cls
+            );
         }
 
-        // Apply spell selections
+        // Apply spell selections, learning the ones not already known one at a time
         if (config.spellsSelected && config.spellsSelected.length > 0) {
-            // Merge with existing spells, avoiding duplicates
-            const existingSpells = new Set(updatedCharacter.spells || []);
             for (const spell of config.spellsSelected) {
-                existingSpells.add(spell);
+                if (updatedCharacter.spells.includes(spell)) {
+                    continue;
+                }
+
+                const error = getSpellLearningError(updatedCharacter, spell);
+                if (error) {
+                    throw new ValidationError("spellsSelected", spell, error);
+                }
+                updatedCharacter.spells = [...updatedCharacter.spells, spell];
             }
-            updatedCharacter.spells = Array.from(existingSpells);
         }
 
         // Apply proficiency selections
@@ -268,26 +289,49 @@ export class ClassConfigurationService {
     // PRIVATE HELPER METHODS
     // ========================================================================
 
+    /**
+     * Get a character's classes with one class at a level, or just that class without a character
+     */
+    private _getClassesAtLevel(
+        classType: ClassType,
+        level: number,
+        character?: Character
+    ): CharacterClass[] {
+        const otherClasses = (character?.classes || []).filter((cls) => cls.class !== classType);
+        const currentClass = character?.classes.find((cls) => cls.class === classType);
+        const classAtLevel: CharacterClass = { class: classType, level };
+        if (currentClass?.subclass) {
+            classAtLevel.subclass = currentClass.subclass;
+        }
+        return [...otherClasses, classAtLevel];
+    }
+
     private _getSpellSelectionOptions(
-        classData: { spellcasting?: any; type: ClassType },
-        level: number
+        classData: Class,
+        level: number,
+        character?: Character
     ): SpellSelectionOptions | undefined {
         if (!classData.spellcasting) {
             return undefined;
         }
 
-        const { spellcastingAbility, spellLists, cantripsKnown, spellsKnown } =
-            classData.spellcasting;
+        const { spellcastingAbility, spellLists } = classData.spellcasting;
+        const classes = this._getClassesAtLevel(classData.type, level, character);
+
+        // A character leveling up only picks the spells their new level adds
+        const { cantripsKnown, spellsKnown } = character
+            ? getSpellsLeftToLearn({ ...character, classes })
+            : getClassSpellLimits(classData.spellcasting, level);
 
-        // Determine max spell level based on character level
-        const maxSpellLevel = Math.min(Math.ceil(level / 2), 9);
+        // Determine max spell level from the spell slots the classes grant
+        const maxSpellLevel = getMaxSpellLevel(classes);
 
-        // Get available spells from spell lists
+        // Get available spells from spell lists, leaving out those already known
         const availableSpells = this._getAvailableSpellsForClass(
             classData.type,
             spellLists,
             maxSpellLevel
-        );
+        ).filter((spell) => !character?.spells.includes(spell));
 
         return {
             cantripsKnown,
@@ -319,35 +363,28 @@ export class ClassConfigurationService {
 
     private _validateSpellSelection(
         options: SpellSelectionOptions,
-        selectedSpells: string[]
+        selectedSpells: string[],
+        classes: CharacterClass[]
     ): string[] {
         const errors: string[] = [];
 
-        // Separate cantrips from leveled spells
-        const cantrips = selectedSpells.filter((name) => {
-            const spell = SPELLS_BY_NAME[name];
-            return spell && spell.level === 0;
-        });
-
-        const leveledSpells = selectedSpells.filter((name) => {
-            const spell = SPELLS_BY_NAME[name];
-            return spell && spell.level > 0;
-        });
+        // Count cantrips and the leveled spells that count toward spells known
+        const selected = countSpellsKnown(classes, selectedSpells);
 
         // Validate cantrip count
         if (options.cantripsKnown !== undefined) {
-            if (cantrips.length !== options.cantripsKnown) {
+            if (selected.cantrips !== options.cantripsKnown) {
                 errors.push(
-                    `You must select exactly ${options.cantripsKnown} cantrips (currently ${cantrips.length})`
+                    `You must select exactly ${options.cantripsKnown} cantrips (currently ${selected.cantrips})`
                 );
             }
         }
 
         // Validate spell count
         if (options.spellsKnown !== undefined) {
-            if (leveledSpells.length !== options.spellsKnown) {
+            if (selected.spells !== options.spellsKnown) {
                 errors.push(
-                    `You must select exactly ${options.spellsKnown} spells (currently ${leveledSpells.length})`
+                    `You must select exactly ${options.spellsKnown} spells (currently ${selected.spells})`
                 );
             }
         }
@@ -0,0 +1,101 @@
+import type { Encounter } from "@/types";
+import { StorageError } from "./character-storage-service";
+
+/**
+ * Schema version for localStorage data structure.
+ * Increment this when making breaking changes to the storage format.
+ */
+const CURRENT_VERSION = 1;
+
+/**
+ * Key used to store the current encounter in localStorage.
+ */
+const STORAGE_KEY = "hollowgear:encounter";
+
+/**
+ * Structure of data stored in localStorage.
+ */
+interface StoredData {
+    version: number;
+    encounter: Encounter;
+    lastModified: string; // ISO timestamp
+}
+
+/**
+ * Service for persisting the current encounter to localStorage,
+ * so initiative order survives a page reload mid-combat.
+ */
+export class EncounterStorageService {
+    /**
+     * Save the encounter to localStorage.
+     * @param encounter - Encounter to persist
+     * @throws {StorageError} If save fails (e.g., quota exceeded)
+     */
+    saveEncounter(encounter: Encounter): void {
+        try {
+            const data: StoredData = {
+                version: CURRENT_VERSION,
+                encounter,
+                lastModified: new Date().toISOString(),
+            };
+
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+        } catch (error) {
+            throw new StorageError("Failed to save encounter to localStorage", error);
+        }
+    }
+
+    /**
+     * Load the encounter from localStorage.
+     * @returns The saved encounter, or undefined if no valid encounter exists
+     */
+    loadEncounter(): Encounter | undefined {
+        try {
+            const raw = localStorage.getItem(STORAGE_KEY);
+
+            if (!raw) {
+                return undefined;
+            }
+
+            const data = JSON.parse(raw) as unknown;
+
+            if (!this.isValidStoredData(data) || data.version !== CURRENT_VERSION) {
+                console.warn("Invalid encounter data in localStorage. Starting a new encounter.");
+                return undefined;
+            }
+
+            return data.encounter;
+        } catch (error) {
+            console.error("Failed to parse encounter data:", error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Clear the saved encounter from localStorage.
+     */
+    clear(): void {
+        localStorage.removeItem(STORAGE_KEY);
+    }
+
+    /**
+     * Type guard to validate StoredData structure.
+     */
+    private isValidStoredData(data: unknown): data is StoredData {
+        if (typeof data !== "object" || data === null) {
+            return false;
+        }
+
+        const obj = data as Record<string, unknown>;
+        const encounter = obj.encounter as Record<string, unknown> | null;
+
+        return (
+            typeof obj.version === "number" &&
+            typeof encounter === "object" &&
+            encounter !== null &&
+            Array.isArray(encounter.combatants) &&
+            typeof encounter.round === "number" &&
+            typeof encounter.turnIndex === "number"
+        );
+    }
+}
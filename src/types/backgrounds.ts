@@ -0,0 +1,23 @@
+// ============================================================================
+// BACKGROUNDS
+// ============================================================================
+
+import type { Feature } from "./common";
+import type { Currency } from "./currency";
+import type { Language } from "./languages";
+import type { SkillType, Tool } from "./proficiencies";
+
+export interface Background {
+    id: string;
+    name: string;
+    description: string;
+    skillProficiencies: SkillType[];
+    toolProficiencies: Tool[];
+    languages: Language[]; // learned on top of the species' languages
+    bonusLanguages?: number; // languages of the player's choice
+    equipment: string[]; // equipment IDs
+    currency: Partial<Currency>;
+    feature: BackgroundFeature;
+}
+
+export interface BackgroundFeature extends Feature {}
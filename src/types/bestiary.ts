@@ -0,0 +1,82 @@
+// ============================================================================
+// BESTIARY (Appendix B)
+// ============================================================================
+
+import type { AbilityScores } from "./abilities";
+import type { DamageInfo, DamageType } from "./combat";
+import type { Condition } from "./conditions";
+import type { DiceExpression } from "./dice";
+import type { SkillType } from "./proficiencies";
+
+export type CreatureSize = "Tiny" | "Small" | "Medium" | "Large" | "Huge" | "Gargantuan";
+
+export type CreatureType =
+    "Aberration" | "Beast" | "Construct" | "Elemental" | "Humanoid" | "Monstrosity" | "Undead";
+
+export type AttackKind =
+    "Melee Weapon Attack" | "Ranged Weapon Attack" | "Melee Spell Attack" | "Ranged Spell Attack";
+
+export interface CreatureSpeed {
+    walk: number;
+    fly?: number;
+    climb?: number;
+    swim?: number;
+    burrow?: number;
+    hover?: boolean;
+}
+
+export interface CreatureSenses {
+    darkvision?: number; // in feet
+    blindsight?: number;
+    tremorsense?: number;
+    passivePerception: number;
+}
+
+export interface CreatureAction {
+    name: string;
+    description: string;
+    recharge?: number; // lowest d6 roll that recharges it, e.g. 5 for "Recharge 5–6"
+    attack?: {
+        kind: AttackKind;
+        toHit: number;
+        reach?: number; // in feet
+        range?: number; // in feet
+    };
+    savingThrow?: {
+        ability: keyof AbilityScores;
+        dc: number;
+        halfOnSuccess?: boolean;
+    };
+    damage?: DamageInfo;
+    healing?: DiceExpression;
+}
+
+export interface Creature {
+    id: string;
+    name: string;
+    size: CreatureSize;
+    type: CreatureType;
+    subtype?: string; // e.g., "Former Humanoid", "Part Construct"
+    alignment: string;
+    description: string;
+    armorClass: number;
+    armorDescription?: string; // e.g., "rusted carapace"
+    hitPoints: {
+        average: number;
+        roll: DiceExpression; // e.g., "2d6+4"
+    };
+    speed: CreatureSpeed;
+    abilityScores: AbilityScores;
+    savingThrows?: Partial<Record<keyof AbilityScores, number>>;
+    skills?: Partial<Record<SkillType, number>>;
+    damageResistances?: DamageType[];
+    damageVulnerabilities?: DamageType[];
+    damageImmunities?: DamageType[];
+    conditionImmunities?: (Condition | "Exhaustion")[];
+    senses: CreatureSenses;
+    languages?: string;
+    challengeRating: number; // 0.125, 0.25, 0.5, 1, ...
+    experiencePoints: number;
+    traits: CreatureAction[]; // passive and triggered abilities
+    actions: CreatureAction[];
+}
@@ -0,0 +1,10 @@
+// ============================================================================
+// CAMPAIGN SETTINGS
+// ============================================================================
+
+// How characters advance: by earning experience points, or when the GM says so
+export type ProgressionMode = "Experience" | "Milestone";
+
+export interface CampaignSettings {
+    progression: ProgressionMode;
+}
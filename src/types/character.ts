@@ -4,11 +4,14 @@
 
 import type { AbilityScores } from "./abilities";
 import type { CharacterClass, ClassType, SubclassType } from "./classes";
+import type { HeatSource, OverheatEffect } from "./combat";
 import type { Condition } from "./conditions";
 import type { Currency } from "./currency";
+import type { RollLogEntry } from "./dice";
 import type { Drone } from "./drones";
 import type { InventoryItem, InventoryMod } from "./equipment";
-import type { Language } from "./languages";
+import type { CharacterEvent } from "./events";
+import type { Language, LanguageTraining, TemporaryLanguage } from "./languages";
 import type { Proficiencies, Skills } from "./proficiencies";
 import type { AetherFluxPoints, HitPoints, ResonanceCharges, SpellSlots } from "./resources";
 import type { SpeciesType } from "./species";
@@ -20,16 +23,21 @@ export interface Character {
     species: SpeciesType;
     classes: CharacterClass[];
     level: number; // derived from classes
+    experiencePoints?: number; // total earned; absent = 0
 
     // Core Ability Scores
     abilityScores: AbilityScores;
 
     // Resources
     hitPoints: HitPoints;
+    hitDiceSpent?: Partial<Record<ClassType, number>>; // absent = all hit dice available
     heatPoints: {
         current: number;
         maximum: number; // normally 10
     };
+    heatSources?: HeatSource[]; // Heat gained since the last long rest
+    overheatEffects?: OverheatEffect[]; // Active Overheat Table results
+    concentrationDisadvantage?: string; // what imposes disadvantage on concentration checks until a rest
 
     skills: Skills;
 
@@ -39,7 +47,8 @@ export interface Character {
     currency: Currency;
 
     // Magic & Psionics
-    spells: string[];
+    spells: string[]; // known spells
+    preparedSpells?: string[]; // leveled spells readied on the last long rest (Templar)
     spellSlots?: SpellSlots; // For Arcanist/Templar
     aetherFluxPoints?: AetherFluxPoints; // For Mindweaver/Arcanist
     resonanceCharges?: ResonanceCharges; // For Templar
@@ -57,14 +66,22 @@ export interface Character {
     // Proficiencies & Skills
     proficiencies?: Proficiencies;
     languages: Language[];
+    temporaryLanguages?: TemporaryLanguage[]; // e.g. from a Psionic Imprint
+    languageTraining?: LanguageTraining[]; // languages being learned in downtime
+    feats?: string[]; // feat IDs, in the order taken
 
     // Status Effects
+    // Limited-use features and mods: uses spent since they last recharged
+    featureUsesSpent?: Record<string, number>; // keyed by "<source>:<feature name>"
+    modUsesSpent?: Record<string, number>; // keyed by inventory mod ID
+
     heatStressLevel: number; // 0-4
     exhaustionLevel: number;
     conditions: Condition[];
+    conditionDurations?: Partial<Record<Condition, number>>; // rounds remaining; absent = until removed
 
     // Background & Personality
-    background?: string;
+    background?: string; // background ID from BACKGROUNDS, or a custom background's name
     traits?: string[];
     ideals?: string[];
     bonds?: string[];
@@ -72,6 +89,12 @@ export interface Character {
 
     // Class Configuration
     classConfigurations?: ClassConfiguration[]; // Track choices made at each level
+
+    // Roll Log
+    rollHistory?: RollLogEntry[]; // Most recent rolls, oldest first
+
+    // Timeline
+    timeline?: CharacterEvent[]; // Rests and level-ups, oldest first
 }
 
 // ============================================================================
@@ -33,6 +33,7 @@ export interface Class {
     primaryAbility: keyof AbilityScores;
     hitDie: string;
     primaryResource: ResourceType;
+    multiclassPrerequisite: MulticlassPrerequisite;
     spellcasting?: SpellcastingInfo;
     description: ClassDescription;
     proficiencies?: Proficiencies;
@@ -49,12 +50,22 @@ export type ResourceType =
     | "AdrenalSurges"
     | "None";
 
+export interface MulticlassPrerequisite {
+    abilities: (keyof AbilityScores)[]; // each needs a score of at least 13
+    anyOf?: boolean; // one of the abilities is enough (e.g., Strength or Dexterity)
+}
+
+export type SpellcastingProgression = "Full" | "Half"; // how class levels count toward spell slots
+
 export interface SpellcastingInfo {
     spellcastingAbility: keyof AbilityScores;
+    progression: SpellcastingProgression;
     spellLists: string[]; // e.g., ["Wizard", "Warlock"]
-    cantripsKnown?: number;
-    spellsKnown?: number;
-    spellsPrepared?: number;
+    cantripsKnown?: number; // at 1st level
+    cantripsGainedAt?: number[]; // class levels that each add a cantrip
+    spellsKnown?: number; // at 1st level
+    spellsGainedPerLevel?: number; // spells learned at each class level after 1st
+    spellsPrepared?: number; // added to class level + spellcasting modifier
 }
 
 export type SubclassType =
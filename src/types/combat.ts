@@ -2,7 +2,8 @@
 // COMBAT & HEAT (Chapter 7)
 // ============================================================================
 
-import type { ResourceType } from "./classes";
+import type { ClassType, ResourceType } from "./classes";
+import type { SkillType } from "./proficiencies";
 
 export type ActionType = "Action" | "Bonus Action" | "Reaction";
 export type Die = 1 | 4 | 6 | 8 | 10 | 12 | 20 | 100;
@@ -43,14 +44,112 @@ export interface HeatSource {
     source: string;
     amount: number;
     timestamp?: Date;
+    overheatCheck?: OverheatCheck; // set when this gain triggered an Overheat Check
+}
+
+export type HeatZone = "Safe" | "Danger" | "Overheat";
+
+export type OverheatEffectType =
+    | "SteamLeak"
+    | "PowerFlicker"
+    | "Overpressure"
+    | "PsionicDistortion"
+    | "CoreRupture"
+    | "SystemBurnout";
+
+// A row of the d6 Overheat Table (Chapter 7)
+export interface OverheatTableEntry {
+    roll: number;
+    type: OverheatEffectType;
+    name: string;
+    effect: string;
+    damage?: DamageInfo; // damage taken by the overheating character
+    areaDamage?: {
+        radius: number; // in feet
+        damage: DamageInfo;
+        saveDC: number; // DEX save for half
+    };
+    armorClassPenalty?: number;
 }
 
 export type OverheatResult = {
     roll: number;
     effect: string;
     damage?: DamageInfo;
+    type: OverheatEffectType;
+    name: string;
+    damageTaken?: number;
 };
 
+export interface OverheatCheck {
+    dc: number; // 10 + Heat Points above the threshold
+    roll: number; // natural d20
+    modifier: number; // CON saving throw modifier
+    total: number;
+    success: boolean;
+    result?: OverheatResult; // Overheat Table roll on a failure
+}
+
+// An Overheat Table outcome that persists on the character until repaired
+export interface OverheatEffect {
+    id: string;
+    type: OverheatEffectType;
+    name: string;
+    description: string;
+    armorClassPenalty?: number;
+    inventoryItemId?: string; // jammed weapon
+    modId?: string; // burned out mod
+    timestamp?: Date;
+}
+
+// A level of the long-term Heat Stress Track (Chapter 7)
+export interface HeatStressLevel {
+    level: number;
+    effect: string;
+    skillDisadvantage?: SkillType[];
+    dexterityPenalty?: number;
+    speedPenalty?: number; // in feet
+    exhaustionLevels?: number;
+    malfunctionEachCombat?: boolean;
+    armorShutdown?: boolean;
+}
+
+// Cumulative effects of every Heat Stress level reached
+export interface HeatStressPenalties {
+    level: number;
+    effects: string[];
+    skillDisadvantage: SkillType[];
+    dexterityPenalty: number;
+    speedPenalty: number;
+    exhaustionLevels: number;
+    malfunctionEachCombat: boolean;
+    armorShutdown: boolean;
+}
+
+export type OverclockType =
+    | "Weapon"
+    | "Armor"
+    | "Mod"
+    | "PsionicChannel"
+    | "Formula" // Arcanist Overclocking
+    | "Overchannel"; // Templar Faith Feedback
+
+export interface OverclockRule {
+    type: OverclockType;
+    name: string;
+    effect: string;
+    heatGenerated: number;
+    bonusDamage?: Rollable; // extra damage on the next attack
+    armorClassBonus?: number;
+    selfDamage?: DamageInfo;
+    resourceCost?: number; // extra AFP or RC for the casting
+    spellBonus?: number; // to the spell attack roll or save DC
+    hitPointsPerLevel?: number; // HP burned per spell level when out of RC
+    feedbackDC?: number; // Faith Feedback check DC, before adding the spell's level
+    feedbackHeat?: Rollable; // heat gained on a failed Faith Feedback check
+    safeUses?: { source: ClassType; feature: string }; // class feature granting risk-free uses
+}
+
 export interface CombatAction {
     type: CombatActionType;
     name: string;
@@ -2,6 +2,8 @@
 // CONDITIONS & STATUS EFFECTS
 // ============================================================================
 
+import type { AbilityScores } from "./abilities";
+
 export type Condition =
     | "Blinded"
     | "Charmed"
@@ -20,3 +22,73 @@ export type Condition =
     | "Overheated"
     | "HeatStressed" // Hollowgear-specific
     | "PsionicFeedback";
+
+export type RollAdjustment = "Advantage" | "Disadvantage";
+
+// Mechanical effects of a condition on the creature that has it
+export interface ConditionEffects {
+    attackRolls?: RollAdjustment; // the creature's own attack rolls
+    attacksAgainst?: RollAdjustment; // attack rolls made against the creature
+    abilityChecks?: RollAdjustment; // including skill checks
+    savingThrows?: Partial<Record<keyof AbilityScores, RollAdjustment>>;
+    autoFailSaves?: (keyof AbilityScores)[];
+    speedZero?: boolean;
+    incapacitated?: boolean; // can't take actions or reactions
+    cannotCastSpells?: boolean;
+    cannotManifestPowers?: boolean;
+    cannotOverclock?: boolean;
+}
+
+export interface ConditionDefinition {
+    condition: Condition;
+    description: string;
+    effects: ConditionEffects;
+}
+
+// Advantage and disadvantage from every source, which cancel out when both apply
+export interface RollAdjustmentSources {
+    advantage: boolean;
+    disadvantage: boolean;
+}
+
+// Combined effects of all of a character's conditions
+export interface CombinedConditionEffects {
+    attackRolls: RollAdjustmentSources;
+    attacksAgainst: RollAdjustmentSources;
+    abilityChecks: RollAdjustmentSources;
+    savingThrows: Record<keyof AbilityScores, RollAdjustmentSources>;
+    autoFailSaves: (keyof AbilityScores)[];
+    speedZero: boolean;
+    incapacitated: boolean;
+    cannotCastSpells: boolean;
+    cannotManifestPowers: boolean;
+    cannotOverclock: boolean;
+}
+
+// ============================================================================
+// EXHAUSTION
+// ============================================================================
+
+// A level of exhaustion; each level includes the effects below it
+export interface ExhaustionLevel {
+    level: number;
+    effect: string;
+    abilityCheckDisadvantage?: boolean;
+    speedHalved?: boolean;
+    attackAndSaveDisadvantage?: boolean;
+    hitPointMaximumHalved?: boolean;
+    speedZero?: boolean;
+    dead?: boolean;
+}
+
+// Cumulative effects of every exhaustion level reached
+export interface ExhaustionPenalties {
+    level: number;
+    effects: string[];
+    abilityCheckDisadvantage: boolean;
+    speedHalved: boolean;
+    attackAndSaveDisadvantage: boolean;
+    hitPointMaximumHalved: boolean;
+    speedZero: boolean;
+    dead: boolean;
+}
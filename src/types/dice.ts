@@ -0,0 +1,95 @@
+// ============================================================================
+// DICE EXPRESSIONS
+// ============================================================================
+
+/**
+ * Dice notation string, e.g. "2d6+1d4+3", "4d6kh3", "1d20adv", "1d6r1", "3d6!"
+ */
+export type DiceExpression = string;
+
+export type RollMode = "Normal" | "Advantage" | "Disadvantage";
+
+export type DiceComparison = "=" | "<=" | ">=";
+
+export interface DiceCondition {
+    comparison: DiceComparison;
+    value: number;
+}
+
+export interface DiceTerm {
+    kind: "dice";
+    sign: 1 | -1;
+    count: number; // number of dice
+    sides: number; // faces per die (any positive integer, d% = 100)
+    keep?: {
+        type: "highest" | "lowest";
+        count: number;
+    };
+    rollMode?: RollMode; // "adv"/"dis": roll the dice twice, keep the better/worse half
+    reroll?: DiceCondition & {
+        once: boolean; // "ro" rerolls a die once, "r" rerolls until it no longer matches
+    };
+    explode?: DiceCondition; // "!" rolls an extra die whenever a die matches (default: max face)
+}
+
+export interface ModifierTerm {
+    kind: "modifier";
+    sign: 1 | -1;
+    value: number;
+}
+
+export type DiceExpressionTerm = DiceTerm | ModifierTerm;
+
+export interface ParsedDiceExpression {
+    expression: DiceExpression; // normalized notation
+    terms: DiceExpressionTerm[];
+}
+
+export interface DieResult {
+    value: number; // final face value
+    dropped: boolean; // discarded by keep/drop or advantage
+    rerolls: number[]; // earlier values replaced by rerolls, oldest first
+    exploded: boolean; // added by an exploding die
+}
+
+export interface DiceTermResult {
+    term: DiceExpressionTerm;
+    notation: string;
+    dice: DieResult[];
+    total: number; // signed contribution to the expression total
+}
+
+export interface DiceRollResult {
+    expression: DiceExpression;
+    terms: DiceTermResult[];
+    total: number;
+}
+
+export interface D20RollResult extends DiceRollResult {
+    mode: RollMode;
+    natural: number; // the kept d20 before modifiers
+    criticalHit: boolean; // natural 20
+    criticalMiss: boolean; // natural 1
+}
+
+export interface AttackRollResult {
+    attack: D20RollResult;
+    damage?: DiceRollResult; // omitted on a natural 1; dice doubled on a natural 20
+}
+
+// ============================================================================
+// ROLL LOG
+// ============================================================================
+
+export type RollType =
+    "Attack" | "Damage" | "Skill Check" | "Saving Throw" | "Healing" | "Hit Points" | "Other";
+
+export interface RollLogEntry {
+    id: string;
+    timestamp: Date;
+    roller: string; // who rolled (character or drone name)
+    rollType: RollType;
+    title: string; // what was rolled
+    results: DiceRollResult[]; // re-rolled from each result's expression
+    total: number;
+}
@@ -2,8 +2,9 @@
 // ARTIFEX DRONES (Chapter 13)
 // ============================================================================
 
-import type { DamageInfo, Rollable } from "./combat";
+import type { DamageInfo } from "./combat";
 import type { Feature } from "./common";
+import type { DiceExpression } from "./dice";
 import type { HitPoints } from "./resources";
 
 export type DroneSize = "Tiny" | "Small";
@@ -30,7 +31,7 @@ export interface DroneStats {
     armorClass: number;
     hitPoints: {
         average: number;
-        roll: string; // e.g., "2d6+1"
+        roll: DiceExpression; // e.g., "2d6+1"
     };
     speed: {
         walk: number;
@@ -131,10 +132,10 @@ export interface DroneCraftingRequirements {
 export interface DroneRepair {
     actionType: "Action";
     cost: number; // in Cogs
-    healing: string; // e.g., "1d6"
+    healing: DiceExpression; // e.g., "1d6"
     overclock?: {
         cost: number;
-        healing: Rollable; // e.g., "3d6"
+        healing: DiceExpression; // e.g., "3d6"
         heatGain: number;
     };
 }
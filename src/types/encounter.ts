@@ -0,0 +1,31 @@
+// ============================================================================
+// ENCOUNTERS & INITIATIVE
+// ============================================================================
+
+import type { Condition } from "./conditions";
+import type { HitPoints } from "./resources";
+
+export type CombatantType = "Character" | "Drone" | "Creature";
+
+export interface Combatant {
+    id: string;
+    type: CombatantType;
+    name: string;
+    characterId?: string; // owning character for characters and drones
+    droneId?: string;
+    creatureId?: string; // bestiary creature, for its stat block
+    initiativeModifier: number;
+    initiative?: number; // rolled total; drones still act right after their Artifex
+    armorClass: number;
+    hitPoints?: HitPoints; // tracked here for creatures; characters and drones use their sheet
+    conditions: Condition[];
+    concentration?: string; // what the combatant is concentrating on
+}
+
+export interface Encounter {
+    id: string;
+    name: string;
+    combatants: Combatant[]; // in turn order once initiative is rolled
+    round: number; // 0 before initiative is rolled
+    turnIndex: number; // index into combatants of whose turn it is
+}
@@ -6,21 +6,31 @@ import type { ClassFeature, ClassType } from "./classes";
 import type { SpellSlots } from "./resources";
 
 export interface RestEvent {
+    kind: "Rest";
     type: "short" | "long";
     timestamp: Date;
+    hitDiceSpent?: number; // short rest healing
     resourcesRestored: {
         hitPoints?: number;
-        heatPoints?: number;
-        spellSlots?: Partial<SpellSlots>;
+        hitDice?: number;
+        heatPoints?: number; // Heat vented
+        spellSlots?: Partial<Record<keyof SpellSlots, number>>; // slots regained per level
         aetherFluxPoints?: number;
         resonanceCharges?: number;
+        exhaustionLevels?: number;
+        heatStressLevels?: number;
+        limitedUses?: string[]; // features and mods recharged
     };
 }
 
 export interface LevelUpEvent {
+    kind: "LevelUp";
     newLevel: number;
     classType: ClassType;
     hitPointIncrease: number;
     featuresGained: ClassFeature[];
     timestamp: Date;
 }
+
+// An entry in a character's timeline
+export type CharacterEvent = RestEvent | LevelUpEvent;
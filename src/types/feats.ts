@@ -0,0 +1,33 @@
+// ============================================================================
+// FEATS
+// ============================================================================
+
+import type { AbilityScores } from "./abilities";
+import type { Feature } from "./common";
+import type { SkillType } from "./proficiencies";
+
+export interface FeatPrerequisite {
+    abilityScores?: Partial<Record<keyof AbilityScores, number>>; // minimum scores
+    anyAbility?: boolean; // one of the ability scores is enough
+    spellcasting?: boolean; // requires a spellcasting class
+}
+
+export interface FeatEffects {
+    abilityScoreIncrease?: (keyof AbilityScores)[]; // +1 to one of these, chosen when taken
+    initiativeBonus?: number;
+    speedBonus?: number; // in feet
+    hitPointsPerLevel?: number; // including levels gained before the feat
+    heatCapacityBonus?: number; // added to maximum Heat Points
+    skillProficiency?: SkillType;
+}
+
+export interface Feat extends Feature {
+    id: string;
+    prerequisite?: FeatPrerequisite;
+    effects: FeatEffects;
+}
+
+export interface FeatChoice {
+    featId: string;
+    ability?: keyof AbilityScores; // for feats that increase an ability score
+}
@@ -5,16 +5,23 @@
 
 // Core
 export * from "./abilities";
+export * from "./backgrounds";
 export * from "./character";
 export * from "./common";
 
 // Game Systems
+export * from "./bestiary";
+export * from "./campaign";
 export * from "./classes";
 export * from "./combat";
+export * from "./dice";
 export * from "./drones";
+export * from "./encounter";
 export * from "./equipment";
+export * from "./feats";
 export * from "./mindcraft";
 export * from "./mods";
+export * from "./personality";
 export * from "./resources";
 export * from "./species";
 export * from "./spells";
@@ -2,6 +2,8 @@
 // LANGUAGES (Chapter 10)
 // ============================================================================
 
+import type { Currency } from "./currency";
+
 export type Language =
     | "Common Geartrade"
     | "Old Tongue"
@@ -12,4 +14,61 @@ export type Language =
     | "Aetheric" // Telepathic
     | "Aquan"
     | "Sylvan"
-    | "Guilder's Cant";
+    | "Guilder's Cant"
+    // Regional dialects
+    | "Gearcant"
+    | "Whispercode"
+    | "Shattercant"
+    | "Skystream"
+    // Secret and lost languages
+    | "Architect Glyphs"
+    | "Binary Hymns"
+    | "Vox Mechanica"
+    | "The Silent Tongue";
+
+export type Script =
+    | "Gearscript"
+    | "High Brass"
+    | "Glyphline"
+    | "Featherstroke"
+    | "Scratchcode"
+    | "Runes & Grates"
+    | "Runic Plate";
+
+export type LanguageCategory = "Standard" | "Dialect" | "Secret";
+
+export interface LanguageDefinition {
+    name: Language;
+    category: LanguageCategory;
+    speakers: string;
+    script?: Script; // none for spoken-only and telepathic languages
+    dialectOf?: Language; // a dialect's speakers understand 75% of its base language
+    description: string;
+}
+
+// ============================================================================
+// LANGUAGE LEARNING
+// ============================================================================
+
+export type LanguageLearningMethodType =
+    "Tutored" | "Immersive" | "PsionicImprint" | "AetherCrystal";
+
+export interface LanguageLearningMethod {
+    type: LanguageLearningMethodType;
+    name: string;
+    days: number; // downtime days; 0 for methods that take less than a day
+    cost: Partial<Currency>; // paid when training starts
+    requirement: string;
+    temporaryDays?: number; // the language is forgotten after this many days
+}
+
+export interface LanguageTraining {
+    language: Language;
+    method: LanguageLearningMethodType;
+    daysSpent: number;
+}
+
+export interface TemporaryLanguage {
+    language: Language;
+    expiresAt: Date;
+}
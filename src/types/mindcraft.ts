@@ -15,8 +15,7 @@ export interface MindcraftPower {
     duration?: string;
     concentration?: boolean;
     savingThrow?: {
-        ability: keyof AbilityScores;
-        dc: number;
+        ability: keyof AbilityScores; // DC is the Mindweaver's save DC
     };
     effect: string;
     amplifiable: boolean; // Can spend extra AFP to enhance
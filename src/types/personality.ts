@@ -0,0 +1,8 @@
+// ============================================================================
+// PERSONALITY
+// ============================================================================
+
+export type PersonalityAspect = "traits" | "ideals" | "bonds" | "flaws";
+
+// A character's personality, or a table of options to roll each aspect from
+export type Personality = Record<PersonalityAspect, string[]>;
@@ -2,6 +2,9 @@
 // RESOURCES (Chapters 9, 11)
 // ============================================================================
 
+import type { ClassType } from "./classes";
+import type { Die } from "./combat";
+
 export interface Points {
     current: number;
     maximum: number;
@@ -13,6 +16,12 @@ export interface HitPoints extends Points {
     temporary?: number;
 }
 
+// Hit dice of one class, spent to heal on a short rest (maximum = class level)
+export interface HitDice extends Points {
+    class: ClassType;
+    die: Die;
+}
+
 export interface AetherFluxPoints extends Points {
     current: number;
     maximum: number; // Class Level + Ability Modifier
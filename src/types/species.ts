@@ -23,6 +23,7 @@ export interface Species {
     climbSpeed?: number;
     traits: SpeciesTrait[];
     languages: Language[];
+    bonusLanguages?: number; // languages of the player's choice
 }
 
 export interface SpeciesTrait extends Feature {}
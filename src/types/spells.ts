@@ -30,15 +30,26 @@ export interface Spell {
     heatGenerated?: number;
 
     savingThrow?: {
-        ability: keyof AbilityScores;
-        dc: number;
+        ability: keyof AbilityScores; // DC is the caster's spell save DC
     };
     damage?: DamageInfo; // for spells that deal damage
+    scaling?: SpellScaling; // how the damage grows with caster level or slot level
 
     description: string;
     higherLevels?: string;
 }
 
+// Damage dice a spell gains: cantrips at character level tiers, leveled spells per slot level
+export interface SpellScaling {
+    dice: number; // damage dice added per step
+    bonus?: number; // flat damage added per step, e.g. another Magic Missile dart
+    characterLevels?: number[]; // cantrips: character levels that each add a step
+    slotLevelsPerStep?: number; // leveled spells: slot levels above the spell's per step (default 1)
+}
+
+// How a spell is cast: normally, Overclocked by an Arcanist, or Overchannelled by a Templar
+export type CastingMode = "Normal" | "Overclock" | "Overchannel";
+
 export type SpellEffect =
     | "Attack"
     | "Save"